@@ -5,6 +5,7 @@
 import { expect } from 'vitest';
 import { YNABMCPServer } from '../server/YNABMCPServer.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { TransactionDetail } from 'ynab';
 
 /**
  * Test environment configuration
@@ -183,6 +184,32 @@ export function getErrorMessage(result: CallToolResult): string {
  * @throws If the result has no text content, the text is not a string, or the text cannot be parsed as JSON.
  */
 export function parseToolResult<T = any>(result: CallToolResult): T {
+  const parsed = parseToolPayload<Record<string, unknown> | T>(result);
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    const record = parsed as Record<string, unknown>;
+
+    // Handle backward compatibility - ensure both success and data properties exist
+    if ('data' in record) {
+      // Response already has data property, add success if missing
+      if (!('success' in record)) {
+        return { success: true, ...record } as T;
+      }
+      return parsed as T;
+    }
+
+    // Response doesn't have data property, wrap it and add success
+    return { success: true, data: parsed } as T;
+  }
+  return parsed as T;
+}
+
+/**
+ * Parse the JSON payload of a CallToolResult exactly as the tool returned it,
+ * without the `success`/`data` envelope added by {@link parseToolResult}.
+ *
+ * @throws If the result has no text content or the text cannot be parsed as JSON.
+ */
+export function parseToolPayload<T = any>(result: CallToolResult): T {
   validateToolResult(result);
   const content = result.content[0];
   if (!content || content.type !== 'text') {
@@ -195,28 +222,41 @@ export function parseToolResult<T = any>(result: CallToolResult): T {
   }
 
   try {
-    const parsed = JSON.parse(text) as Record<string, unknown> | T;
-    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
-      const record = parsed as Record<string, unknown>;
-
-      // Handle backward compatibility - ensure both success and data properties exist
-      if ('data' in record) {
-        // Response already has data property, add success if missing
-        if (!('success' in record)) {
-          return { success: true, ...record } as T;
-        }
-        return parsed as T;
-      }
-
-      // Response doesn't have data property, wrap it and add success
-      return { success: true, data: parsed } as T;
-    }
-    return parsed as T;
+    return JSON.parse(text) as T;
   } catch (error) {
     throw new Error(`Failed to parse tool result as JSON: ${error}`);
   }
 }
 
+/**
+ * Build a TransactionDetail fixture with neutral defaults; pass overrides for
+ * the fields a test cares about.
+ */
+export function transactionDetail(overrides: Partial<TransactionDetail> = {}): TransactionDetail {
+  return {
+    id: 'txn-1',
+    date: '2025-01-10',
+    amount: -12000,
+    memo: null,
+    cleared: 'cleared',
+    approved: true,
+    flag_color: null,
+    account_id: 'account-1',
+    account_name: 'Checking',
+    payee_id: null,
+    payee_name: null,
+    category_id: null,
+    category_name: null,
+    transfer_account_id: null,
+    transfer_transaction_id: null,
+    matched_transaction_id: null,
+    import_id: null,
+    deleted: false,
+    subtransactions: [],
+    ...overrides,
+  } as TransactionDetail;
+}
+
 /**
  * Wait for a condition to be true
  */
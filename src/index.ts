@@ -4,6 +4,7 @@
 import 'dotenv/config';
 
 import { YNABMCPServer } from './server/YNABMCPServer.js';
+import { resolveTransportConfig } from './server/config.js';
 import { AuthenticationError, ConfigurationError } from './types/index.js';
 
 /**
@@ -20,7 +21,7 @@ async function gracefulShutdown(signal: string): Promise<void> {
   try {
     if (serverInstance) {
       console.error('Cleaning up server resources...');
-      // The MCP server will handle its own cleanup when the process exits
+      await serverInstance.close();
       serverInstance = null;
     }
 
@@ -90,11 +91,14 @@ async function main(): Promise<void> {
     // Validate startup environment
     validateStartupEnvironment();
 
+    // Resolve transport (stdio by default, HTTP via --transport http or YNAB_MCP_TRANSPORT)
+    const transportConfig = resolveTransportConfig(process.argv.slice(2));
+
     // Create and start server
     serverInstance = new YNABMCPServer();
     console.error('✅ Server instance created successfully');
 
-    await serverInstance.run();
+    await serverInstance.run(transportConfig);
     console.error('✅ YNAB MCP Server started successfully');
   } catch (error) {
     reportError(error);
@@ -17,6 +17,7 @@ import {
   AuthenticationError,
   ConfigurationError,
   ServerConfig,
+  TransportConfig,
   ErrorHandler,
   YNABErrorCode,
   ValidationError,
@@ -40,17 +41,52 @@ import {
   handleCreateTransactions,
   handleCreateReceiptSplitTransaction,
   handleUpdateTransaction,
+  handleUpdateSplitTransaction,
   handleUpdateTransactions,
   handleDeleteTransaction,
+  handleDeleteTransactions,
   ListTransactionsSchema,
   GetTransactionSchema,
   CreateTransactionSchema,
   CreateTransactionsSchema,
   CreateReceiptSplitTransactionSchema,
   UpdateTransactionSchema,
+  UpdateSplitTransactionSchema,
   UpdateTransactionsSchema,
   DeleteTransactionSchema,
+  DeleteTransactionsSchema,
 } from '../tools/transactionTools.js';
+import {
+  handleListScheduledTransactions,
+  handleGetScheduledTransaction,
+  handleCreateScheduledTransaction,
+  handleUpdateScheduledTransaction,
+  handleDeleteScheduledTransaction,
+  ListScheduledTransactionsSchema,
+  GetScheduledTransactionSchema,
+  CreateScheduledTransactionSchema,
+  UpdateScheduledTransactionSchema,
+  DeleteScheduledTransactionSchema,
+} from '../tools/scheduledTransactionTools.js';
+import {
+  handleSearchTransactions,
+  SearchTransactionsSchema,
+} from '../tools/transactionSearchTools.js';
+import {
+  handleCreateTransfer,
+  handleListTransfers,
+  CreateTransferSchema,
+  ListTransfersSchema,
+} from '../tools/transferTools.js';
+import {
+  handleFindDuplicateTransactions,
+  FindDuplicateTransactionsSchema,
+} from '../tools/duplicateTransactionTools.js';
+import { handleParseReceiptText, ParseReceiptTextSchema } from '../tools/receiptParserTools.js';
+import {
+  handleDetectRecurringTransactions,
+  DetectRecurringTransactionsSchema,
+} from '../tools/recurringTransactionTools.js';
 import { handleExportTransactions, ExportTransactionsSchema } from '../tools/exportTransactions.js';
 import {
   handleCompareTransactions,
@@ -64,22 +100,74 @@ import {
   handleListCategories,
   handleGetCategory,
   handleUpdateCategory,
+  handleMoveCategoryFunds,
+  handleAssignBudget,
+  handleUpdateCategoryGoal,
+  handleGoalProgress,
   ListCategoriesSchema,
   GetCategorySchema,
   UpdateCategorySchema,
+  MoveCategoryFundsSchema,
+  AssignBudgetSchema,
+  UpdateCategoryGoalSchema,
+  GoalProgressSchema,
 } from '../tools/categoryTools.js';
+import { handleSuggestCategories, SuggestCategoriesSchema } from '../tools/categorySuggestionTools.js';
+import {
+  handleReviewUnapproved,
+  handleApproveTransactions,
+  ReviewUnapprovedSchema,
+  ApproveTransactionsSchema,
+} from '../tools/approvalTools.js';
+import {
+  handleCreateCategorizationRule,
+  handleListCategorizationRules,
+  handleDeleteCategorizationRule,
+  handleApplyCategorizationRules,
+  CreateCategorizationRuleSchema,
+  ListCategorizationRulesSchema,
+  DeleteCategorizationRuleSchema,
+  ApplyCategorizationRulesSchema,
+} from '../tools/categorizationRuleTools.js';
 import {
   handleListPayees,
   handleGetPayee,
+  handleUpdatePayee,
+  handleMergePayees,
+  handleSuggestPayeeMerges,
   ListPayeesSchema,
   GetPayeeSchema,
+  UpdatePayeeSchema,
+  MergePayeesSchema,
+  SuggestPayeeMergesSchema,
 } from '../tools/payeeTools.js';
+import {
+  handleListRecentChanges,
+  handleUndoChange,
+  ListRecentChangesSchema,
+  UndoChangeSchema,
+} from '../tools/changeJournalTools.js';
 import {
   handleGetMonth,
   handleListMonths,
+  handleCompareMonths,
   GetMonthSchema,
   ListMonthsSchema,
+  CompareMonthsSchema,
 } from '../tools/monthTools.js';
+import {
+  handleSpendingReport,
+  handleIncomeExpenseSummary,
+  SpendingReportSchema,
+  IncomeExpenseSummarySchema,
+} from '../tools/reportTools.js';
+import { handleForecastCashFlow, ForecastCashFlowSchema } from '../tools/cashFlowTools.js';
+import {
+  handleNetWorthHistory,
+  handleAccountBalanceHistory,
+  NetWorthHistorySchema,
+  AccountBalanceHistorySchema,
+} from '../tools/balanceHistoryTools.js';
 import { handleGetUser, handleConvertAmount, ConvertAmountSchema } from '../tools/utilityTools.js';
 import { cacheManager, CacheManager } from './cacheManager.js';
 import { responseFormatter } from './responseFormatter.js';
@@ -90,12 +178,14 @@ import {
   type DefaultArgumentResolver,
   type ToolExecutionPayload,
 } from './toolRegistry.js';
-import { validateEnvironment } from './config.js';
+import { validateEnvironment, resolveTransportConfig } from './config.js';
+import { HttpTransportServer } from './httpTransport.js';
 import { ResourceManager } from './resources.js';
 import { PromptManager } from './prompts.js';
 import { DiagnosticManager } from './diagnostics.js';
 import { ServerKnowledgeStore } from './serverKnowledgeStore.js';
 import { DeltaCache } from './deltaCache.js';
+import { writeJournal } from './writeJournal.js';
 import { DeltaFetcher } from '../tools/deltaFetcher.js';
 
 /**
@@ -116,6 +206,7 @@ export class YNABMCPServer {
   private deltaFetcher: DeltaFetcher;
   private diagnosticManager: DiagnosticManager;
   private errorHandler: ErrorHandler;
+  private httpTransport: HttpTransportServer | undefined;
 
   constructor(exitOnError: boolean = true) {
     this.exitOnError = exitOnError;
@@ -131,21 +222,6 @@ export class YNABMCPServer {
     // Determine server version (prefer package.json)
     this.serverVersion = this.readPackageVersion() ?? '0.0.0';
 
-    // Initialize MCP Server
-    this.server = new Server(
-      {
-        name: 'ynab-mcp-server',
-        version: this.serverVersion,
-      },
-      {
-        capabilities: {
-          tools: {},
-          resources: {},
-          prompts: {},
-        },
-      },
-    );
-
     // Create ErrorHandler instance with formatter injection
     this.errorHandler = createErrorHandler(responseFormatter);
 
@@ -228,7 +304,31 @@ export class YNABMCPServer {
     });
 
     this.setupToolRegistry();
-    this.setupHandlers();
+
+    // Initialize MCP Server
+    this.server = this.createMcpServer();
+  }
+
+  /**
+   * Creates an MCP server wired to the shared tool registry, resources and prompts.
+   * The HTTP transport calls this once per client session.
+   */
+  private createMcpServer(): Server {
+    const server = new Server(
+      {
+        name: 'ynab-mcp-server',
+        version: this.serverVersion,
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {},
+          prompts: {},
+        },
+      },
+    );
+    this.setupHandlers(server);
+    return server;
   }
 
   /**
@@ -255,14 +355,14 @@ export class YNABMCPServer {
   /**
    * Sets up MCP server request handlers
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Handle list resources requests
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       return this.resourceManager.listResources();
     });
 
     // Handle read resource requests
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
       try {
         return await this.resourceManager.readResource(uri);
@@ -272,12 +372,12 @@ export class YNABMCPServer {
     });
 
     // Handle list prompts requests
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
       return this.promptManager.listPrompts();
     });
 
     // Handle get prompt requests
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
       const result = await this.promptManager.getPrompt(name, args);
       // The SDK expects the result to match the protocol's PromptResponse shape
@@ -285,14 +385,14 @@ export class YNABMCPServer {
     });
 
     // Handle list tools requests
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: this.toolRegistry.listTools(),
       };
     });
 
     // Handle tool call requests
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const rawArgs = (request.params.arguments ?? undefined) as
         | Record<string, unknown>
         | undefined;
@@ -357,8 +457,9 @@ export class YNABMCPServer {
           params: TInput,
         ) => Promise<CallToolResult>,
       ) =>
-      async ({ input }: ToolExecutionPayload<TInput>): Promise<CallToolResult> =>
-        handler(this.ynabAPI, this.deltaFetcher, input);
+      async ({ input, context }: ToolExecutionPayload<TInput>): Promise<CallToolResult> =>
+        // Journaled as well because reconcile_account can execute writes
+        handler(writeJournal.wrap(this.ynabAPI, context.name), this.deltaFetcher, input);
 
     const adaptWrite =
       <TInput extends Record<string, unknown>>(
@@ -369,8 +470,13 @@ export class YNABMCPServer {
           params: TInput,
         ) => Promise<CallToolResult>,
       ) =>
-      async ({ input }: ToolExecutionPayload<TInput>): Promise<CallToolResult> =>
-        handler(this.ynabAPI, this.deltaCache, this.serverKnowledgeStore, input);
+      async ({ input, context }: ToolExecutionPayload<TInput>): Promise<CallToolResult> =>
+        handler(
+          writeJournal.wrap(this.ynabAPI, context.name),
+          this.deltaCache,
+          this.serverKnowledgeStore,
+          input,
+        );
 
     const resolveBudgetId = <
       TInput extends { budget_id?: string | undefined },
@@ -513,6 +619,15 @@ export class YNABMCPServer {
       defaultArgumentResolver: resolveBudgetId<z.infer<typeof ListTransactionsSchema>>(),
     });
 
+    register({
+      name: 'search_transactions',
+      description:
+        'Search transactions with structured filters (dates, amount range, payee text/regex, memo, flag, cleared, approved, splits, transfers), sorting and cursor pagination over the cached transaction snapshot',
+      inputSchema: SearchTransactionsSchema,
+      handler: adaptWithDelta(handleSearchTransactions),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof SearchTransactionsSchema>>(),
+    });
+
     register({
       name: 'export_transactions',
       description: 'Export all transactions to a JSON file with descriptive filename',
@@ -575,13 +690,23 @@ export class YNABMCPServer {
 
     register({
       name: 'create_receipt_split_transaction',
-      description: 'Create a split transaction from receipt items with proportional tax allocation',
+      description:
+        'Create a split transaction from receipt items with proportional tax allocation per tax class, item discounts, and tip/fee adjustments',
       inputSchema: CreateReceiptSplitTransactionSchema,
       handler: adaptWrite(handleCreateReceiptSplitTransaction),
       defaultArgumentResolver:
         resolveBudgetId<z.infer<typeof CreateReceiptSplitTransactionSchema>>(),
     });
 
+    register({
+      name: 'parse_receipt_text',
+      description:
+        'Parse pasted or OCR receipt text into merchant, date, items, discounts, tax lines and total, check the arithmetic, and return a create_receipt_split_transaction draft with per-item category suggestions from budget history',
+      inputSchema: ParseReceiptTextSchema,
+      handler: adaptWithDelta(handleParseReceiptText),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof ParseReceiptTextSchema>>(),
+    });
+
     register({
       name: 'update_transaction',
       description: 'Update an existing transaction',
@@ -590,6 +715,15 @@ export class YNABMCPServer {
       defaultArgumentResolver: resolveBudgetId<z.infer<typeof UpdateTransactionSchema>>(),
     });
 
+    register({
+      name: 'update_split_transaction',
+      description:
+        'Split a transaction across categories, change or reorder the lines of an existing split, or collapse a split back to one category. Subtransaction amounts (milliunits) must sum to the transaction amount. Editing an existing split replaces the transaction because the YNAB API cannot modify split lines in place.',
+      inputSchema: UpdateSplitTransactionSchema,
+      handler: adaptWrite(handleUpdateSplitTransaction),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof UpdateSplitTransactionSchema>>(),
+    });
+
     register({
       name: 'delete_transaction',
       description: 'Delete a transaction from the specified budget',
@@ -598,6 +732,94 @@ export class YNABMCPServer {
       defaultArgumentResolver: resolveBudgetId<z.infer<typeof DeleteTransactionSchema>>(),
     });
 
+    register({
+      name: 'delete_transactions',
+      description:
+        'Delete up to 100 transactions by ID list or by filter (account, date range, payee, import_id prefix, cleared status). Run with dry_run=true first to preview; the live run requires the confirmation_token from that preview.',
+      inputSchema: DeleteTransactionsSchema,
+      handler: adaptWrite(handleDeleteTransactions),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof DeleteTransactionsSchema>>(),
+    });
+
+    register({
+      name: 'create_transfer',
+      description:
+        'Transfer money between two accounts. Resolves the transfer payee automatically and applies YNAB category rules: on-budget to tracking transfers need category_id, on-budget to on-budget transfers cannot have one.',
+      inputSchema: CreateTransferSchema,
+      handler: adaptWrite(handleCreateTransfer),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof CreateTransferSchema>>(),
+    });
+
+    register({
+      name: 'list_transfers',
+      description:
+        'List transfers with both sides paired (from/to account, amount, date) and flag orphaned halves whose counterpart is missing or does not match',
+      inputSchema: ListTransfersSchema,
+      handler: adaptWithDelta(handleListTransfers),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof ListTransfersSchema>>(),
+    });
+
+    register({
+      name: 'find_duplicate_transactions',
+      description:
+        'Find likely duplicate transactions (same account and amount, near date, similar payee, manual entry vs import) with a 0-100 score per pair, which side to keep, and ready-to-run update_transactions/delete_transactions follow-ups',
+      inputSchema: FindDuplicateTransactionsSchema,
+      handler: adaptWithDelta(handleFindDuplicateTransactions),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof FindDuplicateTransactionsSchema>>(),
+    });
+
+    register({
+      name: 'list_scheduled_transactions',
+      description:
+        'List scheduled (recurring) transactions for a budget, optionally filtered by account or next due date',
+      inputSchema: ListScheduledTransactionsSchema,
+      handler: adaptWithDelta(handleListScheduledTransactions),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof ListScheduledTransactionsSchema>>(),
+    });
+
+    register({
+      name: 'detect_recurring_transactions',
+      description:
+        'Detect recurring charges and income (weekly, biweekly, monthly, annual) from transaction history: cadence, average and latest amount, price changes, last/next expected date and whether a scheduled transaction already covers it. Set create_scheduled=true (optionally with series_ids and dry_run) to schedule unscheduled active series.',
+      inputSchema: DetectRecurringTransactionsSchema,
+      handler: adaptWrite(handleDetectRecurringTransactions),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof DetectRecurringTransactionsSchema>>(),
+    });
+
+    register({
+      name: 'get_scheduled_transaction',
+      description: 'Get detailed information for a specific scheduled transaction',
+      inputSchema: GetScheduledTransactionSchema,
+      handler: adapt(handleGetScheduledTransaction),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof GetScheduledTransactionSchema>>(),
+    });
+
+    register({
+      name: 'create_scheduled_transaction',
+      description:
+        'Create a scheduled transaction (rent, payroll, subscriptions) with a date and frequency',
+      inputSchema: CreateScheduledTransactionSchema,
+      handler: adaptWrite(handleCreateScheduledTransaction),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof CreateScheduledTransactionSchema>>(),
+    });
+
+    register({
+      name: 'update_scheduled_transaction',
+      description:
+        'Update an existing scheduled transaction. Omitted fields keep their current values.',
+      inputSchema: UpdateScheduledTransactionSchema,
+      handler: adaptWrite(handleUpdateScheduledTransaction),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof UpdateScheduledTransactionSchema>>(),
+    });
+
+    register({
+      name: 'delete_scheduled_transaction',
+      description: 'Delete a scheduled transaction from the specified budget',
+      inputSchema: DeleteScheduledTransactionSchema,
+      handler: adaptWrite(handleDeleteScheduledTransaction),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof DeleteScheduledTransactionSchema>>(),
+    });
+
     register({
       name: 'list_categories',
       description: 'List all categories for a specific budget',
@@ -616,12 +838,110 @@ export class YNABMCPServer {
 
     register({
       name: 'update_category',
-      description: 'Update the budgeted amount for a category in the current month',
+      description:
+        'Update the budgeted amount for a category in a month (defaults to the current month)',
       inputSchema: UpdateCategorySchema,
       handler: adaptWrite(handleUpdateCategory),
       defaultArgumentResolver: resolveBudgetId<z.infer<typeof UpdateCategorySchema>>(),
     });
 
+    register({
+      name: 'move_category_funds',
+      description:
+        'Move budgeted money from one category to another for a month (defaults to the current month). Fails if the source category does not have enough available and rolls back on partial failure.',
+      inputSchema: MoveCategoryFundsSchema,
+      handler: adaptWrite(handleMoveCategoryFunds),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof MoveCategoryFundsSchema>>(),
+    });
+
+    register({
+      name: 'assign_budget',
+      description:
+        'Set budgeted amounts for up to 100 categories in one month. Supports dry_run with a before/after table and reports the Ready to Assign change.',
+      inputSchema: AssignBudgetSchema,
+      handler: adaptWrite(handleAssignBudget),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof AssignBudgetSchema>>(),
+    });
+
+    register({
+      name: 'update_category_goal',
+      description:
+        'Change the target amount (milliunits) of an existing category goal. The YNAB API cannot create or clear goals or change goal type, date or cadence.',
+      inputSchema: UpdateCategoryGoalSchema,
+      handler: adaptWrite(handleUpdateCategoryGoal),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof UpdateCategoryGoalSchema>>(),
+    });
+
+    register({
+      name: 'goal_progress',
+      description:
+        'List underfunded category goals with the amount still needed this month, sorted by urgency',
+      inputSchema: GoalProgressSchema,
+      handler: adaptWithDelta(handleGoalProgress),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof GoalProgressSchema>>(),
+    });
+
+    register({
+      name: 'create_categorization_rule',
+      description:
+        'Create a persistent auto-categorization rule. Conditions: payee_pattern/memo_pattern (case-insensitive regex), amount range in milliunits, account. Actions: category, memo rewrite, flag.',
+      inputSchema: CreateCategorizationRuleSchema,
+      handler: adapt(handleCreateCategorizationRule),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof CreateCategorizationRuleSchema>>(),
+    });
+
+    register({
+      name: 'list_categorization_rules',
+      description: 'List auto-categorization rules for a budget in evaluation order',
+      inputSchema: ListCategorizationRulesSchema,
+      handler: adapt(handleListCategorizationRules),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof ListCategorizationRulesSchema>>(),
+    });
+
+    register({
+      name: 'delete_categorization_rule',
+      description: 'Delete an auto-categorization rule',
+      inputSchema: DeleteCategorizationRuleSchema,
+      handler: adapt(handleDeleteCategorizationRule),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof DeleteCategorizationRuleSchema>>(),
+    });
+
+    register({
+      name: 'apply_categorization_rules',
+      description:
+        'Run auto-categorization rules over uncategorized and/or unapproved transactions. The first matching rule wins. Use dry_run to see which rule matched each transaction.',
+      inputSchema: ApplyCategorizationRulesSchema,
+      handler: adaptWrite(handleApplyCategorizationRules),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof ApplyCategorizationRulesSchema>>(),
+    });
+
+    register({
+      name: 'suggest_categories',
+      description:
+        "Suggest categories for uncategorized transactions from this budget's history (payee, amount, day of month, account). Returns the top 3 candidates with confidence and evidence; set apply=true to categorize those at or above min_confidence.",
+      inputSchema: SuggestCategoriesSchema,
+      handler: adaptWrite(handleSuggestCategories),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof SuggestCategoriesSchema>>(),
+    });
+
+    register({
+      name: 'review_unapproved',
+      description:
+        'List unapproved transactions grouped by account, with a suggested category (from categorization rules, then budget history) and the payee the merchant is usually recorded under',
+      inputSchema: ReviewUnapprovedSchema,
+      handler: adaptWithDelta(handleReviewUnapproved),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof ReviewUnapprovedSchema>>(),
+    });
+
+    register({
+      name: 'approve_transactions',
+      description:
+        'Approve unapproved transactions by ID list or by filter (account, date range, matched by a categorization rule). Set apply_category_suggestions=true to also write the review_unapproved category suggestions in the same batch; use dry_run to preview.',
+      inputSchema: ApproveTransactionsSchema,
+      handler: adaptWrite(handleApproveTransactions),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof ApproveTransactionsSchema>>(),
+    });
+
     register({
       name: 'list_payees',
       description: 'List all payees for a specific budget',
@@ -638,6 +958,50 @@ export class YNABMCPServer {
       defaultArgumentResolver: resolveBudgetId<z.infer<typeof GetPayeeSchema>>(),
     });
 
+    register({
+      name: 'update_payee',
+      description: 'Rename a payee',
+      inputSchema: UpdatePayeeSchema,
+      handler: adaptWrite(handleUpdatePayee),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof UpdatePayeeSchema>>(),
+    });
+
+    register({
+      name: 'merge_payees',
+      description:
+        'Merge duplicate payees by reassigning their transactions and scheduled transactions onto a target payee. Use dry_run to preview the changes grouped by source payee.',
+      inputSchema: MergePayeesSchema,
+      handler: adaptWrite(handleMergePayees),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof MergePayeesSchema>>(),
+    });
+
+    register({
+      name: 'suggest_payee_merges',
+      description:
+        'Find payees that look like the same merchant (ignoring store numbers, card suffixes and city/province tails) and suggest merge clusters with transaction counts, total spend and a confidence score',
+      inputSchema: SuggestPayeeMergesSchema,
+      handler: adaptWithDelta(handleSuggestPayeeMerges),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof SuggestPayeeMergesSchema>>(),
+    });
+
+    register({
+      name: 'list_recent_changes',
+      description:
+        'List recent changes made by write tools in this session, newest first, with the entities each call touched and whether it can be undone',
+      inputSchema: ListRecentChangesSchema,
+      handler: adapt(handleListRecentChanges),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof ListRecentChangesSchema>>(),
+    });
+
+    register({
+      name: 'undo_change',
+      description:
+        'Undo a change from list_recent_changes: deletes created transactions, reverts edited fields and re-creates deleted transactions. Entities modified since are reported as conflicts unless force=true. Use dry_run to preview.',
+      inputSchema: UndoChangeSchema,
+      handler: adaptWrite(handleUndoChange),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof UndoChangeSchema>>(),
+    });
+
     register({
       name: 'get_month',
       description: 'Get budget data for a specific month',
@@ -654,6 +1018,60 @@ export class YNABMCPServer {
       defaultArgumentResolver: resolveBudgetId<z.infer<typeof ListMonthsSchema>>(),
     });
 
+    register({
+      name: 'compare_months',
+      description:
+        'Compare two or more budget months: per-category budgeted/activity/balance changes with percent change, categories that became overspent, and the change in income, to-be-budgeted and age of money',
+      inputSchema: CompareMonthsSchema,
+      handler: adapt(handleCompareMonths),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof CompareMonthsSchema>>(),
+    });
+
+    register({
+      name: 'spending_report',
+      description:
+        "Total spending by category group, category, payee or account over a date range, bucketed by week, month or quarter. Excludes income and transfers between budget accounts, counts split lines separately, nets refunds, and returns MoneyValue totals in the budget's currency.",
+      inputSchema: SpendingReportSchema,
+      handler: adaptWithDelta(handleSpendingReport),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof SpendingReportSchema>>(),
+    });
+
+    register({
+      name: 'forecast_cash_flow',
+      description:
+        'Project account balances day by day for the next N days from current balances, upcoming scheduled transactions (expanded by frequency) and optionally average variable spending. Flags the first day a checking account drops below balance_floor and the scheduled payment that causes it.',
+      inputSchema: ForecastCashFlowSchema,
+      handler: adaptWithDelta(handleForecastCashFlow),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof ForecastCashFlowSchema>>(),
+    });
+
+    register({
+      name: 'net_worth_history',
+      description:
+        'Reconstruct month-end balances for every account by walking transaction history back from current balances, and total them into net worth, assets vs liabilities and on vs off budget for the last N months.',
+      inputSchema: NetWorthHistorySchema,
+      handler: adaptWithDelta(handleNetWorthHistory),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof NetWorthHistorySchema>>(),
+    });
+
+    register({
+      name: 'account_balance_history',
+      description:
+        "Reconstruct one account's daily or month-end balances over a date range from transaction history, with inflows, outflows and the lowest and highest balance.",
+      inputSchema: AccountBalanceHistorySchema,
+      handler: adaptWithDelta(handleAccountBalanceHistory),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof AccountBalanceHistorySchema>>(),
+    });
+
+    register({
+      name: 'income_expense_summary',
+      description:
+        'Monthly income vs expenses with savings rate, rolling 3/6/12-month averages and the categories and payees that changed most from the previous month. Income is Ready to Assign inflows plus inflows from income_payee_ids; transfers and credit card payments are excluded.',
+      inputSchema: IncomeExpenseSummarySchema,
+      handler: adaptWithDelta(handleIncomeExpenseSummary),
+      defaultArgumentResolver: resolveBudgetId<z.infer<typeof IncomeExpenseSummarySchema>>(),
+    });
+
     register({
       name: 'get_user',
       description: 'Get information about the authenticated user',
@@ -730,15 +1148,26 @@ export class YNABMCPServer {
   }
 
   /**
-   * Starts the MCP server with stdio transport
+   * Starts the MCP server with stdio transport, or the HTTP transport when configured
    */
-  async run(): Promise<void> {
+  async run(transportConfig: TransportConfig = resolveTransportConfig()): Promise<void> {
     try {
       // Validate token before starting server
       await this.validateToken();
 
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+      if (transportConfig.type === 'http' && transportConfig.http) {
+        this.httpTransport = new HttpTransportServer({
+          ...transportConfig.http,
+          createServer: () => this.createMcpServer(),
+        });
+        const address = await this.httpTransport.listen();
+        console.error(
+          `YNAB MCP Server listening on http://${transportConfig.http.host}:${address.port}/mcp`,
+        );
+      } else {
+        const transport = new StdioServerTransport();
+        await this.server.connect(transport);
+      }
 
       console.error('YNAB MCP Server started successfully');
     } catch (error) {
@@ -754,6 +1183,17 @@ export class YNABMCPServer {
     }
   }
 
+  /**
+   * Stops the HTTP listener (if running) and closes open MCP sessions
+   */
+  async close(): Promise<void> {
+    if (this.httpTransport) {
+      await this.httpTransport.close();
+      this.httpTransport = undefined;
+    }
+    await this.server.close();
+  }
+
   /**
    * Gets the YNAB API instance (for testing purposes)
    */
@@ -30,20 +30,55 @@ describe('YNABMCPServer', () => {
     'get_account',
     'create_account',
     'list_transactions',
+    'search_transactions',
     'export_transactions',
     'compare_transactions',
     'reconcile_account',
     'get_transaction',
     'create_transaction',
+    'parse_receipt_text',
     'update_transaction',
+    'update_split_transaction',
     'delete_transaction',
+    'delete_transactions',
+    'create_transfer',
+    'list_transfers',
+    'find_duplicate_transactions',
+    'list_scheduled_transactions',
+    'detect_recurring_transactions',
+    'get_scheduled_transaction',
+    'create_scheduled_transaction',
+    'update_scheduled_transaction',
+    'delete_scheduled_transaction',
     'list_categories',
     'get_category',
     'update_category',
+    'move_category_funds',
+    'assign_budget',
+    'update_category_goal',
+    'goal_progress',
+    'create_categorization_rule',
+    'list_categorization_rules',
+    'delete_categorization_rule',
+    'apply_categorization_rules',
+    'suggest_categories',
+    'review_unapproved',
+    'approve_transactions',
     'list_payees',
     'get_payee',
+    'update_payee',
+    'merge_payees',
+    'suggest_payee_merges',
+    'list_recent_changes',
+    'undo_change',
     'get_month',
     'list_months',
+    'compare_months',
+    'spending_report',
+    'forecast_cash_flow',
+    'net_worth_history',
+    'account_balance_history',
+    'income_expense_summary',
     'get_user',
     'convert_amount',
     'financial_overview',
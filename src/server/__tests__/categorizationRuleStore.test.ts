@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir, homedir } from 'os';
+import { join } from 'path';
+import { CategorizationRuleStore, resolveRulesPath } from '../categorizationRuleStore.js';
+
+describe('CategorizationRuleStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ynab-rules-'));
+    filePath = join(dir, 'nested', 'rules.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', () => {
+    const store = new CategorizationRuleStore(filePath);
+    expect(store.list('budget-1')).toEqual([]);
+  });
+
+  it('should persist rules and reload them in a new instance', () => {
+    const store = new CategorizationRuleStore(filePath);
+    const rule = store.add({
+      budget_id: 'budget-1',
+      payee_pattern: 'netflix',
+      category_id: 'cat-1',
+      name: undefined,
+    });
+
+    expect(rule.priority).toBe(100);
+    expect(rule).not.toHaveProperty('name');
+
+    const reloaded = new CategorizationRuleStore(filePath);
+    expect(reloaded.list('budget-1')).toEqual([rule]);
+    expect(reloaded.list('budget-2')).toEqual([]);
+    expect(JSON.parse(readFileSync(filePath, 'utf-8')).version).toBe(1);
+  });
+
+  it('should list rules by priority, then creation order', () => {
+    const store = new CategorizationRuleStore(filePath);
+    const first = store.add({ budget_id: 'budget-1', payee_pattern: 'a', flag_color: 'red' });
+    const urgent = store.add({
+      budget_id: 'budget-1',
+      payee_pattern: 'b',
+      flag_color: 'red',
+      priority: 1,
+    });
+    const second = store.add({ budget_id: 'budget-1', payee_pattern: 'c', flag_color: 'red' });
+
+    expect(store.list('budget-1').map((rule) => rule.id)).toEqual([urgent.id, first.id, second.id]);
+  });
+
+  it('should only delete rules belonging to the budget', () => {
+    const store = new CategorizationRuleStore(filePath);
+    const rule = store.add({ budget_id: 'budget-1', payee_pattern: 'a', flag_color: 'red' });
+
+    expect(store.delete('budget-2', rule.id)).toBeUndefined();
+    expect(store.delete('budget-1', rule.id)).toEqual(rule);
+    expect(new CategorizationRuleStore(filePath).list('budget-1')).toEqual([]);
+  });
+
+  it('should report a corrupt rules file', () => {
+    writeFileSync(join(dir, 'rules.json'), '{not json');
+    const store = new CategorizationRuleStore(join(dir, 'rules.json'));
+
+    expect(() => store.list('budget-1')).toThrow(/Failed to read categorization rules/);
+  });
+
+  describe('resolveRulesPath', () => {
+    const original = process.env['YNAB_MCP_RULES_PATH'];
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env['YNAB_MCP_RULES_PATH'];
+      } else {
+        process.env['YNAB_MCP_RULES_PATH'] = original;
+      }
+    });
+
+    it('should default to the home directory', () => {
+      delete process.env['YNAB_MCP_RULES_PATH'];
+      expect(resolveRulesPath()).toBe(join(homedir(), '.ynab-mcp', 'categorization-rules.json'));
+    });
+
+    it('should expand ~ in YNAB_MCP_RULES_PATH', () => {
+      process.env['YNAB_MCP_RULES_PATH'] = '~/rules/custom.json';
+      expect(resolveRulesPath()).toBe(join(homedir(), 'rules', 'custom.json'));
+    });
+  });
+});
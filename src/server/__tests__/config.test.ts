@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { validateEnvironment } from '../config.js';
+import { validateEnvironment, resolveTransportConfig } from '../config.js';
 import { ConfigurationError } from '../../types/index.js';
 
 describe('config module', () => {
@@ -163,4 +163,58 @@ describe('config module', () => {
       });
     });
   });
+
+  describe('resolveTransportConfig', () => {
+    beforeEach(() => {
+      delete process.env.YNAB_MCP_TRANSPORT;
+      delete process.env.YNAB_MCP_HTTP_HOST;
+      delete process.env.YNAB_MCP_HTTP_PORT;
+      delete process.env.YNAB_MCP_HTTP_AUTH_TOKEN;
+    });
+
+    it('should default to stdio', () => {
+      expect(resolveTransportConfig()).toEqual({ type: 'stdio' });
+    });
+
+    it('should read HTTP settings from the environment', () => {
+      process.env.YNAB_MCP_TRANSPORT = 'HTTP';
+      process.env.YNAB_MCP_HTTP_HOST = '0.0.0.0';
+      process.env.YNAB_MCP_HTTP_PORT = '8080';
+      process.env.YNAB_MCP_HTTP_AUTH_TOKEN = ' secret ';
+
+      expect(resolveTransportConfig()).toEqual({
+        type: 'http',
+        http: { host: '0.0.0.0', port: 8080, authToken: 'secret' },
+      });
+    });
+
+    it('should let CLI flags override the environment', () => {
+      process.env.YNAB_MCP_TRANSPORT = 'stdio';
+      process.env.YNAB_MCP_HTTP_PORT = '8080';
+      process.env.YNAB_MCP_HTTP_AUTH_TOKEN = 'secret';
+
+      expect(resolveTransportConfig(['--transport', 'http', '--port=9090'])).toEqual({
+        type: 'http',
+        http: { host: '127.0.0.1', port: 9090, authToken: 'secret' },
+      });
+    });
+
+    it('should require an auth token for the HTTP transport', () => {
+      expect(() => resolveTransportConfig(['--transport=http'])).toThrow(
+        'YNAB_MCP_HTTP_AUTH_TOKEN environment variable is required when using the HTTP transport',
+      );
+    });
+
+    it('should reject unknown transports and invalid ports', () => {
+      process.env.YNAB_MCP_HTTP_AUTH_TOKEN = 'secret';
+
+      expect(() => resolveTransportConfig(['--transport', 'websocket'])).toThrow(
+        ConfigurationError,
+      );
+      expect(() => resolveTransportConfig(['--transport', 'http', '--port', 'abc'])).toThrow(
+        ConfigurationError,
+      );
+      expect(() => resolveTransportConfig(['--transport'])).toThrow('--transport requires a value');
+    });
+  });
 });
@@ -0,0 +1,230 @@
+/**
+ * Unit tests for the HTTP transport
+ *
+ * Starts a real listener on an ephemeral port and exercises auth, session handling and routing.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportServer } from '../httpTransport.js';
+
+const AUTH_TOKEN = 'test-http-token';
+
+const createTestServer = () => {
+  const server = new Server(
+    { name: 'test-server', version: '0.0.0' },
+    { capabilities: { tools: {} } },
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  return server;
+};
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+describe('HttpTransportServer', () => {
+  let transport: HttpTransportServer;
+  let baseUrl: string;
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${AUTH_TOKEN}`,
+        ...headers,
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    transport = new HttpTransportServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: AUTH_TOKEN,
+      createServer: createTestServer,
+    });
+    const address = await transport.listen();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  it('serves the health check without authentication', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('rejects requests without a valid bearer token', async () => {
+    const missing = await post('/mcp', initializeRequest, { Authorization: '' });
+    const wrong = await post('/mcp', initializeRequest, { Authorization: 'Bearer nope' });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(transport.getSessionCount()).toBe(0);
+  });
+
+  it('creates a streamable HTTP session on initialize and routes follow-up requests', async () => {
+    const init = await post('/mcp', initializeRequest);
+    await init.text();
+    const sessionId = init.headers.get('mcp-session-id');
+
+    expect(init.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect(transport.getSessionCount()).toBe(1);
+
+    const list = await post(
+      '/mcp',
+      { jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} },
+      { 'mcp-session-id': sessionId as string, 'mcp-protocol-version': '2025-03-26' },
+    );
+    expect(list.status).toBe(200);
+    expect(await list.text()).toContain('"tools":[]');
+  });
+
+  it('closes sessions that stay idle past the timeout', async () => {
+    await transport.close();
+    transport = new HttpTransportServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: AUTH_TOKEN,
+      createServer: createTestServer,
+      sessionIdleTimeoutMs: 20,
+    });
+    baseUrl = `http://127.0.0.1:${(await transport.listen()).port}`;
+
+    const init = await post('/mcp', initializeRequest);
+    await init.text();
+    expect(transport.getSessionCount()).toBe(1);
+
+    // The sweep runs on its own at the idle timeout interval
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(transport.getSessionCount()).toBe(0);
+
+    const stale = await post(
+      '/mcp',
+      { jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} },
+      { 'mcp-session-id': init.headers.get('mcp-session-id') as string },
+    );
+    expect(stale.status).toBe(404);
+  });
+
+  it('refuses new sessions once the session cap is reached', async () => {
+    await transport.close();
+    transport = new HttpTransportServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: AUTH_TOKEN,
+      createServer: createTestServer,
+      maxSessions: 1,
+    });
+    baseUrl = `http://127.0.0.1:${(await transport.listen()).port}`;
+
+    const first = await post('/mcp', initializeRequest);
+    await first.text();
+    const second = await post('/mcp', initializeRequest);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(503);
+    expect(transport.getSessionCount()).toBe(1);
+  });
+
+  it('counts sessions that are still initializing against the cap', async () => {
+    await transport.close();
+    transport = new HttpTransportServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: AUTH_TOKEN,
+      // A slow connect keeps every initialization in flight at the same time
+      createServer: () => {
+        const server = createTestServer();
+        const connect = server.connect.bind(server);
+        server.connect = async (serverTransport) => {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          return connect(serverTransport);
+        };
+        return server;
+      },
+      maxSessions: 1,
+    });
+    baseUrl = `http://127.0.0.1:${(await transport.listen()).port}`;
+
+    const responses = await Promise.all([
+      post('/mcp', initializeRequest),
+      post('/mcp', initializeRequest),
+      post('/mcp', initializeRequest),
+    ]);
+    await Promise.all(responses.map((response) => response.text()));
+
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 503, 503]);
+    expect(transport.getSessionCount()).toBe(1);
+  });
+
+  it('frees the reserved slot when an initialization fails', async () => {
+    await transport.close();
+    let calls = 0;
+    transport = new HttpTransportServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: AUTH_TOKEN,
+      createServer: () => {
+        calls += 1;
+        if (calls === 1) {
+          throw new Error('server setup failed');
+        }
+        return createTestServer();
+      },
+      maxSessions: 1,
+    });
+    baseUrl = `http://127.0.0.1:${(await transport.listen()).port}`;
+
+    const failed = await post('/mcp', initializeRequest);
+    await failed.text();
+    const retried = await post('/mcp', initializeRequest);
+    await retried.text();
+
+    expect(failed.status).toBe(500);
+    expect(retried.status).toBe(200);
+    expect(transport.getSessionCount()).toBe(1);
+  });
+
+  it('rejects non-initialize requests without a session and unknown sessions', async () => {
+    const noSession = await post('/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    const unknown = await post(
+      '/mcp',
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'mcp-session-id': 'does-not-exist' },
+    );
+
+    expect(noSession.status).toBe(400);
+    expect(unknown.status).toBe(404);
+  });
+
+  it('returns a JSON-RPC parse error for malformed bodies', async () => {
+    const response = await post('/mcp', '{not json');
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('returns 404 for SSE messages posted to an unknown session', async () => {
+    const response = await post('/messages?sessionId=missing', initializeRequest);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { WriteJournal } from '../writeJournal.js';
+import { CacheManager, cacheManager } from '../cacheManager.js';
+import { transactionDetail } from '../../__tests__/testUtils.js';
+
+const transaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+  transactionDetail({
+    payee_id: 'payee-1',
+    payee_name: 'Grocer',
+    category_id: 'cat-1',
+    ...overrides,
+  });
+
+const createMockApi = () =>
+  ({
+    transactions: {
+      getTransactionById: vi.fn(),
+      getTransactions: vi.fn(),
+      createTransaction: vi.fn(),
+      updateTransaction: vi.fn(),
+      updateTransactions: vi.fn(),
+      deleteTransaction: vi.fn(),
+    },
+    categories: {
+      getMonthCategoryById: vi.fn(),
+      updateMonthCategory: vi.fn(),
+    },
+    accounts: {
+      getAccounts: vi.fn(),
+      createAccount: vi.fn(),
+    },
+  }) as unknown as ynab.API & {
+    transactions: Record<string, ReturnType<typeof vi.fn>>;
+    categories: Record<string, ReturnType<typeof vi.fn>>;
+    accounts: Record<string, ReturnType<typeof vi.fn>>;
+  };
+
+describe('WriteJournal', () => {
+  let journal: WriteJournal;
+  let api: ReturnType<typeof createMockApi>;
+
+  beforeEach(() => {
+    journal = new WriteJournal();
+    api = createMockApi();
+  });
+
+  afterEach(() => {
+    cacheManager.clear();
+  });
+
+  it('records the before-image read by the handler and the sent fields of an update', async () => {
+    api.transactions.getTransactionById.mockResolvedValue({ data: { transaction: transaction() } });
+    api.transactions.updateTransaction.mockResolvedValue({
+      data: { transaction: transaction({ category_id: 'cat-2' }) },
+    });
+
+    const wrapped = journal.wrap(api, 'update_transaction');
+    await wrapped.transactions.getTransactionById('budget-1', 'txn-1');
+    await wrapped.transactions.updateTransaction('budget-1', 'txn-1', {
+      transaction: { category_id: 'cat-2' },
+    });
+
+    const [entry] = journal.list('budget-1');
+    expect(entry).toMatchObject({ tool: 'update_transaction', budget_id: 'budget-1' });
+    expect(entry.changes).toEqual([
+      expect.objectContaining({
+        entity: 'transaction',
+        operation: 'update',
+        entity_id: 'txn-1',
+        fields: ['category_id'],
+        before: expect.objectContaining({ category_id: 'cat-1' }),
+        after: expect.objectContaining({ category_id: 'cat-2' }),
+      }),
+    ]);
+    expect(api.transactions.getTransactionById).toHaveBeenCalledTimes(1);
+    expect(journal.entryFor(wrapped)).toBe(entry);
+  });
+
+  it('groups every mutation made during one tool call into a single entry', async () => {
+    api.transactions.createTransaction.mockResolvedValue({
+      data: { transactions: [transaction({ id: 'new-1' }), transaction({ id: 'new-2' })] },
+    });
+    api.transactions.deleteTransaction.mockResolvedValue({
+      data: { transaction: transaction({ deleted: true }) },
+    });
+
+    const wrapped = journal.wrap(api, 'reconcile_account');
+    await wrapped.transactions.createTransaction('budget-1', { transactions: [] });
+    await wrapped.transactions.deleteTransaction('budget-1', 'txn-1');
+
+    const entries = journal.list('budget-1');
+    expect(entries).toHaveLength(1);
+    expect(entries[0].changes.map((change) => `${change.operation}:${change.entity_id}`)).toEqual([
+      'create:new-1',
+      'create:new-2',
+      'delete:txn-1',
+    ]);
+    // The deleted transaction returned by the API is the before-image
+    expect(entries[0].changes[2].before).toMatchObject({ id: 'txn-1', deleted: false });
+    expect(api.transactions.getTransactionById).not.toHaveBeenCalled();
+  });
+
+  it('journals bulk creates made through the createTransactions alias', async () => {
+    api.transactions.createTransaction.mockResolvedValue({
+      data: { transactions: [transaction({ id: 'bulk-1' })] },
+    });
+
+    await journal
+      .wrap(api, 'create_transactions')
+      .transactions.createTransactions('budget-1', { transactions: [] });
+
+    expect(api.transactions.createTransaction).toHaveBeenCalledTimes(1);
+    expect(journal.list('budget-1')[0].changes).toEqual([
+      expect.objectContaining({ operation: 'create', entity_id: 'bulk-1' }),
+    ]);
+  });
+
+  it('does not create entries for read-only calls', async () => {
+    api.accounts.getAccounts.mockResolvedValue({ data: { accounts: [] } });
+
+    const wrapped = journal.wrap(api, 'list_accounts');
+    await wrapped.accounts.getAccounts('budget-1');
+
+    expect(api.accounts.getAccounts).toHaveBeenCalledWith('budget-1');
+    expect(journal.list('budget-1')).toEqual([]);
+    expect(journal.entryFor(wrapped)).toBeUndefined();
+  });
+
+  it('takes bulk update before-images from a snapshot synced during the call without extra requests', async () => {
+    const ids = Array.from({ length: 12 }, (_, index) => `txn-${index}`);
+    api.transactions.updateTransactions.mockResolvedValue({
+      data: { transactions: ids.map((id) => transaction({ id, approved: true })) },
+    });
+
+    const wrapped = journal.wrap(api, 'update_transactions');
+    // What a delta fetch made by the handler leaves in the cache
+    cacheManager.set(CacheManager.generateKey('transactions', 'list', 'budget-1', 'all', 'all'), {
+      snapshot: ids.map((id) => transaction({ id, approved: false })),
+      serverKnowledge: 10,
+      timestamp: Date.now(),
+      ttl: 60000,
+    });
+    await wrapped.transactions.updateTransactions('budget-1', {
+      transactions: ids.map((id) => ({ id, approved: true })),
+    });
+
+    expect(api.transactions.getTransactionById).not.toHaveBeenCalled();
+    expect(api.transactions.getTransactions).not.toHaveBeenCalled();
+    const [entry] = journal.list('budget-1');
+    expect(entry.changes).toHaveLength(12);
+    expect(entry.changes[0]).toMatchObject({
+      fields: ['approved'],
+      before: expect.objectContaining({ approved: false }),
+    });
+  });
+
+  it('does not use cached state from before the call as a before-image', async () => {
+    cacheManager.set(CacheManager.generateKey('transactions', 'list', 'budget-1', 'all', 'all'), {
+      snapshot: [transaction({ memo: 'cached' })],
+      serverKnowledge: 10,
+      timestamp: Date.now() - 60000,
+      ttl: 600000,
+    });
+    cacheManager.set(
+      CacheManager.generateKey('transaction', 'get', 'budget-1', 'txn-1'),
+      transaction({ memo: 'cached' }),
+    );
+    api.transactions.updateTransaction.mockResolvedValue({
+      data: { transaction: transaction({ memo: 'new' }) },
+    });
+
+    const wrapped = journal.wrap(api, 'update_transaction');
+    await wrapped.transactions.updateTransaction('budget-1', 'txn-1', {
+      transaction: { memo: 'new' },
+    });
+
+    const [change] = journal.list('budget-1')[0].changes;
+    expect(change.before).toBeUndefined();
+    expect(change.not_undoable_reason).toContain('could be out of date');
+  });
+
+  it('marks changes without a before-image as not undoable', async () => {
+    api.categories.updateMonthCategory.mockResolvedValue({
+      data: { category: { id: 'cat-1', budgeted: 5000 } },
+    });
+    api.accounts.createAccount.mockResolvedValue({ data: { account: { id: 'account-9' } } });
+
+    const wrapped = journal.wrap(api, 'assign_budget');
+    await wrapped.categories.updateMonthCategory('budget-1', '2025-01-01', 'cat-1', {
+      category: { budgeted: 5000 },
+    });
+    await wrapped.accounts.createAccount('budget-1', {
+      account: { name: 'Savings', type: 'savings', balance: 0 },
+    });
+
+    const [entry] = journal.list('budget-1');
+    expect(api.categories.getMonthCategoryById).not.toHaveBeenCalled();
+    expect(entry.changes[0]).toMatchObject({ month: '2025-01-01' });
+    expect(entry.changes[0].before).toBeUndefined();
+    expect(entry.changes[0].not_undoable_reason).toBeDefined();
+    expect(entry.changes[1].not_undoable_reason).toContain('cannot delete accounts');
+  });
+
+  it('lists newest first per budget and records undo links', async () => {
+    api.transactions.createTransaction.mockResolvedValue({
+      data: { transaction: transaction({ id: 'new-1' }) },
+    });
+
+    await journal.wrap(api, 'create_transaction').transactions.createTransaction('budget-1', {
+      transaction: {},
+    });
+    await journal.wrap(api, 'create_transaction').transactions.createTransaction('budget-2', {
+      transaction: {},
+    });
+    await journal
+      .wrap(api, 'create_receipt_split_transaction')
+      .transactions.createTransaction('budget-1', { transaction: {} });
+
+    const entries = journal.list('budget-1');
+    expect(entries.map((entry) => entry.tool)).toEqual([
+      'create_receipt_split_transaction',
+      'create_transaction',
+    ]);
+
+    journal.markUndone(entries[1].id, entries[0].id);
+    expect(journal.get(entries[1].id)).toMatchObject({ undone_by: entries[0].id });
+    expect(journal.get(entries[1].id)?.undone_at).toBeDefined();
+  });
+});
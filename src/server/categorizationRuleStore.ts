@@ -0,0 +1,164 @@
+/**
+ * CategorizationRuleStore
+ *
+ * Persists auto-categorization rules as JSON so they survive server restarts. Rules are scoped to a
+ * budget and evaluated in priority order (lowest first, then oldest first) by
+ * `apply_categorization_rules`.
+ *
+ * Storage location:
+ * - `YNAB_MCP_RULES_PATH` when set (`~/` is expanded)
+ * - `~/.ynab-mcp/categorization-rules.json` otherwise
+ *
+ * The file is read lazily on first access and rewritten atomically (temp file + rename) after every
+ * change. Single-threaded Node.js environment, no locking needed.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { randomUUID } from 'crypto';
+
+const STORE_VERSION = 1;
+export const DEFAULT_RULE_PRIORITY = 100;
+
+export type RuleFlagColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+export interface CategorizationRule {
+  id: string;
+  budget_id: string;
+  name?: string;
+  priority: number;
+  /** Case-insensitive regular expression matched against the payee name */
+  payee_pattern?: string;
+  /** Case-insensitive regular expression matched against the memo */
+  memo_pattern?: string;
+  /** Inclusive signed amount bounds in milliunits */
+  min_amount?: number;
+  max_amount?: number;
+  account_id?: string;
+  category_id?: string;
+  /** Category name captured when the rule was created, for display only */
+  category_name?: string;
+  /** Replacement memo; applied through memo_pattern when set so `$1` style groups work */
+  memo_rewrite?: string;
+  flag_color?: RuleFlagColor;
+  created_at: string;
+}
+
+/** Rule fields accepted on creation; undefined values are dropped */
+export type NewCategorizationRule = {
+  [K in Exclude<keyof CategorizationRule, 'id' | 'created_at'>]?: CategorizationRule[K] | undefined;
+} & { budget_id: string };
+
+interface RuleFile {
+  version: number;
+  rules: CategorizationRule[];
+}
+
+/**
+ * Resolve the rules file path from `YNAB_MCP_RULES_PATH` or the default location
+ */
+export function resolveRulesPath(): string {
+  const configured = process.env['YNAB_MCP_RULES_PATH']?.trim();
+  if (!configured) {
+    return join(homedir(), '.ynab-mcp', 'categorization-rules.json');
+  }
+  if (configured.startsWith('~/')) {
+    return join(homedir(), configured.slice(2));
+  }
+  return resolve(configured);
+}
+
+export class CategorizationRuleStore {
+  private rules: CategorizationRule[] | undefined;
+  private resolvedPath: string | undefined;
+
+  /**
+   * @param filePath - Rules file location; resolved from the environment on first access if omitted
+   */
+  constructor(private readonly filePath?: string) {}
+
+  /**
+   * Path of the backing JSON file
+   */
+  get path(): string {
+    this.resolvedPath ??= this.filePath ?? resolveRulesPath();
+    return this.resolvedPath;
+  }
+
+  /**
+   * List the rules for a budget in evaluation order
+   */
+  list(budgetId: string): CategorizationRule[] {
+    return this.load()
+      .filter((rule) => rule.budget_id === budgetId)
+      .sort((a, b) => a.priority - b.priority || a.created_at.localeCompare(b.created_at));
+  }
+
+  /**
+   * Add a rule and persist it
+   */
+  add(input: NewCategorizationRule): CategorizationRule {
+    const rule: CategorizationRule = {
+      ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)),
+      id: randomUUID(),
+      budget_id: input.budget_id,
+      priority: input.priority ?? DEFAULT_RULE_PRIORITY,
+      created_at: new Date().toISOString(),
+    };
+    this.save([...this.load(), rule]);
+    return rule;
+  }
+
+  /**
+   * Delete a rule from a budget
+   *
+   * @returns The deleted rule, or undefined if no such rule exists for the budget
+   */
+  delete(budgetId: string, ruleId: string): CategorizationRule | undefined {
+    const rules = this.load();
+    const rule = rules.find(
+      (candidate) => candidate.id === ruleId && candidate.budget_id === budgetId,
+    );
+    if (rule) {
+      this.save(rules.filter((candidate) => candidate !== rule));
+    }
+    return rule;
+  }
+
+  private load(): CategorizationRule[] {
+    if (this.rules) {
+      return this.rules;
+    }
+    if (!existsSync(this.path)) {
+      this.rules = [];
+      return this.rules;
+    }
+
+    let parsed: Partial<RuleFile>;
+    try {
+      parsed = JSON.parse(readFileSync(this.path, 'utf-8')) as Partial<RuleFile>;
+    } catch (error) {
+      throw new Error(
+        `Failed to read categorization rules from ${this.path}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (!Array.isArray(parsed.rules)) {
+      throw new Error(`Categorization rules file ${this.path} is missing a "rules" array`);
+    }
+
+    this.rules = parsed.rules;
+    return this.rules;
+  }
+
+  private save(rules: CategorizationRule[]): void {
+    const contents: RuleFile = { version: STORE_VERSION, rules };
+    const tempPath = `${this.path}.tmp`;
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(tempPath, JSON.stringify(contents, null, 2), 'utf-8');
+    renameSync(tempPath, this.path);
+    this.rules = rules;
+  }
+}
+
+export const categorizationRuleStore = new CategorizationRuleStore();
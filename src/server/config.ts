@@ -5,7 +5,16 @@
  * Extracted from YNABMCPServer to provide focused, testable configuration management.
  */
 
-import { ServerConfig, ConfigurationError } from '../types/index.js';
+import {
+  ServerConfig,
+  ConfigurationError,
+  TransportConfig,
+  TransportType,
+} from '../types/index.js';
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3000;
+const TRANSPORT_TYPES: readonly TransportType[] = ['stdio', 'http'];
 
 /**
  * Create a ServerConfig from environment variables after validating required values.
@@ -38,4 +47,77 @@ export function validateEnvironment(): ServerConfig {
   return config;
 }
 
-export type { ServerConfig } from '../types/index.js';
+/**
+ * Read `--name value` or `--name=value` from CLI arguments.
+ */
+function readFlag(argv: readonly string[], name: string): string | undefined {
+  const flag = `--${name}`;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag) {
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith('--')) {
+        throw new ConfigurationError(`${flag} requires a value`);
+      }
+      return next;
+    }
+    if (arg?.startsWith(`${flag}=`)) {
+      return arg.slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Resolve which MCP transport to start. Stdio is the default; the HTTP transport is opt-in via
+ * `YNAB_MCP_TRANSPORT=http` or `--transport http`. CLI flags take precedence over environment
+ * variables.
+ *
+ * @param argv - CLI arguments (without the node executable and script path).
+ * @returns The validated TransportConfig.
+ * @throws ConfigurationError if the transport, port or auth token are invalid.
+ */
+export function resolveTransportConfig(argv: readonly string[] = []): TransportConfig {
+  const rawType = (readFlag(argv, 'transport') ?? readEnv('YNAB_MCP_TRANSPORT') ?? 'stdio')
+    .trim()
+    .toLowerCase();
+
+  if (!TRANSPORT_TYPES.includes(rawType as TransportType)) {
+    throw new ConfigurationError(
+      `Unsupported transport "${rawType}". Expected one of: ${TRANSPORT_TYPES.join(', ')}`,
+    );
+  }
+
+  if (rawType === 'stdio') {
+    return { type: 'stdio' };
+  }
+
+  const host = readFlag(argv, 'host') ?? readEnv('YNAB_MCP_HTTP_HOST') ?? DEFAULT_HTTP_HOST;
+  const rawPort = readFlag(argv, 'port') ?? readEnv('YNAB_MCP_HTTP_PORT');
+  const port = rawPort === undefined ? DEFAULT_HTTP_PORT : Number(rawPort);
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ConfigurationError(
+      `YNAB_MCP_HTTP_PORT must be an integer between 0 and 65535 (received "${rawPort}")`,
+    );
+  }
+
+  const authToken = readEnv('YNAB_MCP_HTTP_AUTH_TOKEN');
+  if (!authToken) {
+    throw new ConfigurationError(
+      'YNAB_MCP_HTTP_AUTH_TOKEN environment variable is required when using the HTTP transport',
+    );
+  }
+
+  return {
+    type: 'http',
+    http: { host, port, authToken },
+  };
+}
+
+export type { ServerConfig, TransportConfig } from '../types/index.js';
@@ -0,0 +1,358 @@
+/**
+ * HTTP transport for YNAB MCP Server
+ *
+ * Serves the MCP Streamable HTTP transport on `/mcp` with a fallback to the legacy HTTP+SSE
+ * transport on `/sse` + `/messages` for older clients. Every request except `/health` must carry
+ * `Authorization: Bearer <YNAB_MCP_HTTP_AUTH_TOKEN>`.
+ *
+ * Each client session gets its own MCP `Server` instance (the SDK binds one transport per server)
+ * created through the supplied factory, so tool registry, caches and server knowledge stay shared.
+ * Clients that disappear without closing their session are evicted after an idle timeout, and the
+ * number of concurrent sessions is capped.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { HttpTransportConfig } from '../types/index.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface HttpTransportServerOptions extends HttpTransportConfig {
+  /** Creates a fully configured MCP server for a new client session */
+  createServer: () => Server;
+  /** Sessions without a request for this long are closed (default 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+  /** Maximum number of open sessions across both transports (default 100) */
+  maxSessions?: number;
+}
+
+interface Session<T> {
+  transport: T;
+  lastActivity: number;
+}
+
+class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: number,
+  ) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  headers: Record<string, string> = {},
+): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError('Request body too large', 413, -32600);
+    }
+    chunks.push(buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (raw.trim().length === 0) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new RequestBodyError('Parse error: request body is not valid JSON', 400, -32700);
+  }
+}
+
+/**
+ * HTTP listener hosting Streamable HTTP and SSE MCP sessions behind bearer-token auth
+ */
+export class HttpTransportServer {
+  private readonly httpServer = createServer((req, res) => {
+    void this.handleRequest(req, res);
+  });
+  private readonly expectedTokenHash: Buffer;
+  private readonly streamableSessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+  private readonly sseSessions = new Map<string, Session<SSEServerTransport>>();
+  private readonly sessionIdleTimeoutMs: number;
+  private readonly maxSessions: number;
+  /** Sessions that passed the cap check but are not registered yet */
+  private pendingSessions = 0;
+  private sweepTimer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly options: HttpTransportServerOptions) {
+    this.expectedTokenHash = hashToken(options.authToken);
+    this.sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  }
+
+  /**
+   * Starts listening and resolves with the bound address
+   */
+  async listen(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.sweepTimer = setInterval(
+      () => void this.evictIdleSessions(),
+      Math.min(this.sessionIdleTimeoutMs, MAX_SWEEP_INTERVAL_MS),
+    );
+    this.sweepTimer.unref();
+    return this.httpServer.address() as AddressInfo;
+  }
+
+  /**
+   * Closes all open sessions and stops the listener
+   */
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+    const transports = [...this.streamableSessions.values(), ...this.sseSessions.values()].map(
+      (session) => session.transport,
+    );
+    this.streamableSessions.clear();
+    this.sseSessions.clear();
+    await Promise.allSettled(transports.map((transport) => transport.close()));
+
+    if (!this.httpServer.listening) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.close((error) => (error ? reject(error) : resolve()));
+      this.httpServer.closeAllConnections();
+    });
+  }
+
+  /**
+   * Number of currently open sessions across both transports
+   */
+  getSessionCount(): number {
+    return this.streamableSessions.size + this.sseSessions.size;
+  }
+
+  /**
+   * Closes sessions that have been idle longer than the timeout and returns how many were closed
+   */
+  private async evictIdleSessions(): Promise<number> {
+    const cutoff = Date.now() - this.sessionIdleTimeoutMs;
+    const idle: { close(): Promise<void> }[] = [];
+    for (const sessions of [this.streamableSessions, this.sseSessions]) {
+      for (const [id, session] of sessions) {
+        if (session.lastActivity <= cutoff) {
+          sessions.delete(id);
+          idle.push(session.transport);
+        }
+      }
+    }
+    await Promise.allSettled(idle.map((transport) => transport.close()));
+    return idle.length;
+  }
+
+  /**
+   * Makes room for a new session, evicting idle ones first, and holds a slot for it until the
+   * session is registered. Returns a function that gives the slot back, or undefined when the cap
+   * is reached. The slot counts against the cap immediately, so concurrent initializations cannot
+   * all pass the check before any of them registers.
+   */
+  private async reserveSession(res: ServerResponse): Promise<(() => void) | undefined> {
+    if (this.getSessionCount() + this.pendingSessions >= this.maxSessions) {
+      await this.evictIdleSessions();
+    }
+    if (this.getSessionCount() + this.pendingSessions >= this.maxSessions) {
+      sendJsonRpcError(res, 503, -32000, 'Too many open sessions, try again later', {
+        'Retry-After': '60',
+      });
+      return undefined;
+    }
+
+    this.pendingSessions += 1;
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.pendingSessions -= 1;
+      }
+    };
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const header = req.headers.authorization;
+    if (typeof header !== 'string') {
+      return false;
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+    if (!match?.[1]) {
+      return false;
+    }
+    return timingSafeEqual(hashToken(match[1].trim()), this.expectedTokenHash);
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: this.getSessionCount() }));
+        return;
+      }
+
+      if (!this.isAuthorized(req)) {
+        sendJsonRpcError(res, 401, -32001, 'Unauthorized: missing or invalid bearer token', {
+          'WWW-Authenticate': 'Bearer realm="ynab-mcp-server"',
+        });
+        return;
+      }
+
+      switch (url.pathname) {
+        case MCP_PATH:
+          await this.handleStreamableRequest(req, res);
+          return;
+        case SSE_PATH:
+          await this.handleSseStream(req, res);
+          return;
+        case SSE_MESSAGES_PATH:
+          await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+          return;
+        default:
+          sendJsonRpcError(res, 404, -32601, `Not found: ${url.pathname}`);
+      }
+    } catch (error) {
+      if (error instanceof RequestBodyError) {
+        sendJsonRpcError(res, error.status, error.code, error.message);
+        return;
+      }
+      console.error('HTTP transport request failed:', error);
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  }
+
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (sessionId) {
+      const session = this.streamableSessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    const releaseSlot = await this.reserveSession(res);
+    if (!releaseSlot) {
+      return;
+    }
+
+    try {
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          this.streamableSessions.set(id, { transport, lastActivity: Date.now() });
+          releaseSlot();
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          this.streamableSessions.delete(transport.sessionId);
+        }
+      };
+
+      await this.options.createServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A failed initialization never registers, so its slot is returned here
+      releaseSlot();
+    }
+  }
+
+  private async handleSseStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      sendJsonRpcError(res, 405, -32000, 'Method not allowed', { Allow: 'GET' });
+      return;
+    }
+
+    const releaseSlot = await this.reserveSession(res);
+    if (!releaseSlot) {
+      return;
+    }
+
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    this.sseSessions.set(transport.sessionId, { transport, lastActivity: Date.now() });
+    releaseSlot();
+    transport.onclose = () => {
+      this.sseSessions.delete(transport.sessionId);
+    };
+    res.on('close', () => {
+      this.sseSessions.delete(transport.sessionId);
+    });
+
+    await this.options.createServer().connect(transport);
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+  ): Promise<void> {
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 405, -32000, 'Method not allowed', { Allow: 'POST' });
+      return;
+    }
+
+    const session = sessionId ? this.sseSessions.get(sessionId) : undefined;
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    session.lastActivity = Date.now();
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+}
@@ -0,0 +1,628 @@
+/**
+ * WriteJournal
+ *
+ * Records the before-image of every entity a write tool mutates so the change can be listed and
+ * undone later. Tool handlers receive a journaling view of `ynab.API` (see `wrap`) that records
+ * the state of an entity before each mutating call and the result afterwards, so every write path -
+ * including reconciliation execution and tools that delegate to other handlers - is captured
+ * without per-tool code.
+ *
+ * Design notes:
+ * - One entry per tool call; an entry is only created once the call actually mutates something
+ * - In-memory and bounded (oldest entries are dropped), like ServerKnowledgeStore it resets on
+ *   server restart
+ * - Before-images never cost an extra request: they come from reads the handler made through the
+ *   wrapped client during the call, including delta snapshots refreshed during the call
+ * - Cached data from earlier calls is never used as a before-image, since the entity may have been
+ *   edited elsewhere since; restoring it would silently overwrite that edit
+ * - If no before-image is available the mutation still goes ahead and the change is recorded as
+ *   not undoable
+ */
+
+import * as ynab from 'ynab';
+import { randomUUID } from 'crypto';
+import { CacheManager, cacheManager } from './cacheManager.js';
+import type { DeltaCacheEntry } from './deltaCache.js';
+
+const MAX_ENTRIES = 200;
+
+export type JournalEntityType =
+  | 'transaction'
+  | 'scheduled_transaction'
+  | 'month_category'
+  | 'category'
+  | 'payee'
+  | 'account';
+
+export type JournalOperation = 'create' | 'update' | 'delete';
+
+export interface JournalChange {
+  entity: JournalEntityType;
+  operation: JournalOperation;
+  entity_id: string;
+  /** Budget month for month_category changes */
+  month?: string;
+  /** Fields sent in the update request */
+  fields?: string[];
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  /** Set when the change cannot be undone */
+  not_undoable_reason?: string;
+  /** Set once an undo has reverted this change, even if the rest of the entry was not reverted */
+  undone_at?: string;
+  /** ID of the entity an undo re-created in place of a deleted one */
+  undone_entity_id?: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  tool: string;
+  budget_id: string;
+  created_at: string;
+  changes: JournalChange[];
+  undone_at?: string;
+  /** Journal entry recording the undo itself */
+  undone_by?: string;
+}
+
+type Recorder = (budgetId: string, change: JournalChange) => void;
+type Interceptor = (...args: never[]) => Promise<unknown>;
+
+const asRecord = (value: unknown): Record<string, unknown> => value as Record<string, unknown>;
+
+function beforeImageChange(change: Omit<JournalChange, 'before'>, before: unknown): JournalChange {
+  return before === undefined
+    ? {
+        ...change,
+        not_undoable_reason:
+          'The previous state was not read during the call, and a cached copy could be out of date',
+      }
+    : { ...change, before: asRecord(before) };
+}
+
+/**
+ * Delta snapshot for a list resource, if it was synced with the server at or after `since`
+ *
+ * A delta fetch always asks the server for changes, so a snapshot written during the call is as
+ * fresh as a direct read; an older one may predate edits made elsewhere.
+ */
+function snapshotSyncedSince<T>(since: number, resource: string, ...keyParts: string[]): T[] {
+  const entry = cacheManager.get<DeltaCacheEntry<T>>(
+    CacheManager.generateKey(resource, 'list', ...keyParts),
+  );
+  return entry && entry.timestamp >= since ? entry.snapshot : [];
+}
+
+/**
+ * Entity states seen during one tool call, used as before-images for later writes
+ *
+ * Only state read during the call counts: reads the handler makes through the wrapped client, the
+ * results of earlier writes, and delta snapshots synced during the call.
+ */
+function createImageStore() {
+  const startedAt = Date.now();
+  const seen = new Map<string, unknown>();
+  const key = (entity: JournalEntityType, budgetId: string, id: string, month?: string) =>
+    [entity, budgetId, month ?? '', id].join(':');
+
+  const remember = (
+    entity: JournalEntityType,
+    budgetId: string,
+    entities: readonly { id: string }[],
+    month?: string,
+  ) => {
+    for (const value of entities) seen.set(key(entity, budgetId, value.id, month), value);
+  };
+
+  const find = <T extends { id: string }>(
+    entity: JournalEntityType,
+    budgetId: string,
+    id: string,
+    fromSnapshot: () => T | undefined,
+    month?: string,
+  ): T | undefined =>
+    (seen.get(key(entity, budgetId, id, month)) as T | undefined) ?? fromSnapshot();
+
+  return {
+    remember,
+    transaction: (budgetId: string, id: string) =>
+      find('transaction', budgetId, id, () =>
+        snapshotSyncedSince<ynab.TransactionDetail>(
+          startedAt,
+          'transactions',
+          budgetId,
+          'all',
+          'all',
+        ).find((transaction) => transaction.id === id),
+      ),
+    monthCategory: (budgetId: string, month: string, id: string) =>
+      find('month_category', budgetId, id, () => undefined, month),
+    category: (budgetId: string, id: string) =>
+      find('category', budgetId, id, () =>
+        snapshotSyncedSince<ynab.CategoryGroupWithCategories>(startedAt, 'categories', budgetId)
+          .flatMap((group) => group.categories)
+          .find((category) => category.id === id),
+      ),
+    scheduledTransaction: (budgetId: string, id: string) =>
+      find('scheduled_transaction', budgetId, id, () =>
+        snapshotSyncedSince<ynab.ScheduledTransactionDetail>(
+          startedAt,
+          'scheduled_transactions',
+          budgetId,
+        ).find((scheduled) => scheduled.id === id),
+      ),
+    payee: (budgetId: string, id: string) =>
+      find('payee', budgetId, id, () =>
+        snapshotSyncedSince<ynab.Payee>(startedAt, 'payees', budgetId).find(
+          (payee) => payee.id === id,
+        ),
+      ),
+  };
+}
+
+function createInterceptors(
+  api: ynab.API,
+  record: Recorder,
+): Record<string, Record<string, Interceptor>> {
+  const images = createImageStore();
+
+  const createTransaction = async (
+    budgetId: string,
+    data: ynab.PostTransactionsWrapper,
+    init?: RequestInit,
+  ) => {
+    const response = await api.transactions.createTransaction(budgetId, data, init);
+    const created =
+      response.data.transactions ?? (response.data.transaction ? [response.data.transaction] : []);
+    images.remember('transaction', budgetId, created);
+    for (const transaction of created) {
+      record(budgetId, {
+        entity: 'transaction',
+        operation: 'create',
+        entity_id: transaction.id,
+        after: asRecord(transaction),
+      });
+    }
+    return response;
+  };
+
+  return {
+    transactions: {
+      getTransactionById: async (
+        ...args: Parameters<ynab.TransactionsApi['getTransactionById']>
+      ) => {
+        const response = await api.transactions.getTransactionById(...args);
+        images.remember('transaction', args[0], [response.data.transaction]);
+        return response;
+      },
+      getTransactions: async (...args: Parameters<ynab.TransactionsApi['getTransactions']>) => {
+        const response = await api.transactions.getTransactions(...args);
+        images.remember('transaction', args[0], response.data.transactions);
+        return response;
+      },
+      getTransactionsByAccount: async (
+        ...args: Parameters<ynab.TransactionsApi['getTransactionsByAccount']>
+      ) => {
+        const response = await api.transactions.getTransactionsByAccount(...args);
+        images.remember('transaction', args[0], response.data.transactions);
+        return response;
+      },
+      createTransaction,
+      // SDK alias that calls createTransaction on the unwrapped client, so it is journaled here
+      createTransactions: createTransaction,
+      updateTransaction: async (
+        budgetId: string,
+        transactionId: string,
+        data: ynab.PutTransactionWrapper,
+        init?: RequestInit,
+      ) => {
+        const before = images.transaction(budgetId, transactionId);
+        const response = await api.transactions.updateTransaction(
+          budgetId,
+          transactionId,
+          data,
+          init,
+        );
+        images.remember('transaction', budgetId, [response.data.transaction]);
+        record(
+          budgetId,
+          beforeImageChange(
+            {
+              entity: 'transaction',
+              operation: 'update',
+              entity_id: transactionId,
+              fields: Object.keys(data.transaction),
+              after: asRecord(response.data.transaction),
+            },
+            before,
+          ),
+        );
+        return response;
+      },
+      updateTransactions: async (
+        budgetId: string,
+        data: ynab.PatchTransactionsWrapper,
+        init?: RequestInit,
+      ) => {
+        const before = new Map(
+          data.transactions
+            .filter((transaction): transaction is typeof transaction & { id: string } =>
+              Boolean(transaction.id),
+            )
+            .map((transaction) => [transaction.id, images.transaction(budgetId, transaction.id)]),
+        );
+        const response = await api.transactions.updateTransactions(budgetId, data, init);
+        const after = new Map(
+          (response.data.transactions ?? []).map((transaction) => [transaction.id, transaction]),
+        );
+        images.remember('transaction', budgetId, response.data.transactions ?? []);
+        for (const transaction of data.transactions) {
+          if (!transaction.id || !after.has(transaction.id)) continue;
+          record(
+            budgetId,
+            beforeImageChange(
+              {
+                entity: 'transaction',
+                operation: 'update',
+                entity_id: transaction.id,
+                fields: Object.keys(transaction).filter((key) => key !== 'id'),
+                after: asRecord(after.get(transaction.id)),
+              },
+              before.get(transaction.id),
+            ),
+          );
+        }
+        return response;
+      },
+      deleteTransaction: async (budgetId: string, transactionId: string, init?: RequestInit) => {
+        const before = images.transaction(budgetId, transactionId);
+        const response = await api.transactions.deleteTransaction(budgetId, transactionId, init);
+        record(
+          budgetId,
+          beforeImageChange(
+            { entity: 'transaction', operation: 'delete', entity_id: transactionId },
+            // The API returns the deleted transaction, so it stands in for an uncached image
+            before ?? { ...response.data.transaction, deleted: false },
+          ),
+        );
+        return response;
+      },
+    },
+    months: {
+      getBudgetMonth: async (...args: Parameters<ynab.MonthsApi['getBudgetMonth']>) => {
+        const response = await api.months.getBudgetMonth(...args);
+        images.remember('month_category', args[0], response.data.month.categories, args[1]);
+        return response;
+      },
+    },
+    categories: {
+      getCategories: async (...args: Parameters<ynab.CategoriesApi['getCategories']>) => {
+        const response = await api.categories.getCategories(...args);
+        images.remember(
+          'category',
+          args[0],
+          response.data.category_groups.flatMap((group) => group.categories),
+        );
+        return response;
+      },
+      getCategoryById: async (...args: Parameters<ynab.CategoriesApi['getCategoryById']>) => {
+        const response = await api.categories.getCategoryById(...args);
+        images.remember('category', args[0], [response.data.category]);
+        return response;
+      },
+      getMonthCategoryById: async (
+        ...args: Parameters<ynab.CategoriesApi['getMonthCategoryById']>
+      ) => {
+        const response = await api.categories.getMonthCategoryById(...args);
+        images.remember('month_category', args[0], [response.data.category], args[1]);
+        return response;
+      },
+      updateMonthCategory: async (
+        budgetId: string,
+        month: string,
+        categoryId: string,
+        data: ynab.PatchMonthCategoryWrapper,
+        init?: RequestInit,
+      ) => {
+        const before = images.monthCategory(budgetId, month, categoryId);
+        const response = await api.categories.updateMonthCategory(
+          budgetId,
+          month,
+          categoryId,
+          data,
+          init,
+        );
+        images.remember('month_category', budgetId, [response.data.category], month);
+        record(
+          budgetId,
+          beforeImageChange(
+            {
+              entity: 'month_category',
+              operation: 'update',
+              entity_id: categoryId,
+              month,
+              fields: Object.keys(data.category),
+              after: asRecord(response.data.category),
+            },
+            before,
+          ),
+        );
+        return response;
+      },
+      updateCategory: async (
+        budgetId: string,
+        categoryId: string,
+        data: ynab.PatchCategoryWrapper,
+        init?: RequestInit,
+      ) => {
+        const before = images.category(budgetId, categoryId);
+        const response = await api.categories.updateCategory(budgetId, categoryId, data, init);
+        images.remember('category', budgetId, [response.data.category]);
+        record(
+          budgetId,
+          beforeImageChange(
+            {
+              entity: 'category',
+              operation: 'update',
+              entity_id: categoryId,
+              fields: Object.keys(data.category),
+              after: asRecord(response.data.category),
+            },
+            before,
+          ),
+        );
+        return response;
+      },
+    },
+    scheduledTransactions: {
+      getScheduledTransactions: async (
+        ...args: Parameters<ynab.ScheduledTransactionsApi['getScheduledTransactions']>
+      ) => {
+        const response = await api.scheduledTransactions.getScheduledTransactions(...args);
+        images.remember('scheduled_transaction', args[0], response.data.scheduled_transactions);
+        return response;
+      },
+      getScheduledTransactionById: async (
+        ...args: Parameters<ynab.ScheduledTransactionsApi['getScheduledTransactionById']>
+      ) => {
+        const response = await api.scheduledTransactions.getScheduledTransactionById(...args);
+        images.remember('scheduled_transaction', args[0], [response.data.scheduled_transaction]);
+        return response;
+      },
+      createScheduledTransaction: async (
+        budgetId: string,
+        data: ynab.PostScheduledTransactionWrapper,
+        init?: RequestInit,
+      ) => {
+        const response = await api.scheduledTransactions.createScheduledTransaction(
+          budgetId,
+          data,
+          init,
+        );
+        images.remember('scheduled_transaction', budgetId, [response.data.scheduled_transaction]);
+        record(budgetId, {
+          entity: 'scheduled_transaction',
+          operation: 'create',
+          entity_id: response.data.scheduled_transaction.id,
+          after: asRecord(response.data.scheduled_transaction),
+        });
+        return response;
+      },
+      updateScheduledTransaction: async (
+        budgetId: string,
+        scheduledTransactionId: string,
+        data: ynab.PutScheduledTransactionWrapper,
+        init?: RequestInit,
+      ) => {
+        const before = images.scheduledTransaction(budgetId, scheduledTransactionId);
+        const response = await api.scheduledTransactions.updateScheduledTransaction(
+          budgetId,
+          scheduledTransactionId,
+          data,
+          init,
+        );
+        images.remember('scheduled_transaction', budgetId, [response.data.scheduled_transaction]);
+        record(
+          budgetId,
+          beforeImageChange(
+            {
+              entity: 'scheduled_transaction',
+              operation: 'update',
+              entity_id: scheduledTransactionId,
+              fields: Object.keys(data.scheduled_transaction),
+              after: asRecord(response.data.scheduled_transaction),
+            },
+            before,
+          ),
+        );
+        return response;
+      },
+      deleteScheduledTransaction: async (
+        budgetId: string,
+        scheduledTransactionId: string,
+        init?: RequestInit,
+      ) => {
+        const before = images.scheduledTransaction(budgetId, scheduledTransactionId);
+        const response = await api.scheduledTransactions.deleteScheduledTransaction(
+          budgetId,
+          scheduledTransactionId,
+          init,
+        );
+        record(
+          budgetId,
+          beforeImageChange(
+            {
+              entity: 'scheduled_transaction',
+              operation: 'delete',
+              entity_id: scheduledTransactionId,
+            },
+            before ?? { ...response.data.scheduled_transaction, deleted: false },
+          ),
+        );
+        return response;
+      },
+    },
+    payees: {
+      getPayees: async (...args: Parameters<ynab.PayeesApi['getPayees']>) => {
+        const response = await api.payees.getPayees(...args);
+        images.remember('payee', args[0], response.data.payees);
+        return response;
+      },
+      getPayeeById: async (...args: Parameters<ynab.PayeesApi['getPayeeById']>) => {
+        const response = await api.payees.getPayeeById(...args);
+        images.remember('payee', args[0], [response.data.payee]);
+        return response;
+      },
+      updatePayee: async (
+        budgetId: string,
+        payeeId: string,
+        data: ynab.PatchPayeeWrapper,
+        init?: RequestInit,
+      ) => {
+        const before = images.payee(budgetId, payeeId);
+        const response = await api.payees.updatePayee(budgetId, payeeId, data, init);
+        images.remember('payee', budgetId, [response.data.payee]);
+        record(
+          budgetId,
+          beforeImageChange(
+            {
+              entity: 'payee',
+              operation: 'update',
+              entity_id: payeeId,
+              fields: Object.keys(data.payee),
+              after: asRecord(response.data.payee),
+            },
+            before,
+          ),
+        );
+        return response;
+      },
+    },
+    accounts: {
+      createAccount: async (
+        budgetId: string,
+        data: ynab.PostAccountWrapper,
+        init?: RequestInit,
+      ) => {
+        const response = await api.accounts.createAccount(budgetId, data, init);
+        record(budgetId, {
+          entity: 'account',
+          operation: 'create',
+          entity_id: response.data.account.id,
+          after: asRecord(response.data.account),
+          not_undoable_reason:
+            'The YNAB API cannot delete accounts; close the account in YNAB instead',
+        });
+        return response;
+      },
+    },
+  };
+}
+
+export class WriteJournal {
+  /** Entries in chronological order */
+  private entries: JournalEntry[] = [];
+  /** Entry recorded by each wrapped client, if it has written anything */
+  private readonly entriesByClient = new WeakMap<ynab.API, () => JournalEntry | undefined>();
+
+  /**
+   * Wrap a YNAB API client so every mutation made through it during one tool call is journaled
+   *
+   * @param ynabAPI - The real API client
+   * @param tool - Name of the tool making the call
+   */
+  wrap(ynabAPI: ynab.API, tool: string): ynab.API {
+    let entry: JournalEntry | undefined;
+    const record: Recorder = (budgetId, change) => {
+      if (!entry) {
+        entry = {
+          id: randomUUID(),
+          tool,
+          budget_id: budgetId,
+          created_at: new Date().toISOString(),
+          changes: [],
+        };
+        this.add(entry);
+      }
+      entry.changes.push(change);
+    };
+    const interceptors = createInterceptors(ynabAPI, record);
+
+    const journaled = new Proxy(ynabAPI, {
+      get(target, property, receiver) {
+        const value = Reflect.get(target, property, receiver);
+        const overrides = typeof property === 'string' ? interceptors[property] : undefined;
+        if (!overrides || typeof value !== 'object' || value === null) {
+          return value;
+        }
+        return new Proxy(value as object, {
+          get(group, method) {
+            if (typeof method === 'string' && overrides[method]) {
+              return overrides[method];
+            }
+            const member = Reflect.get(group, method);
+            return typeof member === 'function' ? member.bind(group) : member;
+          },
+        });
+      },
+    });
+    this.entriesByClient.set(journaled, () => entry);
+    return journaled;
+  }
+
+  /**
+   * Entry recorded so far by a client returned from `wrap`
+   */
+  entryFor(ynabAPI: ynab.API): JournalEntry | undefined {
+    return this.entriesByClient.get(ynabAPI)?.();
+  }
+
+  /**
+   * List entries for a budget, newest first
+   */
+  list(budgetId: string, limit = MAX_ENTRIES): JournalEntry[] {
+    return this.entries
+      .filter((entry) => entry.budget_id === budgetId)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  get(entryId: string): JournalEntry | undefined {
+    return this.entries.find((entry) => entry.id === entryId);
+  }
+
+  /**
+   * Mark an entry as undone
+   *
+   * @param undoneBy - Journal entry that recorded the undo, if any writes were made
+   */
+  markUndone(entryId: string, undoneBy?: string): void {
+    const entry = this.get(entryId);
+    if (!entry) return;
+    entry.undone_at = new Date().toISOString();
+    if (undoneBy) entry.undone_by = undoneBy;
+  }
+
+  /**
+   * Mark one change of an entry as reverted, so a retried undo does not revert it again
+   *
+   * @param undoneEntityId - ID of the entity re-created by the undo, if it replaced a deleted one
+   */
+  markChangeUndone(change: JournalChange, undoneEntityId?: string): void {
+    change.undone_at = new Date().toISOString();
+    if (undoneEntityId) change.undone_entity_id = undoneEntityId;
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  private add(entry: JournalEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+  }
+}
+
+export const writeJournal = new WriteJournal();
@@ -0,0 +1,313 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import * as ynab from 'ynab';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  handleReviewUnapproved,
+  handleApproveTransactions,
+  ApproveTransactionsSchema,
+} from '../approvalTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { applyBulkTransactionUpdates } from '../bulkUpdateSupport.js';
+import { categorizationRuleStore } from '../../server/categorizationRuleStore.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+vi.mock('../bulkUpdateSupport.js', () => ({
+  applyBulkTransactionUpdates: vi.fn(),
+}));
+
+const mockYnabAPI = {} as unknown as ynab.API;
+
+const buildTransaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+  transactionDetail({
+    id: 'txn',
+    date: '2025-06-01',
+    amount: -15990,
+    account_id: 'checking',
+    ...overrides,
+  });
+
+const grocer = {
+  payee_id: 'payee-grocer',
+  payee_name: 'Grocer',
+  import_payee_name_original: 'GROCER #123 TORONTO ON',
+  category_id: 'cat-groceries',
+  category_name: 'Groceries',
+};
+
+const transactions = [
+  // Approved history
+  ...['2025-04-02', '2025-05-02', '2025-05-20'].map((date, index) =>
+    buildTransaction({ id: `hist-${index}`, date, amount: -60000, ...grocer }),
+  ),
+  // Unapproved imports
+  buildTransaction({
+    id: 'u-grocer',
+    date: '2025-06-10',
+    amount: -55000,
+    approved: false,
+    payee_id: 'payee-imported',
+    payee_name: 'GROCER #456 OTTAWA ON',
+    import_payee_name_original: 'GROCER #456 OTTAWA ON',
+  }),
+  buildTransaction({
+    id: 'u-netflix',
+    date: '2025-06-05',
+    amount: -17990,
+    approved: false,
+    account_id: 'visa',
+    account_name: 'Visa',
+    payee_id: 'payee-netflix',
+    payee_name: 'NETFLIX.COM',
+  }),
+  buildTransaction({
+    id: 'u-unknown',
+    date: '2025-06-03',
+    amount: -4200,
+    approved: false,
+    account_id: 'visa',
+    account_name: 'Visa',
+    payee_id: 'payee-kiosk',
+    payee_name: 'Kiosk',
+    category_id: 'cat-dining',
+    category_name: 'Dining',
+  }),
+  buildTransaction({ id: 'u-deleted', approved: false, deleted: true }),
+];
+
+const categoryGroups = [
+  {
+    id: 'group-1',
+    name: 'Everyday',
+    hidden: false,
+    deleted: false,
+    categories: [
+      { id: 'cat-groceries', name: 'Groceries', hidden: false, deleted: false },
+      { id: 'cat-streaming', name: 'Streaming', hidden: false, deleted: false },
+      { id: 'cat-dining', name: 'Dining', hidden: false, deleted: false },
+    ],
+  },
+] as unknown as ynab.CategoryGroupWithCategories[];
+
+const payees = [
+  { id: 'payee-grocer', name: 'Grocer', transfer_account_id: null, deleted: false },
+  {
+    id: 'payee-imported',
+    name: 'GROCER #456 OTTAWA ON',
+    transfer_account_id: null,
+    deleted: false,
+  },
+  { id: 'payee-netflix', name: 'NETFLIX.COM', transfer_account_id: null, deleted: false },
+  { id: 'payee-kiosk', name: 'Kiosk', transfer_account_id: null, deleted: false },
+] as ynab.Payee[];
+
+describe('approvalTools', () => {
+  let dir: string;
+  let budgetId: string;
+  let budgetCounter = 0;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ynab-approval-tools-'));
+    process.env['YNAB_MCP_RULES_PATH'] = join(dir, 'rules.json');
+  });
+
+  afterAll(() => {
+    delete process.env['YNAB_MCP_RULES_PATH'];
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-06-15T12:00:00Z'));
+    // The rule store is a process-wide singleton, so isolate tests by budget
+    budgetId = `budget-${++budgetCounter}`;
+    categorizationRuleStore.add({
+      budget_id: budgetId,
+      name: 'Streaming',
+      payee_pattern: 'netflix',
+      category_id: 'cat-streaming',
+    });
+    vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue({
+      data: transactions,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+    vi.spyOn(DeltaFetcher.prototype, 'fetchCategories').mockResolvedValue({
+      data: categoryGroups,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+    vi.spyOn(DeltaFetcher.prototype, 'fetchPayees').mockResolvedValue({
+      data: payees,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('ApproveTransactionsSchema', () => {
+    it('requires either transaction_ids or a filter, not both', () => {
+      expect(ApproveTransactionsSchema.safeParse({ budget_id: 'b' }).success).toBe(false);
+      expect(
+        ApproveTransactionsSchema.safeParse({
+          budget_id: 'b',
+          transaction_ids: ['t'],
+          account_id: 'a',
+        }).success,
+      ).toBe(false);
+      expect(
+        ApproveTransactionsSchema.safeParse({ budget_id: 'b', matched_by_rule: true }).success,
+      ).toBe(true);
+    });
+  });
+
+  describe('handleReviewUnapproved', () => {
+    it('groups unapproved transactions by account with category and payee suggestions', async () => {
+      const parsed = parseToolPayload(
+        await handleReviewUnapproved(mockYnabAPI, { budget_id: budgetId }),
+      );
+
+      expect(parsed.total_unapproved).toBe(3);
+      expect(parsed.summary).toEqual({
+        accounts: 2,
+        matched_by_rule: 1,
+        with_category_suggestion: 2,
+        with_payee_suggestion: 1,
+      });
+      expect(
+        parsed.accounts.map((account: { account_name: string; total_amount: number }) => [
+          account.account_name,
+          account.total_amount,
+        ]),
+      ).toEqual([
+        ['Checking', -55],
+        ['Visa', -22.19],
+      ]);
+
+      const [checking, visa] = parsed.accounts;
+      expect(checking.transactions[0].suggestions).toEqual({
+        category: {
+          category_id: 'cat-groceries',
+          category_name: 'Groceries',
+          source: 'history',
+          confidence: expect.any(Number),
+        },
+        payee: { payee_id: 'payee-grocer', payee_name: 'Grocer', used_count: 3 },
+      });
+      expect(visa.transactions[0]).toMatchObject({
+        transaction_id: 'u-netflix',
+        matched_rule: { name: 'Streaming' },
+        suggestions: {
+          category: { category_id: 'cat-streaming', source: 'rule', confidence: 100 },
+          payee: null,
+        },
+      });
+      expect(visa.transactions[1].suggestions).toEqual({ category: null, payee: null });
+    });
+  });
+
+  describe('handleApproveTransactions', () => {
+    it('previews rule-matched approvals with their category changes', async () => {
+      const parsed = parseToolPayload(
+        await handleApproveTransactions(mockYnabAPI, {
+          budget_id: budgetId,
+          matched_by_rule: true,
+          apply_category_suggestions: true,
+          dry_run: true,
+        }),
+      );
+
+      expect(parsed.summary).toEqual({ selected: 1, with_category_change: 1, skipped: 0 });
+      expect(parsed.transactions).toEqual([
+        {
+          transaction_id: 'u-netflix',
+          date: '2025-06-05',
+          amount: -17.99,
+          payee_name: 'NETFLIX.COM',
+          account_name: 'Visa',
+          category: { from: null, to: 'Streaming', source: 'rule', confidence: 100 },
+        },
+      ]);
+      expect(applyBulkTransactionUpdates).not.toHaveBeenCalled();
+    });
+
+    it('approves by id in one batch, applying suggestions and skipping the rest', async () => {
+      (applyBulkTransactionUpdates as ReturnType<typeof vi.fn>).mockResolvedValue({
+        updated: 3,
+        failed_ids: [],
+      });
+
+      const parsed = parseToolPayload(
+        await handleApproveTransactions(mockYnabAPI, {
+          budget_id: budgetId,
+          transaction_ids: ['u-grocer', 'u-netflix', 'u-unknown', 'hist-0', 'missing'],
+          apply_category_suggestions: true,
+        }),
+      );
+
+      const updates = (applyBulkTransactionUpdates as ReturnType<typeof vi.fn>).mock.calls[0][4];
+      expect(updates).toEqual([
+        {
+          id: 'u-grocer',
+          approved: true,
+          category_id: 'cat-groceries',
+          original_account_id: 'checking',
+          original_date: '2025-06-10',
+        },
+        {
+          id: 'u-netflix',
+          approved: true,
+          category_id: 'cat-streaming',
+          original_account_id: 'visa',
+          original_date: '2025-06-05',
+        },
+        {
+          id: 'u-unknown',
+          approved: true,
+          original_account_id: 'visa',
+          original_date: '2025-06-03',
+        },
+      ]);
+      expect(parsed).toEqual({
+        success: true,
+        summary: {
+          selected: 3,
+          with_category_change: 2,
+          skipped: 2,
+          approved: 3,
+          categorized: 2,
+          failed: 0,
+        },
+        skipped: [
+          { transaction_id: 'hist-0', reason: 'already_approved' },
+          { transaction_id: 'missing', reason: 'not_found' },
+        ],
+      });
+    });
+
+    it('approves without touching categories unless asked', async () => {
+      (applyBulkTransactionUpdates as ReturnType<typeof vi.fn>).mockResolvedValue({
+        updated: 2,
+        failed_ids: [],
+      });
+
+      await handleApproveTransactions(mockYnabAPI, { budget_id: budgetId, account_id: 'visa' });
+
+      const updates = (applyBulkTransactionUpdates as ReturnType<typeof vi.fn>).mock.calls[0][4];
+      expect(updates.map((update: { id: string }) => update.id)).toEqual([
+        'u-netflix',
+        'u-unknown',
+      ]);
+      expect(updates.every((update: object) => !('category_id' in update))).toBe(true);
+    });
+  });
+});
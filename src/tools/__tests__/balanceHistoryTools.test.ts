@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { handleAccountBalanceHistory, handleNetWorthHistory } from '../balanceHistoryTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+const mockYnabAPI = {} as unknown as ynab.API;
+
+const accounts = [
+  {
+    id: 'checking',
+    name: 'Checking',
+    type: 'checking',
+    on_budget: true,
+    closed: false,
+    deleted: false,
+    balance: 1500000,
+  },
+  {
+    id: 'visa',
+    name: 'Visa',
+    type: 'creditCard',
+    on_budget: true,
+    closed: false,
+    deleted: false,
+    balance: -300000,
+  },
+  {
+    id: 'old-savings',
+    name: 'Old Savings',
+    type: 'savings',
+    on_budget: false,
+    closed: true,
+    deleted: false,
+    balance: 0,
+  },
+] as ynab.Account[];
+
+const transaction = (
+  id: string,
+  account_id: string,
+  date: string,
+  amount: number,
+  deleted = false,
+) => transactionDetail({ id, account_id, date, amount, deleted });
+
+const transactions = [
+  transaction('open-checking', 'checking', '2025-03-01', 1000000),
+  transaction('open-savings', 'old-savings', '2025-03-01', 400000),
+  transaction('pay-apr', 'checking', '2025-04-15', 2000000),
+  transaction('card-apr', 'visa', '2025-04-20', -500000),
+  // Card payment moves money from checking to the card
+  transaction('card-payment', 'checking', '2025-05-02', -500000),
+  transaction('card-payment-in', 'visa', '2025-05-02', 500000),
+  // Savings were emptied into checking before the account was closed
+  transaction('close-savings', 'old-savings', '2025-05-10', -400000),
+  transaction('close-savings-in', 'checking', '2025-05-10', 400000),
+  transaction('rent-may', 'checking', '2025-05-28', -1400000),
+  transaction('card-jun', 'visa', '2025-06-03', -300000),
+  transaction('removed', 'checking', '2025-06-05', -999000, true),
+];
+
+describe('balanceHistoryTools', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-06-15T12:00:00Z'));
+    const cached = <T>(data: T[]) => ({
+      data,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+    vi.spyOn(DeltaFetcher.prototype, 'fetchAccounts').mockResolvedValue(cached(accounts));
+    vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue(cached(transactions));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('handleNetWorthHistory', () => {
+    it('walks month-end balances back from current balances', async () => {
+      const parsed = parseToolPayload(
+        await handleNetWorthHistory(mockYnabAPI, {
+          budget_id: 'budget-1',
+          months: 4,
+          include_accounts: true,
+        }),
+      );
+
+      expect(parsed.from_month).toBe('2025-03-01');
+      expect(parsed.to_month).toBe('2025-06-01');
+      expect(
+        parsed.history.map(
+          (point: {
+            date: string;
+            net_worth: number;
+            assets: number;
+            liabilities: number;
+            off_budget: number;
+          }) => [point.date, point.net_worth, point.assets, point.liabilities, point.off_budget],
+        ),
+      ).toEqual([
+        ['2025-03-31', 1400, 1400, 0, 400],
+        ['2025-04-30', 2900, 3400, -500, 400],
+        ['2025-05-31', 1500, 1500, 0, 0],
+        ['2025-06-15', 1200, 1500, -300, 0],
+      ]);
+      expect(parsed.change).toEqual({ net_worth: -200, percent_change: -14.3 });
+      expect(parsed.history[0].accounts).toEqual([
+        { account_id: 'checking', name: 'Checking', balance: 1000 },
+        { account_id: 'old-savings', name: 'Old Savings', balance: 400 },
+      ]);
+      expect(
+        parsed.accounts.find((account: { account_id: string }) => account.account_id === 'visa'),
+      ).toMatchObject({ kind: 'liability', on_budget: true });
+    });
+  });
+
+  describe('handleAccountBalanceHistory', () => {
+    it('returns daily balances with inflows and outflows', async () => {
+      const parsed = parseToolPayload(
+        await handleAccountBalanceHistory(mockYnabAPI, {
+          budget_id: 'budget-1',
+          account_id: 'checking',
+          since_date: '2025-05-09',
+          until_date: '2025-05-11',
+        }),
+      );
+
+      expect(parsed).toMatchObject({
+        account_name: 'Checking',
+        granularity: 'daily',
+        current_balance: 1500,
+        lowest: { date: '2025-05-09', balance: 2500 },
+        highest: { date: '2025-05-10', balance: 2900 },
+      });
+      expect(parsed.history).toEqual([
+        { date: '2025-05-09', balance: 2500, inflows: 0, outflows: 0, transaction_count: 0 },
+        { date: '2025-05-10', balance: 2900, inflows: 400, outflows: 0, transaction_count: 1 },
+        { date: '2025-05-11', balance: 2900, inflows: 0, outflows: 0, transaction_count: 0 },
+      ]);
+    });
+
+    it('returns month-end balances and rejects unknown accounts', async () => {
+      const parsed = parseToolPayload(
+        await handleAccountBalanceHistory(mockYnabAPI, {
+          budget_id: 'budget-1',
+          account_id: 'checking',
+          granularity: 'monthly',
+          since_date: '2025-04-01',
+        }),
+      );
+
+      expect(parsed.history).toEqual([
+        {
+          date: '2025-04-30',
+          month: '2025-04-01',
+          balance: 3000,
+          inflows: 2000,
+          outflows: 0,
+          transaction_count: 1,
+        },
+        {
+          date: '2025-05-31',
+          month: '2025-05-01',
+          balance: 1500,
+          inflows: 400,
+          outflows: -1900,
+          transaction_count: 3,
+        },
+        {
+          date: '2025-06-15',
+          month: '2025-06-01',
+          balance: 1500,
+          inflows: 0,
+          outflows: 0,
+          transaction_count: 0,
+        },
+      ]);
+
+      const missing = parseToolPayload(
+        await handleAccountBalanceHistory(mockYnabAPI, {
+          budget_id: 'budget-1',
+          account_id: 'nope',
+        }),
+      );
+      expect(JSON.stringify(missing)).toContain('Account not found: nope');
+    });
+
+    it('rejects daily ranges longer than a year before reading any data', async () => {
+      const result = await handleAccountBalanceHistory(mockYnabAPI, {
+        budget_id: 'budget-1',
+        account_id: 'checking',
+        since_date: '1900-01-01',
+      });
+
+      expect(result.content[0].text).toContain('Daily history is limited to 366 days');
+      expect(result.content[0].text).toContain('The requested range covers 45822 days');
+      expect(DeltaFetcher.prototype.fetchTransactions).not.toHaveBeenCalled();
+    });
+  });
+});
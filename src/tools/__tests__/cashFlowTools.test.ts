@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { handleForecastCashFlow } from '../cashFlowTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+const mockYnabAPI = {} as unknown as ynab.API;
+
+const accounts = [
+  {
+    id: 'checking',
+    name: 'Checking',
+    type: 'checking',
+    on_budget: true,
+    closed: false,
+    deleted: false,
+    balance: 1000000,
+  },
+  {
+    id: 'savings',
+    name: 'Savings',
+    type: 'savings',
+    on_budget: true,
+    closed: false,
+    deleted: false,
+    balance: 5000000,
+  },
+  {
+    id: 'old',
+    name: 'Old',
+    type: 'checking',
+    on_budget: true,
+    closed: true,
+    deleted: false,
+    balance: 0,
+  },
+  {
+    id: 'brokerage',
+    name: 'Brokerage',
+    type: 'otherAsset',
+    on_budget: false,
+    closed: false,
+    deleted: false,
+    balance: 9000000,
+  },
+] as ynab.Account[];
+
+const scheduled = (overrides: Partial<ynab.ScheduledTransactionDetail>) =>
+  ({
+    account_id: 'checking',
+    transfer_account_id: null,
+    category_name: null,
+    deleted: false,
+    subtransactions: [],
+    ...overrides,
+  }) as ynab.ScheduledTransactionDetail;
+
+const schedules = [
+  scheduled({
+    id: 'sched-rent',
+    date_first: '2025-01-01',
+    date_next: '2025-07-01',
+    frequency: 'monthly',
+    amount: -1200000,
+    payee_id: 'payee-landlord',
+    payee_name: 'Landlord',
+    category_name: 'Rent',
+  }),
+  scheduled({
+    id: 'sched-pay',
+    date_first: '2025-01-03',
+    date_next: '2025-06-27',
+    frequency: 'everyOtherWeek',
+    amount: 900000,
+    payee_id: 'payee-employer',
+    payee_name: 'Employer',
+  }),
+  // Overdue and not yet entered
+  scheduled({
+    id: 'sched-phone',
+    date_first: '2025-01-10',
+    date_next: '2025-06-10',
+    frequency: 'monthly',
+    amount: -50000,
+    payee_id: 'payee-phone',
+    payee_name: 'Phone',
+  }),
+  scheduled({
+    id: 'sched-save',
+    date_first: '2025-01-31',
+    date_next: '2025-06-30',
+    frequency: 'monthly',
+    amount: -100000,
+    payee_name: 'Transfer : Savings',
+    transfer_account_id: 'savings',
+  }),
+  scheduled({
+    id: 'sched-insurance',
+    date_first: '2024-09-15',
+    date_next: '2025-09-15',
+    frequency: 'yearly',
+    amount: -600000,
+    payee_name: 'Insurer',
+  }),
+];
+
+const transactions = [
+  // 90 days of groceries at 30.00 every 3 days = 10.00/day
+  ...Array.from({ length: 30 }, (_, index) =>
+    transactionDetail({
+      id: `groceries-${index}`,
+      date: new Date(Date.UTC(2025, 5, 14) - index * 3 * 86400000).toISOString().slice(0, 10),
+      amount: -30000,
+      account_id: 'checking',
+      payee_id: 'payee-grocer',
+    }),
+  ),
+  // Scheduled payees and transfers are already in the forecast
+  transactionDetail({
+    id: 'old-rent',
+    date: '2025-06-01',
+    amount: -1200000,
+    account_id: 'checking',
+    payee_id: 'payee-landlord',
+  }),
+  transactionDetail({
+    id: 'old-transfer',
+    date: '2025-05-31',
+    amount: -100000,
+    account_id: 'checking',
+    payee_id: 'payee-transfer',
+    transfer_account_id: 'savings',
+  }),
+];
+
+describe('cashFlowTools', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-06-15T12:00:00Z'));
+    const cached = <T>(data: T[]) => ({
+      data,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+    vi.spyOn(DeltaFetcher.prototype, 'fetchAccounts').mockResolvedValue(cached(accounts));
+    vi.spyOn(DeltaFetcher.prototype, 'fetchScheduledTransactions').mockResolvedValue(
+      cached(schedules),
+    );
+    vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue(cached(transactions));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('handleForecastCashFlow', () => {
+    it('projects balances from scheduled transactions, including transfers and overdue items', async () => {
+      const parsed = parseToolPayload(
+        await handleForecastCashFlow(mockYnabAPI, { budget_id: 'budget-1' }),
+      );
+
+      expect(parsed).toMatchObject({
+        start_date: '2025-06-15',
+        end_date: '2025-07-15',
+        days: 30,
+        balance_floor: 0,
+      });
+      expect(parsed.accounts.map((account: { account_id: string }) => account.account_id)).toEqual([
+        'checking',
+        'savings',
+      ]);
+
+      const [checking, savings] = parsed.accounts;
+      expect(
+        checking.scheduled.map((entry: { date: string; payee_name: string }) => [
+          entry.date,
+          entry.payee_name,
+        ]),
+      ).toEqual([
+        ['2025-06-15', 'Phone'],
+        ['2025-06-27', 'Employer'],
+        ['2025-06-30', 'Transfer : Savings'],
+        ['2025-07-01', 'Landlord'],
+        ['2025-07-10', 'Phone'],
+        ['2025-07-11', 'Employer'],
+      ]);
+      // Only the days the balance moves are listed, plus the first and last day
+      expect(checking.balance_changes.map((entry: { date: string }) => entry.date)).toEqual([
+        '2025-06-15',
+        '2025-06-27',
+        '2025-06-30',
+        '2025-07-01',
+        '2025-07-10',
+        '2025-07-11',
+        '2025-07-15',
+      ]);
+      expect(checking.balance_changes[0]).toEqual({ date: '2025-06-15', balance: 950 });
+      expect(checking.daily_balances).toBeUndefined();
+      // 1000 - 50 + 900 - 100 - 1200 + 900 - 50
+      expect(checking.ending_balance).toBe(1400);
+      expect(checking).toMatchObject({
+        lowest_balance: 500,
+        lowest_balance_date: '2025-07-10',
+        floor_checked: true,
+        below_floor_date: null,
+      });
+
+      expect(savings.scheduled).toEqual([
+        {
+          date: '2025-06-30',
+          scheduled_transaction_id: 'sched-save',
+          payee_name: 'Transfer : Savings',
+          category_name: null,
+          amount: 100,
+          transfer_from_account_id: 'checking',
+        },
+      ]);
+      expect(savings).toMatchObject({ ending_balance: 5100, floor_checked: false });
+      expect(parsed.alerts).toEqual([]);
+    });
+
+    it('adds average variable spending and flags the scheduled payment that breaks the floor', async () => {
+      const parsed = parseToolPayload(
+        await handleForecastCashFlow(mockYnabAPI, {
+          budget_id: 'budget-1',
+          account_ids: ['checking'],
+          include_variable_spending: true,
+          include_daily_balances: true,
+          balance_floor: 500,
+        }),
+      );
+
+      const [checking] = parsed.accounts;
+      expect(checking.daily_variable_spending).toBe(-10);
+      expect(checking.daily_balances).toHaveLength(31);
+      expect(checking.daily_balances[1]).toEqual({ date: '2025-06-16', balance: 940 });
+      // Days that only drift by the variable spending are left out of balance_changes
+      expect(checking.balance_changes[1]).toEqual({ date: '2025-06-27', balance: 1730 });
+      expect(parsed.alerts).toEqual([
+        {
+          account_id: 'checking',
+          account_name: 'Checking',
+          date: '2025-07-01',
+          // 950 - 16 days x 10 + 900 - 100 - 1200
+          balance: 390,
+          caused_by: {
+            date: '2025-07-01',
+            scheduled_transaction_id: 'sched-rent',
+            payee_name: 'Landlord',
+            category_name: 'Rent',
+            amount: -1200,
+          },
+        },
+      ]);
+    });
+
+    it('rejects closed or unknown accounts', async () => {
+      const result = await handleForecastCashFlow(mockYnabAPI, {
+        budget_id: 'budget-1',
+        account_ids: ['old', 'missing'],
+      });
+
+      expect(result.content[0].text).toContain('Unknown or closed accounts: old, missing');
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import * as ynab from 'ynab';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  handleCreateCategorizationRule,
+  handleListCategorizationRules,
+  handleDeleteCategorizationRule,
+  handleApplyCategorizationRules,
+  CreateCategorizationRuleSchema,
+} from '../categorizationRuleTools.js';
+import { handleUpdateTransactions } from '../transactionTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+vi.mock('../transactionTools.js', () => ({
+  handleUpdateTransactions: vi.fn(),
+}));
+
+const mockYnabAPI = {
+  categories: {
+    getCategoryById: vi.fn(),
+  },
+} as unknown as ynab.API;
+
+const buildTransaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+  transactionDetail({
+    date: '2024-05-01',
+    amount: -15990,
+    approved: false,
+    payee_id: 'payee-1',
+    payee_name: 'NETFLIX.COM',
+    ...overrides,
+  });
+
+describe('categorizationRuleTools', () => {
+  let dir: string;
+  let budgetId: string;
+  let budgetCounter = 0;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ynab-rule-tools-'));
+    process.env['YNAB_MCP_RULES_PATH'] = join(dir, 'rules.json');
+  });
+
+  afterAll(() => {
+    delete process.env['YNAB_MCP_RULES_PATH'];
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // The rule store is a process-wide singleton, so isolate tests by budget
+    budgetId = `budget-${++budgetCounter}`;
+    (mockYnabAPI.categories.getCategoryById as ReturnType<typeof vi.fn>).mockResolvedValue({
+      data: { category: { id: 'cat-streaming', name: 'Streaming' } },
+    });
+  });
+
+  const createRule = async (params: Record<string, unknown>) =>
+    parseToolPayload(
+      await handleCreateCategorizationRule(mockYnabAPI, {
+        budget_id: budgetId,
+        ...params,
+      } as never),
+    ).rule;
+
+  describe('CreateCategorizationRuleSchema', () => {
+    it('requires at least one condition and one action', () => {
+      expect(
+        CreateCategorizationRuleSchema.safeParse({ budget_id: 'b', category_id: 'c' }).success,
+      ).toBe(false);
+      expect(
+        CreateCategorizationRuleSchema.safeParse({ budget_id: 'b', payee_pattern: 'x' }).success,
+      ).toBe(false);
+      expect(
+        CreateCategorizationRuleSchema.safeParse({
+          budget_id: 'b',
+          payee_pattern: 'x',
+          flag_color: 'red',
+        }).success,
+      ).toBe(true);
+    });
+
+    it('rejects invalid regular expressions', () => {
+      const result = CreateCategorizationRuleSchema.safeParse({
+        budget_id: 'b',
+        payee_pattern: '(unclosed',
+        category_id: 'c',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects patterns that could backtrack catastrophically', () => {
+      const result = CreateCategorizationRuleSchema.safeParse({
+        budget_id: 'b',
+        memo_pattern: '(a+)+$',
+        category_id: 'c',
+      });
+      expect(result.success).toBe(false);
+      expect(JSON.stringify(result.error)).toContain('nested quantifiers');
+    });
+  });
+
+  describe('rule management', () => {
+    it('creates, lists and deletes rules', async () => {
+      const rule = await createRule({ payee_pattern: 'netflix', category_id: 'cat-streaming' });
+      expect(rule.actions.category_name).toBe('Streaming');
+
+      const listed = parseToolPayload(
+        await handleListCategorizationRules(mockYnabAPI, { budget_id: budgetId }),
+      );
+      expect(listed.rules.map((r: { id: string }) => r.id)).toEqual([rule.id]);
+
+      const deleted = parseToolPayload(
+        await handleDeleteCategorizationRule(mockYnabAPI, {
+          budget_id: budgetId,
+          rule_id: rule.id,
+        }),
+      );
+      expect(deleted.rule).toEqual({ id: rule.id, deleted: true });
+
+      const missing = await handleDeleteCategorizationRule(mockYnabAPI, {
+        budget_id: budgetId,
+        rule_id: rule.id,
+      });
+      expect(missing.content[0].text).toContain('Categorization rule not found');
+    });
+  });
+
+  describe('handleApplyCategorizationRules', () => {
+    beforeEach(() => {
+      vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue({
+        data: [
+          buildTransaction({ id: 'netflix' }),
+          buildTransaction({
+            id: 'coffee',
+            payee_name: 'SQ *BLUE BOTTLE',
+            memo: 'Order 4412 latte',
+            amount: -6500,
+          }),
+          buildTransaction({ id: 'unknown', payee_name: 'Mystery Vendor' }),
+          buildTransaction({
+            id: 'approved-categorized',
+            category_id: 'cat-food',
+            category_name: 'Food',
+            approved: true,
+          }),
+          buildTransaction({ id: 'transfer', transfer_account_id: 'account-2' }),
+          buildTransaction({ id: 'old', date: '2024-03-01' }),
+          buildTransaction({ id: 'savings', account_id: 'account-2' }),
+        ],
+        wasCached: true,
+        usedDelta: false,
+        serverKnowledge: 10,
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('shows which rule matched each transaction on dry run', async () => {
+      const netflix = await createRule({
+        name: 'Netflix',
+        payee_pattern: 'netflix',
+        category_id: 'cat-streaming',
+      });
+      await createRule({
+        name: 'Coffee',
+        payee_pattern: 'blue bottle',
+        max_amount: -1000,
+        memo_pattern: 'order \\d+ (.*)',
+        memo_rewrite: 'Coffee: $1',
+        flag_color: 'green',
+      });
+
+      const parsed = parseToolPayload(
+        await handleApplyCategorizationRules(mockYnabAPI, {
+          budget_id: budgetId,
+          account_id: 'account-1',
+          since_date: '2024-04-01',
+          dry_run: true,
+        }),
+      );
+
+      expect(parsed.summary).toEqual({
+        transactions_considered: 3,
+        transactions_to_update: 2,
+        already_matching: 0,
+        unmatched: 1,
+      });
+      expect(parsed.transactions[0]).toMatchObject({
+        transaction_id: 'netflix',
+        matched_rule: { id: netflix.id, name: 'Netflix' },
+        changes: { category: { from: null, to: 'Streaming' } },
+      });
+      expect(parsed.transactions[1].changes).toEqual({
+        memo: { from: 'Order 4412 latte', to: 'Coffee: latte' },
+        flag_color: { from: null, to: 'green' },
+      });
+      expect(handleUpdateTransactions).not.toHaveBeenCalled();
+      expect(DeltaFetcher.prototype.fetchTransactions).toHaveBeenCalledWith(budgetId);
+    });
+
+    it('applies the first matching rule by priority through update_transactions', async () => {
+      await createRule({ payee_pattern: '.', flag_color: 'red' });
+      await createRule({ payee_pattern: 'netflix', category_id: 'cat-streaming', priority: 1 });
+      (handleUpdateTransactions as ReturnType<typeof vi.fn>).mockResolvedValue({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              summary: { total_requested: 3, updated: 3, failed: 0 },
+              results: [],
+            }),
+          },
+        ],
+      });
+
+      const parsed = parseToolPayload(
+        await handleApplyCategorizationRules(mockYnabAPI, {
+          budget_id: budgetId,
+          account_id: 'account-1',
+          since_date: '2024-04-01',
+          scope: 'uncategorized',
+          approve: true,
+        }),
+      );
+
+      const [, , , updateParams] = (handleUpdateTransactions as ReturnType<typeof vi.fn>).mock
+        .calls[0];
+      expect(updateParams.transactions[0]).toEqual({
+        id: 'netflix',
+        category_id: 'cat-streaming',
+        approved: true,
+        original_account_id: 'account-1',
+        original_date: '2024-05-01',
+      });
+      expect(updateParams.transactions[1]).toMatchObject({ id: 'coffee', flag_color: 'red' });
+      expect(parsed.success).toBe(true);
+      expect(parsed.summary.updated).toBe(3);
+    });
+
+    it('requires at least one rule', async () => {
+      const result = await handleApplyCategorizationRules(mockYnabAPI, { budget_id: budgetId });
+      expect(result.content[0].text).toContain('No categorization rules to apply');
+    });
+  });
+});
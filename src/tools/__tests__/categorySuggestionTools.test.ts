@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { handleSuggestCategories } from '../categorySuggestionTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { applyBulkTransactionUpdates } from '../bulkUpdateSupport.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+vi.mock('../bulkUpdateSupport.js', () => ({
+  applyBulkTransactionUpdates: vi.fn(),
+}));
+
+const mockYnabAPI = {} as unknown as ynab.API;
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+};
+
+const buildTransaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+  transactionDetail({
+    id: 'txn',
+    date: daysAgo(1),
+    amount: -15990,
+    account_id: 'card',
+    account_name: 'Visa',
+    payee_id: 'payee-netflix',
+    payee_name: 'Netflix',
+    category_id: 'cat-streaming',
+    category_name: 'Streaming',
+    ...overrides,
+  });
+
+const categoryGroups = [
+  {
+    id: 'group-1',
+    name: 'Fun',
+    hidden: false,
+    deleted: false,
+    categories: [
+      { id: 'cat-streaming', name: 'Streaming', hidden: false, deleted: false },
+      { id: 'cat-coffee', name: 'Coffee', hidden: false, deleted: false },
+      { id: 'cat-groceries', name: 'Groceries', hidden: false, deleted: false },
+      { id: 'cat-old', name: 'Old Stuff', hidden: true, deleted: false },
+    ],
+  },
+] as unknown as ynab.CategoryGroupWithCategories[];
+
+const transactions = [
+  // History
+  buildTransaction({ id: 'h1', date: daysAgo(31) }),
+  buildTransaction({ id: 'h2', date: daysAgo(62) }),
+  buildTransaction({ id: 'h3', date: daysAgo(93) }),
+  buildTransaction({
+    id: 'h4',
+    date: daysAgo(20),
+    payee_id: 'payee-sq-1',
+    payee_name: 'SQ *BLUE BOTTLE #12',
+    amount: -6500,
+    category_id: 'cat-coffee',
+    category_name: 'Coffee',
+  }),
+  buildTransaction({
+    id: 'h5',
+    date: daysAgo(25),
+    payee_id: 'payee-costco',
+    payee_name: 'Costco',
+    amount: -120000,
+    category_id: null,
+    category_name: 'Split',
+    subtransactions: [
+      { id: 'h5-1', amount: -100000, category_id: 'cat-groceries', deleted: false },
+      { id: 'h5-2', amount: -20000, category_id: 'cat-streaming', deleted: false },
+    ] as ynab.SubTransaction[],
+  }),
+  buildTransaction({ id: 'old', date: daysAgo(800), category_id: 'cat-coffee' }),
+  buildTransaction({ id: 'hidden', date: daysAgo(10), category_id: 'cat-old' }),
+  // Uncategorized
+  buildTransaction({ id: 'u-netflix', category_id: null, category_name: null, approved: false }),
+  buildTransaction({
+    id: 'u-coffee',
+    date: daysAgo(2),
+    payee_id: 'payee-sq-2',
+    payee_name: 'SQ *BLUE BOTTLE #98',
+    amount: -7000,
+    category_id: null,
+    category_name: null,
+  }),
+  buildTransaction({
+    id: 'u-unknown',
+    date: daysAgo(3),
+    account_id: 'chequing',
+    payee_id: 'payee-new',
+    payee_name: 'Brand New Vendor',
+    category_id: null,
+    category_name: null,
+  }),
+  buildTransaction({
+    id: 'u-transfer',
+    category_id: null,
+    category_name: null,
+    transfer_account_id: 'savings',
+  }),
+];
+
+describe('categorySuggestionTools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue({
+      data: transactions,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+    vi.spyOn(DeltaFetcher.prototype, 'fetchCategories').mockResolvedValue({
+      data: categoryGroups,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('ranks candidates from payee history with evidence counts', async () => {
+    const parsed = parseToolPayload(
+      await handleSuggestCategories(mockYnabAPI, { budget_id: 'budget-1' }),
+    );
+
+    expect(parsed.total_uncategorized).toBe(3);
+    expect(parsed.suggestions.map((s: { transaction_id: string }) => s.transaction_id)).toEqual([
+      'u-netflix',
+      'u-coffee',
+      'u-unknown',
+    ]);
+
+    const [netflix, coffee, unknown] = parsed.suggestions;
+    expect(netflix.candidates).toHaveLength(1);
+    expect(netflix.candidates[0]).toMatchObject({
+      category_id: 'cat-streaming',
+      category_name: 'Streaming',
+      confidence: 100,
+      evidence: { transactions: 3, payee_exact: 3, amount_similar: 3, same_account: 3 },
+    });
+
+    // Different payee IDs, same merchant once store numbers and processor prefixes are stripped
+    expect(coffee.candidates[0]).toMatchObject({
+      category_id: 'cat-coffee',
+      evidence: { transactions: 1, payee_normalized: 1 },
+    });
+    expect(coffee.candidates[0].confidence).toBe(67);
+
+    expect(unknown.candidates).toEqual([]);
+    expect(parsed.applicable_count).toBe(1);
+    expect(applyBulkTransactionUpdates).not.toHaveBeenCalled();
+  });
+
+  it('ignores history outside the window and in hidden categories', async () => {
+    const parsed = parseToolPayload(
+      await handleSuggestCategories(mockYnabAPI, {
+        budget_id: 'budget-1',
+        transaction_ids: ['u-netflix'],
+      }),
+    );
+
+    const ids = parsed.suggestions[0].candidates.map((c: { category_id: string }) => c.category_id);
+    expect(ids).not.toContain('cat-coffee');
+    expect(ids).not.toContain('cat-old');
+  });
+
+  it('applies suggestions at or above min_confidence', async () => {
+    (applyBulkTransactionUpdates as ReturnType<typeof vi.fn>).mockResolvedValue({
+      updated: 2,
+      failed_ids: [],
+    });
+
+    const parsed = parseToolPayload(
+      await handleSuggestCategories(mockYnabAPI, {
+        budget_id: 'budget-1',
+        apply: true,
+        min_confidence: 60,
+      }),
+    );
+
+    const updates = (applyBulkTransactionUpdates as ReturnType<typeof vi.fn>).mock.calls[0][4];
+    expect(updates).toEqual([
+      {
+        id: 'u-netflix',
+        category_id: 'cat-streaming',
+        original_account_id: 'card',
+        original_date: daysAgo(1),
+      },
+      {
+        id: 'u-coffee',
+        category_id: 'cat-coffee',
+        original_account_id: 'card',
+        original_date: daysAgo(2),
+      },
+    ]);
+    expect(parsed.applied).toEqual({ updated: 2, failed: 0, below_threshold: 1 });
+    expect(parsed.suggestions.map((s: { status: string }) => s.status)).toEqual([
+      'applied',
+      'applied',
+      'skipped',
+    ]);
+  });
+});
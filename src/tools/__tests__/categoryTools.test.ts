@@ -4,10 +4,18 @@ import {
   handleListCategories,
   handleGetCategory,
   handleUpdateCategory,
+  handleMoveCategoryFunds,
+  handleAssignBudget,
+  handleUpdateCategoryGoal,
+  handleGoalProgress,
   ListCategoriesSchema,
   GetCategorySchema,
   UpdateCategorySchema,
+  MoveCategoryFundsSchema,
+  AssignBudgetSchema,
 } from '../categoryTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import type { DeltaCache } from '../../server/deltaCache.js';
 
 // Mock the cache manager
 vi.mock('../../server/cacheManager.js', () => ({
@@ -33,7 +41,12 @@ const mockYnabAPI = {
   categories: {
     getCategories: vi.fn(),
     getCategoryById: vi.fn(),
+    getMonthCategoryById: vi.fn(),
     updateMonthCategory: vi.fn(),
+    updateCategory: vi.fn(),
+  },
+  months: {
+    getBudgetMonth: vi.fn(),
   },
 } as unknown as ynab.API;
 
@@ -450,6 +463,35 @@ describe('Category Tools', () => {
       );
     });
 
+    it('should update the requested month when provided', async () => {
+      (mockYnabAPI.categories.updateMonthCategory as any).mockResolvedValue({
+        data: {
+          category: {
+            id: 'category-1',
+            name: 'Groceries',
+            budgeted: 60000,
+            activity: 0,
+            balance: 60000,
+          },
+        },
+      });
+
+      const result = await handleUpdateCategory(mockYnabAPI, {
+        budget_id: 'budget-1',
+        category_id: 'category-1',
+        budgeted: 60000,
+        month: '2099-02-14',
+      });
+
+      expect(mockYnabAPI.categories.updateMonthCategory).toHaveBeenCalledWith(
+        'budget-1',
+        '2099-02-01',
+        'category-1',
+        { category: { budgeted: 60000 } },
+      );
+      expect(JSON.parse(result.content[0].text).updated_month).toBe('2099-02-01');
+    });
+
     it('should handle 404 not found errors', async () => {
       (mockYnabAPI.categories.updateMonthCategory as any).mockRejectedValue(
         new Error('404 Not Found'),
@@ -583,6 +625,435 @@ describe('Category Tools', () => {
     });
   });
 
+  describe('handleMoveCategoryFunds', () => {
+    const buildMonthCategory = (overrides: Record<string, unknown>) => ({
+      id: 'category-1',
+      category_group_id: 'group-1',
+      name: 'Dining Out',
+      hidden: false,
+      budgeted: 100000,
+      activity: -20000,
+      balance: 80000,
+      deleted: false,
+      ...overrides,
+    });
+
+    const mockMonthCategories = () => {
+      (mockYnabAPI.categories.getMonthCategoryById as any).mockImplementation(
+        async (_budgetId: string, _month: string, categoryId: string) => ({
+          data: {
+            category:
+              categoryId === 'category-1'
+                ? buildMonthCategory({})
+                : buildMonthCategory({
+                    id: 'category-2',
+                    name: 'Groceries',
+                    budgeted: 50000,
+                    balance: -10000,
+                  }),
+          },
+        }),
+      );
+    };
+
+    it('should move funds by updating both categories for the month', async () => {
+      mockMonthCategories();
+      (mockYnabAPI.categories.updateMonthCategory as any).mockImplementation(
+        async (_budgetId: string, _month: string, categoryId: string, data: any) => ({
+          data: {
+            category: buildMonthCategory({
+              id: categoryId,
+              budgeted: data.category.budgeted,
+              balance: categoryId === 'category-1' ? 50000 : 20000,
+            }),
+            server_knowledge: 10,
+          },
+        }),
+      );
+
+      const result = await handleMoveCategoryFunds(mockYnabAPI, {
+        budget_id: 'budget-1',
+        from_category_id: 'category-1',
+        to_category_id: 'category-2',
+        amount: 30000,
+        month: '2024-05-15',
+      });
+
+      expect(mockYnabAPI.categories.updateMonthCategory).toHaveBeenNthCalledWith(
+        1,
+        'budget-1',
+        '2024-05-01',
+        'category-1',
+        { category: { budgeted: 70000 } },
+      );
+      expect(mockYnabAPI.categories.updateMonthCategory).toHaveBeenNthCalledWith(
+        2,
+        'budget-1',
+        '2024-05-01',
+        'category-2',
+        { category: { budgeted: 80000 } },
+      );
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.month).toBe('2024-05-01');
+      expect(parsedContent.from.budgeted_after).toBe(70);
+      expect(parsedContent.to.balance_after).toBe(20);
+    });
+
+    it('should reject moves larger than the available balance', async () => {
+      mockMonthCategories();
+
+      const result = await handleMoveCategoryFunds(mockYnabAPI, {
+        budget_id: 'budget-1',
+        from_category_id: 'category-1',
+        to_category_id: 'category-2',
+        amount: 90000,
+      });
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.error.message).toContain('Insufficient funds');
+      expect(mockYnabAPI.categories.updateMonthCategory).not.toHaveBeenCalled();
+    });
+
+    it('should roll back the source category when the destination update fails', async () => {
+      mockMonthCategories();
+      (mockYnabAPI.categories.updateMonthCategory as any)
+        .mockResolvedValueOnce({
+          data: { category: buildMonthCategory({ budgeted: 70000 }), server_knowledge: 10 },
+        })
+        .mockRejectedValueOnce(new Error('404 Not Found'))
+        .mockResolvedValueOnce({
+          data: { category: buildMonthCategory({}), server_knowledge: 11 },
+        });
+
+      const result = await handleMoveCategoryFunds(mockYnabAPI, {
+        budget_id: 'budget-1',
+        from_category_id: 'category-1',
+        to_category_id: 'category-2',
+        amount: 30000,
+        month: '2024-05-01',
+      });
+
+      expect(mockYnabAPI.categories.updateMonthCategory).toHaveBeenCalledTimes(3);
+      expect(mockYnabAPI.categories.updateMonthCategory).toHaveBeenLastCalledWith(
+        'budget-1',
+        '2024-05-01',
+        'category-1',
+        { category: { budgeted: 100000 } },
+      );
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.error).toBeDefined();
+    });
+
+    it('should preview the move without writing on dry_run', async () => {
+      mockMonthCategories();
+
+      const result = await handleMoveCategoryFunds(mockYnabAPI, {
+        budget_id: 'budget-1',
+        from_category_id: 'category-1',
+        to_category_id: 'category-2',
+        amount: 30000,
+        dry_run: true,
+      });
+
+      expect(mockYnabAPI.categories.updateMonthCategory).not.toHaveBeenCalled();
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.dry_run).toBe(true);
+      expect(parsedContent.action).toBe('move_category_funds');
+      expect(parsedContent.from.balance_after).toBe(50);
+      expect(parsedContent.to.budgeted_after).toBe(80);
+    });
+  });
+
+  describe('handleAssignBudget', () => {
+    const monthDetail = (toBeBudgeted: number) => ({
+      data: {
+        month: {
+          month: '2024-06-01',
+          to_be_budgeted: toBeBudgeted,
+          categories: [
+            { id: 'rent', name: 'Rent', budgeted: 0, activity: 0, balance: 0, deleted: false },
+            {
+              id: 'food',
+              name: 'Groceries',
+              budgeted: 40000,
+              activity: 0,
+              balance: 45000,
+              deleted: false,
+            },
+            {
+              id: 'fun',
+              name: 'Fun Money',
+              budgeted: 20000,
+              activity: 0,
+              balance: 20000,
+              deleted: false,
+            },
+          ],
+        },
+      },
+    });
+
+    it('should preview a before/after table and projected Ready to Assign on dry_run', async () => {
+      (mockYnabAPI.months.getBudgetMonth as any).mockResolvedValue(monthDetail(2000000));
+
+      const result = await handleAssignBudget(mockYnabAPI, {
+        budget_id: 'budget-1',
+        month: '2024-06-01',
+        assignments: [
+          { category_id: 'rent', budgeted: 1500000 },
+          { category_id: 'food', budgeted: 50000 },
+          { category_id: 'fun', budgeted: 20000 },
+        ],
+        dry_run: true,
+      });
+
+      expect(mockYnabAPI.categories.updateMonthCategory).not.toHaveBeenCalled();
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.dry_run).toBe(true);
+      expect(parsedContent.summary).toEqual({ categories: 3, changed: 2, total_change: 1510 });
+      expect(parsedContent.ready_to_assign).toMatchObject({
+        before: 2000,
+        after: 490,
+        change: -1510,
+      });
+      expect(parsedContent.assignments[1]).toMatchObject({
+        category_name: 'Groceries',
+        budgeted_before: 40,
+        budgeted_after: 50,
+        balance_after: 55,
+      });
+    });
+
+    it('should update changed categories, report failures and read back Ready to Assign', async () => {
+      (mockYnabAPI.months.getBudgetMonth as any)
+        .mockResolvedValueOnce(monthDetail(2000000))
+        .mockResolvedValueOnce(monthDetail(500000));
+      (mockYnabAPI.categories.updateMonthCategory as any)
+        .mockResolvedValueOnce({
+          data: {
+            category: { id: 'rent', name: 'Rent', budgeted: 1500000, balance: 1500000 },
+            server_knowledge: 12,
+          },
+        })
+        .mockRejectedValueOnce(new Error('429 Too Many Requests'));
+
+      const result = await handleAssignBudget(mockYnabAPI, {
+        budget_id: 'budget-1',
+        month: '2024-06-01',
+        assignments: [
+          { category_id: 'rent', budgeted: 1500000 },
+          { category_id: 'food', budgeted: 50000 },
+          { category_id: 'fun', budgeted: 20000 },
+        ],
+      });
+
+      expect(mockYnabAPI.categories.updateMonthCategory).toHaveBeenCalledTimes(2);
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.summary).toEqual({ categories: 3, updated: 1, unchanged: 1, failed: 1 });
+      expect(parsedContent.ready_to_assign).toEqual({ before: 2000, after: 500, change: -1500 });
+      expect(parsedContent.assignments.map((row: { status: string }) => row.status)).toEqual([
+        'updated',
+        'failed',
+        'unchanged',
+      ]);
+    });
+
+    it('should keep per-category results when the Ready to Assign read-back fails', async () => {
+      (mockYnabAPI.months.getBudgetMonth as any)
+        .mockResolvedValueOnce(monthDetail(2000000))
+        .mockRejectedValueOnce(new Error('500 Internal Server Error'));
+      (mockYnabAPI.categories.updateMonthCategory as any).mockResolvedValueOnce({
+        data: {
+          category: { id: 'rent', name: 'Rent', budgeted: 1500000, balance: 1500000 },
+          server_knowledge: 12,
+        },
+      });
+
+      const result = await handleAssignBudget(mockYnabAPI, {
+        budget_id: 'budget-1',
+        month: '2024-06-01',
+        assignments: [{ category_id: 'rent', budgeted: 1500000 }],
+      });
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.summary).toMatchObject({ updated: 1, failed: 0 });
+      expect(parsedContent.ready_to_assign).toEqual({ before: 2000, after: null, change: null });
+      expect(parsedContent.warning).toContain('could not be read back');
+      expect(parsedContent.assignments[0]).toMatchObject({
+        status: 'updated',
+        budgeted_after: 1500,
+      });
+    });
+
+    it('should reject category IDs that are not in the month', async () => {
+      (mockYnabAPI.months.getBudgetMonth as any).mockResolvedValue(monthDetail(0));
+
+      const result = await handleAssignBudget(mockYnabAPI, {
+        budget_id: 'budget-1',
+        assignments: [{ category_id: 'missing', budgeted: 1000 }],
+      });
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.error.message).toContain('missing');
+      expect(mockYnabAPI.categories.updateMonthCategory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleUpdateCategoryGoal', () => {
+    it('should update the target of an existing goal', async () => {
+      (mockYnabAPI.categories.getCategoryById as any).mockResolvedValue({
+        data: {
+          category: { id: 'category-1', name: 'Vacation', goal_type: 'TBD', goal_target: 500000 },
+        },
+      });
+      (mockYnabAPI.categories.updateCategory as any).mockResolvedValue({
+        data: {
+          category: {
+            id: 'category-1',
+            name: 'Vacation',
+            goal_type: 'TBD',
+            goal_target: 750000,
+            goal_target_month: '2024-12-01',
+            goal_under_funded: 62500,
+            goal_percentage_complete: 40,
+          },
+          server_knowledge: 20,
+        },
+      });
+
+      const result = await handleUpdateCategoryGoal(mockYnabAPI, {
+        budget_id: 'budget-1',
+        category_id: 'category-1',
+        goal_target: 750000,
+      });
+
+      expect(mockYnabAPI.categories.updateCategory).toHaveBeenCalledWith('budget-1', 'category-1', {
+        category: { goal_target: 750000 },
+      });
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.category.goal_target).toBe(750);
+      expect(parsedContent.goal_target_before).toBe(500);
+    });
+
+    it('should reject categories without a goal', async () => {
+      (mockYnabAPI.categories.getCategoryById as any).mockResolvedValue({
+        data: { category: { id: 'category-1', name: 'Misc', goal_type: null } },
+      });
+
+      const result = await handleUpdateCategoryGoal(mockYnabAPI, {
+        budget_id: 'budget-1',
+        category_id: 'category-1',
+        goal_target: 1000,
+      });
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.error.message).toContain('has no goal');
+      expect(mockYnabAPI.categories.updateCategory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleGoalProgress', () => {
+    it('should list underfunded goals sorted by urgency', async () => {
+      const deltaFetcher = new DeltaFetcher(mockYnabAPI, {} as DeltaCache);
+      vi.spyOn(deltaFetcher, 'fetchCategories').mockResolvedValue({
+        data: [
+          {
+            id: 'group-1',
+            name: 'Bills',
+            hidden: false,
+            deleted: false,
+            categories: [
+              {
+                id: 'rent',
+                name: 'Rent',
+                hidden: false,
+                deleted: false,
+                budgeted: 0,
+                balance: 0,
+                goal_type: 'NEED',
+                goal_target: 1500000,
+                goal_target_month: '2099-01-01',
+                goal_under_funded: 1500000,
+              },
+              {
+                id: 'car',
+                name: 'New Car',
+                hidden: false,
+                deleted: false,
+                budgeted: 0,
+                balance: 0,
+                goal_type: 'TB',
+                goal_target: 10000000,
+                goal_target_month: null,
+                goal_under_funded: 100000,
+              },
+              {
+                id: 'phone',
+                name: 'Phone',
+                hidden: false,
+                deleted: false,
+                budgeted: 0,
+                balance: 0,
+                goal_type: 'MF',
+                goal_target: 60000,
+                goal_target_month: null,
+                goal_under_funded: 60000,
+              },
+              {
+                id: 'funded',
+                name: 'Funded',
+                hidden: false,
+                deleted: false,
+                budgeted: 1000,
+                balance: 1000,
+                goal_type: 'MF',
+                goal_target: 1000,
+                goal_under_funded: 0,
+              },
+              {
+                id: 'snoozed',
+                name: 'Snoozed',
+                hidden: false,
+                deleted: false,
+                budgeted: 0,
+                balance: 0,
+                goal_type: 'MF',
+                goal_target: 5000,
+                goal_under_funded: 5000,
+                goal_snoozed_at: '2024-01-01T00:00:00Z',
+              },
+              {
+                id: 'nogoal',
+                name: 'No Goal',
+                hidden: false,
+                deleted: false,
+                budgeted: 0,
+                balance: 0,
+                goal_type: null,
+              },
+            ],
+          },
+        ] as unknown as ynab.CategoryGroupWithCategories[],
+        wasCached: true,
+        usedDelta: false,
+        serverKnowledge: 5,
+      });
+
+      const result = await handleGoalProgress(mockYnabAPI, deltaFetcher, { budget_id: 'budget-1' });
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.goals.map((goal: { category_id: string }) => goal.category_id)).toEqual([
+        'phone',
+        'rent',
+        'car',
+      ]);
+      expect(parsedContent.total_needed_this_month).toBe(1660);
+      expect(parsedContent.goals[0].goal_type_label).toBe('Monthly Funding');
+      expect(parsedContent.cached).toBe(true);
+    });
+  });
+
   describe('Schema Validation', () => {
     describe('ListCategoriesSchema', () => {
       it('should validate valid budget_id', () => {
@@ -672,5 +1143,40 @@ describe('Category Tools', () => {
         expect(result.budgeted).toBe(0);
       });
     });
+
+    describe('AssignBudgetSchema', () => {
+      it('should reject duplicate category IDs', () => {
+        const result = AssignBudgetSchema.safeParse({
+          budget_id: 'budget-1',
+          assignments: [
+            { category_id: 'category-1', budgeted: 1000 },
+            { category_id: 'category-1', budgeted: 2000 },
+          ],
+        });
+        expect(result.success).toBe(false);
+      });
+    });
+
+    describe('MoveCategoryFundsSchema', () => {
+      it('should reject moving funds into the same category', () => {
+        const result = MoveCategoryFundsSchema.safeParse({
+          budget_id: 'budget-1',
+          from_category_id: 'category-1',
+          to_category_id: 'category-1',
+          amount: 1000,
+        });
+        expect(result.success).toBe(false);
+      });
+
+      it('should reject non-positive amounts', () => {
+        const result = MoveCategoryFundsSchema.safeParse({
+          budget_id: 'budget-1',
+          from_category_id: 'category-1',
+          to_category_id: 'category-2',
+          amount: -1000,
+        });
+        expect(result.success).toBe(false);
+      });
+    });
   });
 });
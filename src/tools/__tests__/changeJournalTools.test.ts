@@ -0,0 +1,343 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as ynab from 'ynab';
+import { handleListRecentChanges, handleUndoChange } from '../changeJournalTools.js';
+import { writeJournal } from '../../server/writeJournal.js';
+import { DeltaCache } from '../../server/deltaCache.js';
+import { CacheManager, cacheManager } from '../../server/cacheManager.js';
+import { ServerKnowledgeStore } from '../../server/serverKnowledgeStore.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+const transaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+  transactionDetail({
+    payee_id: 'payee-1',
+    payee_name: 'Grocer',
+    category_id: 'cat-1',
+    ...overrides,
+  });
+
+const createMockApi = () =>
+  ({
+    transactions: {
+      getTransactionById: vi.fn(),
+      createTransaction: vi.fn(),
+      updateTransaction: vi.fn(),
+      deleteTransaction: vi.fn(),
+    },
+    categories: {
+      getCategoryById: vi.fn(),
+      updateCategory: vi.fn(),
+      getMonthCategoryById: vi.fn(),
+      updateMonthCategory: vi.fn(),
+    },
+  }) as unknown as ynab.API & {
+    transactions: Record<string, ReturnType<typeof vi.fn>>;
+    categories: Record<string, ReturnType<typeof vi.fn>>;
+  };
+
+const notFound = {
+  error: { id: '404.2', name: 'resource_not_found', detail: 'Resource not found' },
+};
+
+describe('changeJournalTools', () => {
+  let api: ReturnType<typeof createMockApi>;
+  let deltaCache: DeltaCache;
+  let knowledgeStore: ServerKnowledgeStore;
+
+  /** Runs a write through the journal the same way the server adapters do */
+  const journalUpdate = async () => {
+    api.transactions.getTransactionById.mockResolvedValueOnce({
+      data: { transaction: transaction() },
+    });
+    api.transactions.updateTransaction.mockResolvedValueOnce({
+      data: { transaction: transaction({ category_id: 'cat-2', memo: 'edited' }) },
+    });
+    const wrapped = writeJournal.wrap(api, 'update_transaction');
+    await wrapped.transactions.getTransactionById('budget-1', 'txn-1');
+    await wrapped.transactions.updateTransaction('budget-1', 'txn-1', {
+      transaction: { category_id: 'cat-2', memo: 'edited' },
+    });
+    return writeJournal.list('budget-1')[0];
+  };
+
+  beforeEach(() => {
+    writeJournal.clear();
+    cacheManager.clear();
+    api = createMockApi();
+    knowledgeStore = new ServerKnowledgeStore();
+    deltaCache = new DeltaCache(
+      { deleteByBudgetId: vi.fn(), deleteByPrefix: vi.fn() } as never,
+      knowledgeStore,
+    );
+    vi.spyOn(deltaCache, 'invalidate');
+  });
+
+  it('lists journaled changes with undo availability', async () => {
+    await journalUpdate();
+
+    const parsed = parseToolPayload(await handleListRecentChanges(api, { budget_id: 'budget-1' }));
+
+    expect(parsed.total_count).toBe(1);
+    expect(parsed.changes[0]).toMatchObject({
+      tool: 'update_transaction',
+      change_count: 1,
+      changes: [
+        {
+          entity: 'transaction',
+          operation: 'update',
+          entity_id: 'txn-1',
+          fields: ['category_id', 'memo'],
+          payee_name: 'Grocer',
+          amount: -12,
+          undoable: true,
+        },
+      ],
+    });
+  });
+
+  it('reverts only the fields the change touched', async () => {
+    const entry = await journalUpdate();
+    api.transactions.getTransactionById.mockResolvedValue({
+      data: { transaction: transaction({ category_id: 'cat-2', memo: 'edited' }) },
+    });
+    api.transactions.updateTransaction.mockResolvedValue({ data: { transaction: transaction() } });
+    const transactionCacheKey = CacheManager.generateKey('transaction', 'get', 'budget-1', 'txn-1');
+    const categoryCacheKey = CacheManager.generateKey('category', 'get', 'budget-1', 'cat-2');
+    cacheManager.set(transactionCacheKey, transaction({ category_id: 'cat-2' }));
+    cacheManager.set(categoryCacheKey, { id: 'cat-2' });
+
+    const wrapped = writeJournal.wrap(api, 'undo_change');
+    const parsed = parseToolPayload(
+      await handleUndoChange(wrapped, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        change_id: entry.id,
+      }),
+    );
+
+    expect(api.transactions.updateTransaction).toHaveBeenLastCalledWith(
+      'budget-1',
+      'txn-1',
+      {
+        transaction: { category_id: 'cat-1', memo: null },
+      },
+      undefined,
+    );
+    expect(parsed).toMatchObject({ undone: true, summary: { reverted: 1, conflicts: 0 } });
+    expect(deltaCache.invalidate).toHaveBeenCalledWith('budget-1', 'transactions');
+    expect(cacheManager.has(transactionCacheKey)).toBe(false);
+    expect(cacheManager.has(categoryCacheKey)).toBe(false);
+
+    const undone = writeJournal.get(entry.id);
+    expect(undone?.undone_at).toBeDefined();
+    expect(undone?.undone_by).toBe(writeJournal.entryFor(wrapped)?.id);
+  });
+
+  it('reports conflicts when the entity changed since, unless forced', async () => {
+    const entry = await journalUpdate();
+    api.transactions.getTransactionById.mockResolvedValue({
+      data: { transaction: transaction({ category_id: 'cat-3', memo: 'edited' }) },
+    });
+
+    const parsed = parseToolPayload(
+      await handleUndoChange(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        change_id: entry.id,
+      }),
+    );
+
+    expect(parsed.undone).toBe(false);
+    expect(parsed.steps[0]).toMatchObject({
+      status: 'conflict',
+      conflicting_fields: ['category_id'],
+    });
+    expect(api.transactions.updateTransaction).toHaveBeenCalledTimes(1);
+    expect(writeJournal.get(entry.id)?.undone_at).toBeUndefined();
+
+    api.transactions.updateTransaction.mockResolvedValue({ data: { transaction: transaction() } });
+    const forced = parseToolPayload(
+      await handleUndoChange(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        change_id: entry.id,
+        force: true,
+      }),
+    );
+    expect(forced.undone).toBe(true);
+  });
+
+  it('previews with dry_run without writing', async () => {
+    const entry = await journalUpdate();
+    api.transactions.getTransactionById.mockResolvedValue({
+      data: { transaction: transaction({ category_id: 'cat-2', memo: 'edited' }) },
+    });
+
+    const parsed = parseToolPayload(
+      await handleUndoChange(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        change_id: entry.id,
+        dry_run: true,
+      }),
+    );
+
+    expect(parsed).toMatchObject({
+      dry_run: true,
+      action: 'undo_change',
+      summary: { would_revert: 1 },
+      steps: [{ action: 'restore_fields', status: 'would_revert' }],
+    });
+    expect(api.transactions.updateTransaction).toHaveBeenCalledTimes(1);
+    expect(deltaCache.invalidate).not.toHaveBeenCalled();
+  });
+
+  it('re-creates deleted transactions and deletes created ones', async () => {
+    api.transactions.getTransactionById.mockResolvedValueOnce({
+      data: { transaction: transaction({ id: 'txn-old' }) },
+    });
+    api.transactions.deleteTransaction.mockResolvedValue({ data: { transaction: transaction() } });
+    api.transactions.createTransaction.mockResolvedValueOnce({
+      data: { transaction: transaction({ id: 'txn-new' }) },
+    });
+    const wrapped = writeJournal.wrap(api, 'reconcile_account');
+    await wrapped.transactions.deleteTransaction('budget-1', 'txn-old');
+    await wrapped.transactions.createTransaction('budget-1', { transaction: {} });
+    const entry = writeJournal.entryFor(wrapped)!;
+
+    api.transactions.getTransactionById.mockImplementation(async (_budget: string, id: string) => {
+      if (id === 'txn-old') throw notFound;
+      return { data: { transaction: transaction({ id }) } };
+    });
+    api.transactions.createTransaction.mockResolvedValue({
+      data: { transaction: transaction({ id: 'txn-restored' }) },
+    });
+
+    const parsed = parseToolPayload(
+      await handleUndoChange(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        change_id: entry.id,
+      }),
+    );
+
+    expect(parsed.steps).toMatchObject([
+      { operation: 'create', entity_id: 'txn-new', action: 'delete', status: 'reverted' },
+      {
+        operation: 'delete',
+        entity_id: 'txn-old',
+        action: 'recreate',
+        status: 'reverted',
+        new_entity_id: 'txn-restored',
+      },
+    ]);
+    expect(api.transactions.deleteTransaction).toHaveBeenLastCalledWith('budget-1', 'txn-new');
+    expect(api.transactions.createTransaction).toHaveBeenLastCalledWith('budget-1', {
+      transaction: expect.objectContaining({
+        account_id: 'account-1',
+        amount: -12000,
+        category_id: 'cat-1',
+      }),
+    });
+  });
+
+  it('skips changes a partial undo already reverted when retried', async () => {
+    api.transactions.deleteTransaction.mockImplementation(async (_budget: string, id: string) => ({
+      data: { transaction: transaction({ id, deleted: true }) },
+    }));
+    const wrapped = writeJournal.wrap(api, 'delete_transactions');
+    await wrapped.transactions.deleteTransaction('budget-1', 'txn-a');
+    await wrapped.transactions.deleteTransaction('budget-1', 'txn-b');
+    const entry = writeJournal.entryFor(wrapped)!;
+
+    api.transactions.getTransactionById.mockRejectedValue(notFound);
+    api.transactions.createTransaction
+      .mockResolvedValueOnce({ data: { transaction: transaction({ id: 'txn-b2' }) } })
+      .mockRejectedValueOnce(new Error('Service unavailable'))
+      .mockResolvedValueOnce({ data: { transaction: transaction({ id: 'txn-a2' }) } });
+
+    const partial = parseToolPayload(
+      await handleUndoChange(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        change_id: entry.id,
+      }),
+    );
+    expect(partial).toMatchObject({ undone: false, summary: { reverted: 1, failed: 1 } });
+    expect(writeJournal.get(entry.id)?.changes[1]).toMatchObject({
+      entity_id: 'txn-b',
+      undone_entity_id: 'txn-b2',
+    });
+
+    const retried = parseToolPayload(
+      await handleUndoChange(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        change_id: entry.id,
+        force: true,
+      }),
+    );
+
+    expect(api.transactions.createTransaction).toHaveBeenCalledTimes(3);
+    expect(retried).toMatchObject({ undone: true, summary: { reverted: 1, already_reverted: 1 } });
+    expect(retried.steps).toMatchObject([
+      { entity_id: 'txn-b', status: 'already_reverted', new_entity_id: 'txn-b2' },
+      { entity_id: 'txn-a', status: 'reverted', new_entity_id: 'txn-a2' },
+    ]);
+    expect(writeJournal.get(entry.id)?.undone_at).toBeDefined();
+  });
+
+  it('reports category fields the YNAB API cannot restore', async () => {
+    const category = { id: 'cat-1', name: 'Groceries', goal_target: 100000 };
+    api.categories.getCategoryById.mockResolvedValueOnce({ data: { category } });
+    api.categories.updateCategory.mockResolvedValueOnce({
+      data: { category: { ...category, goal_target: 200000, goal_target_date: '2025-12-01' } },
+    });
+    const wrapped = writeJournal.wrap(api, 'update_category_goal');
+    await wrapped.categories.getCategoryById('budget-1', 'cat-1');
+    await wrapped.categories.updateCategory('budget-1', 'cat-1', {
+      category: { goal_target: 200000, goal_target_date: '2025-12-01' } as ynab.SaveCategory,
+    });
+    const entry = writeJournal.entryFor(wrapped)!;
+
+    api.categories.getCategoryById.mockResolvedValue({
+      data: { category: { ...category, goal_target: 200000, goal_target_date: '2025-12-01' } },
+    });
+    api.categories.updateCategory.mockResolvedValue({ data: { category } });
+    const monthCacheKey = CacheManager.generateKey(
+      'month',
+      'get',
+      'budget-1',
+      `${new Date().toISOString().slice(0, 7)}-01`,
+    );
+    cacheManager.set(monthCacheKey, { month: 'current' });
+
+    const parsed = parseToolPayload(
+      await handleUndoChange(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        change_id: entry.id,
+      }),
+    );
+
+    expect(api.categories.updateCategory).toHaveBeenLastCalledWith('budget-1', 'cat-1', {
+      category: { goal_target: 100000 },
+    });
+    expect(parsed.steps[0]).toMatchObject({
+      status: 'reverted',
+      detail: expect.stringContaining('goal_target_date cannot be restored'),
+    });
+    expect(deltaCache.invalidate).toHaveBeenCalledWith('budget-1', 'categories');
+    expect(cacheManager.has(monthCacheKey)).toBe(false);
+  });
+
+  it('rejects unknown and already undone changes', async () => {
+    await expect(
+      handleUndoChange(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        change_id: 'missing',
+      }),
+    ).resolves.toMatchObject({
+      content: [{ text: expect.stringContaining('Change not found') }],
+    });
+
+    const entry = await journalUpdate();
+    writeJournal.markUndone(entry.id);
+    const result = await handleUndoChange(api, deltaCache, knowledgeStore, {
+      budget_id: 'budget-1',
+      change_id: entry.id,
+    });
+    expect(result.content[0].text).toContain('already undone');
+  });
+});
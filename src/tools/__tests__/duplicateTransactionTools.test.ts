@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { handleFindDuplicateTransactions } from '../duplicateTransactionTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+const mockYnabAPI = {} as unknown as ynab.API;
+
+const transaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+  transactionDetail({
+    date: '2025-03-10',
+    amount: -42500,
+    cleared: 'uncleared',
+    account_id: 'visa',
+    payee_id: 'payee-shell',
+    payee_name: 'Shell',
+    category_id: 'cat-gas',
+    category_name: 'Gas',
+    ...overrides,
+  });
+
+const transactions = [
+  // Typed in by hand, then imported a day later under the bank's payee name
+  transaction({ id: 'manual-gas', memo: 'Road trip' }),
+  transaction({
+    id: 'imported-gas',
+    date: '2025-03-11',
+    payee_id: 'payee-shell-oil',
+    payee_name: 'SHELL',
+    category_id: null,
+    category_name: null,
+    cleared: 'cleared',
+    import_id: 'YNAB:-42500:2025-03-11:1',
+  }),
+  // Same amount, different account
+  transaction({ id: 'other-account', account_id: 'checking' }),
+  // Same amount and account, but well outside the date window
+  transaction({ id: 'next-month', date: '2025-04-12' }),
+  // Same day, same payee, both imported: two coffees
+  transaction({
+    id: 'coffee-1',
+    amount: -5000,
+    payee_id: 'payee-cafe',
+    payee_name: 'Cafe',
+    import_id: 'YNAB:-5000:2025-03-10:1',
+  }),
+  transaction({
+    id: 'coffee-2',
+    amount: -5000,
+    payee_id: 'payee-cafe',
+    payee_name: 'Cafe',
+    import_id: 'YNAB:-5000:2025-03-10:2',
+  }),
+  // Already matched by YNAB
+  transaction({ id: 'matched-a', amount: -9900, matched_transaction_id: 'matched-b' }),
+  transaction({ id: 'matched-b', amount: -9900 }),
+  // Transfers are never reported
+  transaction({ id: 'transfer-1', amount: -100000, transfer_account_id: 'savings' }),
+  transaction({ id: 'transfer-2', amount: -100000, transfer_account_id: 'savings' }),
+];
+
+describe('duplicateTransactionTools', () => {
+  beforeEach(() => {
+    vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue({
+      data: transactions,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('scores manual-vs-import pairs highest and keeps the imported side', async () => {
+    const parsed = parseToolPayload(
+      await handleFindDuplicateTransactions(mockYnabAPI, {
+        budget_id: 'budget-1',
+        since_date: '2025-01-01',
+      }),
+    );
+
+    expect(parsed.duplicates.map((d: { remove: { id: string } }) => d.remove.id)).toEqual([
+      'manual-gas',
+      'coffee-2',
+    ]);
+
+    const gas = parsed.duplicates[0];
+    expect(gas).toMatchObject({
+      days_apart: 1,
+      keep: { id: 'imported-gas' },
+      remove: { id: 'manual-gas' },
+      suggested_action: 'delete_remove',
+      merge_fields: ['category_id', 'memo'],
+    });
+    expect(gas.signals).toEqual(
+      expect.arrayContaining(['same_account_and_amount', 'near_date', 'import_vs_manual']),
+    );
+    expect(gas.score).toBeGreaterThanOrEqual(60);
+
+    expect(parsed.duplicates[1].signals).toEqual(
+      expect.arrayContaining(['same_date', 'same_payee', 'both_imported']),
+    );
+    // Both came from the bank with their own import IDs, so they may be two real purchases
+    expect(parsed.duplicates[1].suggested_action).toBe('review');
+  });
+
+  it('ignores same-amount pairs from different payees', async () => {
+    vi.mocked(DeltaFetcher.prototype.fetchTransactions).mockResolvedValue({
+      data: [
+        transaction({
+          id: 'starbucks',
+          amount: -10000,
+          payee_id: 'payee-starbucks',
+          payee_name: 'Starbucks',
+          import_id: 'YNAB:-10000:2025-03-10:1',
+        }),
+        transaction({
+          id: 'shell',
+          amount: -10000,
+          payee_id: 'payee-shell-gas',
+          payee_name: 'Shell Gas',
+          import_id: 'YNAB:-10000:2025-03-10:2',
+        }),
+      ],
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+
+    const parsed = parseToolPayload(
+      await handleFindDuplicateTransactions(mockYnabAPI, {
+        budget_id: 'budget-1',
+        since_date: '2025-01-01',
+        min_score: 0,
+      }),
+    );
+
+    expect(parsed.total_pairs).toBe(0);
+    expect(parsed.follow_up).toEqual([]);
+  });
+
+  it('returns follow-up calls for the bulk tools as dry runs', async () => {
+    const parsed = parseToolPayload(
+      await handleFindDuplicateTransactions(mockYnabAPI, {
+        budget_id: 'budget-1',
+        since_date: '2025-01-01',
+      }),
+    );
+
+    expect(parsed.follow_up).toEqual([
+      {
+        tool: 'update_transactions',
+        description: expect.any(String),
+        arguments: {
+          budget_id: 'budget-1',
+          transactions: [
+            {
+              id: 'imported-gas',
+              category_id: 'cat-gas',
+              memo: 'Road trip',
+              original_account_id: 'visa',
+              original_date: '2025-03-11',
+            },
+          ],
+          dry_run: true,
+        },
+      },
+      {
+        tool: 'delete_transactions',
+        description: expect.any(String),
+        arguments: {
+          budget_id: 'budget-1',
+          transaction_ids: ['manual-gas'],
+          dry_run: true,
+        },
+      },
+    ]);
+  });
+
+  it('respects min_score, account and date filters', async () => {
+    const strict = parseToolPayload(
+      await handleFindDuplicateTransactions(mockYnabAPI, {
+        budget_id: 'budget-1',
+        since_date: '2025-01-01',
+        min_score: 92,
+      }),
+    );
+    expect(strict.duplicates.map((d: { remove: { id: string } }) => d.remove.id)).toEqual([
+      'manual-gas',
+    ]);
+
+    const filtered = parseToolPayload(
+      await handleFindDuplicateTransactions(mockYnabAPI, {
+        budget_id: 'budget-1',
+        account_id: 'checking',
+        since_date: '2025-01-01',
+      }),
+    );
+    expect(filtered.scanned_transactions).toBe(1);
+    expect(filtered.duplicates).toEqual([]);
+    expect(filtered.follow_up).toEqual([]);
+  });
+
+  it('never suggests deleting a reconciled transaction', async () => {
+    vi.mocked(DeltaFetcher.prototype.fetchTransactions).mockResolvedValue({
+      data: [
+        transaction({ id: 'rec-1', cleared: 'reconciled', import_id: 'YNAB:-42500:2025-03-10:1' }),
+        transaction({ id: 'rec-2', cleared: 'reconciled', import_id: 'YNAB:-42500:2025-03-10:2' }),
+      ],
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+
+    const parsed = parseToolPayload(
+      await handleFindDuplicateTransactions(mockYnabAPI, {
+        budget_id: 'budget-1',
+        since_date: '2025-01-01',
+      }),
+    );
+
+    expect(parsed.duplicates[0].suggested_action).toBe('review');
+    expect(parsed.follow_up).toEqual([]);
+  });
+});
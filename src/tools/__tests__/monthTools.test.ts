@@ -3,8 +3,10 @@ import * as ynab from 'ynab';
 import {
   handleGetMonth,
   handleListMonths,
+  handleCompareMonths,
   GetMonthSchema,
   ListMonthsSchema,
+  CompareMonthsSchema,
 } from '../monthTools.js';
 
 // Mock the cache manager
@@ -498,4 +500,118 @@ describe('Month Tools', () => {
       expect(() => ListMonthsSchema.parse({ budget_id: 123 })).toThrow();
     });
   });
+
+  describe('handleCompareMonths', () => {
+    const category = (
+      id: string,
+      name: string,
+      budgeted: number,
+      activity: number,
+      balance: number,
+    ) => ({
+      id,
+      name,
+      category_group_name: name === 'Inflow: Ready to Assign' ? 'Internal' : 'Everyday',
+      budgeted,
+      activity,
+      balance,
+      hidden: false,
+      deleted: false,
+    });
+    const months: Record<string, object> = {
+      '2024-01-01': {
+        month: '2024-01-01',
+        income: 500000,
+        budgeted: 450000,
+        activity: -400000,
+        to_be_budgeted: 50000,
+        age_of_money: 30,
+        categories: [
+          category('rta', 'Inflow: Ready to Assign', 0, 500000, 50000),
+          category('groceries', 'Groceries', 400000, -380000, 20000),
+          category('dining', 'Dining', 50000, -20000, 30000),
+          category('rent', 'Rent', 1000000, -1000000, 0),
+        ],
+      },
+      '2024-02-01': {
+        month: '2024-02-01',
+        income: 550000,
+        budgeted: 420000,
+        activity: -470000,
+        to_be_budgeted: 130000,
+        age_of_money: 34,
+        categories: [
+          category('rta', 'Inflow: Ready to Assign', 0, 550000, 130000),
+          category('groceries', 'Groceries', 400000, -400000, 20000),
+          category('dining', 'Dining', 20000, -70000, -20000),
+          category('rent', 'Rent', 1000000, -1000000, 0),
+          category('gifts', 'Gifts', 10000, 0, 10000),
+        ],
+      },
+    };
+
+    beforeEach(() => {
+      (cacheManager.has as any).mockReturnValue(false);
+      (cacheManager.wrap as any).mockImplementation(
+        (_key: string, options: { loader: () => Promise<unknown> }) => options.loader(),
+      );
+      (mockYnabAPI.months.getBudgetMonth as any).mockImplementation(
+        async (_budgetId: string, month: string) => ({ data: { month: months[month] } }),
+      );
+    });
+
+    it('reports category changes, newly overspent categories and month totals', async () => {
+      const result = await handleCompareMonths(mockYnabAPI, {
+        budget_id: 'budget-1',
+        months: ['2024-02-01', '2024-01-15'],
+      });
+      const parsed = JSON.parse(result.content[0].text);
+
+      expect(mockYnabAPI.months.getBudgetMonth).toHaveBeenCalledWith('budget-1', '2024-01-01');
+      expect(parsed.summary).toMatchObject({
+        from_month: '2024-01-01',
+        to_month: '2024-02-01',
+        income: { from: 500, to: 550, change: 50, percent_change: 10 },
+        to_be_budgeted: { change: 80, percent_change: 160 },
+        age_of_money: { from: 30, to: 34, change: 4 },
+        newly_overspent_count: 1,
+      });
+      expect(parsed.newly_overspent).toEqual([
+        { month: '2024-02-01', category_id: 'dining', name: 'Dining', balance: -20 },
+      ]);
+      expect(parsed.categories.map((entry: { id: string }) => entry.id)).toEqual([
+        'dining',
+        'groceries',
+        'gifts',
+      ]);
+      expect(parsed.categories[0]).toMatchObject({
+        budgeted: { from: 50, to: 20, change: -30, percent_change: -60 },
+        activity: { from: -20, to: -70, change: -50, percent_change: -250 },
+        balance: { from: 30, to: -20, change: -50 },
+      });
+      expect(parsed.categories[2].budgeted.percent_change).toBeNull();
+    });
+
+    it('includes unchanged categories on request', async () => {
+      const result = await handleCompareMonths(mockYnabAPI, {
+        budget_id: 'budget-1',
+        months: ['2024-01-01', '2024-02-01'],
+        include_unchanged: true,
+      });
+      const parsed = JSON.parse(result.content[0].text);
+
+      expect(parsed.category_count).toBe(4);
+      expect(parsed.categories.map((entry: { id: string }) => entry.id)).toContain('rent');
+    });
+
+    it('requires at least two distinct months', () => {
+      expect(
+        CompareMonthsSchema.safeParse({ budget_id: 'b', months: ['2024-01-01'] }).success,
+      ).toBe(false);
+      expect(
+        CompareMonthsSchema.safeParse({ budget_id: 'b', months: ['2024-01-01', '2024-01-20'] })
+          .success,
+      ).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,322 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { paginate, projectFields } from '../paginationSupport.js';
+import { handleListPayees } from '../payeeTools.js';
+import { handleListAccounts } from '../accountTools.js';
+import { handleListCategories } from '../categoryTools.js';
+import { handleListMonths } from '../monthTools.js';
+import { handleListScheduledTransactions } from '../scheduledTransactionTools.js';
+import { handleListTransactions } from '../transactionTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+const items = Array.from({ length: 5 }, (_, index) => ({ id: `item-${index + 1}`, value: index }));
+const keyOf = (item: { id: string }) => item.id;
+
+const cached = <T>(data: T[]) => ({
+  data,
+  wasCached: true,
+  usedDelta: false,
+  serverKnowledge: 42,
+});
+
+/**
+ * Reads two pages of two items through a list handler, selecting one field
+ */
+async function readTwoPages(
+  handler: (ynabAPI: ynab.API, params: never) => Promise<{ content: { text: string }[] }>,
+  field: string,
+) {
+  const params = { budget_id: 'budget-1', limit: 2, fields: [field] };
+  const first = parseToolPayload(await handler({} as ynab.API, params as never));
+  const second = parseToolPayload(
+    await handler({} as ynab.API, { ...params, cursor: first.next_cursor } as never),
+  );
+  return { first, second };
+}
+
+describe('paginationSupport', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('paginate', () => {
+    it('walks through the list with next_cursor', () => {
+      const params = { budget_id: 'budget-1', limit: 2 };
+      const first = paginate('list_things', items, params, 10, keyOf);
+      expect(first.page.map(keyOf)).toEqual(['item-1', 'item-2']);
+      expect(first.pagination).toMatchObject({
+        total_count: 5,
+        returned_count: 2,
+        has_more: true,
+        server_knowledge: 10,
+      });
+
+      const second = paginate(
+        'list_things',
+        items,
+        { ...params, cursor: first.pagination.next_cursor! },
+        10,
+        keyOf,
+      );
+      const third = paginate(
+        'list_things',
+        items,
+        { ...params, cursor: second.pagination.next_cursor! },
+        10,
+        keyOf,
+      );
+      expect(second.page.map(keyOf)).toEqual(['item-3', 'item-4']);
+      expect(third.page.map(keyOf)).toEqual(['item-5']);
+      expect(third.pagination).toMatchObject({ has_more: false, next_cursor: null });
+      expect(third.pagination.snapshot_changed).toBeUndefined();
+    });
+
+    it('resumes at the same item when the snapshot changed in between', () => {
+      const params = { budget_id: 'budget-1', limit: 2 };
+      const first = paginate('list_things', items, params, 10, keyOf);
+      const changed = [{ id: 'item-0', value: -1 }, ...items];
+
+      const second = paginate(
+        'list_things',
+        changed,
+        { ...params, cursor: first.pagination.next_cursor! },
+        11,
+        keyOf,
+      );
+
+      expect(second.page.map(keyOf)).toEqual(['item-3', 'item-4']);
+      expect(second.pagination.snapshot_changed).toBe(true);
+    });
+
+    it('rejects cursors from other tools or filters', () => {
+      const { pagination } = paginate(
+        'list_things',
+        items,
+        { budget_id: 'budget-1', limit: 2 },
+        10,
+        keyOf,
+      );
+      const cursor = pagination.next_cursor!;
+
+      expect(() =>
+        paginate('list_other_things', items, { budget_id: 'budget-1', cursor }, 10, keyOf),
+      ).toThrow('Cursor does not match');
+      expect(() =>
+        paginate('list_things', items, { budget_id: 'budget-2', cursor }, 10, keyOf),
+      ).toThrow('Cursor does not match');
+      expect(() =>
+        paginate(
+          'list_things',
+          items,
+          { budget_id: 'budget-1', cursor: 'not-a-cursor' },
+          10,
+          keyOf,
+        ),
+      ).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('projectFields', () => {
+    it('keeps the requested fields plus the key', () => {
+      expect(projectFields(items.slice(0, 1), ['value'])).toEqual([{ id: 'item-1', value: 0 }]);
+      expect(() => projectFields(items, ['nope'])).toThrow('Unknown fields: nope');
+    });
+  });
+
+  describe('list tools', () => {
+    it('pages and projects list_payees from the cached snapshot', async () => {
+      const payees = Array.from({ length: 3 }, (_, index) => ({
+        id: `payee-${index + 1}`,
+        name: `Payee ${index + 1}`,
+        transfer_account_id: null,
+        deleted: false,
+      })) as ynab.Payee[];
+      const fetchPayees = vi.spyOn(DeltaFetcher.prototype, 'fetchPayees').mockResolvedValue({
+        data: payees,
+        wasCached: true,
+        usedDelta: false,
+        serverKnowledge: 42,
+      });
+
+      const first = parseToolPayload(
+        await handleListPayees({} as ynab.API, {
+          budget_id: 'budget-1',
+          limit: 2,
+          fields: ['name'],
+        }),
+      );
+      expect(first).toMatchObject({
+        total_count: 3,
+        returned_count: 2,
+        has_more: true,
+        server_knowledge: 42,
+      });
+      expect(first.payees).toEqual([
+        { id: 'payee-1', name: 'Payee 1' },
+        { id: 'payee-2', name: 'Payee 2' },
+      ]);
+
+      const second = parseToolPayload(
+        await handleListPayees({} as ynab.API, {
+          budget_id: 'budget-1',
+          limit: 2,
+          fields: ['name'],
+          cursor: first.next_cursor,
+        }),
+      );
+      expect(second.payees).toEqual([{ id: 'payee-3', name: 'Payee 3' }]);
+      expect(second.next_cursor).toBeNull();
+      expect(fetchPayees).toHaveBeenCalledTimes(2);
+    });
+
+    it('pages and projects list_accounts', async () => {
+      vi.spyOn(DeltaFetcher.prototype, 'fetchAccounts').mockResolvedValue(
+        cached(
+          ['Checking', 'Savings', 'Visa'].map((name, index) => ({
+            id: `account-${index + 1}`,
+            name,
+            balance: 0,
+          })) as ynab.Account[],
+        ),
+      );
+
+      const { first, second } = await readTwoPages(handleListAccounts, 'name');
+
+      expect(first).toMatchObject({ total_count: 3, has_more: true, server_knowledge: 42 });
+      expect(first.accounts).toEqual([
+        { id: 'account-1', name: 'Checking' },
+        { id: 'account-2', name: 'Savings' },
+      ]);
+      expect(second.accounts).toEqual([{ id: 'account-3', name: 'Visa' }]);
+      expect(second.next_cursor).toBeNull();
+    });
+
+    it('pages and projects list_categories across category groups', async () => {
+      const category = (id: string, name: string) => ({
+        id,
+        name,
+        budgeted: 0,
+        activity: 0,
+        balance: 0,
+      });
+      vi.spyOn(DeltaFetcher.prototype, 'fetchCategories').mockResolvedValue(
+        cached([
+          { id: 'group-1', name: 'Bills', categories: [category('cat-1', 'Rent')] },
+          {
+            id: 'group-2',
+            name: 'Everyday',
+            categories: [category('cat-2', 'Groceries'), category('cat-3', 'Fuel')],
+          },
+        ] as ynab.CategoryGroupWithCategories[]),
+      );
+
+      const { first, second } = await readTwoPages(handleListCategories, 'name');
+
+      expect(first.categories).toEqual([
+        { id: 'cat-1', name: 'Rent' },
+        { id: 'cat-2', name: 'Groceries' },
+      ]);
+      expect(first.category_groups).toHaveLength(2);
+      expect(second.categories).toEqual([{ id: 'cat-3', name: 'Fuel' }]);
+      expect(second.next_cursor).toBeNull();
+    });
+
+    it('pages and projects list_months keyed by month', async () => {
+      vi.spyOn(DeltaFetcher.prototype, 'fetchMonths').mockResolvedValue(
+        cached(
+          ['2025-03-01', '2025-02-01', '2025-01-01'].map((month) => ({
+            month,
+            income: 0,
+            budgeted: 0,
+            activity: 0,
+            to_be_budgeted: 0,
+            age_of_money: 30,
+          })) as ynab.MonthSummary[],
+        ),
+      );
+
+      const { first, second } = await readTwoPages(handleListMonths, 'age_of_money');
+
+      expect(first.months).toEqual([
+        { month: '2025-03-01', age_of_money: 30 },
+        { month: '2025-02-01', age_of_money: 30 },
+      ]);
+      expect(second.months).toEqual([{ month: '2025-01-01', age_of_money: 30 }]);
+      expect(second.next_cursor).toBeNull();
+    });
+
+    it('pages and projects list_scheduled_transactions by next date', async () => {
+      vi.spyOn(DeltaFetcher.prototype, 'fetchScheduledTransactions').mockResolvedValue(
+        cached(
+          ['2025-07-03', '2025-07-01', '2025-07-02'].map((date_next, index) => ({
+            id: `sched-${index + 1}`,
+            date_first: '2025-01-01',
+            date_next,
+            frequency: 'monthly',
+            amount: -1000,
+            account_id: 'account-1',
+            deleted: false,
+            subtransactions: [],
+          })) as ynab.ScheduledTransactionDetail[],
+        ),
+      );
+
+      const { first, second } = await readTwoPages(handleListScheduledTransactions, 'date_next');
+
+      expect(first.scheduled_transactions).toEqual([
+        { id: 'sched-2', date_next: '2025-07-01' },
+        { id: 'sched-3', date_next: '2025-07-02' },
+      ]);
+      expect(second.scheduled_transactions).toEqual([{ id: 'sched-1', date_next: '2025-07-03' }]);
+      expect(second.next_cursor).toBeNull();
+    });
+
+    it('pages and projects list_transactions', async () => {
+      vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue(
+        cached(
+          [-1000, -2000, -3000].map((amount, index) =>
+            transactionDetail({ id: `txn-${index + 1}`, amount }),
+          ),
+        ),
+      );
+
+      const { first, second } = await readTwoPages(handleListTransactions, 'amount');
+
+      expect(first.transactions).toEqual([
+        { id: 'txn-1', amount: -1 },
+        { id: 'txn-2', amount: -2 },
+      ]);
+      expect(second.transactions).toEqual([{ id: 'txn-3', amount: -3 }]);
+      expect(second.next_cursor).toBeNull();
+    });
+
+    it('continues list_transactions after the preview when a page is too large', async () => {
+      vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue(
+        cached(
+          Array.from({ length: 300 }, (_, index) =>
+            transactionDetail({ id: `txn-${index + 1}`, amount: -1000, memo: 'x'.repeat(400) }),
+          ),
+        ),
+      );
+
+      const oversize = parseToolPayload(
+        await handleListTransactions({} as ynab.API, { budget_id: 'budget-1', limit: 300 }),
+      );
+      expect(oversize.preview_transactions).toHaveLength(50);
+      expect(oversize).toMatchObject({ total_count: 300, returned_count: 50, has_more: true });
+
+      const next = parseToolPayload(
+        await handleListTransactions({} as ynab.API, {
+          budget_id: 'budget-1',
+          limit: 2,
+          cursor: oversize.next_cursor,
+        }),
+      );
+      expect(next.transactions.map((transaction: { id: string }) => transaction.id)).toEqual([
+        'txn-51',
+        'txn-52',
+      ]);
+    });
+  });
+});
@@ -3,9 +3,17 @@ import * as ynab from 'ynab';
 import {
   handleListPayees,
   handleGetPayee,
+  handleUpdatePayee,
+  handleMergePayees,
+  handleSuggestPayeeMerges,
   ListPayeesSchema,
   GetPayeeSchema,
+  MergePayeesSchema,
 } from '../payeeTools.js';
+import { handleUpdateTransactions } from '../transactionTools.js';
+import { handleUpdateScheduledTransaction } from '../scheduledTransactionTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import type { DeltaCache } from '../../server/deltaCache.js';
 
 // Mock the cache manager
 vi.mock('../../server/cacheManager.js', () => ({
@@ -26,11 +34,26 @@ vi.mock('../../server/cacheManager.js', () => ({
   },
 }));
 
+// Mock the bulk write handlers merge_payees delegates to
+vi.mock('../transactionTools.js', () => ({
+  handleUpdateTransactions: vi.fn(),
+}));
+vi.mock('../scheduledTransactionTools.js', () => ({
+  handleUpdateScheduledTransaction: vi.fn(),
+}));
+
 // Mock the YNAB API
 const mockYnabAPI = {
   payees: {
     getPayees: vi.fn(),
     getPayeeById: vi.fn(),
+    updatePayee: vi.fn(),
+  },
+  transactions: {
+    getTransactionsByPayee: vi.fn(),
+  },
+  scheduledTransactions: {
+    getScheduledTransactions: vi.fn(),
   },
 } as unknown as ynab.API;
 
@@ -410,4 +433,277 @@ describe('Payee Tools', () => {
       ).toThrow();
     });
   });
+
+  describe('handleUpdatePayee', () => {
+    it('should rename the payee', async () => {
+      (mockYnabAPI.payees.updatePayee as any).mockResolvedValue({
+        data: {
+          payee: { id: 'payee-1', name: 'Amazon', transfer_account_id: null, deleted: false },
+          server_knowledge: 12,
+        },
+      });
+
+      const result = await handleUpdatePayee(mockYnabAPI, {
+        budget_id: 'budget-1',
+        payee_id: 'payee-1',
+        name: 'Amazon',
+      });
+
+      expect(mockYnabAPI.payees.updatePayee).toHaveBeenCalledWith('budget-1', 'payee-1', {
+        payee: { name: 'Amazon' },
+      });
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.payee.name).toBe('Amazon');
+    });
+
+    it('should not call the API on dry run', async () => {
+      const result = await handleUpdatePayee(mockYnabAPI, {
+        budget_id: 'budget-1',
+        payee_id: 'payee-1',
+        name: 'Amazon',
+        dry_run: true,
+      });
+
+      expect(mockYnabAPI.payees.updatePayee).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text).action).toBe('update_payee');
+    });
+  });
+
+  describe('handleMergePayees', () => {
+    const payees = [
+      { id: 'amazon', name: 'Amazon', transfer_account_id: null, deleted: false },
+      { id: 'amzn-mktp', name: 'AMZN MKTP CA*123', transfer_account_id: null, deleted: false },
+      { id: 'amazon-ca', name: 'Amazon.ca', transfer_account_id: null, deleted: false },
+      { id: 'transfer', name: 'Transfer : Savings', transfer_account_id: 'acc-2', deleted: false },
+    ];
+
+    const hybrid = (id: string, overrides: Record<string, unknown> = {}) => ({
+      id,
+      type: 'transaction',
+      date: '2024-05-01',
+      amount: -25000,
+      account_id: 'acc-1',
+      account_name: 'Checking',
+      deleted: false,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      (mockYnabAPI.payees.getPayees as any).mockResolvedValue({ data: { payees } });
+      (mockYnabAPI.transactions.getTransactionsByPayee as any).mockImplementation(
+        async (_budgetId: string, payeeId: string) => ({
+          data: {
+            transactions:
+              payeeId === 'amzn-mktp'
+                ? [
+                    hybrid('t1'),
+                    hybrid('t2', { amount: -15000 }),
+                    hybrid('t3-sub', { type: 'subtransaction' }),
+                    hybrid('t4', { deleted: true }),
+                  ]
+                : [hybrid('t5', { date: '2024-05-09' })],
+          },
+        }),
+      );
+      (mockYnabAPI.scheduledTransactions.getScheduledTransactions as any).mockResolvedValue({
+        data: {
+          scheduled_transactions: [
+            { id: 's1', payee_id: 'amazon-ca', deleted: false },
+            { id: 's2', payee_id: 'other', deleted: false },
+          ],
+        },
+      });
+    });
+
+    it('should preview the merge grouped by source payee on dry run', async () => {
+      const result = await handleMergePayees(mockYnabAPI, {
+        budget_id: 'budget-1',
+        target_payee_id: 'amazon',
+        source_payee_ids: ['amzn-mktp', 'amazon-ca'],
+        dry_run: true,
+      });
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.dry_run).toBe(true);
+      expect(parsedContent.summary).toEqual({
+        source_payees: 2,
+        transactions_to_reassign: 3,
+        scheduled_transactions_to_reassign: 1,
+        split_lines_skipped: 1,
+      });
+      expect(parsedContent.sources[0]).toMatchObject({
+        payee_name: 'AMZN MKTP CA*123',
+        transaction_count: 2,
+        total_amount: -40,
+        scheduled_transaction_count: 0,
+      });
+      expect(parsedContent.sources[1].scheduled_transaction_count).toBe(1);
+      expect(handleUpdateTransactions).not.toHaveBeenCalled();
+    });
+
+    it('should reassign transactions and scheduled transactions to the target', async () => {
+      (handleUpdateTransactions as any).mockResolvedValue({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              summary: { total_requested: 3, updated: 3, failed: 0 },
+              results: [],
+            }),
+          },
+        ],
+      });
+      (handleUpdateScheduledTransaction as any).mockResolvedValue({
+        content: [{ type: 'text', text: JSON.stringify({ scheduled_transaction: { id: 's1' } }) }],
+      });
+
+      const result = await handleMergePayees(mockYnabAPI, {
+        budget_id: 'budget-1',
+        target_payee_id: 'amazon',
+        source_payee_ids: ['amzn-mktp', 'amazon-ca'],
+      });
+
+      expect(handleUpdateTransactions).toHaveBeenCalledTimes(1);
+      const [, , , updateParams] = (handleUpdateTransactions as any).mock.calls[0];
+      expect(updateParams.transactions).toEqual([
+        { id: 't1', payee_id: 'amazon', original_account_id: 'acc-1', original_date: '2024-05-01' },
+        { id: 't2', payee_id: 'amazon', original_account_id: 'acc-1', original_date: '2024-05-01' },
+        { id: 't5', payee_id: 'amazon', original_account_id: 'acc-1', original_date: '2024-05-09' },
+      ]);
+      expect(handleUpdateScheduledTransaction).toHaveBeenCalledWith(
+        mockYnabAPI,
+        expect.anything(),
+        expect.anything(),
+        { budget_id: 'budget-1', scheduled_transaction_id: 's1', payee_id: 'amazon' },
+      );
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.success).toBe(true);
+      expect(parsedContent.summary.transactions_updated).toBe(3);
+      expect(parsedContent.summary.scheduled_transactions_updated).toBe(1);
+    });
+
+    it('should refuse to merge transfer payees', async () => {
+      const result = await handleMergePayees(mockYnabAPI, {
+        budget_id: 'budget-1',
+        target_payee_id: 'amazon',
+        source_payee_ids: ['transfer'],
+      });
+
+      expect(result.content[0].text).toContain('Transfer payees cannot be merged');
+      expect(mockYnabAPI.transactions.getTransactionsByPayee).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown payee IDs', async () => {
+      const result = await handleMergePayees(mockYnabAPI, {
+        budget_id: 'budget-1',
+        target_payee_id: 'amazon',
+        source_payee_ids: ['missing'],
+      });
+
+      expect(result.content[0].text).toContain('Unknown payee IDs: missing');
+    });
+  });
+
+  describe('handleSuggestPayeeMerges', () => {
+    const payee = (id: string, name: string, overrides: Record<string, unknown> = {}) => ({
+      id,
+      name,
+      transfer_account_id: null,
+      deleted: false,
+      ...overrides,
+    });
+
+    const setup = (payees: unknown[], transactions: unknown[]) => {
+      const deltaFetcher = new DeltaFetcher(mockYnabAPI, {} as DeltaCache);
+      vi.spyOn(deltaFetcher, 'fetchPayees').mockResolvedValue({
+        data: payees as ynab.Payee[],
+        wasCached: true,
+        usedDelta: false,
+        serverKnowledge: 1,
+      });
+      vi.spyOn(deltaFetcher, 'fetchTransactions').mockResolvedValue({
+        data: transactions as ynab.TransactionDetail[],
+        wasCached: true,
+        usedDelta: true,
+        serverKnowledge: 2,
+      });
+      return deltaFetcher;
+    };
+
+    const payees = [
+      payee('amazon', 'Amazon.ca'),
+      payee('amzn', 'AMZN MKTP CA*123456'),
+      payee('amzn-2', 'AMZN Mktp CA*998877'),
+      payee('shell-1', 'SHELL #1234 OAKVILLE ON'),
+      payee('shell-2', 'Shell'),
+      payee('library', 'Public Library'),
+      payee('transfer', 'Transfer : Shell Card', { transfer_account_id: 'acc-2' }),
+      payee('starting', 'Starting Balance'),
+    ];
+    const transactions = [
+      { id: 't1', payee_id: 'amazon', amount: -50000, deleted: false },
+      { id: 't2', payee_id: 'amzn', amount: -20000, deleted: false },
+      { id: 't3', payee_id: 'amzn', amount: -5000, deleted: false },
+      { id: 't4', payee_id: 'amzn', amount: 5000, deleted: false },
+      { id: 't5', payee_id: 'shell-1', amount: -60000, deleted: false },
+      { id: 't6', payee_id: 'shell-1', amount: -1000, deleted: true },
+    ];
+
+    it('should cluster payees by canonical merchant name with usage totals', async () => {
+      const result = await handleSuggestPayeeMerges(mockYnabAPI, setup(payees, transactions), {
+        budget_id: 'budget-1',
+      });
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      expect(parsedContent.cluster_count).toBe(2);
+      expect(parsedContent.cache_info).toContain('delta merge applied');
+
+      const [shell, amazon] = parsedContent.clusters;
+      expect(shell.confidence).toBe(95);
+      expect(shell.suggested_target_payee_id).toBe('shell-1');
+      expect(shell.source_payee_ids).toEqual(['shell-2']);
+      expect(shell.total_spent).toBe(60);
+
+      expect(amazon.confidence).toBe(75);
+      expect(amazon.suggested_target_payee_id).toBe('amzn');
+      expect(amazon.payees.map((p: { id: string }) => p.id)).toEqual(['amzn', 'amazon', 'amzn-2']);
+      expect(amazon.transaction_count).toBe(4);
+      expect(amazon.total_spent).toBe(75);
+    });
+
+    it('should honour min_confidence and include_unused', async () => {
+      const result = await handleSuggestPayeeMerges(mockYnabAPI, setup(payees, transactions), {
+        budget_id: 'budget-1',
+        min_confidence: 90,
+        include_unused: false,
+      });
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      // amzn-2 and shell-2 have no transactions; the remaining amazon link is only 75
+      expect(parsedContent.cluster_count).toBe(0);
+      expect(parsedContent.next_step).toBeUndefined();
+    });
+  });
+
+  describe('MergePayeesSchema', () => {
+    it('should reject the target payee as a source', () => {
+      const result = MergePayeesSchema.safeParse({
+        budget_id: 'budget-1',
+        target_payee_id: 'amazon',
+        source_payee_ids: ['amazon'],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject duplicate source payees', () => {
+      const result = MergePayeesSchema.safeParse({
+        budget_id: 'budget-1',
+        target_payee_id: 'amazon',
+        source_payee_ids: ['amzn-mktp', 'amzn-mktp'],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
 });
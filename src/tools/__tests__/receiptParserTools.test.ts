@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { handleParseReceiptText } from '../receiptParserTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { parseToolPayload } from '../../__tests__/testUtils.js';
+
+const mockYnabAPI = {} as unknown as ynab.API;
+
+const categoryGroups = [
+  {
+    id: 'group-1',
+    name: 'Everyday',
+    hidden: false,
+    deleted: false,
+    categories: [
+      { id: 'cat-groceries', name: 'Groceries', hidden: false, deleted: false },
+      { id: 'cat-household', name: 'Household', hidden: false, deleted: false },
+    ],
+  },
+] as unknown as ynab.CategoryGroupWithCategories[];
+
+const history = [
+  {
+    id: 'past-receipt',
+    date: '2025-09-20',
+    amount: -30000,
+    payee_name: 'Superstore',
+    category_id: null,
+    deleted: false,
+    transfer_account_id: null,
+    subtransactions: [
+      { id: 's1', amount: -5000, memo: 'Bread', category_id: 'cat-groceries', deleted: false },
+      { id: 's2', amount: -4000, memo: 'Soda (x2)', category_id: 'cat-groceries', deleted: false },
+      {
+        id: 's3',
+        amount: -21000,
+        memo: 'Detergent - big jug',
+        category_id: 'cat-household',
+        deleted: false,
+      },
+    ],
+  },
+] as unknown as ynab.TransactionDetail[];
+
+const receiptText = `
+SUPERSTORE #1234
+123 Main St
+10/13/2025 14:22
+BREAD              5.00 E
+SODA               4.00 G
+DETERGENT         12.00 GP
+  INSTANT SAVINGS  2.00-
+SPONGES
+2 @ 3.00           6.00 GP
+SUBTOTAL          25.00
+GST 5%             1.00
+PST 7%             1.12
+BOTTLE DEP         0.10
+TOTAL             27.22
+VISA              27.22
+THANK YOU
+`;
+
+describe('receiptParserTools', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-10-14T12:00:00Z'));
+    vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue({
+      data: history,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+    vi.spyOn(DeltaFetcher.prototype, 'fetchCategories').mockResolvedValue({
+      data: categoryGroups,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('extracts items, discounts, quantities, tax lines and totals', async () => {
+    const parsed = parseToolPayload(
+      await handleParseReceiptText(mockYnabAPI, { budget_id: 'budget-1', text: receiptText }),
+    );
+
+    expect(parsed.merchant).toBe('SUPERSTORE');
+    expect(parsed.date).toBe('2025-10-13');
+    expect(
+      parsed.items.map(
+        ({ name, amount, quantity, discount, tax_flag }: Record<string, unknown>) => ({
+          name,
+          amount,
+          quantity,
+          discount,
+          tax_flag,
+        }),
+      ),
+    ).toEqual([
+      { name: 'BREAD', amount: 5, quantity: null, discount: 0, tax_flag: 'E' },
+      { name: 'SODA', amount: 4, quantity: null, discount: 0, tax_flag: 'G' },
+      { name: 'DETERGENT', amount: 12, quantity: null, discount: 2, tax_flag: 'GP' },
+      { name: 'SPONGES', amount: 6, quantity: 2, discount: 0, tax_flag: 'GP' },
+    ]);
+    expect(parsed.tax_lines.map((line: { name: string }) => line.name)).toEqual([
+      'GST 5%',
+      'PST 7%',
+    ]);
+    expect(parsed.adjustments).toEqual([{ line: 14, name: 'BOTTLE DEP', amount: 0.1 }]);
+    expect(parsed.total).toBe(27.22);
+    expect(parsed.ignored_lines).toEqual(['VISA              27.22']);
+    expect(parsed.validation).toMatchObject({
+      items_total: 25,
+      computed_total: 27.22,
+      subtotal_matches: true,
+      total_matches: true,
+    });
+  });
+
+  it('keeps items named after cards and only ignores tender lines', async () => {
+    const parsed = parseToolPayload(
+      await handleParseReceiptText(mockYnabAPI, {
+        budget_id: 'budget-1',
+        text: `CORNER SHOP
+10/13/2025
+GIFT CARD         25.00
+BIRTHDAY CARD      4.99
+CARD TENDERED     29.99
+TOTAL             29.99
+`,
+      }),
+    );
+
+    expect(parsed.items.map((item: { name: string }) => item.name)).toEqual([
+      'GIFT CARD',
+      'BIRTHDAY CARD',
+    ]);
+    expect(parsed.ignored_lines).toEqual(['CARD TENDERED     29.99']);
+    expect(parsed.validation).toMatchObject({ items_total: 29.99, total_matches: true });
+  });
+
+  it('suggests categories from item history and builds a ready-to-submit draft', async () => {
+    const parsed = parseToolPayload(
+      await handleParseReceiptText(mockYnabAPI, {
+        budget_id: 'budget-1',
+        account_id: 'visa',
+        text: receiptText,
+      }),
+    );
+
+    const suggestions = parsed.items.map(
+      (item: { suggested_category: { category_id: string; source: string } }) => [
+        item.suggested_category.category_id,
+        item.suggested_category.source,
+      ],
+    );
+    expect(suggestions).toEqual([
+      ['cat-groceries', 'item_history'],
+      ['cat-groceries', 'item_history'],
+      ['cat-household', 'item_history'],
+      ['cat-groceries', 'merchant_history'],
+    ]);
+
+    expect(parsed.ready_to_submit).toBe(true);
+    expect(parsed.missing_fields).toEqual([]);
+    expect(parsed.draft).toEqual({
+      budget_id: 'budget-1',
+      account_id: 'visa',
+      payee_name: 'SUPERSTORE',
+      date: '2025-10-13',
+      receipt_subtotal: 25,
+      receipt_tax: 2.12,
+      adjustments: [{ name: 'BOTTLE DEP', amount: 0.1 }],
+      receipt_total: 27.22,
+      categories: [
+        {
+          category_id: 'cat-groceries',
+          category_name: 'Groceries',
+          items: [
+            { name: 'BREAD', amount: 5 },
+            { name: 'SODA', amount: 4 },
+            { name: 'SPONGES', amount: 6, quantity: 2 },
+          ],
+        },
+        {
+          category_id: 'cat-household',
+          category_name: 'Household',
+          items: [{ name: 'DETERGENT', amount: 12, discount: 2 }],
+        },
+      ],
+    });
+  });
+
+  it('flags totals that do not add up and missing fields', async () => {
+    const parsed = parseToolPayload(
+      await handleParseReceiptText(mockYnabAPI, {
+        budget_id: 'budget-1',
+        date_format: 'dmy',
+        text: [
+          'Corner Cafe',
+          '13/10/2025',
+          'Latte 4.50',
+          'Muffin 3.25',
+          'Tax 0.39',
+          'Total 9.14',
+        ].join('\n'),
+      }),
+    );
+
+    expect(parsed.date).toBe('2025-10-13');
+    expect(parsed.validation.total_matches).toBe(false);
+    expect(parsed.validation.warnings).toContain(
+      'Items, tax and adjustments add up to 8.14 but the receipt total is 9.14',
+    );
+    expect(parsed.ready_to_submit).toBe(false);
+    expect(parsed.missing_fields).toEqual(['account_id', 'category_id for 2 item(s)']);
+    expect(parsed.draft.categories).toEqual([
+      {
+        category_id: null,
+        category_name: 'Unassigned',
+        items: [
+          { name: 'Latte', amount: 4.5 },
+          { name: 'Muffin', amount: 3.25 },
+        ],
+      },
+    ]);
+  });
+
+  it('rejects text without any line items', async () => {
+    const result = await handleParseReceiptText(mockYnabAPI, {
+      budget_id: 'budget-1',
+      text: 'Thank you for shopping',
+    });
+
+    expect(result.content[0].text).toContain('No line items found');
+  });
+});
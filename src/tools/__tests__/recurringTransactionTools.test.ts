@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { handleDetectRecurringTransactions } from '../recurringTransactionTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { DeltaCache } from '../../server/deltaCache.js';
+import { ServerKnowledgeStore } from '../../server/serverKnowledgeStore.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+let counter = 0;
+const transaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+  transactionDetail({ id: `txn-${++counter}`, account_id: 'visa', ...overrides });
+
+const series = (
+  dates: string[],
+  amounts: number | number[],
+  overrides: Partial<ynab.TransactionDetail>,
+) =>
+  dates.map((date, index) =>
+    transaction({
+      date,
+      amount: Array.isArray(amounts) ? amounts[index]! : amounts,
+      ...overrides,
+    }),
+  );
+
+const transactions = [
+  ...series(
+    ['2025-01-05', '2025-02-05', '2025-03-05', '2025-04-05', '2025-05-05', '2025-06-05'],
+    [-15490, -15490, -15490, -17990, -17990, -17990],
+    { payee_id: 'payee-netflix', payee_name: 'Netflix', category_id: 'cat-streaming' },
+  ),
+  // Cancelled after February
+  ...series(['2024-10-01', '2024-11-01', '2024-12-01', '2025-01-01', '2025-02-01'], -50000, {
+    payee_id: 'payee-gym',
+    payee_name: 'Gym',
+  }),
+  ...series(
+    ['2025-04-04', '2025-04-18', '2025-05-02', '2025-05-16', '2025-05-30', '2025-06-13'],
+    250000,
+    { payee_id: 'payee-employer', payee_name: 'Employer', account_id: 'checking' },
+  ),
+  ...series(['2023-08-10', '2024-08-10'], -20000, {
+    payee_id: 'payee-registrar',
+    payee_name: 'Registrar',
+  }),
+  // Two subscriptions from one merchant stay separate series
+  ...series(['2025-03-12', '2025-04-12', '2025-05-12', '2025-06-12'], -2990, {
+    payee_id: 'payee-apple',
+    payee_name: 'Apple',
+  }),
+  ...series(['2025-02-20', '2025-03-20', '2025-04-20', '2025-05-20'], -19950, {
+    payee_id: 'payee-apple',
+    payee_name: 'Apple',
+  }),
+  // Irregular spending is not a series
+  ...series(
+    ['2025-05-01', '2025-05-03', '2025-05-19', '2025-06-02'],
+    [-8000, -12000, -9500, -7000],
+    {
+      payee_id: 'payee-grocer',
+      payee_name: 'Grocer',
+    },
+  ),
+];
+
+const scheduled = [
+  {
+    id: 'sched-payroll',
+    amount: 250000,
+    payee_id: 'payee-employer',
+    payee_name: 'Employer',
+    frequency: 'everyOtherWeek',
+    deleted: false,
+  },
+] as unknown as ynab.ScheduledTransactionDetail[];
+
+describe('recurringTransactionTools', () => {
+  let api: ynab.API & { scheduledTransactions: Record<string, ReturnType<typeof vi.fn>> };
+  let deltaCache: DeltaCache;
+  let knowledgeStore: ServerKnowledgeStore;
+
+  const detect = async (params: Record<string, unknown> = {}) =>
+    parseToolPayload(
+      await handleDetectRecurringTransactions(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        ...params,
+      }),
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-06-15T12:00:00Z'));
+    api = {
+      scheduledTransactions: { createScheduledTransaction: vi.fn() },
+    } as unknown as typeof api;
+    knowledgeStore = new ServerKnowledgeStore();
+    deltaCache = new DeltaCache(
+      { deleteByBudgetId: vi.fn(), deleteByPrefix: vi.fn() } as never,
+      knowledgeStore,
+    );
+    vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue({
+      data: transactions,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+    vi.spyOn(DeltaFetcher.prototype, 'fetchScheduledTransactions').mockResolvedValue({
+      data: scheduled,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('detects cadence, price changes, next date and existing schedules', async () => {
+    const parsed = await detect();
+    const byPayee = (name: string) =>
+      parsed.series.filter((entry: { payee_name: string }) => entry.payee_name === name);
+
+    expect(byPayee('Grocer')).toEqual([]);
+    expect(byPayee('Gym')).toEqual([]);
+
+    expect(byPayee('Netflix')[0]).toMatchObject({
+      cadence: 'monthly',
+      frequency: 'monthly',
+      occurrences: 6,
+      latest_amount: -17.99,
+      last_date: '2025-06-05',
+      next_expected_date: '2025-07-05',
+      status: 'active',
+      price_changes: [{ date: '2025-04-05', from: -15.49, to: -17.99 }],
+      scheduled_transaction_id: null,
+    });
+    expect(byPayee('Employer')[0]).toMatchObject({
+      cadence: 'biweekly',
+      frequency: 'everyOtherWeek',
+      next_expected_date: '2025-06-27',
+      scheduled_transaction_id: 'sched-payroll',
+    });
+    expect(byPayee('Registrar')[0]).toMatchObject({
+      cadence: 'annual',
+      next_expected_date: '2025-08-10',
+    });
+    expect(byPayee('Apple').map((entry: { latest_amount: number }) => entry.latest_amount)).toEqual(
+      [-19.95, -2.99],
+    );
+    expect(parsed.unscheduled_count).toBe(parsed.total_series - 1);
+  });
+
+  it('reports lapsed series only when include_inactive is set', async () => {
+    const parsed = await detect({ include_inactive: true });
+    const gym = parsed.series.find((entry: { payee_name: string }) => entry.payee_name === 'Gym');
+
+    expect(gym).toMatchObject({ status: 'lapsed', next_expected_date: '2025-03-01' });
+  });
+
+  it('previews scheduled transactions for unscheduled active series', async () => {
+    const parsed = await detect({ create_scheduled: true, dry_run: true });
+
+    expect(parsed.dry_run).toBe(true);
+    expect(parsed.scheduling.would_create).toHaveLength(4);
+    expect(parsed.scheduling.would_create).toContainEqual({
+      budget_id: 'budget-1',
+      account_id: 'visa',
+      amount: -17990,
+      date: '2025-07-05',
+      frequency: 'monthly',
+      payee_id: 'payee-netflix',
+      category_id: 'cat-streaming',
+    });
+    expect(api.scheduledTransactions.createScheduledTransaction).not.toHaveBeenCalled();
+  });
+
+  it('creates scheduled transactions for the selected series', async () => {
+    const { series: detected } = await detect();
+    const netflix = detected.find(
+      (entry: { payee_name: string }) => entry.payee_name === 'Netflix',
+    );
+    api.scheduledTransactions.createScheduledTransaction.mockResolvedValue({
+      data: {
+        scheduled_transaction: {
+          id: 'sched-netflix',
+          date_first: '2025-07-05',
+          date_next: '2025-07-05',
+          frequency: 'monthly',
+          amount: -17990,
+          account_id: 'visa',
+          payee_id: 'payee-netflix',
+          deleted: false,
+          subtransactions: [],
+        },
+      },
+    });
+
+    const parsed = await detect({ create_scheduled: true, series_ids: [netflix.series_id] });
+
+    expect(api.scheduledTransactions.createScheduledTransaction).toHaveBeenCalledTimes(1);
+    expect(api.scheduledTransactions.createScheduledTransaction).toHaveBeenCalledWith('budget-1', {
+      scheduled_transaction: expect.objectContaining({
+        payee_id: 'payee-netflix',
+        date: '2025-07-05',
+        frequency: 'monthly',
+      }),
+    });
+    expect(parsed.scheduling).toEqual({ created: 1, failed: 0, failed_series_ids: [] });
+    expect(
+      parsed.series.find((entry: { series_id: string }) => entry.series_id === netflix.series_id),
+    ).toMatchObject({ schedule: 'created', scheduled_transaction_id: 'sched-netflix' });
+  });
+
+  it('schedules requested series outside the returned page and rejects unknown IDs', async () => {
+    const { series: detected } = await detect();
+    const netflix = detected.find(
+      (entry: { payee_name: string }) => entry.payee_name === 'Netflix',
+    );
+    const top = detected[0].series_id;
+    expect(top).not.toBe(netflix.series_id);
+
+    const preview = await detect({
+      limit: 1,
+      create_scheduled: true,
+      dry_run: true,
+      series_ids: [netflix.series_id],
+    });
+    expect(preview.series.map((entry: { series_id: string }) => entry.series_id)).toEqual([top]);
+    expect(preview.scheduling.would_create).toEqual([
+      expect.objectContaining({ payee_id: 'payee-netflix', frequency: 'monthly' }),
+    ]);
+
+    const result = await handleDetectRecurringTransactions(api, deltaCache, knowledgeStore, {
+      budget_id: 'budget-1',
+      create_scheduled: true,
+      series_ids: [netflix.series_id, 'rec-missing'],
+    });
+    expect(result.content[0].text).toContain('Unknown series_ids: rec-missing');
+    expect(api.scheduledTransactions.createScheduledTransaction).not.toHaveBeenCalled();
+  });
+
+  it('keeps series IDs stable when older charges leave the history', async () => {
+    const appleId = (entries: { payee_name: string; latest_amount: number; series_id: string }[]) =>
+      entries.find((entry) => entry.payee_name === 'Apple' && entry.latest_amount === -2.99)
+        ?.series_id;
+    const before = appleId((await detect()).series);
+
+    // Without the February charge, the 2.99 subscription becomes the first amount band
+    vi.mocked(DeltaFetcher.prototype.fetchTransactions).mockResolvedValue({
+      data: transactions.filter(
+        (entry) => !(entry.payee_id === 'payee-apple' && entry.date === '2025-02-20'),
+      ),
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+
+    expect(before).toBeDefined();
+    expect(appleId((await detect()).series)).toBe(before);
+  });
+
+  it('reports why a scheduled transaction could not be created', async () => {
+    const { series: detected } = await detect();
+    const netflix = detected.find(
+      (entry: { payee_name: string }) => entry.payee_name === 'Netflix',
+    );
+    api.scheduledTransactions.createScheduledTransaction.mockRejectedValue(
+      new Error('Account is closed'),
+    );
+
+    const parsed = await detect({ create_scheduled: true, series_ids: [netflix.series_id] });
+
+    expect(parsed.scheduling).toEqual({
+      created: 0,
+      failed: 1,
+      failed_series_ids: [
+        { series_id: netflix.series_id, error: expect.stringContaining('Account is closed') },
+      ],
+    });
+  });
+});
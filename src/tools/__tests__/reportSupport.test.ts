@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { listPeriods, periodStart, resolveBudgetCurrency } from '../reportSupport.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+
+describe('reportSupport', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('periodStart', () => {
+    it('starts weeks on Monday, months on the 1st and quarters on Jan/Apr/Jul/Oct', () => {
+      expect(periodStart('2025-06-15', 'week')).toBe('2025-06-09');
+      expect(periodStart('2025-06-09', 'week')).toBe('2025-06-09');
+      expect(periodStart('2025-01-01', 'week')).toBe('2024-12-30');
+      expect(periodStart('2025-06-15', 'month')).toBe('2025-06-01');
+      expect(periodStart('2025-06-15', 'quarter')).toBe('2025-04-01');
+      expect(periodStart('2025-12-31', 'quarter')).toBe('2025-10-01');
+    });
+  });
+
+  describe('listPeriods', () => {
+    it('lists every period overlapping the range', () => {
+      expect(listPeriods('2025-01-15', '2025-03-01', 'month')).toEqual([
+        '2025-01-01',
+        '2025-02-01',
+        '2025-03-01',
+      ]);
+      expect(listPeriods('2024-11-20', '2025-02-10', 'quarter')).toEqual([
+        '2024-10-01',
+        '2025-01-01',
+      ]);
+      expect(listPeriods('2025-06-04', '2025-06-16', 'week')).toEqual([
+        '2025-06-02',
+        '2025-06-09',
+        '2025-06-16',
+      ]);
+    });
+  });
+
+  describe('resolveBudgetCurrency', () => {
+    it("formats MoneyValue in the budget's currency", async () => {
+      vi.spyOn(DeltaFetcher.prototype, 'fetchBudgets').mockResolvedValue({
+        data: [
+          {
+            id: 'budget-1',
+            name: 'Yen',
+            currency_format: { iso_code: 'JPY', decimal_digits: 0 },
+          },
+        ] as ynab.BudgetSummary[],
+        wasCached: true,
+        usedDelta: false,
+        serverKnowledge: 1,
+      });
+      const fetcher = new DeltaFetcher({} as ynab.API, {} as never);
+
+      const currency = await resolveBudgetCurrency(fetcher, 'budget-1');
+      expect(currency.currency).toBe('JPY');
+      expect(currency.toMoney(-1500000)).toMatchObject({ value: -1500, currency: 'JPY' });
+
+      const fallback = await resolveBudgetCurrency(fetcher, 'missing');
+      expect(fallback.currency).toBe('USD');
+    });
+  });
+});
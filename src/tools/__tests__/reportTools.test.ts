@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { handleIncomeExpenseSummary, handleSpendingReport } from '../reportTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+const mockYnabAPI = {} as unknown as ynab.API;
+
+let counter = 0;
+const transaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+  transactionDetail({ id: `txn-${++counter}`, account_id: 'checking', ...overrides });
+
+const grocer = { payee_id: 'payee-grocer', payee_name: 'Grocer', category_id: 'cat-groceries' };
+
+const transactions = [
+  transaction({ date: '2025-04-03', amount: -80000, ...grocer }),
+  transaction({ date: '2025-05-10', amount: -50000, ...grocer }),
+  // Refund nets against groceries
+  transaction({ date: '2025-05-12', amount: 10000, ...grocer }),
+  transaction({
+    date: '2025-05-20',
+    amount: -45000,
+    payee_id: 'payee-pharmacy',
+    payee_name: 'Pharmacy',
+    subtransactions: [
+      { id: 's1', amount: -30000, category_id: 'cat-groceries', deleted: false },
+      { id: 's2', amount: -15000, category_id: 'cat-health', deleted: false },
+    ] as ynab.SubTransaction[],
+  }),
+  transaction({
+    date: '2025-06-01',
+    amount: -20000,
+    account_id: 'visa',
+    account_name: 'Visa',
+    payee_id: 'payee-cafe',
+    payee_name: 'Cafe',
+    category_id: 'cat-dining',
+  }),
+  // Income, credit card payment and a transfer to savings are not spending
+  transaction({ date: '2025-05-01', amount: 300000, category_id: 'cat-rta' }),
+  transaction({
+    date: '2025-05-15',
+    amount: -100000,
+    payee_name: 'Transfer : Visa',
+    transfer_account_id: 'visa',
+  }),
+  // Transfer to a tracking account is categorized and counts
+  transaction({
+    date: '2025-06-02',
+    amount: -25000,
+    payee_name: 'Transfer : Brokerage',
+    transfer_account_id: 'brokerage',
+    category_id: 'cat-investing',
+  }),
+  // Outside the range, deleted or off budget
+  transaction({ date: '2025-03-31', amount: -99000, ...grocer }),
+  transaction({ date: '2025-05-05', amount: -99000, deleted: true, ...grocer }),
+  transaction({ date: '2025-05-05', amount: -99000, account_id: 'brokerage', ...grocer }),
+];
+
+const categoryGroups = [
+  {
+    id: 'group-internal',
+    name: 'Internal Master Category',
+    categories: [{ id: 'cat-rta', name: 'Inflow: Ready to Assign', deleted: false }],
+  },
+  {
+    id: 'group-everyday',
+    name: 'Everyday',
+    categories: [
+      { id: 'cat-groceries', name: 'Groceries', deleted: false },
+      { id: 'cat-dining', name: 'Dining', deleted: false },
+      { id: 'cat-health', name: 'Health', deleted: false },
+    ],
+  },
+  {
+    id: 'group-goals',
+    name: 'Goals',
+    categories: [{ id: 'cat-investing', name: 'Investing', deleted: false }],
+  },
+] as unknown as ynab.CategoryGroupWithCategories[];
+
+const accounts = [
+  { id: 'checking', name: 'Checking', on_budget: true, deleted: false },
+  { id: 'visa', name: 'Visa', on_budget: true, deleted: false },
+  { id: 'brokerage', name: 'Brokerage', on_budget: false, deleted: false },
+] as ynab.Account[];
+
+const monthSummaries = [
+  { month: '2025-03-01', income: 200000, deleted: false },
+  { month: '2025-04-01', income: 0, deleted: false },
+  { month: '2025-05-01', income: 300000, deleted: false },
+  { month: '2025-06-01', income: 0, deleted: false },
+] as ynab.MonthSummary[];
+
+describe('reportTools', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-06-15T12:00:00Z'));
+    const cached = <T>(data: T[]) => ({
+      data,
+      wasCached: true,
+      usedDelta: false,
+      serverKnowledge: 10,
+    });
+    vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue(cached(transactions));
+    vi.spyOn(DeltaFetcher.prototype, 'fetchCategories').mockResolvedValue(cached(categoryGroups));
+    vi.spyOn(DeltaFetcher.prototype, 'fetchAccounts').mockResolvedValue(cached(accounts));
+    vi.spyOn(DeltaFetcher.prototype, 'fetchMonths').mockResolvedValue(cached(monthSummaries));
+    vi.spyOn(DeltaFetcher.prototype, 'fetchBudgets').mockResolvedValue(
+      cached([
+        {
+          id: 'budget-1',
+          name: 'Household',
+          currency_format: { iso_code: 'CAD', decimal_digits: 2 },
+        } as ynab.BudgetSummary,
+      ]),
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('handleSpendingReport', () => {
+    it('totals spending by category over monthly buckets, excluding income and transfers', async () => {
+      const parsed = parseToolPayload(
+        await handleSpendingReport(mockYnabAPI, { budget_id: 'budget-1' }),
+      );
+
+      expect(parsed).toMatchObject({
+        since_date: '2025-04-01',
+        until_date: '2025-06-15',
+        group_by: 'category',
+        period: 'month',
+        currency: 'CAD',
+        transaction_count: 6,
+      });
+      expect(parsed.total).toMatchObject({
+        value_milliunits: -210000,
+        value: -210,
+        currency: 'CAD',
+        direction: 'debit',
+      });
+      expect(parsed.refunds.value).toBe(10);
+      expect(
+        parsed.periods.map((entry: { total: { value: number } }) => entry.total.value),
+      ).toEqual([-80, -85, -45]);
+
+      const summary = parsed.groups.map(
+        (group: { name: string; total: { value: number }; transaction_count: number }) => [
+          group.name,
+          group.total.value,
+          group.transaction_count,
+        ],
+      );
+      expect(summary).toEqual([
+        ['Groceries', -150, 4],
+        ['Investing', -25, 1],
+        ['Dining', -20, 1],
+        ['Health', -15, 1],
+      ]);
+      expect(parsed.groups[0]).toMatchObject({
+        category_group_name: 'Everyday',
+        share_of_total: 71.4,
+        outflows: { value: -160 },
+        refunds: { value: 10 },
+      });
+      expect(
+        parsed.groups[0].by_period.map(
+          (entry: { period_start: string; total: { value: number } }) => [
+            entry.period_start,
+            entry.total.value,
+          ],
+        ),
+      ).toEqual([
+        ['2025-04-01', -80],
+        ['2025-05-01', -70],
+      ]);
+    });
+
+    it('groups split lines by payee and category group, with the rest rolled into other', async () => {
+      const byPayee = parseToolPayload(
+        await handleSpendingReport(mockYnabAPI, {
+          budget_id: 'budget-1',
+          group_by: 'payee',
+          period: 'quarter',
+          limit: 2,
+        }),
+      );
+      expect(byPayee.periods.map((entry: { period_start: string }) => entry.period_start)).toEqual([
+        '2025-04-01',
+      ]);
+      expect(byPayee.groups.map((group: { name: string }) => group.name)).toEqual([
+        'Grocer',
+        'Pharmacy',
+      ]);
+      expect(byPayee.other).toMatchObject({ group_count: 2, total: { value: -45 } });
+
+      const byGroup = parseToolPayload(
+        await handleSpendingReport(mockYnabAPI, {
+          budget_id: 'budget-1',
+          group_by: 'category_group',
+          account_id: 'checking',
+        }),
+      );
+      expect(
+        byGroup.groups.map((group: { name: string; total: { value: number } }) => [
+          group.name,
+          group.total.value,
+        ]),
+      ).toEqual([
+        ['Everyday', -165],
+        ['Goals', -25],
+      ]);
+    });
+  });
+
+  describe('handleIncomeExpenseSummary', () => {
+    it('splits income from expenses with savings rate, rolling averages and contributors', async () => {
+      vi.mocked(DeltaFetcher.prototype.fetchTransactions).mockResolvedValue({
+        data: [
+          ...transactions,
+          // Side income left uncategorized, flagged through income_payee_ids
+          transaction({
+            date: '2025-05-25',
+            amount: 40000,
+            payee_id: 'payee-client',
+            payee_name: 'Client',
+          }),
+        ],
+        wasCached: true,
+        usedDelta: false,
+        serverKnowledge: 10,
+      });
+
+      const parsed = parseToolPayload(
+        await handleIncomeExpenseSummary(mockYnabAPI, {
+          budget_id: 'budget-1',
+          months: 2,
+          until_month: '2025-05-15',
+          income_payee_ids: ['payee-client'],
+        }),
+      );
+
+      expect(parsed).toMatchObject({
+        from_month: '2025-04-01',
+        until_month: '2025-05-01',
+        currency: 'CAD',
+      });
+      const amounts = (entry: {
+        income: { value: number };
+        expenses: { value: number };
+        net: { value: number };
+        savings_rate: number | null;
+      }) => [entry.income.value, entry.expenses.value, entry.net.value, entry.savings_rate];
+      expect(parsed.months.map(amounts)).toEqual([
+        [0, -80, -80, null],
+        [340, -85, 255, 75],
+      ]);
+      expect(amounts(parsed.totals)).toEqual([340, -165, 175, 51.5]);
+      expect(parsed.months[1].rolling_savings_rate).toEqual({
+        three_month: 51.1,
+        six_month: null,
+        twelve_month: null,
+      });
+      // Only three months of budget history exist
+      expect(amounts(parsed.rolling_averages.three_month)).toEqual([180, -88, 92, 51.1]);
+      expect(parsed.rolling_averages.six_month).toBeNull();
+
+      expect(parsed.largest_changes.income_change.value).toBe(340);
+      expect(parsed.largest_changes.expenses_change.value).toBe(-5);
+      expect(
+        parsed.largest_changes.contributors.map(
+          (contributor: { type: string; name: string; change: { value: number } }) => [
+            contributor.type,
+            contributor.name,
+            contributor.change.value,
+          ],
+        ),
+      ).toEqual([
+        ['income', '(no payee)', 300],
+        ['income', 'Client', 40],
+        ['expense', 'Health', -15],
+        ['expense', 'Groceries', 10],
+      ]);
+    });
+
+    it('defaults to the six months ending with the last complete month', async () => {
+      const parsed = parseToolPayload(
+        await handleIncomeExpenseSummary(mockYnabAPI, { budget_id: 'budget-1' }),
+      );
+
+      expect(parsed.from_month).toBe('2024-12-01');
+      expect(parsed.until_month).toBe('2025-05-01');
+      expect(parsed.months).toHaveLength(6);
+      expect(parsed.months[0].savings_rate).toBeNull();
+      expect(parsed.cached).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as ynab from 'ynab';
+import {
+  handleListScheduledTransactions,
+  handleGetScheduledTransaction,
+  handleCreateScheduledTransaction,
+  handleUpdateScheduledTransaction,
+  handleDeleteScheduledTransaction,
+  CreateScheduledTransactionSchema,
+  UpdateScheduledTransactionSchema,
+} from '../scheduledTransactionTools.js';
+import { DeltaCache } from '../../server/deltaCache.js';
+import { ServerKnowledgeStore } from '../../server/serverKnowledgeStore.js';
+
+// Mock the cache manager
+vi.mock('../../server/cacheManager.js', () => ({
+  cacheManager: {
+    wrap: vi.fn(),
+    has: vi.fn(),
+    get: vi.fn(),
+    set: vi.fn(),
+    delete: vi.fn(),
+    deleteMany: vi.fn(),
+    deleteByPrefix: vi.fn(),
+    deleteByBudgetId: vi.fn(),
+    clear: vi.fn(),
+  },
+  CacheManager: {
+    generateKey: vi.fn((...segments: unknown[]) => segments.join(':')),
+  },
+  CACHE_TTLS: {
+    SCHEDULED_TRANSACTIONS: 300000,
+  },
+}));
+
+const mockYnabAPI = {
+  scheduledTransactions: {
+    getScheduledTransactions: vi.fn(),
+    getScheduledTransactionById: vi.fn(),
+    createScheduledTransaction: vi.fn(),
+    updateScheduledTransaction: vi.fn(),
+    deleteScheduledTransaction: vi.fn(),
+  },
+} as unknown as ynab.API;
+
+const { cacheManager } = await import('../../server/cacheManager.js');
+
+const buildScheduled = (overrides: Partial<ynab.ScheduledTransactionDetail> = {}) =>
+  ({
+    id: 'sched-1',
+    date_first: '2024-01-01',
+    date_next: '2024-06-01',
+    frequency: 'monthly',
+    amount: -1500000,
+    memo: 'Rent',
+    flag_color: null,
+    account_id: 'account-1',
+    account_name: 'Checking',
+    payee_id: 'payee-1',
+    payee_name: 'Landlord',
+    category_id: 'category-1',
+    category_name: 'Rent',
+    transfer_account_id: null,
+    deleted: false,
+    subtransactions: [],
+    ...overrides,
+  }) as ynab.ScheduledTransactionDetail;
+
+describe('scheduledTransactionTools', () => {
+  let deltaCache: DeltaCache;
+  let knowledgeStore: ServerKnowledgeStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    knowledgeStore = new ServerKnowledgeStore();
+    deltaCache = new DeltaCache(cacheManager as never, knowledgeStore);
+  });
+
+  describe('schemas', () => {
+    it('requires a supported frequency on create', () => {
+      const result = CreateScheduledTransactionSchema.safeParse({
+        budget_id: 'budget-1',
+        account_id: 'account-1',
+        amount: -1000,
+        date: '2024-06-01',
+        frequency: 'fortnightly',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('accepts partial updates', () => {
+      const result = UpdateScheduledTransactionSchema.safeParse({
+        budget_id: 'budget-1',
+        scheduled_transaction_id: 'sched-1',
+        amount: -1600000,
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('handleListScheduledTransactions', () => {
+    it('filters by account and due date and sorts by next date', async () => {
+      (
+        mockYnabAPI.scheduledTransactions.getScheduledTransactions as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({
+        data: {
+          scheduled_transactions: [
+            buildScheduled({ id: 'later', date_next: '2024-07-15' }),
+            buildScheduled({ id: 'other-account', account_id: 'account-2' }),
+            buildScheduled({ id: 'sooner', date_next: '2024-05-20' }),
+            buildScheduled({ id: 'removed', deleted: true }),
+          ],
+          server_knowledge: 10,
+        },
+      });
+
+      const result = await handleListScheduledTransactions(mockYnabAPI, {
+        budget_id: 'budget-1',
+        account_id: 'account-1',
+        due_before: '2024-06-30',
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.total_count).toBe(1);
+      expect(parsed.scheduled_transactions.map((s: { id: string }) => s.id)).toEqual(['sooner']);
+      expect(parsed.scheduled_transactions[0].amount).toBe(-1500);
+    });
+  });
+
+  describe('handleGetScheduledTransaction', () => {
+    it('loads through the cache manager', async () => {
+      (cacheManager.has as ReturnType<typeof vi.fn>).mockReturnValue(false);
+      (cacheManager.wrap as ReturnType<typeof vi.fn>).mockImplementation(
+        async (_key: string, options: { loader: () => Promise<unknown> }) => options.loader(),
+      );
+      (
+        mockYnabAPI.scheduledTransactions.getScheduledTransactionById as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({ data: { scheduled_transaction: buildScheduled() } });
+
+      const result = await handleGetScheduledTransaction(mockYnabAPI, {
+        budget_id: 'budget-1',
+        scheduled_transaction_id: 'sched-1',
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.scheduled_transaction.id).toBe('sched-1');
+      expect(parsed.cached).toBe(false);
+      expect(cacheManager.wrap).toHaveBeenCalledWith(
+        'scheduled_transaction:get:budget-1:sched-1',
+        expect.objectContaining({ ttl: 300000 }),
+      );
+    });
+  });
+
+  describe('handleCreateScheduledTransaction', () => {
+    it('returns a preview without calling the API on dry run', async () => {
+      const result = await handleCreateScheduledTransaction(
+        mockYnabAPI,
+        deltaCache,
+        knowledgeStore,
+        {
+          budget_id: 'budget-1',
+          account_id: 'account-1',
+          amount: -15000,
+          date: '2024-06-01',
+          frequency: 'monthly',
+          dry_run: true,
+        },
+      );
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.dry_run).toBe(true);
+      expect(parsed.action).toBe('create_scheduled_transaction');
+      expect(mockYnabAPI.scheduledTransactions.createScheduledTransaction).not.toHaveBeenCalled();
+    });
+
+    it('creates the scheduled transaction and invalidates the list cache', async () => {
+      const invalidateSpy = vi.spyOn(deltaCache, 'invalidate');
+      (
+        mockYnabAPI.scheduledTransactions.createScheduledTransaction as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({ data: { scheduled_transaction: buildScheduled() } });
+
+      await handleCreateScheduledTransaction(mockYnabAPI, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        account_id: 'account-1',
+        amount: -1500000,
+        date: '2024-06-01',
+        frequency: 'monthly',
+        payee_name: 'Landlord',
+      });
+
+      expect(mockYnabAPI.scheduledTransactions.createScheduledTransaction).toHaveBeenCalledWith(
+        'budget-1',
+        {
+          scheduled_transaction: {
+            account_id: 'account-1',
+            date: '2024-06-01',
+            amount: -1500000,
+            frequency: 'monthly',
+            payee_name: 'Landlord',
+          },
+        },
+      );
+      expect(invalidateSpy).toHaveBeenCalledWith('budget-1', 'scheduled_transactions');
+    });
+  });
+
+  describe('handleUpdateScheduledTransaction', () => {
+    it('carries over fields that were not provided', async () => {
+      (
+        mockYnabAPI.scheduledTransactions.getScheduledTransactionById as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({ data: { scheduled_transaction: buildScheduled() } });
+      (
+        mockYnabAPI.scheduledTransactions.updateScheduledTransaction as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({
+        data: { scheduled_transaction: buildScheduled({ amount: -1600000 }) },
+      });
+
+      const result = await handleUpdateScheduledTransaction(
+        mockYnabAPI,
+        deltaCache,
+        knowledgeStore,
+        {
+          budget_id: 'budget-1',
+          scheduled_transaction_id: 'sched-1',
+          amount: -1600000,
+        },
+      );
+
+      expect(mockYnabAPI.scheduledTransactions.updateScheduledTransaction).toHaveBeenCalledWith(
+        'budget-1',
+        'sched-1',
+        {
+          scheduled_transaction: {
+            account_id: 'account-1',
+            date: '2024-06-01',
+            amount: -1600000,
+            frequency: 'monthly',
+            category_id: 'category-1',
+            memo: 'Rent',
+            flag_color: null,
+            payee_id: 'payee-1',
+          },
+        },
+      );
+      expect(cacheManager.delete).toHaveBeenCalledWith(
+        'scheduled_transaction:get:budget-1:sched-1',
+      );
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.scheduled_transaction.amount).toBe(-1600);
+    });
+
+    it('clears memo, category and flag when null is passed', async () => {
+      (
+        mockYnabAPI.scheduledTransactions.getScheduledTransactionById as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({
+        data: { scheduled_transaction: buildScheduled({ flag_color: 'red' }) },
+      });
+      (
+        mockYnabAPI.scheduledTransactions.updateScheduledTransaction as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({ data: { scheduled_transaction: buildScheduled() } });
+
+      await handleUpdateScheduledTransaction(mockYnabAPI, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        scheduled_transaction_id: 'sched-1',
+        category_id: null,
+        memo: null,
+        flag_color: null,
+      });
+
+      expect(mockYnabAPI.scheduledTransactions.updateScheduledTransaction).toHaveBeenCalledWith(
+        'budget-1',
+        'sched-1',
+        {
+          scheduled_transaction: expect.objectContaining({
+            category_id: null,
+            memo: null,
+            flag_color: null,
+          }),
+        },
+      );
+    });
+  });
+
+  describe('handleDeleteScheduledTransaction', () => {
+    it('deletes the scheduled transaction', async () => {
+      (
+        mockYnabAPI.scheduledTransactions.deleteScheduledTransaction as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({
+        data: { scheduled_transaction: buildScheduled({ deleted: true }) },
+      });
+
+      const result = await handleDeleteScheduledTransaction(
+        mockYnabAPI,
+        deltaCache,
+        knowledgeStore,
+        {
+          budget_id: 'budget-1',
+          scheduled_transaction_id: 'sched-1',
+        },
+      );
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.scheduled_transaction).toEqual({ id: 'sched-1', deleted: true });
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { parseToolResult, toolResultErrorMessage } from '../toolResultSupport.js';
+
+const textResult = (text: string) => ({ content: [{ type: 'text' as const, text }] });
+
+describe('toolResultSupport', () => {
+  describe('parseToolResult', () => {
+    it('parses the JSON text of the first content item', () => {
+      expect(parseToolResult(textResult('{"payee":{"id":"payee-1"}}'))).toEqual({
+        payee: { id: 'payee-1' },
+      });
+    });
+
+    it('returns undefined for missing or non-JSON content', () => {
+      expect(parseToolResult({ content: [] })).toBeUndefined();
+      expect(parseToolResult(textResult('not json'))).toBeUndefined();
+    });
+  });
+
+  describe('toolResultErrorMessage', () => {
+    it('combines the error message with string details', () => {
+      expect(
+        toolResultErrorMessage({
+          error: { message: 'Failed to create', details: 'Account is closed' },
+        }),
+      ).toBe('Failed to create: Account is closed');
+      expect(toolResultErrorMessage({ error: { message: 'Not found', details: { id: 1 } } })).toBe(
+        'Not found',
+      );
+    });
+
+    it('falls back when the response has no error message', () => {
+      expect(toolResultErrorMessage(undefined)).toBe('The tool response could not be read');
+    });
+  });
+});
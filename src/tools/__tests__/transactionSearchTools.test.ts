@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as ynab from 'ynab';
+import { handleSearchTransactions, SearchTransactionsSchema } from '../transactionSearchTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import type { DeltaCache } from '../../server/deltaCache.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+const mockYnabAPI = {} as unknown as ynab.API;
+
+const buildTransaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+  transactionDetail({
+    date: '2024-05-01',
+    amount: -25000,
+    payee_id: 'payee-1',
+    payee_name: 'Grocery Mart',
+    category_id: 'category-1',
+    category_name: 'Groceries',
+    ...overrides,
+  });
+
+const transactions = [
+  buildTransaction({ id: 'a', date: '2024-05-01', amount: -25000 }),
+  buildTransaction({
+    id: 'b',
+    date: '2024-05-03',
+    amount: -120000,
+    payee_name: 'AMZN Mktp',
+    memo: 'Headphones',
+    flag_color: 'red' as ynab.TransactionFlagColor,
+    approved: false,
+  }),
+  buildTransaction({
+    id: 'c',
+    date: '2024-05-05',
+    amount: -500000,
+    payee_name: 'Transfer : Savings',
+    transfer_account_id: 'account-2',
+    category_id: null,
+  }),
+  buildTransaction({
+    id: 'd',
+    date: '2024-05-07',
+    amount: -80000,
+    payee_name: 'Costco',
+    category_id: null,
+    subtransactions: [
+      {
+        id: 'd-1',
+        transaction_id: 'd',
+        amount: -50000,
+        memo: 'Birthday gift',
+        category_id: 'category-2',
+        category_name: 'Gifts',
+        deleted: false,
+      },
+      {
+        id: 'd-2',
+        transaction_id: 'd',
+        amount: -30000,
+        memo: null,
+        category_id: 'category-1',
+        category_name: 'Groceries',
+        deleted: false,
+      },
+    ] as ynab.SubTransaction[],
+  }),
+  buildTransaction({ id: 'e', date: '2024-05-09', amount: 300000, payee_name: 'Employer' }),
+  buildTransaction({ id: 'deleted', date: '2024-05-10', deleted: true }),
+];
+
+describe('transactionSearchTools', () => {
+  let deltaFetcher: DeltaFetcher;
+  let fetchTransactions: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    deltaFetcher = new DeltaFetcher(mockYnabAPI, {} as DeltaCache);
+    fetchTransactions = vi.spyOn(deltaFetcher, 'fetchTransactions').mockResolvedValue({
+      data: transactions,
+      wasCached: true,
+      usedDelta: true,
+      serverKnowledge: 42,
+    });
+  });
+
+  describe('SearchTransactionsSchema', () => {
+    it('rejects inverted date and amount ranges', () => {
+      expect(
+        SearchTransactionsSchema.safeParse({
+          budget_id: 'budget-1',
+          since_date: '2024-06-01',
+          until_date: '2024-05-01',
+        }).success,
+      ).toBe(false);
+      expect(
+        SearchTransactionsSchema.safeParse({
+          budget_id: 'budget-1',
+          min_amount: 1000,
+          max_amount: -1000,
+        }).success,
+      ).toBe(false);
+    });
+  });
+
+  describe('handleSearchTransactions', () => {
+    it('always searches the full cached snapshot and skips deleted transactions', async () => {
+      const parsed = parseToolPayload(
+        await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+          budget_id: 'budget-1',
+          since_date: '2024-05-02',
+        }),
+      );
+
+      expect(fetchTransactions).toHaveBeenCalledWith('budget-1');
+      expect(parsed.cached).toBe(true);
+      expect(parsed.transactions.map((t: { id: string }) => t.id)).toEqual(['e', 'd', 'c', 'b']);
+    });
+
+    it('combines amount, date and payee regex filters', async () => {
+      const parsed = parseToolPayload(
+        await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+          budget_id: 'budget-1',
+          until_date: '2024-05-08',
+          min_amount: -200000,
+          max_amount: 0,
+          payee_regex: '^(amzn|costco)',
+        }),
+      );
+
+      expect(parsed.transactions.map((t: { id: string }) => t.id)).toEqual(['d', 'b']);
+    });
+
+    it('matches memos and categories inside subtransactions', async () => {
+      const byMemo = parseToolPayload(
+        await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+          budget_id: 'budget-1',
+          memo_contains: 'gift',
+        }),
+      );
+      const byCategory = parseToolPayload(
+        await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+          budget_id: 'budget-1',
+          category_id: 'category-2',
+          has_subtransactions: true,
+        }),
+      );
+
+      expect(byMemo.transactions.map((t: { id: string }) => t.id)).toEqual(['d']);
+      expect(byCategory.transactions[0].subtransactions).toHaveLength(2);
+      expect(byCategory.transactions[0].subtransactions[0].amount).toBe(-50);
+    });
+
+    it('filters by flag, approval and transfer state', async () => {
+      const flagged = parseToolPayload(
+        await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+          budget_id: 'budget-1',
+          flag_color: 'red',
+          approved: false,
+        }),
+      );
+      const transfers = parseToolPayload(
+        await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+          budget_id: 'budget-1',
+          is_transfer: true,
+        }),
+      );
+
+      expect(flagged.transactions.map((t: { id: string }) => t.id)).toEqual(['b']);
+      expect(transfers.transactions.map((t: { id: string }) => t.id)).toEqual(['c']);
+    });
+
+    it('paginates with a cursor in the requested sort order', async () => {
+      const first = parseToolPayload(
+        await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+          budget_id: 'budget-1',
+          sort: 'amount_asc',
+          limit: 2,
+        }),
+      );
+
+      expect(first.total_count).toBe(5);
+      expect(first.has_more).toBe(true);
+      expect(first.transactions.map((t: { id: string }) => t.id)).toEqual(['c', 'b']);
+
+      const second = parseToolPayload(
+        await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+          budget_id: 'budget-1',
+          sort: 'amount_asc',
+          limit: 2,
+          cursor: first.next_cursor,
+        }),
+      );
+
+      expect(second.transactions.map((t: { id: string }) => t.id)).toEqual(['d', 'a']);
+
+      const third = parseToolPayload(
+        await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+          budget_id: 'budget-1',
+          sort: 'amount_asc',
+          limit: 2,
+          cursor: second.next_cursor,
+        }),
+      );
+
+      expect(third.transactions.map((t: { id: string }) => t.id)).toEqual(['e']);
+      expect(third.has_more).toBe(false);
+      expect(third.next_cursor).toBeNull();
+    });
+
+    it('rejects a cursor issued for different filters', async () => {
+      const first = parseToolPayload(
+        await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+          budget_id: 'budget-1',
+          limit: 1,
+        }),
+      );
+
+      const result = await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+        budget_id: 'budget-1',
+        limit: 1,
+        approved: true,
+        cursor: first.next_cursor,
+      });
+
+      expect(result.content[0].text).toContain('Cursor does not match');
+    });
+
+    it('reports an invalid payee regex', async () => {
+      const result = await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+        budget_id: 'budget-1',
+        payee_regex: '(unclosed',
+      });
+
+      expect(result.content[0].text).toContain('Invalid payee_regex');
+      expect(fetchTransactions).not.toHaveBeenCalled();
+    });
+
+    it('rejects a payee regex with a backreference', async () => {
+      const result = await handleSearchTransactions(mockYnabAPI, deltaFetcher, {
+        budget_id: 'budget-1',
+        payee_regex: '(\\w+) \\1',
+      });
+
+      expect(result.content[0].text).toContain('backreferences are not supported');
+      expect(fetchTransactions).not.toHaveBeenCalled();
+    });
+  });
+});
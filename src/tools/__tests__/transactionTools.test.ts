@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as ynab from 'ynab';
 import {
   handleListTransactions,
@@ -8,7 +8,9 @@ import {
   handleCreateReceiptSplitTransaction,
   handleUpdateTransaction,
   handleUpdateTransactions,
+  handleUpdateSplitTransaction,
   handleDeleteTransaction,
+  handleDeleteTransactions,
   ListTransactionsSchema,
   GetTransactionSchema,
   CreateTransactionSchema,
@@ -16,8 +18,12 @@ import {
   CreateReceiptSplitTransactionSchema,
   UpdateTransactionSchema,
   UpdateTransactionsSchema,
+  UpdateSplitTransactionSchema,
   DeleteTransactionSchema,
+  DeleteTransactionsSchema,
 } from '../transactionTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
 
 // Mock the cache manager
 vi.mock('../../server/cacheManager.js', () => ({
@@ -1141,6 +1147,62 @@ describe('transactionTools', () => {
       const result = CreateReceiptSplitTransactionSchema.safeParse(invalidPayload);
       expect(result.success).toBe(false);
     });
+
+    it('should require receipt_tax or tax_lines and known tax classes', () => {
+      const withoutTax = { ...basePayload, receipt_tax: undefined };
+      expect(CreateReceiptSplitTransactionSchema.safeParse(withoutTax).success).toBe(false);
+
+      const unknownClass = CreateReceiptSplitTransactionSchema.safeParse({
+        ...withoutTax,
+        tax_lines: [{ tax_class: 'gst', amount: 5 }],
+        categories: [
+          {
+            category_id: 'category-a',
+            items: [
+              { name: 'Lamp', amount: 20, tax_class: 'gst' },
+              { name: 'Rug', amount: 30, tax_class: 'pst' },
+            ],
+          },
+        ],
+      });
+      expect(unknownClass.success).toBe(false);
+
+      const taxedExempt = CreateReceiptSplitTransactionSchema.safeParse({
+        ...withoutTax,
+        tax_lines: [{ tax_class: 'exempt', amount: 5 }],
+      });
+      expect(taxedExempt.success).toBe(false);
+    });
+
+    it('should include discounts and adjustments in the total check', () => {
+      const result = CreateReceiptSplitTransactionSchema.safeParse({
+        ...basePayload,
+        receipt_subtotal: 45,
+        receipt_total: 53,
+        categories: [
+          {
+            category_id: 'category-a',
+            items: [
+              { name: 'Lamp', amount: 20, discount: 5 },
+              { name: 'Rug', amount: 30 },
+            ],
+          },
+        ],
+        adjustments: [
+          { name: 'Delivery', amount: 5 },
+          { name: 'Coupon', amount: -2 },
+        ],
+      });
+      expect(result.success).toBe(true);
+
+      const oversizedDiscount = CreateReceiptSplitTransactionSchema.safeParse({
+        ...basePayload,
+        categories: [
+          { category_id: 'category-a', items: [{ name: 'Lamp', amount: 5, discount: 6 }] },
+        ],
+      });
+      expect(oversizedDiscount.success).toBe(false);
+    });
   });
 
   describe('handleCreateReceiptSplitTransaction', () => {
@@ -1331,6 +1393,100 @@ describe('transactionTools', () => {
       expect(homeCategory.tax).toBeCloseTo(3);
       expect(homeCategory.total).toBeCloseTo(33);
     });
+
+    it('should allocate each tax class only over the items in that class', async () => {
+      const result = await handleCreateReceiptSplitTransaction(mockYnabAPI, {
+        budget_id: 'budget-123',
+        account_id: 'account-456',
+        payee_name: 'Superstore',
+        date: '2025-10-13',
+        tax_lines: [
+          { tax_class: 'gst', name: 'GST', amount: 0.2 },
+          { tax_class: 'gst_pst', name: 'GST+PST', amount: 1.92 },
+        ],
+        receipt_total: 27.12,
+        categories: [
+          {
+            category_id: 'category-groceries',
+            category_name: 'Groceries',
+            items: [
+              { name: 'Bread', amount: 5, tax_class: 'exempt' },
+              { name: 'Soda', amount: 4, tax_class: 'gst' },
+            ],
+          },
+          {
+            category_id: 'category-household',
+            category_name: 'Household',
+            items: [
+              { name: 'Detergent', amount: 12, discount: 2, tax_class: 'gst_pst' },
+              { name: 'Sponges', amount: 6, tax_class: 'gst_pst' },
+            ],
+          },
+        ],
+        dry_run: true,
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.subtransactions).toEqual([
+        { amount: 5, category_id: 'category-groceries', memo: 'Bread' },
+        { amount: 4, category_id: 'category-groceries', memo: 'Soda' },
+        { amount: 0.2, category_id: 'category-groceries', memo: 'GST - Groceries' },
+        { amount: 10, category_id: 'category-household', memo: 'Detergent (discount 2.00)' },
+        { amount: 6, category_id: 'category-household', memo: 'Sponges' },
+        { amount: 1.92, category_id: 'category-household', memo: 'GST+PST - Household' },
+      ]);
+      expect(parsed.receipt_summary).toMatchObject({
+        subtotal: 25,
+        discounts: 2,
+        tax: 2.12,
+        total: 27.12,
+      });
+      expect(parsed.receipt_summary.categories.map((c: any) => c.tax_by_class)).toEqual([
+        { gst: 0.2 },
+        { gst_pst: 1.92 },
+      ]);
+    });
+
+    it('should book categorized adjustments separately and spread the rest', async () => {
+      const result = await handleCreateReceiptSplitTransaction(mockYnabAPI, {
+        budget_id: 'budget-123',
+        account_id: 'account-456',
+        payee_name: 'Bistro',
+        date: '2025-10-13',
+        receipt_tax: 4,
+        adjustments: [
+          { name: 'Tip', amount: 8, category_id: 'category-tips' },
+          { name: 'Coupon', amount: -1 },
+        ],
+        receipt_total: 51,
+        categories: [
+          {
+            category_id: 'category-food',
+            category_name: 'Food',
+            items: [{ name: 'Dinner', amount: 30 }],
+          },
+          {
+            category_id: 'category-drinks',
+            category_name: 'Drinks',
+            items: [{ name: 'Wine', amount: 10 }],
+          },
+        ],
+        dry_run: true,
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.transaction_preview.amount).toBe(51);
+      expect(parsed.subtransactions).toEqual([
+        { amount: 30, category_id: 'category-food', memo: 'Dinner' },
+        { amount: 3, category_id: 'category-food', memo: 'Tax - Food' },
+        { amount: -0.75, category_id: 'category-food', memo: 'Coupon - Food' },
+        { amount: 10, category_id: 'category-drinks', memo: 'Wine' },
+        { amount: 1, category_id: 'category-drinks', memo: 'Tax - Drinks' },
+        { amount: -0.25, category_id: 'category-drinks', memo: 'Coupon - Drinks' },
+        { amount: 8, category_id: 'category-tips', memo: 'Tip' },
+      ]);
+      expect(parsed.receipt_summary.categories[0].total).toBeCloseTo(32.25);
+    });
   });
 
   describe('UpdateTransactionSchema', () => {
@@ -1841,16 +1997,35 @@ describe('transactionTools', () => {
       expect(result.success).toBe(false);
     });
 
-    it('should reject transactions containing subtransactions', () => {
+    it('should accept split transactions whose subtransactions sum to the amount', () => {
+      const params = {
+        budget_id: 'budget-123',
+        transactions: [
+          buildTransaction({
+            amount: -5000,
+            subtransactions: [
+              { amount: -2500, category_id: 'category-1' },
+              { amount: -2500, category_id: 'category-2' },
+            ],
+          }),
+        ],
+      };
+      const result = CreateTransactionsSchema.safeParse(params);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject split transactions whose subtransactions do not sum to the amount', () => {
       const params = {
         budget_id: 'budget-123',
-        transactions: [buildTransaction({ subtransactions: [{ amount: -2500 }] })],
+        transactions: [
+          buildTransaction({ amount: -5000, subtransactions: [{ amount: -2500 }] }),
+        ],
       };
       const result = CreateTransactionsSchema.safeParse(params);
       expect(result.success).toBe(false);
       if (!result.success) {
-        const issue = result.error.issues.find((i) => i.path.includes('subtransactions'));
-        expect(issue?.message).toContain('Subtransactions are not supported');
+        const issue = result.error.issues.find((i) => i.path.includes('amount'));
+        expect(issue?.message).toContain('sum of subtransaction amounts');
       }
     });
 
@@ -2232,6 +2407,30 @@ describe('transactionTools', () => {
         ]);
       });
 
+      it('sends subtransactions for split transactions', async () => {
+        const split = buildTransaction({
+          amount: -3000,
+          subtransactions: [
+            { amount: -2000, category_id: 'category-groceries' },
+            { amount: -1000, category_id: 'category-household', memo: 'Soap' },
+          ],
+        });
+        (mockYnabAPI.transactions.createTransactions as any).mockResolvedValue(
+          buildApiResponse([buildApiTransaction({ ...split, id: 'split-1' })]),
+        );
+
+        const response = await parseResponse(
+          handleCreateTransactions(mockYnabAPI, buildParams({ transactions: [split] })),
+        );
+
+        const payload = (mockYnabAPI.transactions.createTransactions as any).mock.calls[0][1];
+        expect(payload.transactions[0].subtransactions).toEqual([
+          { amount: -2000, category_id: 'category-groceries' },
+          { amount: -1000, category_id: 'category-household', memo: 'Soap' },
+        ]);
+        expect(response.results[0].transaction_id).toBe('split-1');
+      });
+
       it('handles mixed import_id and hash correlation scenarios', async () => {
         const batch = [
           buildTransaction({ import_id: 'YNAB:-1500:2024-01-01:mix' }),
@@ -3522,4 +3721,353 @@ describe('transactionTools', () => {
       });
     });
   });
+
+  describe('DeleteTransactionsSchema', () => {
+    it('requires exactly one of transaction_ids or filter', () => {
+      expect(
+        DeleteTransactionsSchema.safeParse({ budget_id: 'budget-123', dry_run: true }).success,
+      ).toBe(false);
+      expect(
+        DeleteTransactionsSchema.safeParse({
+          budget_id: 'budget-123',
+          transaction_ids: ['t1'],
+          filter: { account_id: 'a1' },
+          dry_run: true,
+        }).success,
+      ).toBe(false);
+      expect(
+        DeleteTransactionsSchema.safeParse({ budget_id: 'budget-123', filter: {}, dry_run: true })
+          .success,
+      ).toBe(false);
+    });
+
+    it('requires a confirmation token for live runs', () => {
+      const result = DeleteTransactionsSchema.safeParse({
+        budget_id: 'budget-123',
+        transaction_ids: ['t1'],
+      });
+      expect(result.success).toBe(false);
+      expect(
+        DeleteTransactionsSchema.safeParse({
+          budget_id: 'budget-123',
+          transaction_ids: ['t1'],
+          confirmation_token: 'abc',
+        }).success,
+      ).toBe(true);
+    });
+  });
+
+  describe('handleDeleteTransactions', () => {
+    const buildTransaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+      transactionDetail({
+        id: 'txn',
+        date: '2024-03-01',
+        amount: -5000,
+        cleared: 'uncleared',
+        approved: false,
+        account_name: 'Chequing',
+        payee_name: 'Coffee Shop',
+        category_id: 'category-1',
+        ...overrides,
+      });
+
+    const snapshot = [
+      buildTransaction({ id: 'imp-1', import_id: 'YNAB:-5000:2024-03-01:1' }),
+      buildTransaction({ id: 'imp-2', date: '2024-03-02', import_id: 'YNAB:-7000:2024-03-02:1' }),
+      buildTransaction({ id: 'manual', date: '2024-03-02', payee_name: 'Grocer' }),
+      buildTransaction({ id: 'other-account', account_id: 'account-2', import_id: 'YNAB:x' }),
+      buildTransaction({ id: 'gone', deleted: true, import_id: 'YNAB:y' }),
+    ];
+
+    let fetchSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      fetchSpy = vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue({
+        data: snapshot,
+        wasCached: true,
+        usedDelta: false,
+        serverKnowledge: 10,
+      });
+      (mockYnabAPI.transactions.deleteTransaction as any).mockImplementation(
+        async (_budgetId: string, id: string) => ({
+          data: {
+            transaction: { ...snapshot.find((t) => t.id === id), deleted: true },
+            server_knowledge: 11,
+          },
+        }),
+      );
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    const preview = async (params: Record<string, unknown>) =>
+      JSON.parse(
+        (
+          await handleDeleteTransactions(mockYnabAPI, {
+            budget_id: 'budget-123',
+            dry_run: true,
+            ...params,
+          })
+        ).content[0].text,
+      );
+
+    it('previews filter matches from the cached snapshot without deleting', async () => {
+      const parsed = await preview({
+        filter: { account_id: 'account-1', import_id_prefix: 'YNAB:' },
+      });
+
+      expect(parsed.dry_run).toBe(true);
+      expect(parsed.summary).toMatchObject({ total_matched: 2, total_amount: -10 });
+      expect(
+        parsed.transactions_preview.map((t: { transaction_id: string }) => t.transaction_id),
+      ).toEqual(['imp-1', 'imp-2']);
+      expect(parsed.confirmation_token).toEqual(expect.any(String));
+      expect(mockYnabAPI.transactions.deleteTransaction).not.toHaveBeenCalled();
+    });
+
+    it('deletes the previewed selection and reports per-transaction results', async () => {
+      const { confirmation_token } = await preview({
+        transaction_ids: ['imp-2', 'missing', 'manual'],
+      });
+
+      const result = await handleDeleteTransactions(mockYnabAPI, {
+        budget_id: 'budget-123',
+        transaction_ids: ['imp-2', 'missing', 'manual'],
+        confirmation_token,
+      });
+      const parsed = JSON.parse(result.content[0].text);
+
+      expect(mockYnabAPI.transactions.deleteTransaction).toHaveBeenCalledTimes(2);
+      expect(parsed.summary).toEqual({ total_requested: 3, deleted: 2, failed: 1 });
+      expect(parsed.results).toEqual([
+        {
+          request_index: 0,
+          status: 'deleted',
+          transaction_id: 'imp-2',
+          correlation_key: 'imp-2',
+        },
+        {
+          request_index: 1,
+          status: 'failed',
+          transaction_id: 'missing',
+          correlation_key: 'missing',
+          error_code: 'not_found',
+          error: 'Transaction not found or already deleted',
+        },
+        {
+          request_index: 2,
+          status: 'deleted',
+          transaction_id: 'manual',
+          correlation_key: 'manual',
+        },
+      ]);
+      expect(parsed.server_knowledge).toBe(11);
+      expect(cacheManager.deleteByPrefix).toHaveBeenCalled();
+    });
+
+    it('rejects a live run whose token does not match the current selection', async () => {
+      const { confirmation_token } = await preview({ filter: { payee_contains: 'grocer' } });
+
+      const result = await handleDeleteTransactions(mockYnabAPI, {
+        budget_id: 'budget-123',
+        filter: { payee_contains: 'coffee' },
+        confirmation_token,
+      });
+
+      expect(result.content[0].text).toContain('Confirmation token does not match');
+      expect(mockYnabAPI.transactions.deleteTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleUpdateSplitTransaction', () => {
+    const original = {
+      id: 'txn-1',
+      date: '2024-05-01',
+      amount: -9000,
+      memo: 'Costco run',
+      cleared: 'cleared',
+      approved: true,
+      flag_color: null,
+      account_id: 'account-1',
+      payee_id: 'payee-costco',
+      category_id: 'category-groceries',
+      import_id: 'YNAB:-9000:2024-05-01:1',
+      transfer_account_id: null,
+      deleted: false,
+      subtransactions: [],
+    } as unknown as ynab.TransactionDetail;
+
+    const existingSplit = {
+      ...original,
+      category_id: null,
+      import_id: null,
+      subtransactions: [
+        { id: 'sub-1', amount: -6000, category_id: 'category-groceries', deleted: false },
+        {
+          id: 'sub-2',
+          amount: -3000,
+          category_id: null,
+          transfer_account_id: 'account-savings',
+          deleted: false,
+        },
+      ],
+    } as unknown as ynab.TransactionDetail;
+
+    const twoLines = [
+      { amount: -5000, category_id: 'category-groceries' },
+      { amount: -4000, category_id: 'category-household' },
+    ];
+
+    it('converts a regular transaction into a split in place', async () => {
+      (mockYnabAPI.transactions.getTransactionById as any).mockResolvedValue({
+        data: { transaction: original },
+      });
+      (mockYnabAPI.transactions.updateTransaction as any).mockResolvedValue({
+        data: {
+          transaction: { ...existingSplit, subtransactions: existingSplit.subtransactions },
+          server_knowledge: 20,
+        },
+      });
+
+      const parsed = parseToolPayload(
+        await handleUpdateSplitTransaction(mockYnabAPI, {
+          budget_id: 'budget-123',
+          transaction_id: 'txn-1',
+          subtransactions: twoLines,
+        }),
+      );
+
+      expect(mockYnabAPI.transactions.updateTransaction).toHaveBeenCalledWith(
+        'budget-123',
+        'txn-1',
+        {
+          transaction: { amount: -9000, category_id: null, subtransactions: twoLines },
+        },
+      );
+      expect(mockYnabAPI.transactions.createTransaction).not.toHaveBeenCalled();
+      expect(parsed.mode).toBe('convert');
+      expect(parsed.replaced_transaction_id).toBeUndefined();
+    });
+
+    it('replaces an existing split when its lines change', async () => {
+      (mockYnabAPI.transactions.getTransactionById as any).mockResolvedValue({
+        data: { transaction: existingSplit },
+      });
+      (mockYnabAPI.transactions.createTransaction as any).mockResolvedValue({
+        data: { transaction: { ...existingSplit, id: 'txn-2', import_id: null } },
+      });
+      (mockYnabAPI.transactions.deleteTransaction as any).mockResolvedValue({
+        data: { transaction: { ...existingSplit, deleted: true }, server_knowledge: 21 },
+      });
+
+      const parsed = parseToolPayload(
+        await handleUpdateSplitTransaction(mockYnabAPI, {
+          budget_id: 'budget-123',
+          transaction_id: 'txn-1',
+          subtransactions: [...twoLines].reverse(),
+        }),
+      );
+
+      const payload = (mockYnabAPI.transactions.createTransaction as any).mock.calls[0][1];
+      expect(payload.transaction).toMatchObject({
+        account_id: 'account-1',
+        date: '2024-05-01',
+        amount: -9000,
+        payee_id: 'payee-costco',
+        memo: 'Costco run',
+        category_id: null,
+        subtransactions: [...twoLines].reverse(),
+      });
+      expect(payload.transaction).not.toHaveProperty('import_id');
+      expect(mockYnabAPI.transactions.deleteTransaction).toHaveBeenCalledWith(
+        'budget-123',
+        'txn-1',
+      );
+      expect(parsed).toMatchObject({ mode: 'edit', replaced_transaction_id: 'txn-1' });
+      expect(parsed.transaction.id).toBe('txn-2');
+      // The removed transfer line changed the savings account too
+      expect(CacheManager.generateKey).toHaveBeenCalledWith(
+        'transactions',
+        'account',
+        'budget-123',
+        'account-savings',
+      );
+    });
+
+    it('refuses to replace an imported split', async () => {
+      (mockYnabAPI.transactions.getTransactionById as any).mockResolvedValue({
+        data: { transaction: { ...existingSplit, import_id: 'YNAB:-9000:2024-05-01:1' } },
+      });
+
+      const result = await handleUpdateSplitTransaction(mockYnabAPI, {
+        budget_id: 'budget-123',
+        transaction_id: 'txn-1',
+        category_id: 'category-groceries',
+      });
+
+      expect(result.content[0].text).toContain(
+        'Imported split transactions cannot be edited or collapsed',
+      );
+      expect(mockYnabAPI.transactions.createTransaction).not.toHaveBeenCalled();
+      expect(mockYnabAPI.transactions.deleteTransaction).not.toHaveBeenCalled();
+    });
+
+    it('collapses a split back to one category', async () => {
+      (mockYnabAPI.transactions.getTransactionById as any).mockResolvedValue({
+        data: { transaction: existingSplit },
+      });
+
+      const parsed = parseToolPayload(
+        await handleUpdateSplitTransaction(mockYnabAPI, {
+          budget_id: 'budget-123',
+          transaction_id: 'txn-1',
+          category_id: 'category-groceries',
+          dry_run: true,
+        }),
+      );
+
+      expect(parsed).toMatchObject({
+        dry_run: true,
+        mode: 'collapse',
+        after: { category_id: 'category-groceries', subtransactions: [] },
+      });
+      expect(parsed.before.subtransactions).toHaveLength(2);
+      expect(mockYnabAPI.transactions.createTransaction).not.toHaveBeenCalled();
+      expect(mockYnabAPI.transactions.deleteTransaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects subtransactions that do not sum to the transaction amount', async () => {
+      (mockYnabAPI.transactions.getTransactionById as any).mockResolvedValue({
+        data: { transaction: original },
+      });
+
+      const result = await handleUpdateSplitTransaction(mockYnabAPI, {
+        budget_id: 'budget-123',
+        transaction_id: 'txn-1',
+        subtransactions: [
+          { amount: -5000, category_id: 'category-groceries' },
+          { amount: -3000, category_id: 'category-household' },
+        ],
+      });
+
+      expect(result.content[0].text).toContain('must sum to the transaction amount');
+      expect(mockYnabAPI.transactions.updateTransaction).not.toHaveBeenCalled();
+    });
+
+    it('requires either subtransactions or category_id', () => {
+      expect(
+        UpdateSplitTransactionSchema.safeParse({ budget_id: 'b', transaction_id: 't' }).success,
+      ).toBe(false);
+      expect(
+        UpdateSplitTransactionSchema.safeParse({
+          budget_id: 'b',
+          transaction_id: 't',
+          subtransactions: twoLines,
+          category_id: 'category-groceries',
+        }).success,
+      ).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,365 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as ynab from 'ynab';
+import { handleCreateTransfer, handleListTransfers } from '../transferTools.js';
+import { DeltaFetcher } from '../deltaFetcher.js';
+import { DeltaCache } from '../../server/deltaCache.js';
+import { ServerKnowledgeStore } from '../../server/serverKnowledgeStore.js';
+import { cacheManager, CacheManager } from '../../server/cacheManager.js';
+import { parseToolPayload, transactionDetail } from '../../__tests__/testUtils.js';
+
+const account = (overrides: Partial<ynab.Account>) =>
+  ({
+    closed: false,
+    deleted: false,
+    on_budget: true,
+    balance: 0,
+    ...overrides,
+  }) as ynab.Account;
+
+const accounts = [
+  account({ id: 'checking', name: 'Checking', transfer_payee_id: 'payee-to-checking' }),
+  account({ id: 'savings', name: 'Savings', transfer_payee_id: 'payee-to-savings' }),
+  account({
+    id: 'brokerage',
+    name: 'Brokerage',
+    on_budget: false,
+    transfer_payee_id: 'payee-to-brokerage',
+  }),
+  account({
+    id: 'old-card',
+    name: 'Old Card',
+    closed: true,
+    transfer_payee_id: 'payee-to-old-card',
+  }),
+];
+
+const categoryGroups = [
+  {
+    id: 'internal',
+    name: 'Internal Master Category',
+    hidden: false,
+    deleted: false,
+    categories: [{ id: 'cat-rta', name: 'Inflow: Ready to Assign', hidden: false, deleted: false }],
+  },
+] as unknown as ynab.CategoryGroupWithCategories[];
+
+const transaction = (overrides: Partial<ynab.TransactionDetail> = {}) =>
+  transactionDetail({ date: '2025-02-01', ...overrides });
+
+const fetched = <T>(data: T[]) => ({
+  data,
+  wasCached: true,
+  usedDelta: false,
+  serverKnowledge: 10,
+});
+
+describe('transferTools', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('handleCreateTransfer', () => {
+    let api: ynab.API & { transactions: Record<string, ReturnType<typeof vi.fn>> };
+    let deltaCache: DeltaCache;
+    let knowledgeStore: ServerKnowledgeStore;
+
+    beforeEach(() => {
+      api = { transactions: { createTransaction: vi.fn() } } as unknown as typeof api;
+      knowledgeStore = new ServerKnowledgeStore();
+      deltaCache = new DeltaCache(
+        { deleteByBudgetId: vi.fn(), deleteByPrefix: vi.fn() } as never,
+        knowledgeStore,
+      );
+      vi.spyOn(deltaCache, 'invalidate');
+      vi.spyOn(cacheManager, 'delete');
+      vi.spyOn(DeltaFetcher.prototype, 'fetchAccounts').mockResolvedValue(fetched(accounts));
+      vi.spyOn(DeltaFetcher.prototype, 'fetchCategories').mockResolvedValue(
+        fetched(categoryGroups),
+      );
+    });
+
+    it('creates an uncategorized outflow between two on-budget accounts', async () => {
+      api.transactions.createTransaction.mockResolvedValue({
+        data: {
+          transaction: transaction({
+            id: 'out-1',
+            account_id: 'checking',
+            amount: -250000,
+            transfer_transaction_id: 'in-1',
+          }),
+          server_knowledge: 11,
+        },
+      });
+
+      const parsed = parseToolPayload(
+        await handleCreateTransfer(api, deltaCache, knowledgeStore, {
+          budget_id: 'budget-1',
+          from_account_id: 'checking',
+          to_account_id: 'savings',
+          amount: 250000,
+          date: '2025-02-01',
+        }),
+      );
+
+      expect(api.transactions.createTransaction).toHaveBeenCalledWith('budget-1', {
+        transaction: {
+          account_id: 'checking',
+          payee_id: 'payee-to-savings',
+          amount: -250000,
+          date: '2025-02-01',
+        },
+      });
+      expect(parsed.transfer).toMatchObject({
+        kind: 'budget_to_budget',
+        amount: 250,
+        category_id: null,
+        outflow_transaction_id: 'out-1',
+        inflow_transaction_id: 'in-1',
+      });
+      expect(deltaCache.invalidate).toHaveBeenCalledWith('budget-1', 'transactions');
+      expect(cacheManager.delete).toHaveBeenCalledWith(
+        CacheManager.generateKey('accounts', 'list', 'budget-1'),
+      );
+      expect(cacheManager.delete).not.toHaveBeenCalledWith(
+        CacheManager.generateKey('categories', 'list', 'budget-1'),
+      );
+    });
+
+    it('invalidates the funding category when money leaves the budget', async () => {
+      api.transactions.createTransaction.mockResolvedValue({
+        data: {
+          transaction: transaction({
+            id: 'out-1',
+            account_id: 'checking',
+            amount: -100000,
+            category_id: 'cat-invest',
+            transfer_transaction_id: 'in-1',
+          }),
+          server_knowledge: 12,
+        },
+      });
+
+      await handleCreateTransfer(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        from_account_id: 'checking',
+        to_account_id: 'brokerage',
+        amount: 100000,
+        date: '2025-02-14',
+        category_id: 'cat-invest',
+      });
+
+      expect(cacheManager.delete).toHaveBeenCalledWith(
+        CacheManager.generateKey('categories', 'list', 'budget-1'),
+      );
+      expect(cacheManager.delete).toHaveBeenCalledWith(
+        CacheManager.generateKey('category', 'get', 'budget-1', 'cat-invest'),
+      );
+      expect(cacheManager.delete).toHaveBeenCalledWith(
+        CacheManager.generateKey('month', 'get', 'budget-1', '2025-02-01'),
+      );
+    });
+
+    it('requires a category when money leaves the budget', async () => {
+      const result = await handleCreateTransfer(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        from_account_id: 'checking',
+        to_account_id: 'brokerage',
+        amount: 100000,
+        date: '2025-02-01',
+      });
+
+      expect(result.content[0].text).toContain('category_id is required');
+      expect(api.transactions.createTransaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects a category on transfers that stay inside the budget', async () => {
+      const result = await handleCreateTransfer(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        from_account_id: 'checking',
+        to_account_id: 'savings',
+        amount: 100000,
+        date: '2025-02-01',
+        category_id: 'cat-groceries',
+      });
+
+      expect(result.content[0].text).toContain('cannot have a category');
+      expect(api.transactions.createTransaction).not.toHaveBeenCalled();
+    });
+
+    it('enters tracking-to-budget transfers on the budget side as Ready to Assign', async () => {
+      const parsed = parseToolPayload(
+        await handleCreateTransfer(api, deltaCache, knowledgeStore, {
+          budget_id: 'budget-1',
+          from_account_id: 'brokerage',
+          to_account_id: 'checking',
+          amount: 500000,
+          date: '2025-02-01',
+          dry_run: true,
+        }),
+      );
+
+      expect(parsed).toMatchObject({
+        dry_run: true,
+        action: 'create_transfer',
+        transfer: { kind: 'tracking_to_budget', entered_on_account_id: 'checking' },
+        request: {
+          account_id: 'checking',
+          payee_id: 'payee-to-brokerage',
+          amount: 500000,
+          category_id: 'cat-rta',
+        },
+      });
+      expect(api.transactions.createTransaction).not.toHaveBeenCalled();
+      expect(deltaCache.invalidate).not.toHaveBeenCalled();
+    });
+
+    it('rejects closed and unknown accounts', async () => {
+      const closed = await handleCreateTransfer(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        from_account_id: 'checking',
+        to_account_id: 'old-card',
+        amount: 1000,
+        date: '2025-02-01',
+      });
+      expect(closed.content[0].text).toContain('is closed');
+
+      const unknown = await handleCreateTransfer(api, deltaCache, knowledgeStore, {
+        budget_id: 'budget-1',
+        from_account_id: 'missing',
+        to_account_id: 'checking',
+        amount: 1000,
+        date: '2025-02-01',
+      });
+      expect(unknown.content[0].text).toContain('Account not found');
+    });
+  });
+
+  describe('handleListTransfers', () => {
+    const transactions = [
+      transaction({
+        id: 'out-1',
+        account_id: 'checking',
+        amount: -250000,
+        transfer_account_id: 'savings',
+        transfer_transaction_id: 'in-1',
+      }),
+      transaction({
+        id: 'in-1',
+        account_id: 'savings',
+        amount: 250000,
+        transfer_account_id: 'checking',
+        transfer_transaction_id: 'out-1',
+      }),
+      transaction({
+        id: 'split-parent',
+        date: '2025-01-15',
+        account_id: 'checking',
+        amount: -80000,
+        subtransactions: [
+          {
+            id: 'split-line',
+            amount: -30000,
+            transfer_account_id: 'savings',
+            transfer_transaction_id: 'split-counterpart',
+            deleted: false,
+          },
+          { id: 'split-other', amount: -50000, category_id: 'cat-1', deleted: false },
+        ] as ynab.SubTransaction[],
+      }),
+      transaction({
+        id: 'split-counterpart',
+        date: '2025-01-15',
+        account_id: 'savings',
+        amount: 30000,
+        transfer_account_id: 'checking',
+        transfer_transaction_id: 'split-line',
+      }),
+      transaction({
+        id: 'lonely',
+        date: '2025-01-20',
+        account_id: 'brokerage',
+        amount: 10000,
+        transfer_account_id: 'checking',
+        transfer_transaction_id: 'gone',
+      }),
+      transaction({
+        id: 'regular',
+        account_id: 'checking',
+        amount: -4500,
+        category_id: 'cat-1',
+      }),
+    ];
+
+    beforeEach(() => {
+      vi.spyOn(DeltaFetcher.prototype, 'fetchTransactions').mockResolvedValue(
+        fetched(transactions),
+      );
+      vi.spyOn(DeltaFetcher.prototype, 'fetchAccounts').mockResolvedValue(fetched(accounts));
+    });
+
+    it('pairs both sides, including split lines, and flags orphans', async () => {
+      const parsed = parseToolPayload(
+        await handleListTransfers({} as ynab.API, { budget_id: 'budget-1' }),
+      );
+
+      expect(parsed.total_pairs).toBe(2);
+      expect(parsed.pairs[0]).toMatchObject({
+        date: '2025-02-01',
+        amount: 250,
+        from: { transaction_id: 'out-1', account_name: 'Checking' },
+        to: { transaction_id: 'in-1', account_name: 'Savings' },
+      });
+      expect(parsed.pairs[1]).toMatchObject({
+        amount: 30,
+        from: { transaction_id: 'split-line', parent_transaction_id: 'split-parent' },
+        to: { transaction_id: 'split-counterpart' },
+      });
+      expect(parsed.orphans).toEqual([
+        expect.objectContaining({
+          transaction_id: 'lonely',
+          transfer_account_name: 'Checking',
+          reason: 'counterpart_not_found',
+        }),
+      ]);
+    });
+
+    it('pages pairs and orphans together with a cursor', async () => {
+      const first = parseToolPayload(
+        await handleListTransfers({} as ynab.API, { budget_id: 'budget-1', limit: 2 }),
+      );
+      expect(first).toMatchObject({ total_count: 3, returned_count: 2, has_more: true });
+      expect(first.total_pairs).toBe(2);
+      expect(first.total_orphans).toBe(1);
+
+      const second = parseToolPayload(
+        await handleListTransfers({} as ynab.API, {
+          budget_id: 'budget-1',
+          limit: 2,
+          cursor: first.next_cursor,
+        }),
+      );
+      expect(second).toMatchObject({ returned_count: 1, has_more: false, next_cursor: null });
+      expect(first.pairs.length + first.orphans.length).toBe(2);
+      expect([...first.pairs, ...second.pairs]).toHaveLength(2);
+      expect([...first.orphans, ...second.orphans]).toHaveLength(1);
+    });
+
+    it('filters by account and date window, and can list only orphans', async () => {
+      const parsed = parseToolPayload(
+        await handleListTransfers({} as ynab.API, {
+          budget_id: 'budget-1',
+          account_id: 'brokerage',
+          since_date: '2025-01-01',
+          until_date: '2025-01-31',
+          orphans_only: true,
+        }),
+      );
+
+      expect(parsed.pairs).toEqual([]);
+      expect(parsed.total_pairs).toBe(0);
+      expect(parsed.orphans.map((o: { transaction_id: string }) => o.transaction_id)).toEqual([
+        'lonely',
+      ]);
+    });
+  });
+});
@@ -9,6 +9,7 @@ import type { DeltaFetcher } from './deltaFetcher.js';
 import type { DeltaCache } from '../server/deltaCache.js';
 import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
 import { resolveDeltaFetcherArgs, resolveDeltaWriteArgs } from './deltaSupport.js';
+import { PaginationParamsShape, paginate, projectFields } from './paginationSupport.js';
 
 /**
  * Schema for ynab:list_accounts tool parameters
@@ -16,6 +17,7 @@ import { resolveDeltaFetcherArgs, resolveDeltaWriteArgs } from './deltaSupport.j
 export const ListAccountsSchema = z
   .object({
     budget_id: z.string().min(1, 'Budget ID is required'),
+    ...PaginationParamsShape,
   })
   .strict();
 
@@ -82,7 +84,13 @@ export async function handleListAccounts(
   return await withToolErrorHandling(
     async () => {
       const result = await deltaFetcher.fetchAccounts(params.budget_id);
-      const accounts = result.data;
+      const { page, pagination } = paginate(
+        'list_accounts',
+        result.data,
+        params,
+        result.serverKnowledge,
+        (account) => account.id,
+      );
       const wasCached = result.wasCached;
 
       return {
@@ -90,20 +98,24 @@ export async function handleListAccounts(
           {
             type: 'text',
             text: responseFormatter.format({
-              accounts: accounts.map((account) => ({
-                id: account.id,
-                name: account.name,
-                type: account.type,
-                on_budget: account.on_budget,
-                closed: account.closed,
-                note: account.note,
-                balance: milliunitsToAmount(account.balance),
-                cleared_balance: milliunitsToAmount(account.cleared_balance),
-                uncleared_balance: milliunitsToAmount(account.uncleared_balance),
-                transfer_payee_id: account.transfer_payee_id,
-                direct_import_linked: account.direct_import_linked,
-                direct_import_in_error: account.direct_import_in_error,
-              })),
+              ...pagination,
+              accounts: projectFields(
+                page.map((account) => ({
+                  id: account.id,
+                  name: account.name,
+                  type: account.type,
+                  on_budget: account.on_budget,
+                  closed: account.closed,
+                  note: account.note,
+                  balance: milliunitsToAmount(account.balance),
+                  cleared_balance: milliunitsToAmount(account.cleared_balance),
+                  uncleared_balance: milliunitsToAmount(account.uncleared_balance),
+                  transfer_payee_id: account.transfer_payee_id,
+                  direct_import_linked: account.direct_import_linked,
+                  direct_import_in_error: account.direct_import_in_error,
+                })),
+                params.fields,
+              ),
               cached: wasCached,
               cache_info: wasCached
                 ? `Data retrieved from cache for improved performance${result.usedDelta ? ' (delta merge applied)' : ''}`
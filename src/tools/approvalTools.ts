@@ -0,0 +1,579 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
+import { categorizationRuleStore } from '../server/categorizationRuleStore.js';
+import type { DeltaCache } from '../server/deltaCache.js';
+import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
+import { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaFetcherArgs, resolveDeltaWriteArgs } from './deltaSupport.js';
+import type { BulkUpdateTransactionInput } from './transactionTools.js';
+import { applyBulkTransactionUpdates } from './bulkUpdateSupport.js';
+import {
+  compileRule,
+  isUncategorized,
+  ruleMatches,
+  type CompiledRule,
+} from './categorizationRuleTools.js';
+import {
+  DEFAULT_HISTORY_MONTHS,
+  DEFAULT_MIN_CONFIDENCE,
+  buildHistory,
+  rankCategoryCandidates,
+  type HistoryEntry,
+} from './categorySuggestionTools.js';
+import { canonicalizePayee, normalizePayee } from './reconciliation/payeeNormalizer.js';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_REVIEW_LIMIT = 100;
+
+/**
+ * Schema for ynab:review_unapproved tool parameters
+ */
+export const ReviewUnapprovedSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    account_id: z.string().min(1).optional(),
+    since_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    until_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    history_months: z.number().int().min(1).max(60).optional(),
+    min_confidence: z.number().min(0).max(100).optional(),
+    limit: z.number().int().min(1).max(500).optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (data.since_date && data.until_date && data.since_date > data.until_date) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'since_date must be on or before until_date',
+        path: ['since_date'],
+      });
+    }
+  });
+
+export type ReviewUnapprovedParams = z.infer<typeof ReviewUnapprovedSchema>;
+
+/**
+ * Schema for ynab:approve_transactions tool parameters
+ */
+export const ApproveTransactionsSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    transaction_ids: z.array(z.string().min(1)).min(1).max(500).optional(),
+    account_id: z.string().min(1).optional(),
+    since_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    until_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    matched_by_rule: z.boolean().optional(),
+    apply_category_suggestions: z.boolean().optional(),
+    history_months: z.number().int().min(1).max(60).optional(),
+    min_confidence: z.number().min(0).max(100).optional(),
+    dry_run: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const hasFilter =
+      data.account_id !== undefined ||
+      data.since_date !== undefined ||
+      data.until_date !== undefined ||
+      data.matched_by_rule === true;
+    if (data.transaction_ids && hasFilter) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Use either transaction_ids or filters (account_id, dates, matched_by_rule)',
+        path: ['transaction_ids'],
+      });
+    }
+    if (!data.transaction_ids && !hasFilter) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          'Provide transaction_ids or at least one filter (account_id, since_date, until_date, matched_by_rule)',
+        path: ['transaction_ids'],
+      });
+    }
+    if (data.since_date && data.until_date && data.since_date > data.until_date) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'since_date must be on or before until_date',
+        path: ['since_date'],
+      });
+    }
+  });
+
+export type ApproveTransactionsParams = z.infer<typeof ApproveTransactionsSchema>;
+
+interface CategorySuggestion {
+  category_id: string;
+  category_name: string | undefined;
+  source: 'rule' | 'history';
+  confidence: number;
+  rule_id?: string;
+  rule_name?: string;
+}
+
+interface PayeeSuggestion {
+  payee_id: string;
+  payee_name: string;
+  used_count: number;
+}
+
+/**
+ * Everything needed to suggest fixes for unapproved transactions, built once per call
+ */
+interface SuggestionContext {
+  categories: Map<string, string>;
+  history: HistoryEntry[];
+  rules: CompiledRule[];
+  /** Most used payee per canonical merchant key, from approved history */
+  payeesByMerchant: Map<string, PayeeSuggestion>;
+  minConfidence: number;
+}
+
+function isUnapproved(transaction: ynab.TransactionDetail): boolean {
+  return !transaction.deleted && transaction.approved === false;
+}
+
+function merchantKey(payeeName: string | null | undefined): string {
+  return normalizePayee(canonicalizePayee(payeeName));
+}
+
+function buildSuggestionContext(
+  transactions: ynab.TransactionDetail[],
+  categoryGroups: ynab.CategoryGroupWithCategories[],
+  payees: ynab.Payee[],
+  budgetId: string,
+  historyMonths: number,
+  minConfidence: number,
+): SuggestionContext {
+  const categories = new Map<string, string>();
+  for (const group of categoryGroups) {
+    if (group.deleted) continue;
+    for (const category of group.categories) {
+      if (category.deleted || category.hidden) continue;
+      categories.set(category.id, category.name);
+    }
+  }
+
+  const since = new Date();
+  since.setUTCMonth(since.getUTCMonth() - historyMonths);
+  const history = buildHistory(
+    transactions.filter((transaction) => transaction.approved),
+    since.toISOString().slice(0, 10),
+  ).filter((entry) => categories.has(entry.category_id));
+
+  const payeeNames = new Map(
+    payees
+      .filter((payee) => !payee.deleted && !payee.transfer_account_id)
+      .map((payee) => [payee.id, payee.name]),
+  );
+  const usage = new Map<string, Map<string, number>>();
+  for (const transaction of transactions) {
+    if (transaction.deleted || !transaction.approved || !transaction.payee_id) continue;
+    if (!payeeNames.has(transaction.payee_id)) continue;
+    // Index both the imported descriptor and the name the user settled on
+    const keys = new Set(
+      [transaction.import_payee_name_original, transaction.payee_name]
+        .map(merchantKey)
+        .filter(Boolean),
+    );
+    for (const key of keys) {
+      const counts = usage.get(key) ?? new Map<string, number>();
+      counts.set(transaction.payee_id, (counts.get(transaction.payee_id) ?? 0) + 1);
+      usage.set(key, counts);
+    }
+  }
+  const payeesByMerchant = new Map<string, PayeeSuggestion>();
+  for (const [key, counts] of usage) {
+    const [payeeId, count] = [...counts].sort(
+      (a, b) => b[1] - a[1] || a[0].localeCompare(b[0]),
+    )[0]!;
+    payeesByMerchant.set(key, {
+      payee_id: payeeId,
+      payee_name: payeeNames.get(payeeId)!,
+      used_count: count,
+    });
+  }
+
+  return {
+    categories,
+    history,
+    rules: categorizationRuleStore.list(budgetId).map(compileRule),
+    payeesByMerchant,
+    minConfidence,
+  };
+}
+
+function findRule(
+  context: SuggestionContext,
+  transaction: ynab.TransactionDetail,
+): CompiledRule | undefined {
+  return context.rules.find((compiled) => ruleMatches(compiled, transaction));
+}
+
+/**
+ * A matching rule wins over history; history is only consulted for uncategorized transactions.
+ * Transfers and splits are left alone since YNAB categorizes them per side or per subtransaction.
+ */
+function suggestCategory(
+  context: SuggestionContext,
+  transaction: ynab.TransactionDetail,
+  rule: CompiledRule | undefined,
+): CategorySuggestion | undefined {
+  if (transaction.transfer_account_id || (transaction.subtransactions ?? []).length > 0) {
+    return undefined;
+  }
+
+  if (rule?.rule.category_id && rule.rule.category_id !== transaction.category_id) {
+    return {
+      category_id: rule.rule.category_id,
+      category_name: context.categories.get(rule.rule.category_id) ?? rule.rule.category_name,
+      source: 'rule',
+      confidence: 100,
+      rule_id: rule.rule.id,
+      ...(rule.rule.name && { rule_name: rule.rule.name }),
+    };
+  }
+  if (rule || !isUncategorized(transaction)) return undefined;
+
+  const best = rankCategoryCandidates(transaction, context.history)[0];
+  if (!best || best.confidence < context.minConfidence) return undefined;
+  return {
+    category_id: best.evidence.category_id,
+    category_name: context.categories.get(best.evidence.category_id),
+    source: 'history',
+    confidence: best.confidence,
+  };
+}
+
+/**
+ * Suggests the payee this merchant is usually recorded under when the import used another one
+ */
+function suggestPayee(
+  context: SuggestionContext,
+  transaction: ynab.TransactionDetail,
+): PayeeSuggestion | undefined {
+  if (transaction.transfer_account_id) return undefined;
+  const suggestion = context.payeesByMerchant.get(
+    merchantKey(transaction.import_payee_name_original ?? transaction.payee_name),
+  );
+  if (!suggestion || suggestion.payee_id === transaction.payee_id) return undefined;
+  return suggestion;
+}
+
+function inDateRange(
+  transaction: ynab.TransactionDetail,
+  sinceDate: string | undefined,
+  untilDate: string | undefined,
+): boolean {
+  return (
+    (!sinceDate || transaction.date >= sinceDate) && (!untilDate || transaction.date <= untilDate)
+  );
+}
+
+function describeCache(result: { wasCached: boolean; usedDelta: boolean }): string {
+  return result.wasCached
+    ? `Data retrieved from cache for improved performance${result.usedDelta ? ' (delta merge applied)' : ''}`
+    : 'Fresh data retrieved from YNAB API';
+}
+
+/**
+ * Handles the ynab:review_unapproved tool call
+ * Lists unapproved transactions grouped by account, each with a suggested category (from
+ * categorization rules, then history) and the payee the merchant is usually recorded under.
+ */
+export async function handleReviewUnapproved(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: ReviewUnapprovedParams,
+): Promise<CallToolResult>;
+export async function handleReviewUnapproved(
+  ynabAPI: ynab.API,
+  params: ReviewUnapprovedParams,
+): Promise<CallToolResult>;
+export async function handleReviewUnapproved(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | ReviewUnapprovedParams,
+  maybeParams?: ReviewUnapprovedParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const limit = params.limit ?? DEFAULT_REVIEW_LIMIT;
+      const [transactionsResult, categoriesResult, payeesResult] = await Promise.all([
+        deltaFetcher.fetchTransactions(params.budget_id),
+        deltaFetcher.fetchCategories(params.budget_id),
+        deltaFetcher.fetchPayees(params.budget_id),
+      ]);
+      const context = buildSuggestionContext(
+        transactionsResult.data,
+        categoriesResult.data,
+        payeesResult.data,
+        params.budget_id,
+        params.history_months ?? DEFAULT_HISTORY_MONTHS,
+        params.min_confidence ?? DEFAULT_MIN_CONFIDENCE,
+      );
+
+      const unapproved = transactionsResult.data
+        .filter(
+          (transaction) =>
+            isUnapproved(transaction) &&
+            (!params.account_id || transaction.account_id === params.account_id) &&
+            inDateRange(transaction, params.since_date, params.until_date),
+        )
+        .sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+      const page = unapproved.slice(0, limit);
+
+      let matchedByRule = 0;
+      let withCategorySuggestion = 0;
+      let withPayeeSuggestion = 0;
+      const accounts = new Map<
+        string,
+        {
+          account_id: string;
+          account_name: string;
+          unapproved_count: number;
+          total_milliunits: number;
+          transactions: Record<string, unknown>[];
+        }
+      >();
+      for (const transaction of page) {
+        const rule = findRule(context, transaction);
+        const category = suggestCategory(context, transaction, rule);
+        const payee = suggestPayee(context, transaction);
+        if (rule) matchedByRule += 1;
+        if (category) withCategorySuggestion += 1;
+        if (payee) withPayeeSuggestion += 1;
+
+        const account = accounts.get(transaction.account_id) ?? {
+          account_id: transaction.account_id,
+          account_name: transaction.account_name,
+          unapproved_count: 0,
+          total_milliunits: 0,
+          transactions: [],
+        };
+        account.unapproved_count += 1;
+        account.total_milliunits += transaction.amount;
+        account.transactions.push({
+          transaction_id: transaction.id,
+          date: transaction.date,
+          amount: milliunitsToAmount(transaction.amount),
+          payee_name: transaction.payee_name,
+          category_name: transaction.category_name,
+          memo: transaction.memo,
+          cleared: transaction.cleared,
+          ...(transaction.import_payee_name_original && {
+            import_payee_name_original: transaction.import_payee_name_original,
+          }),
+          matched_rule: rule ? { id: rule.rule.id, name: rule.rule.name ?? null } : null,
+          suggestions: {
+            category: category ?? null,
+            payee: payee ?? null,
+          },
+        });
+        accounts.set(transaction.account_id, account);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              total_unapproved: unapproved.length,
+              returned_count: page.length,
+              summary: {
+                accounts: accounts.size,
+                matched_by_rule: matchedByRule,
+                with_category_suggestion: withCategorySuggestion,
+                with_payee_suggestion: withPayeeSuggestion,
+              },
+              min_confidence: context.minConfidence,
+              cached: transactionsResult.wasCached,
+              cache_info: describeCache(transactionsResult),
+              accounts: [...accounts.values()]
+                .sort((a, b) => a.account_name.localeCompare(b.account_name))
+                .map(({ total_milliunits, ...account }) => ({
+                  ...account,
+                  total_amount: milliunitsToAmount(total_milliunits),
+                })),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:review_unapproved',
+    'reviewing unapproved transactions',
+  );
+}
+
+/**
+ * Handles the ynab:approve_transactions tool call
+ * Approves unapproved transactions selected by id or by filter (account, date range, matched by
+ * a categorization rule). With apply_category_suggestions the suggested category is written in
+ * the same update_transactions batch.
+ */
+export async function handleApproveTransactions(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: ApproveTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleApproveTransactions(
+  ynabAPI: ynab.API,
+  params: ApproveTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleApproveTransactions(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | ApproveTransactionsParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | ApproveTransactionsParams,
+  maybeParams?: ApproveTransactionsParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const applySuggestions = params.apply_category_suggestions ?? false;
+      if (params.matched_by_rule && categorizationRuleStore.list(params.budget_id).length === 0) {
+        throw new ValidationError('No categorization rules to match', undefined, [
+          'Create rules with create_categorization_rule first',
+        ]);
+      }
+
+      const deltaFetcher = new DeltaFetcher(ynabAPI, deltaCache);
+      const [transactionsResult, categoriesResult, payeesResult] = await Promise.all([
+        deltaFetcher.fetchTransactions(params.budget_id),
+        deltaFetcher.fetchCategories(params.budget_id),
+        deltaFetcher.fetchPayees(params.budget_id),
+      ]);
+      const context = buildSuggestionContext(
+        transactionsResult.data,
+        categoriesResult.data,
+        payeesResult.data,
+        params.budget_id,
+        params.history_months ?? DEFAULT_HISTORY_MONTHS,
+        params.min_confidence ?? DEFAULT_MIN_CONFIDENCE,
+      );
+
+      const skipped: { transaction_id: string; reason: string }[] = [];
+      let selected: ynab.TransactionDetail[];
+      if (params.transaction_ids) {
+        const byId = new Map(
+          transactionsResult.data.map((transaction) => [transaction.id, transaction]),
+        );
+        selected = [];
+        for (const id of new Set(params.transaction_ids)) {
+          const transaction = byId.get(id);
+          if (!transaction || transaction.deleted) {
+            skipped.push({ transaction_id: id, reason: 'not_found' });
+          } else if (transaction.approved) {
+            skipped.push({ transaction_id: id, reason: 'already_approved' });
+          } else {
+            selected.push(transaction);
+          }
+        }
+      } else {
+        selected = transactionsResult.data.filter(
+          (transaction) =>
+            isUnapproved(transaction) &&
+            (!params.account_id || transaction.account_id === params.account_id) &&
+            inDateRange(transaction, params.since_date, params.until_date) &&
+            (!params.matched_by_rule || findRule(context, transaction) !== undefined),
+        );
+      }
+      selected.sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+
+      const plan = selected.map((transaction) => {
+        const category = applySuggestions
+          ? suggestCategory(context, transaction, findRule(context, transaction))
+          : undefined;
+        const update: BulkUpdateTransactionInput = {
+          id: transaction.id,
+          approved: true,
+          ...(category && { category_id: category.category_id }),
+          original_account_id: transaction.account_id,
+          original_date: transaction.date,
+        };
+        return { transaction, category, update };
+      });
+      const summary = {
+        selected: plan.length,
+        with_category_change: plan.filter(({ category }) => category).length,
+        skipped: skipped.length,
+      };
+
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'approve_transactions',
+                summary,
+                transactions: plan.map(({ transaction, category }) => ({
+                  transaction_id: transaction.id,
+                  date: transaction.date,
+                  amount: milliunitsToAmount(transaction.amount),
+                  payee_name: transaction.payee_name,
+                  account_name: transaction.account_name,
+                  ...(category && {
+                    category: {
+                      from: transaction.category_name ?? null,
+                      to: category.category_name ?? category.category_id,
+                      source: category.source,
+                      confidence: category.confidence,
+                    },
+                  }),
+                })),
+                ...(skipped.length > 0 && { skipped }),
+              }),
+            },
+          ],
+        };
+      }
+
+      const { updated, failed_ids: failedIds } =
+        plan.length > 0
+          ? await applyBulkTransactionUpdates(
+              ynabAPI,
+              deltaCache,
+              knowledgeStore,
+              params.budget_id,
+              plan.map(({ update }) => update),
+            )
+          : { updated: 0, failed_ids: [] as string[] };
+      const failed = new Set(failedIds);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              success: failedIds.length === 0,
+              summary: {
+                ...summary,
+                approved: updated,
+                categorized: plan.filter(
+                  ({ transaction, category }) => category && !failed.has(transaction.id),
+                ).length,
+                failed: failedIds.length,
+              },
+              ...(failedIds.length > 0 && { failed_transaction_ids: failedIds }),
+              ...(skipped.length > 0 && { skipped }),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:approve_transactions',
+    'approving transactions',
+  );
+}
@@ -0,0 +1,373 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
+import type { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaFetcherArgs } from './deltaSupport.js';
+import { listPeriods } from './reportSupport.js';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_NET_WORTH_MONTHS = 12;
+const DEFAULT_DAILY_DAYS = 30;
+const MAX_DAILY_DAYS = 366;
+
+const LIABILITY_TYPES = new Set<string>([
+  'creditCard',
+  'lineOfCredit',
+  'mortgage',
+  'autoLoan',
+  'studentLoan',
+  'personalLoan',
+  'medicalDebt',
+  'otherDebt',
+  'otherLiability',
+]);
+
+/**
+ * Schema for ynab:net_worth_history tool parameters
+ */
+export const NetWorthHistorySchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    months: z.number().int().min(1).max(120).optional(),
+    include_accounts: z.boolean().optional(),
+  })
+  .strict();
+
+export type NetWorthHistoryParams = z.infer<typeof NetWorthHistorySchema>;
+
+/**
+ * Schema for ynab:account_balance_history tool parameters
+ */
+export const AccountBalanceHistorySchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    account_id: z.string().min(1, 'Account ID is required'),
+    granularity: z.enum(['daily', 'monthly']).optional(),
+    since_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    until_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (data.since_date && data.until_date && data.since_date > data.until_date) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'since_date must be on or before until_date',
+        path: ['since_date'],
+      });
+    }
+  });
+
+export type AccountBalanceHistoryParams = z.infer<typeof AccountBalanceHistorySchema>;
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return isoDate(new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS));
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round(
+    (new Date(`${b}T00:00:00Z`).getTime() - new Date(`${a}T00:00:00Z`).getTime()) / DAY_MS,
+  );
+}
+
+/**
+ * Last day of the month starting at `monthStart`, capped at `today`
+ */
+function monthEnd(monthStart: string, today: string): string {
+  const start = new Date(`${monthStart}T00:00:00Z`);
+  const end = isoDate(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)));
+  return end < today ? end : today;
+}
+
+function groupByAccount(
+  transactions: ynab.TransactionDetail[],
+): Map<string, ynab.TransactionDetail[]> {
+  const byAccount = new Map<string, ynab.TransactionDetail[]>();
+  for (const transaction of transactions) {
+    if (transaction.deleted) continue;
+    const list = byAccount.get(transaction.account_id) ?? [];
+    list.push(transaction);
+    byAccount.set(transaction.account_id, list);
+  }
+  return byAccount;
+}
+
+/**
+ * Balance at the end of each date (ascending), found by walking back from the current balance
+ * and undoing every transaction dated after it
+ */
+function balancesAt(
+  currentBalance: number,
+  transactions: ynab.TransactionDetail[],
+  dates: string[],
+): number[] {
+  const newestFirst = [...transactions].sort((a, b) => b.date.localeCompare(a.date));
+  const balances = new Array<number>(dates.length);
+  let balance = currentBalance;
+  let index = 0;
+  for (let position = dates.length - 1; position >= 0; position--) {
+    while (index < newestFirst.length && newestFirst[index]!.date > dates[position]!) {
+      balance -= newestFirst[index]!.amount;
+      index++;
+    }
+    balances[position] = balance;
+  }
+  return balances;
+}
+
+/**
+ * Handles the ynab:net_worth_history tool call
+ * Reconstructs month-end balances for every account from the delta-cached transaction snapshot
+ * and totals them into net worth, assets vs liabilities and on vs off budget.
+ */
+export async function handleNetWorthHistory(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: NetWorthHistoryParams,
+): Promise<CallToolResult>;
+export async function handleNetWorthHistory(
+  ynabAPI: ynab.API,
+  params: NetWorthHistoryParams,
+): Promise<CallToolResult>;
+export async function handleNetWorthHistory(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | NetWorthHistoryParams,
+  maybeParams?: NetWorthHistoryParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const monthCount = params.months ?? DEFAULT_NET_WORTH_MONTHS;
+      const today = isoDate(new Date());
+      const firstMonth = new Date(`${today.slice(0, 7)}-01T00:00:00Z`);
+      firstMonth.setUTCMonth(firstMonth.getUTCMonth() - (monthCount - 1));
+      const months = listPeriods(isoDate(firstMonth), today, 'month');
+      const dates = months.map((month) => monthEnd(month, today));
+
+      const [accountsResult, transactionsResult] = await Promise.all([
+        deltaFetcher.fetchAccounts(params.budget_id),
+        deltaFetcher.fetchTransactions(params.budget_id),
+      ]);
+      const byAccount = groupByAccount(transactionsResult.data);
+
+      // Closed accounts still held money in earlier months
+      const accounts = accountsResult.data
+        .filter((account) => !account.deleted)
+        .map((account) => ({
+          account,
+          liability: LIABILITY_TYPES.has(account.type),
+          balances: balancesAt(account.balance, byAccount.get(account.id) ?? [], dates),
+        }));
+
+      const points = months.map((month, position) => {
+        const totals = { net_worth: 0, assets: 0, liabilities: 0, on_budget: 0, off_budget: 0 };
+        for (const { account, liability, balances } of accounts) {
+          const balance = balances[position]!;
+          totals.net_worth += balance;
+          totals[liability ? 'liabilities' : 'assets'] += balance;
+          totals[account.on_budget ? 'on_budget' : 'off_budget'] += balance;
+        }
+        return { month, date: dates[position]!, totals };
+      });
+      const first = points[0]!.totals.net_worth;
+      const last = points[points.length - 1]!.totals.net_worth;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              from_month: months[0],
+              to_month: months[months.length - 1],
+              change: {
+                net_worth: milliunitsToAmount(last - first),
+                percent_change:
+                  first !== 0 ? Math.round((1000 * (last - first)) / Math.abs(first)) / 10 : null,
+              },
+              history: points.map(({ month, date, totals }, position) => ({
+                month,
+                date,
+                net_worth: milliunitsToAmount(totals.net_worth),
+                assets: milliunitsToAmount(totals.assets),
+                liabilities: milliunitsToAmount(totals.liabilities),
+                on_budget: milliunitsToAmount(totals.on_budget),
+                off_budget: milliunitsToAmount(totals.off_budget),
+                ...(params.include_accounts && {
+                  accounts: accounts
+                    .filter(({ balances }) => balances[position] !== 0)
+                    .map(({ account, balances }) => ({
+                      account_id: account.id,
+                      name: account.name,
+                      balance: milliunitsToAmount(balances[position]!),
+                    })),
+                }),
+              })),
+              accounts: accounts.map(({ account, liability }) => ({
+                account_id: account.id,
+                name: account.name,
+                type: account.type,
+                kind: liability ? 'liability' : 'asset',
+                on_budget: account.on_budget,
+                closed: account.closed,
+              })),
+              cached: transactionsResult.wasCached,
+              cache_info: transactionsResult.wasCached
+                ? `Data retrieved from cache for improved performance${transactionsResult.usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:net_worth_history',
+    'building net worth history',
+  );
+}
+
+/**
+ * Handles the ynab:account_balance_history tool call
+ * Reconstructs one account's daily or month-end balances with the inflows and outflows of each
+ * period, from the delta-cached transaction snapshot.
+ */
+export async function handleAccountBalanceHistory(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: AccountBalanceHistoryParams,
+): Promise<CallToolResult>;
+export async function handleAccountBalanceHistory(
+  ynabAPI: ynab.API,
+  params: AccountBalanceHistoryParams,
+): Promise<CallToolResult>;
+export async function handleAccountBalanceHistory(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | AccountBalanceHistoryParams,
+  maybeParams?: AccountBalanceHistoryParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const granularity = params.granularity ?? 'daily';
+      const today = isoDate(new Date());
+      const untilDate = params.until_date && params.until_date < today ? params.until_date : today;
+      let sinceDate = params.since_date;
+      if (!sinceDate) {
+        if (granularity === 'daily') {
+          sinceDate = addDays(untilDate, -(DEFAULT_DAILY_DAYS - 1));
+        } else {
+          const since = new Date(`${untilDate.slice(0, 7)}-01T00:00:00Z`);
+          since.setUTCMonth(since.getUTCMonth() - (DEFAULT_NET_WORTH_MONTHS - 1));
+          sinceDate = isoDate(since);
+        }
+      }
+      if (sinceDate > untilDate) {
+        throw new ValidationError('since_date must not be in the future');
+      }
+
+      let periods: { start: string; end: string }[];
+      if (granularity === 'daily') {
+        // Checked before building the periods so a decades-long range is not materialized first
+        const dayCount = daysBetween(sinceDate, untilDate) + 1;
+        if (dayCount > MAX_DAILY_DAYS) {
+          throw new ValidationError(
+            `Daily history is limited to ${MAX_DAILY_DAYS} days`,
+            `The requested range covers ${dayCount} days`,
+            ['Use granularity "monthly" for longer ranges'],
+          );
+        }
+        periods = [];
+        for (let date = sinceDate; date <= untilDate; date = addDays(date, 1)) {
+          periods.push({ start: date, end: date });
+        }
+      } else {
+        periods = listPeriods(sinceDate, untilDate, 'month').map((start) => ({
+          start,
+          end: monthEnd(start, untilDate),
+        }));
+      }
+
+      const [accountsResult, transactionsResult] = await Promise.all([
+        deltaFetcher.fetchAccounts(params.budget_id),
+        deltaFetcher.fetchTransactions(params.budget_id),
+      ]);
+      const account = accountsResult.data.find(
+        (candidate) => candidate.id === params.account_id && !candidate.deleted,
+      );
+      if (!account) {
+        throw new ValidationError(`Account not found: ${params.account_id}`, undefined, [
+          'Use list_accounts to look up account IDs',
+        ]);
+      }
+      const transactions = groupByAccount(transactionsResult.data).get(account.id) ?? [];
+      const balances = balancesAt(
+        account.balance,
+        transactions,
+        periods.map((period) => period.end),
+      );
+
+      const points = periods.map((period, position) => {
+        let inflows = 0;
+        let outflows = 0;
+        let count = 0;
+        for (const transaction of transactions) {
+          // Month points start at the first day of the month even if since_date is later
+          if (transaction.date < period.start || transaction.date > period.end) continue;
+          if (transaction.amount >= 0) inflows += transaction.amount;
+          else outflows += transaction.amount;
+          count += 1;
+        }
+        return { period, balance: balances[position]!, inflows, outflows, count };
+      });
+      const lowest = points.reduce((min, point) => (point.balance < min.balance ? point : min));
+      const highest = points.reduce((max, point) => (point.balance > max.balance ? point : max));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              account_id: account.id,
+              account_name: account.name,
+              type: account.type,
+              on_budget: account.on_budget,
+              current_balance: milliunitsToAmount(account.balance),
+              granularity,
+              since_date: sinceDate,
+              until_date: untilDate,
+              lowest: { date: lowest.period.end, balance: milliunitsToAmount(lowest.balance) },
+              highest: { date: highest.period.end, balance: milliunitsToAmount(highest.balance) },
+              history: points.map(({ period, balance, inflows, outflows, count }) => ({
+                date: period.end,
+                ...(granularity === 'monthly' && { month: period.start }),
+                balance: milliunitsToAmount(balance),
+                inflows: milliunitsToAmount(inflows),
+                outflows: milliunitsToAmount(outflows),
+                transaction_count: count,
+              })),
+              cached: transactionsResult.wasCached,
+              cache_info: transactionsResult.wasCached
+                ? `Data retrieved from cache for improved performance${transactionsResult.usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:account_balance_history',
+    'building account balance history',
+  );
+}
@@ -0,0 +1,56 @@
+import * as ynab from 'ynab';
+import type { DeltaCache } from '../server/deltaCache.js';
+import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
+import { handleUpdateTransactions, type BulkUpdateTransactionInput } from './transactionTools.js';
+import { parseToolResult } from './toolResultSupport.js';
+
+/** update_transactions accepts at most 100 transactions per call */
+export const BULK_UPDATE_BATCH_SIZE = 100;
+
+export interface BulkUpdateOutcome {
+  updated: number;
+  failed_ids: string[];
+}
+
+/**
+ * Writes any number of transaction updates through handleUpdateTransactions in batches of 100,
+ * so callers share its validation, cache invalidation and per-transaction error reporting.
+ * A batch whose response cannot be read is counted as failed in full.
+ */
+export async function applyBulkTransactionUpdates(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  budgetId: string,
+  updates: BulkUpdateTransactionInput[],
+): Promise<BulkUpdateOutcome> {
+  const outcome: BulkUpdateOutcome = { updated: 0, failed_ids: [] };
+
+  for (let start = 0; start < updates.length; start += BULK_UPDATE_BATCH_SIZE) {
+    const batch = updates.slice(start, start + BULK_UPDATE_BATCH_SIZE);
+    const result = await handleUpdateTransactions(ynabAPI, deltaCache, knowledgeStore, {
+      budget_id: budgetId,
+      transactions: batch,
+    });
+
+    const parsed = parseToolResult(result) as
+      | {
+          summary?: { updated?: number };
+          results?: { status: string; transaction_id: string }[];
+        }
+      | undefined;
+
+    if (!parsed?.summary || !parsed.results) {
+      outcome.failed_ids.push(...batch.map((item) => item.id));
+      continue;
+    }
+    outcome.updated += parsed.summary.updated ?? 0;
+    outcome.failed_ids.push(
+      ...parsed.results
+        .filter((entry) => entry.status === 'failed')
+        .map((entry) => entry.transaction_id),
+    );
+  }
+
+  return outcome;
+}
@@ -0,0 +1,405 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { amountToMilliunits, milliunitsToAmount } from '../utils/amountUtils.js';
+import type { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaFetcherArgs } from './deltaSupport.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_FORECAST_DAYS = 30;
+const DEFAULT_HISTORY_DAYS = 90;
+// Guards against runaway expansion, e.g. a daily schedule over a year
+const MAX_OCCURRENCES_PER_SCHEDULE = 400;
+
+/**
+ * Schema for ynab:forecast_cash_flow tool parameters
+ */
+export const ForecastCashFlowSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    days: z.number().int().min(1).max(365).optional(),
+    account_ids: z.array(z.string().min(1)).min(1).optional(),
+    include_variable_spending: z.boolean().optional(),
+    history_days: z.number().int().min(7).max(365).optional(),
+    balance_floor: z.number().optional(),
+    include_daily_balances: z.boolean().optional(),
+  })
+  .strict();
+
+export type ForecastCashFlowParams = z.infer<typeof ForecastCashFlowSchema>;
+
+interface Occurrence {
+  date: string;
+  account_id: string;
+  amount: number;
+  scheduled_transaction_id: string;
+  payee_name: string | null | undefined;
+  category_name: string | null | undefined;
+  /** Set on the receiving side of a scheduled transfer */
+  transfer_from_account_id?: string;
+}
+
+function toDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return isoDate(new Date(toDate(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Date in the month `months` after `date`'s month, on `day` clamped to that month's length
+ */
+function addMonths(date: string, months: number, day: number): string {
+  const start = toDate(date);
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return isoDate(new Date(Date.UTC(year, month, Math.min(day, lastDay))));
+}
+
+const MONTH_STEPS: Partial<Record<ynab.ScheduledTransactionFrequency, number>> = {
+  monthly: 1,
+  everyOtherMonth: 2,
+  every3Months: 3,
+  every4Months: 4,
+  twiceAYear: 6,
+  yearly: 12,
+  everyOtherYear: 24,
+};
+
+const DAY_STEPS: Partial<Record<ynab.ScheduledTransactionFrequency, number>> = {
+  daily: 1,
+  weekly: 7,
+  everyOtherWeek: 14,
+  every4Weeks: 28,
+};
+
+/**
+ * Next occurrence after `date`. Month-based frequencies keep the day of month of the schedule's
+ * first date (clamped to shorter months) so they do not drift; twiceAMonth runs on that day and
+ * 15 days apart from it.
+ */
+function nextOccurrence(
+  date: string,
+  frequency: ynab.ScheduledTransactionFrequency,
+  anchorDay: number,
+): string | undefined {
+  const daySteps = DAY_STEPS[frequency];
+  if (daySteps) return addDays(date, daySteps);
+  const monthSteps = MONTH_STEPS[frequency];
+  if (monthSteps) return addMonths(date, monthSteps, anchorDay);
+  if (frequency === 'twiceAMonth') {
+    const [early, late] = [anchorDay, anchorDay > 15 ? anchorDay - 15 : anchorDay + 15].sort(
+      (a, b) => a - b,
+    ) as [number, number];
+    const sameMonth = addMonths(date, 0, late);
+    return sameMonth > date ? sameMonth : addMonths(date, 1, early);
+  }
+  return undefined;
+}
+
+/**
+ * Expands a scheduled transaction into its occurrences up to `endDate`. Occurrences that are
+ * already due are moved to `startDate`, since they have not been entered yet.
+ */
+function expandSchedule(
+  scheduled: ynab.ScheduledTransactionDetail,
+  startDate: string,
+  endDate: string,
+): string[] {
+  const anchorDay = toDate(scheduled.date_first).getUTCDate();
+  const dates: string[] = [];
+  let date: string | undefined = scheduled.date_next;
+  while (date && date <= endDate && dates.length < MAX_OCCURRENCES_PER_SCHEDULE) {
+    dates.push(date < startDate ? startDate : date);
+    date = nextOccurrence(date, scheduled.frequency, anchorDay);
+  }
+  return dates;
+}
+
+/**
+ * Average daily outflow per account over the history window, leaving out transfers and payees
+ * that have a scheduled transaction (those are already in the forecast)
+ */
+function averageDailySpending(
+  transactions: ynab.TransactionDetail[],
+  scheduledPayees: Set<string>,
+  sinceDate: string,
+  untilDate: string,
+  historyDays: number,
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const transaction of transactions) {
+    if (transaction.deleted || transaction.transfer_account_id || transaction.amount >= 0) continue;
+    if (transaction.date < sinceDate || transaction.date > untilDate) continue;
+    if (transaction.payee_id && scheduledPayees.has(transaction.payee_id)) continue;
+    totals.set(
+      transaction.account_id,
+      (totals.get(transaction.account_id) ?? 0) + transaction.amount,
+    );
+  }
+  return new Map(
+    [...totals].map(([accountId, total]) => [accountId, Math.round(total / historyDays)]),
+  );
+}
+
+/**
+ * Keeps the first and last day plus every day the balance moves by more than the daily variable
+ * spending, i.e. the days with a scheduled transaction; balances in between drift linearly
+ */
+function balanceChanges<T extends { balance: number }>(timeline: T[], variable: number): T[] {
+  return timeline.filter(
+    (entry, index) =>
+      index === 0 ||
+      index === timeline.length - 1 ||
+      entry.balance - timeline[index - 1]!.balance !== variable,
+  );
+}
+
+/**
+ * Handles the ynab:forecast_cash_flow tool call
+ * Projects account balances day by day from current balances, upcoming scheduled transactions
+ * and, optionally, average variable spending, and flags the first day each checking account
+ * would drop below the balance floor.
+ */
+export async function handleForecastCashFlow(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: ForecastCashFlowParams,
+): Promise<CallToolResult>;
+export async function handleForecastCashFlow(
+  ynabAPI: ynab.API,
+  params: ForecastCashFlowParams,
+): Promise<CallToolResult>;
+export async function handleForecastCashFlow(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | ForecastCashFlowParams,
+  maybeParams?: ForecastCashFlowParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const days = params.days ?? DEFAULT_FORECAST_DAYS;
+      const historyDays = params.history_days ?? DEFAULT_HISTORY_DAYS;
+      const floor = amountToMilliunits(params.balance_floor ?? 0);
+      const today = isoDate(new Date());
+      const endDate = addDays(today, days);
+
+      const [accountsResult, scheduledResult, transactionsResult] = await Promise.all([
+        deltaFetcher.fetchAccounts(params.budget_id),
+        deltaFetcher.fetchScheduledTransactions(params.budget_id),
+        params.include_variable_spending
+          ? deltaFetcher.fetchTransactions(params.budget_id)
+          : undefined,
+      ]);
+
+      const openAccounts = accountsResult.data.filter(
+        (account) => !account.deleted && !account.closed,
+      );
+      let accounts = openAccounts.filter((account) => account.on_budget);
+      if (params.account_ids) {
+        const unknown = params.account_ids.filter(
+          (id) => !openAccounts.some((account) => account.id === id),
+        );
+        if (unknown.length > 0) {
+          throw new ValidationError(
+            `Unknown or closed accounts: ${unknown.join(', ')}`,
+            undefined,
+            ['Use list_accounts to look up open account IDs'],
+          );
+        }
+        accounts = openAccounts.filter((account) => params.account_ids?.includes(account.id));
+      }
+      const forecastIds = new Set(accounts.map((account) => account.id));
+
+      const occurrences: Occurrence[] = [];
+      const scheduledPayees = new Set<string>();
+      for (const scheduled of scheduledResult.data) {
+        if (scheduled.deleted) continue;
+        if (scheduled.payee_id) scheduledPayees.add(scheduled.payee_id);
+        const touchesForecast =
+          forecastIds.has(scheduled.account_id) ||
+          (scheduled.transfer_account_id && forecastIds.has(scheduled.transfer_account_id));
+        if (!touchesForecast) continue;
+
+        const base = {
+          scheduled_transaction_id: scheduled.id,
+          payee_name: scheduled.payee_name,
+          category_name: scheduled.category_name,
+        };
+        for (const date of expandSchedule(scheduled, today, endDate)) {
+          if (forecastIds.has(scheduled.account_id)) {
+            occurrences.push({
+              ...base,
+              date,
+              account_id: scheduled.account_id,
+              amount: scheduled.amount,
+            });
+          }
+          // A scheduled transfer moves the money into the other account as well
+          if (scheduled.transfer_account_id && forecastIds.has(scheduled.transfer_account_id)) {
+            occurrences.push({
+              ...base,
+              date,
+              account_id: scheduled.transfer_account_id,
+              amount: -scheduled.amount,
+              transfer_from_account_id: scheduled.account_id,
+            });
+          }
+        }
+      }
+      occurrences.sort(
+        (a, b) =>
+          a.date.localeCompare(b.date) ||
+          a.amount - b.amount ||
+          a.scheduled_transaction_id.localeCompare(b.scheduled_transaction_id),
+      );
+
+      const dailySpending = transactionsResult
+        ? averageDailySpending(
+            transactionsResult.data,
+            scheduledPayees,
+            addDays(today, -historyDays),
+            addDays(today, -1),
+            historyDays,
+          )
+        : new Map<string, number>();
+
+      const forecasts = accounts.map((account) => {
+        const variable = dailySpending.get(account.id) ?? 0;
+        const accountOccurrences = occurrences.filter(
+          (occurrence) => occurrence.account_id === account.id,
+        );
+        const checkFloor = account.type === ynab.AccountType.Checking;
+        let balance = account.balance;
+        let lowest = { date: today, balance };
+        let belowFloor:
+          | {
+              date: string;
+              balance: number;
+              caused_by: Occurrence | 'starting_balance' | 'variable_spending';
+            }
+          | undefined;
+        const timeline: { date: string; balance: number }[] = [];
+
+        for (let offset = 0; offset <= days; offset++) {
+          const date = addDays(today, offset);
+          // Today's spending has mostly happened already
+          if (offset > 0) balance += variable;
+          const due = accountOccurrences.filter((occurrence) => occurrence.date === date);
+          let cause: Occurrence | null = null;
+          for (const occurrence of due) {
+            const before = balance;
+            balance += occurrence.amount;
+            if (!cause && before >= floor && balance < floor) cause = occurrence;
+          }
+          if (checkFloor && !belowFloor && balance < floor) {
+            belowFloor = {
+              date,
+              balance,
+              caused_by: cause ?? (offset === 0 ? 'starting_balance' : 'variable_spending'),
+            };
+          }
+          if (balance < lowest.balance) lowest = { date, balance };
+          timeline.push({ date, balance });
+        }
+
+        return {
+          account,
+          variable,
+          occurrences: accountOccurrences,
+          lowest,
+          belowFloor,
+          checkFloor,
+          timeline,
+          ending: balance,
+        };
+      });
+
+      const formatOccurrence = (occurrence: Occurrence) => ({
+        date: occurrence.date,
+        scheduled_transaction_id: occurrence.scheduled_transaction_id,
+        payee_name: occurrence.payee_name,
+        category_name: occurrence.category_name,
+        amount: milliunitsToAmount(occurrence.amount),
+        ...(occurrence.transfer_from_account_id && {
+          transfer_from_account_id: occurrence.transfer_from_account_id,
+        }),
+      });
+
+      const alerts = forecasts
+        .filter((forecast) => forecast.belowFloor)
+        .map(({ account, belowFloor }) => ({
+          account_id: account.id,
+          account_name: account.name,
+          date: belowFloor!.date,
+          balance: milliunitsToAmount(belowFloor!.balance),
+          caused_by:
+            typeof belowFloor!.caused_by === 'string'
+              ? belowFloor!.caused_by
+              : formatOccurrence(belowFloor!.caused_by),
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              start_date: today,
+              end_date: endDate,
+              days,
+              balance_floor: milliunitsToAmount(floor),
+              include_variable_spending: params.include_variable_spending ?? false,
+              ...(params.include_variable_spending && { history_days: historyDays }),
+              scheduled_occurrences: occurrences.length,
+              alerts,
+              accounts: forecasts.map((forecast) => ({
+                account_id: forecast.account.id,
+                account_name: forecast.account.name,
+                type: forecast.account.type,
+                starting_balance: milliunitsToAmount(forecast.account.balance),
+                ending_balance: milliunitsToAmount(forecast.ending),
+                lowest_balance: milliunitsToAmount(forecast.lowest.balance),
+                lowest_balance_date: forecast.lowest.date,
+                ...(params.include_variable_spending && {
+                  daily_variable_spending: milliunitsToAmount(forecast.variable),
+                }),
+                floor_checked: forecast.checkFloor,
+                below_floor_date: forecast.belowFloor?.date ?? null,
+                scheduled: forecast.occurrences.map(formatOccurrence),
+                balance_changes: balanceChanges(forecast.timeline, forecast.variable).map(
+                  (entry) => ({ date: entry.date, balance: milliunitsToAmount(entry.balance) }),
+                ),
+                ...(params.include_daily_balances && {
+                  daily_balances: forecast.timeline.map((entry) => ({
+                    date: entry.date,
+                    balance: milliunitsToAmount(entry.balance),
+                  })),
+                }),
+              })),
+              cached: accountsResult.wasCached && scheduledResult.wasCached,
+              cache_info:
+                accountsResult.wasCached && scheduledResult.wasCached
+                  ? 'Data retrieved from cache for improved performance'
+                  : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:forecast_cash_flow',
+    'forecasting cash flow',
+  );
+}
@@ -0,0 +1,492 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
+import {
+  categorizationRuleStore,
+  type CategorizationRule,
+} from '../server/categorizationRuleStore.js';
+import type { DeltaCache } from '../server/deltaCache.js';
+import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
+import { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaWriteArgs } from './deltaSupport.js';
+import type { BulkUpdateTransactionInput } from './transactionTools.js';
+import { applyBulkTransactionUpdates } from './bulkUpdateSupport.js';
+import { compileSafeRegex } from '../utils/safeRegex.js';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_PATTERN_LENGTH = 200;
+
+const FlagColorSchema = z.enum(['red', 'orange', 'yellow', 'green', 'blue', 'purple']);
+
+function patternError(pattern: string): string | undefined {
+  try {
+    compileSafeRegex(pattern);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Schema for ynab:create_categorization_rule tool parameters
+ */
+export const CreateCategorizationRuleSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    name: z.string().min(1).max(100).optional(),
+    priority: z.number().int().min(0).max(10000).optional(),
+    payee_pattern: z.string().min(1).max(MAX_PATTERN_LENGTH).optional(),
+    memo_pattern: z.string().min(1).max(MAX_PATTERN_LENGTH).optional(),
+    min_amount: z.number().int('Amount must be an integer in milliunits').optional(),
+    max_amount: z.number().int('Amount must be an integer in milliunits').optional(),
+    account_id: z.string().min(1).optional(),
+    category_id: z.string().min(1).optional(),
+    memo_rewrite: z.string().max(500).optional(),
+    flag_color: FlagColorSchema.optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    for (const field of ['payee_pattern', 'memo_pattern'] as const) {
+      const pattern = data[field];
+      const error = pattern !== undefined ? patternError(pattern) : undefined;
+      if (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${field} must be a valid regular expression (${error})`,
+          path: [field],
+        });
+      }
+    }
+    if (
+      data.min_amount !== undefined &&
+      data.max_amount !== undefined &&
+      data.min_amount > data.max_amount
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'min_amount must be less than or equal to max_amount',
+        path: ['max_amount'],
+      });
+    }
+    const hasCondition =
+      data.payee_pattern !== undefined ||
+      data.memo_pattern !== undefined ||
+      data.min_amount !== undefined ||
+      data.max_amount !== undefined ||
+      data.account_id !== undefined;
+    if (!hasCondition) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          'At least one condition is required: payee_pattern, memo_pattern, min_amount, max_amount or account_id',
+        path: ['payee_pattern'],
+      });
+    }
+    const hasAction =
+      data.category_id !== undefined ||
+      data.memo_rewrite !== undefined ||
+      data.flag_color !== undefined;
+    if (!hasAction) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'At least one action is required: category_id, memo_rewrite or flag_color',
+        path: ['category_id'],
+      });
+    }
+  });
+
+export type CreateCategorizationRuleParams = z.infer<typeof CreateCategorizationRuleSchema>;
+
+/**
+ * Schema for ynab:list_categorization_rules tool parameters
+ */
+export const ListCategorizationRulesSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+  })
+  .strict();
+
+export type ListCategorizationRulesParams = z.infer<typeof ListCategorizationRulesSchema>;
+
+/**
+ * Schema for ynab:delete_categorization_rule tool parameters
+ */
+export const DeleteCategorizationRuleSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    rule_id: z.string().min(1, 'Rule ID is required'),
+  })
+  .strict();
+
+export type DeleteCategorizationRuleParams = z.infer<typeof DeleteCategorizationRuleSchema>;
+
+/**
+ * Schema for ynab:apply_categorization_rules tool parameters
+ */
+export const ApplyCategorizationRulesSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    scope: z.enum(['uncategorized', 'unapproved', 'both']).optional(),
+    since_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    account_id: z.string().min(1).optional(),
+    rule_ids: z.array(z.string().min(1)).min(1).optional(),
+    approve: z.boolean().optional(),
+    dry_run: z.boolean().optional(),
+  })
+  .strict();
+
+export type ApplyCategorizationRulesParams = z.infer<typeof ApplyCategorizationRulesSchema>;
+
+function formatRule(rule: CategorizationRule) {
+  return {
+    id: rule.id,
+    name: rule.name,
+    priority: rule.priority,
+    conditions: {
+      payee_pattern: rule.payee_pattern,
+      memo_pattern: rule.memo_pattern,
+      min_amount: rule.min_amount !== undefined ? milliunitsToAmount(rule.min_amount) : undefined,
+      max_amount: rule.max_amount !== undefined ? milliunitsToAmount(rule.max_amount) : undefined,
+      account_id: rule.account_id,
+    },
+    actions: {
+      category_id: rule.category_id,
+      category_name: rule.category_name,
+      memo_rewrite: rule.memo_rewrite,
+      flag_color: rule.flag_color,
+    },
+    created_at: rule.created_at,
+  };
+}
+
+/**
+ * Handles the ynab:create_categorization_rule tool call
+ * Validates the target category and persists a new rule for the budget
+ */
+export async function handleCreateCategorizationRule(
+  ynabAPI: ynab.API,
+  params: CreateCategorizationRuleParams,
+): Promise<CallToolResult> {
+  return await withToolErrorHandling(
+    async () => {
+      let categoryName: string | undefined;
+      if (params.category_id) {
+        const response = await ynabAPI.categories.getCategoryById(
+          params.budget_id,
+          params.category_id,
+        );
+        categoryName = response.data.category.name;
+      }
+
+      const rule = categorizationRuleStore.add({ ...params, category_name: categoryName });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({ rule: formatRule(rule) }),
+          },
+        ],
+      };
+    },
+    'ynab:create_categorization_rule',
+    'creating categorization rule',
+  );
+}
+
+/**
+ * Handles the ynab:list_categorization_rules tool call
+ * Lists the budget's rules in evaluation order
+ */
+export async function handleListCategorizationRules(
+  _ynabAPI: ynab.API,
+  params: ListCategorizationRulesParams,
+): Promise<CallToolResult> {
+  return await withToolErrorHandling(
+    async () => {
+      const rules = categorizationRuleStore.list(params.budget_id);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              total_count: rules.length,
+              rules: rules.map(formatRule),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:list_categorization_rules',
+    'listing categorization rules',
+  );
+}
+
+/**
+ * Handles the ynab:delete_categorization_rule tool call
+ */
+export async function handleDeleteCategorizationRule(
+  _ynabAPI: ynab.API,
+  params: DeleteCategorizationRuleParams,
+): Promise<CallToolResult> {
+  return await withToolErrorHandling(
+    async () => {
+      const rule = categorizationRuleStore.delete(params.budget_id, params.rule_id);
+      if (!rule) {
+        throw new ValidationError(`Categorization rule not found: ${params.rule_id}`, undefined, [
+          'Use list_categorization_rules to look up rule IDs',
+        ]);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({ rule: { id: rule.id, deleted: true } }),
+          },
+        ],
+      };
+    },
+    'ynab:delete_categorization_rule',
+    'deleting categorization rule',
+  );
+}
+
+export interface CompiledRule {
+  rule: CategorizationRule;
+  payee?: RegExp;
+  memo?: RegExp;
+}
+
+export function compileRule(rule: CategorizationRule): CompiledRule {
+  return {
+    rule,
+    ...(rule.payee_pattern && { payee: compileSafeRegex(rule.payee_pattern) }),
+    ...(rule.memo_pattern && { memo: compileSafeRegex(rule.memo_pattern) }),
+  };
+}
+
+export function ruleMatches(compiled: CompiledRule, transaction: ynab.TransactionDetail): boolean {
+  const { rule } = compiled;
+  if (rule.account_id && transaction.account_id !== rule.account_id) return false;
+  if (rule.min_amount !== undefined && transaction.amount < rule.min_amount) return false;
+  if (rule.max_amount !== undefined && transaction.amount > rule.max_amount) return false;
+  if (compiled.payee && !compiled.payee.test(transaction.payee_name ?? '')) return false;
+  if (compiled.memo && !compiled.memo.test(transaction.memo ?? '')) return false;
+  return true;
+}
+
+/**
+ * Whether a transaction still needs a category (no category, or YNAB's Uncategorized placeholder)
+ */
+export function isUncategorized(transaction: ynab.TransactionDetail): boolean {
+  return !transaction.category_id || transaction.category_name === 'Uncategorized';
+}
+
+/**
+ * Builds the update a rule makes to a transaction, or undefined if it would change nothing
+ */
+function buildRuleUpdate(
+  compiled: CompiledRule,
+  transaction: ynab.TransactionDetail,
+  approve: boolean,
+): BulkUpdateTransactionInput | undefined {
+  const { rule } = compiled;
+  const update: BulkUpdateTransactionInput = { id: transaction.id };
+
+  if (rule.category_id && rule.category_id !== transaction.category_id) {
+    update.category_id = rule.category_id;
+  }
+  if (rule.memo_rewrite !== undefined) {
+    const memo = compiled.memo
+      ? (transaction.memo ?? '').replace(compiled.memo, rule.memo_rewrite)
+      : rule.memo_rewrite;
+    if (memo !== (transaction.memo ?? '')) {
+      update.memo = memo;
+    }
+  }
+  if (rule.flag_color && rule.flag_color !== transaction.flag_color) {
+    update.flag_color = rule.flag_color;
+  }
+  if (approve && !transaction.approved) {
+    update.approved = true;
+  }
+
+  if (Object.keys(update).length === 1) {
+    return undefined;
+  }
+  update.original_account_id = transaction.account_id;
+  update.original_date = transaction.date;
+  return update;
+}
+
+/**
+ * Handles the ynab:apply_categorization_rules tool call
+ * Runs the budget's rules over uncategorized and/or unapproved transactions. The first matching
+ * rule (in priority order) wins; changes are written through update_transactions in batches.
+ */
+export async function handleApplyCategorizationRules(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: ApplyCategorizationRulesParams,
+): Promise<CallToolResult>;
+export async function handleApplyCategorizationRules(
+  ynabAPI: ynab.API,
+  params: ApplyCategorizationRulesParams,
+): Promise<CallToolResult>;
+export async function handleApplyCategorizationRules(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | ApplyCategorizationRulesParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | ApplyCategorizationRulesParams,
+  maybeParams?: ApplyCategorizationRulesParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const scope = params.scope ?? 'both';
+      const approve = params.approve ?? false;
+
+      let rules = categorizationRuleStore.list(params.budget_id);
+      if (params.rule_ids) {
+        const unknown = params.rule_ids.filter((id) => !rules.some((rule) => rule.id === id));
+        if (unknown.length > 0) {
+          throw new ValidationError(`Unknown rule IDs: ${unknown.join(', ')}`, undefined, [
+            'Use list_categorization_rules to look up rule IDs',
+          ]);
+        }
+        rules = rules.filter((rule) => params.rule_ids?.includes(rule.id));
+      }
+      if (rules.length === 0) {
+        throw new ValidationError('No categorization rules to apply', undefined, [
+          'Create rules with create_categorization_rule first',
+        ]);
+      }
+      const compiledRules = rules.map(compileRule);
+
+      // The cached snapshot keeps repeated runs (dry run, then apply) off the full history endpoint
+      const deltaFetcher = new DeltaFetcher(ynabAPI, deltaCache);
+      const { data: transactions } = await deltaFetcher.fetchTransactions(params.budget_id);
+
+      const candidates = transactions.filter((transaction) => {
+        // Transfers and splits are categorized by YNAB or per subtransaction
+        if (transaction.deleted || transaction.transfer_account_id) return false;
+        if (params.account_id && transaction.account_id !== params.account_id) return false;
+        if (params.since_date && transaction.date < params.since_date) return false;
+        if ((transaction.subtransactions ?? []).length > 0) return false;
+        const uncategorized = isUncategorized(transaction);
+        if (scope === 'uncategorized') return uncategorized;
+        if (scope === 'unapproved') return !transaction.approved;
+        return uncategorized || !transaction.approved;
+      });
+
+      const matches: {
+        transaction: ynab.TransactionDetail;
+        rule: CategorizationRule;
+        update: BulkUpdateTransactionInput;
+      }[] = [];
+      let unmatched = 0;
+      let unchanged = 0;
+      for (const transaction of candidates) {
+        const compiled = compiledRules.find((candidate) => ruleMatches(candidate, transaction));
+        if (!compiled) {
+          unmatched += 1;
+          continue;
+        }
+        const update = buildRuleUpdate(compiled, transaction, approve);
+        if (!update) {
+          unchanged += 1;
+          continue;
+        }
+        matches.push({ transaction, rule: compiled.rule, update });
+      }
+
+      const ruleCounts = rules
+        .map((rule) => ({
+          rule_id: rule.id,
+          rule_name: rule.name,
+          matched: matches.filter((match) => match.rule === rule).length,
+        }))
+        .filter((entry) => entry.matched > 0);
+      const summary = {
+        transactions_considered: candidates.length,
+        transactions_to_update: matches.length,
+        already_matching: unchanged,
+        unmatched,
+      };
+
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'apply_categorization_rules',
+                scope,
+                summary,
+                rules: ruleCounts,
+                transactions: matches.map(({ transaction, rule, update }) => ({
+                  transaction_id: transaction.id,
+                  date: transaction.date,
+                  amount: milliunitsToAmount(transaction.amount),
+                  payee_name: transaction.payee_name,
+                  account_name: transaction.account_name,
+                  matched_rule: { id: rule.id, name: rule.name },
+                  changes: {
+                    ...(update.category_id && {
+                      category: {
+                        from: transaction.category_name ?? null,
+                        to: rule.category_name ?? update.category_id,
+                      },
+                    }),
+                    ...(update.memo !== undefined && {
+                      memo: { from: transaction.memo ?? null, to: update.memo },
+                    }),
+                    ...(update.flag_color && {
+                      flag_color: { from: transaction.flag_color ?? null, to: update.flag_color },
+                    }),
+                    ...(update.approved && { approved: { from: false, to: true } }),
+                  },
+                })),
+              }),
+            },
+          ],
+        };
+      }
+
+      const { updated, failed_ids: failedIds } = await applyBulkTransactionUpdates(
+        ynabAPI,
+        deltaCache,
+        knowledgeStore,
+        params.budget_id,
+        matches.map((match) => match.update),
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              success: failedIds.length === 0,
+              scope,
+              summary: { ...summary, updated, failed: failedIds.length },
+              rules: ruleCounts,
+              ...(failedIds.length > 0 && { failed_transaction_ids: failedIds }),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:apply_categorization_rules',
+    'applying categorization rules',
+  );
+}
@@ -0,0 +1,388 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
+import type { DeltaCache } from '../server/deltaCache.js';
+import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
+import { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaWriteArgs } from './deltaSupport.js';
+import { applyBulkTransactionUpdates } from './bulkUpdateSupport.js';
+import { isUncategorized } from './categorizationRuleTools.js';
+import { canonicalizePayee, normalizePayee } from './reconciliation/payeeNormalizer.js';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+export const DEFAULT_HISTORY_MONTHS = 12;
+const DEFAULT_LIMIT = 50;
+export const DEFAULT_MIN_CONFIDENCE = 80;
+const MAX_CANDIDATES = 3;
+
+// Evidence weights: the payee is the strongest signal, the rest refine it
+const WEIGHTS = {
+  payee_exact: 3,
+  payee_normalized: 2,
+  amount_similar: 1,
+  same_day_of_month: 0.5,
+  same_account: 0.5,
+  // History from the same account at a similar amount, used only when no payee matches
+  fallback: 0.5,
+} as const;
+// Confidence reaches its full value once a category has this many supporting transactions
+const FULL_EVIDENCE_COUNT = 3;
+const FALLBACK_CONFIDENCE_FACTOR = 0.5;
+
+/**
+ * Schema for ynab:suggest_categories tool parameters
+ */
+export const SuggestCategoriesSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    transaction_ids: z.array(z.string().min(1)).min(1).max(200).optional(),
+    account_id: z.string().min(1).optional(),
+    since_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    history_months: z.number().int().min(1).max(60).optional(),
+    limit: z.number().int().min(1).max(200).optional(),
+    apply: z.boolean().optional(),
+    min_confidence: z.number().min(0).max(100).optional(),
+  })
+  .strict();
+
+export type SuggestCategoriesParams = z.infer<typeof SuggestCategoriesSchema>;
+
+type Signal = keyof typeof WEIGHTS;
+
+export interface HistoryEntry {
+  date: string;
+  day: number;
+  amount: number;
+  account_id: string;
+  payee_id: string | null | undefined;
+  payee_name: string;
+  payee_key: string;
+  category_id: string;
+}
+
+export interface CategoryEvidence {
+  category_id: string;
+  score: number;
+  transactions: number;
+  signals: Record<Signal, number>;
+  last_used: string;
+}
+
+function dayOfMonth(date: string): number {
+  return Number(date.slice(8, 10));
+}
+
+function isAmountSimilar(a: number, b: number): boolean {
+  // Within 5% or one currency unit, whichever is larger
+  return Math.abs(a - b) <= Math.max(Math.abs(a) * 0.05, 1000);
+}
+
+function isSameDayOfMonth(a: number, b: number): boolean {
+  const difference = Math.abs(a - b);
+  return Math.min(difference, 31 - difference) <= 3;
+}
+
+/**
+ * Flattens categorized history into one entry per category assignment (split lines included)
+ */
+export function buildHistory(
+  transactions: ynab.TransactionDetail[],
+  since: string,
+): HistoryEntry[] {
+  const history: HistoryEntry[] = [];
+  for (const transaction of transactions) {
+    if (transaction.deleted || transaction.transfer_account_id || transaction.date < since) {
+      continue;
+    }
+    const base = {
+      date: transaction.date,
+      day: dayOfMonth(transaction.date),
+      account_id: transaction.account_id,
+    };
+    const subtransactions = (transaction.subtransactions ?? []).filter((sub) => !sub.deleted);
+
+    if (subtransactions.length === 0) {
+      if (isUncategorized(transaction)) continue;
+      const payeeName = transaction.payee_name ?? '';
+      history.push({
+        ...base,
+        amount: transaction.amount,
+        payee_id: transaction.payee_id,
+        payee_name: payeeName.toLowerCase(),
+        payee_key: normalizePayee(canonicalizePayee(payeeName)),
+        category_id: transaction.category_id as string,
+      });
+      continue;
+    }
+
+    for (const sub of subtransactions) {
+      if (!sub.category_id || sub.transfer_account_id) continue;
+      const payeeName = sub.payee_name ?? transaction.payee_name ?? '';
+      history.push({
+        ...base,
+        amount: sub.amount,
+        payee_id: sub.payee_id ?? transaction.payee_id,
+        payee_name: payeeName.toLowerCase(),
+        payee_key: normalizePayee(canonicalizePayee(payeeName)),
+        category_id: sub.category_id,
+      });
+    }
+  }
+  return history;
+}
+
+function scoreCandidates(
+  transaction: ynab.TransactionDetail,
+  history: HistoryEntry[],
+): { evidence: CategoryEvidence[]; fallback: boolean } {
+  const payeeName = (transaction.payee_name ?? '').toLowerCase();
+  const payeeKey = normalizePayee(canonicalizePayee(transaction.payee_name));
+  const day = dayOfMonth(transaction.date);
+  const byCategory = new Map<string, CategoryEvidence>();
+
+  const record = (entry: HistoryEntry, signals: Signal[]) => {
+    const evidence = byCategory.get(entry.category_id) ?? {
+      category_id: entry.category_id,
+      score: 0,
+      transactions: 0,
+      signals: {
+        payee_exact: 0,
+        payee_normalized: 0,
+        amount_similar: 0,
+        same_day_of_month: 0,
+        same_account: 0,
+        fallback: 0,
+      },
+      last_used: entry.date,
+    };
+    evidence.transactions += 1;
+    for (const signal of signals) {
+      evidence.score += WEIGHTS[signal];
+      evidence.signals[signal] += 1;
+    }
+    if (entry.date > evidence.last_used) evidence.last_used = entry.date;
+    byCategory.set(entry.category_id, evidence);
+  };
+
+  for (const entry of history) {
+    const exact =
+      (transaction.payee_id && entry.payee_id === transaction.payee_id) ||
+      (payeeName !== '' && entry.payee_name === payeeName);
+    const normalized = !exact && payeeKey !== '' && entry.payee_key === payeeKey;
+    if (!exact && !normalized) continue;
+
+    const signals: Signal[] = [exact ? 'payee_exact' : 'payee_normalized'];
+    if (isAmountSimilar(transaction.amount, entry.amount)) signals.push('amount_similar');
+    if (isSameDayOfMonth(day, entry.day)) signals.push('same_day_of_month');
+    if (entry.account_id === transaction.account_id) signals.push('same_account');
+    record(entry, signals);
+  }
+
+  if (byCategory.size > 0) {
+    return { evidence: [...byCategory.values()], fallback: false };
+  }
+
+  for (const entry of history) {
+    if (
+      entry.account_id === transaction.account_id &&
+      Math.sign(entry.amount) === Math.sign(transaction.amount) &&
+      isAmountSimilar(transaction.amount, entry.amount)
+    ) {
+      record(entry, ['fallback']);
+    }
+  }
+  return { evidence: [...byCategory.values()], fallback: true };
+}
+
+/**
+ * Confidence (0-100) = the category's share of the total evidence score, scaled down until it has
+ * FULL_EVIDENCE_COUNT supporting transactions, and halved for amount/account-only fallback matches
+ */
+function toConfidence(evidence: CategoryEvidence, totalScore: number, fallback: boolean): number {
+  const share = evidence.score / totalScore;
+  const support = 0.5 + 0.5 * Math.min(1, evidence.transactions / FULL_EVIDENCE_COUNT);
+  return Math.round(100 * share * support * (fallback ? FALLBACK_CONFIDENCE_FACTOR : 1));
+}
+
+/**
+ * Scores every category the history supports for a transaction, best candidate first
+ */
+export function rankCategoryCandidates(
+  transaction: ynab.TransactionDetail,
+  history: HistoryEntry[],
+): { evidence: CategoryEvidence; confidence: number }[] {
+  const { evidence, fallback } = scoreCandidates(transaction, history);
+  const totalScore = evidence.reduce((sum, entry) => sum + entry.score, 0);
+  return evidence
+    .map((entry) => ({ evidence: entry, confidence: toConfidence(entry, totalScore, fallback) }))
+    .sort(
+      (a, b) =>
+        b.confidence - a.confidence ||
+        b.evidence.transactions - a.evidence.transactions ||
+        b.evidence.last_used.localeCompare(a.evidence.last_used),
+    );
+}
+
+/**
+ * Handles the ynab:suggest_categories tool call
+ * Predicts categories for uncategorized transactions from the budget's own history, using the
+ * delta-cached transaction snapshot. With apply=true, suggestions at or above min_confidence are
+ * written through update_transactions.
+ */
+export async function handleSuggestCategories(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: SuggestCategoriesParams,
+): Promise<CallToolResult>;
+export async function handleSuggestCategories(
+  ynabAPI: ynab.API,
+  params: SuggestCategoriesParams,
+): Promise<CallToolResult>;
+export async function handleSuggestCategories(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | SuggestCategoriesParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | SuggestCategoriesParams,
+  maybeParams?: SuggestCategoriesParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const historyMonths = params.history_months ?? DEFAULT_HISTORY_MONTHS;
+      const limit = params.limit ?? DEFAULT_LIMIT;
+      const minConfidence = params.min_confidence ?? DEFAULT_MIN_CONFIDENCE;
+      const deltaFetcher = new DeltaFetcher(ynabAPI, deltaCache);
+
+      const [transactionsResult, categoriesResult] = await Promise.all([
+        deltaFetcher.fetchTransactions(params.budget_id),
+        deltaFetcher.fetchCategories(params.budget_id),
+      ]);
+
+      const categories = new Map<string, { name: string; group: string }>();
+      for (const group of categoriesResult.data) {
+        if (group.deleted) continue;
+        for (const category of group.categories) {
+          if (category.deleted || category.hidden) continue;
+          categories.set(category.id, { name: category.name, group: group.name });
+        }
+      }
+
+      const since = new Date();
+      since.setUTCMonth(since.getUTCMonth() - historyMonths);
+      const history = buildHistory(
+        transactionsResult.data,
+        since.toISOString().slice(0, 10),
+      ).filter((entry) => categories.has(entry.category_id));
+
+      const idFilter = params.transaction_ids ? new Set(params.transaction_ids) : undefined;
+      const targets = transactionsResult.data
+        .filter(
+          (transaction) =>
+            !transaction.deleted &&
+            !transaction.transfer_account_id &&
+            (transaction.subtransactions ?? []).length === 0 &&
+            isUncategorized(transaction) &&
+            (!idFilter || idFilter.has(transaction.id)) &&
+            (!params.account_id || transaction.account_id === params.account_id) &&
+            (!params.since_date || transaction.date >= params.since_date),
+        )
+        .sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+      const page = targets.slice(0, limit);
+
+      const suggestions = page.map((transaction) => {
+        const candidates = rankCategoryCandidates(transaction, history)
+          .slice(0, MAX_CANDIDATES)
+          .map(({ evidence: entry, confidence }) => ({
+            category_id: entry.category_id,
+            category_name: categories.get(entry.category_id)?.name,
+            category_group_name: categories.get(entry.category_id)?.group,
+            confidence,
+            evidence: {
+              transactions: entry.transactions,
+              ...Object.fromEntries(Object.entries(entry.signals).filter(([, count]) => count > 0)),
+              last_used: entry.last_used,
+            },
+          }));
+        return { transaction, candidates };
+      });
+
+      const toApply = suggestions.filter(
+        ({ candidates }) => candidates[0] && candidates[0].confidence >= minConfidence,
+      );
+
+      let applied: { updated: number; failed_ids: string[] } | undefined;
+      if (params.apply && toApply.length > 0) {
+        applied = await applyBulkTransactionUpdates(
+          ynabAPI,
+          deltaCache,
+          knowledgeStore,
+          params.budget_id,
+          toApply.map(({ transaction, candidates }) => ({
+            id: transaction.id,
+            category_id: candidates[0]!.category_id,
+            original_account_id: transaction.account_id,
+            original_date: transaction.date,
+          })),
+        );
+      }
+      const failedIds = new Set(applied?.failed_ids ?? []);
+      const appliedIds = new Set(
+        params.apply
+          ? toApply.map(({ transaction }) => transaction.id).filter((id) => !failedIds.has(id))
+          : [],
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              total_uncategorized: targets.length,
+              returned_count: page.length,
+              history_transactions: history.length,
+              min_confidence: minConfidence,
+              cached: transactionsResult.wasCached,
+              cache_info: transactionsResult.wasCached
+                ? `Data retrieved from cache for improved performance${transactionsResult.usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+              ...(params.apply
+                ? {
+                    applied: {
+                      updated: applied?.updated ?? 0,
+                      failed: failedIds.size,
+                      below_threshold: page.length - toApply.length,
+                    },
+                  }
+                : { applicable_count: toApply.length }),
+              suggestions: suggestions.map(({ transaction, candidates }) => ({
+                transaction_id: transaction.id,
+                date: transaction.date,
+                amount: milliunitsToAmount(transaction.amount),
+                payee_name: transaction.payee_name,
+                account_name: transaction.account_name,
+                memo: transaction.memo,
+                candidates,
+                ...(params.apply && {
+                  status: appliedIds.has(transaction.id)
+                    ? 'applied'
+                    : failedIds.has(transaction.id)
+                      ? 'failed'
+                      : 'skipped',
+                }),
+              })),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:suggest_categories',
+    'suggesting categories',
+  );
+}
@@ -1,7 +1,7 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import * as ynab from 'ynab';
 import { z } from 'zod/v4';
-import { withToolErrorHandling } from '../types/index.js';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
 import { responseFormatter } from '../server/responseFormatter.js';
 import { milliunitsToAmount } from '../utils/amountUtils.js';
 import { cacheManager, CACHE_TTLS, CacheManager } from '../server/cacheManager.js';
@@ -9,6 +9,7 @@ import type { DeltaFetcher } from './deltaFetcher.js';
 import type { DeltaCache } from '../server/deltaCache.js';
 import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
 import { resolveDeltaFetcherArgs, resolveDeltaWriteArgs } from './deltaSupport.js';
+import { PaginationParamsShape, paginate, projectFields } from './paginationSupport.js';
 
 /**
  * Schema for ynab:list_categories tool parameters
@@ -16,6 +17,7 @@ import { resolveDeltaFetcherArgs, resolveDeltaWriteArgs } from './deltaSupport.j
 export const ListCategoriesSchema = z
   .object({
     budget_id: z.string().min(1, 'Budget ID is required'),
+    ...PaginationParamsShape,
   })
   .strict();
 
@@ -41,12 +43,170 @@ export const UpdateCategorySchema = z
     budget_id: z.string().min(1, 'Budget ID is required'),
     category_id: z.string().min(1, 'Category ID is required'),
     budgeted: z.number().int('Budgeted amount must be an integer in milliunits'),
+    month: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Month must be in YYYY-MM-DD format')
+      .optional(),
     dry_run: z.boolean().optional(),
   })
   .strict();
 
 export type UpdateCategoryParams = z.infer<typeof UpdateCategorySchema>;
 
+/**
+ * Schema for ynab:move_category_funds tool parameters
+ */
+export const MoveCategoryFundsSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    from_category_id: z.string().min(1, 'Source category ID is required'),
+    to_category_id: z.string().min(1, 'Destination category ID is required'),
+    amount: z
+      .number()
+      .int('Amount must be an integer in milliunits')
+      .positive('Amount must be greater than zero'),
+    month: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Month must be in YYYY-MM-DD format')
+      .optional(),
+    dry_run: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (data.from_category_id === data.to_category_id) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Source and destination categories must be different',
+        path: ['to_category_id'],
+      });
+    }
+  });
+
+export type MoveCategoryFundsParams = z.infer<typeof MoveCategoryFundsSchema>;
+
+/**
+ * Schema for ynab:assign_budget tool parameters
+ */
+export const AssignBudgetSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    month: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Month must be in YYYY-MM-DD format')
+      .optional(),
+    assignments: z
+      .array(
+        z
+          .object({
+            category_id: z.string().min(1, 'Category ID is required'),
+            budgeted: z.number().int('Budgeted amount must be an integer in milliunits'),
+          })
+          .strict(),
+      )
+      .min(1, 'At least one assignment is required')
+      .max(100, 'A maximum of 100 assignments can be applied at once'),
+    dry_run: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const seen = new Set<string>();
+    data.assignments.forEach((assignment, index) => {
+      if (seen.has(assignment.category_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate category_id ${assignment.category_id}`,
+          path: ['assignments', index, 'category_id'],
+        });
+      }
+      seen.add(assignment.category_id);
+    });
+  });
+
+export type AssignBudgetParams = z.infer<typeof AssignBudgetSchema>;
+
+/**
+ * Schema for ynab:update_category_goal tool parameters
+ */
+export const UpdateCategoryGoalSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    category_id: z.string().min(1, 'Category ID is required'),
+    goal_target: z
+      .number()
+      .int('Goal target must be an integer in milliunits')
+      .min(0, 'Goal target must be zero or greater'),
+    dry_run: z.boolean().optional(),
+  })
+  .strict();
+
+export type UpdateCategoryGoalParams = z.infer<typeof UpdateCategoryGoalSchema>;
+
+/**
+ * Schema for ynab:goal_progress tool parameters
+ */
+export const GoalProgressSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    include_hidden: z.boolean().optional(),
+    include_snoozed: z.boolean().optional(),
+  })
+  .strict();
+
+export type GoalProgressParams = z.infer<typeof GoalProgressSchema>;
+
+const GOAL_TYPE_LABELS: Record<string, string> = {
+  TB: 'Target Category Balance',
+  TBD: 'Target Category Balance by Date',
+  MF: 'Monthly Funding',
+  NEED: 'Plan Your Spending',
+  DEBT: 'Debt',
+};
+
+// Goals without a target month that still expect funding every month
+const RECURRING_GOAL_TYPES = new Set(['MF', 'NEED', 'DEBT']);
+
+/**
+ * Resolves an optional YYYY-MM-DD month to the first of the month, defaulting to the
+ * current month in YNAB format (YYYY-MM-01)
+ */
+function resolveBudgetMonth(month?: string): string {
+  if (month) {
+    return `${month.slice(0, 7)}-01`;
+  }
+  const currentDate = new Date();
+  return `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+/**
+ * Invalidates category and month caches after a budgeted amount changes
+ */
+export function invalidateCategoryCaches(
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  budgetId: string,
+  month: string,
+  categoryIds: string[],
+  serverKnowledge?: number,
+): void {
+  const categoriesListCacheKey = CacheManager.generateKey('categories', 'list', budgetId);
+  cacheManager.delete(categoriesListCacheKey);
+  for (const categoryId of categoryIds) {
+    cacheManager.delete(CacheManager.generateKey('category', 'get', budgetId, categoryId));
+  }
+
+  // Invalidate month-related caches as category budget changes affect month data
+  const monthsListCacheKey = CacheManager.generateKey('months', 'list', budgetId);
+  cacheManager.delete(monthsListCacheKey);
+  cacheManager.delete(CacheManager.generateKey('month', 'get', budgetId, month));
+
+  deltaCache.invalidate(budgetId, 'categories');
+  deltaCache.invalidate(budgetId, 'months');
+  if (typeof serverKnowledge === 'number') {
+    knowledgeStore.update(categoriesListCacheKey, serverKnowledge);
+    knowledgeStore.update(monthsListCacheKey, serverKnowledge);
+  }
+}
+
 /**
  * Handles the ynab:list_categories tool call
  * Lists all categories for a specific budget
@@ -76,7 +236,7 @@ export async function handleListCategories(
       const categoryGroups = result.data;
       const wasCached = result.wasCached;
 
-      // Flatten categories from all category groups
+      // Flatten categories from all category groups; pages are cut from the flattened list
       const allCategories = categoryGroups.flatMap((group) =>
         group.categories.map((category) => ({
           id: category.id,
@@ -97,12 +257,21 @@ export async function handleListCategories(
         })),
       );
 
+      const { page, pagination } = paginate(
+        'list_categories',
+        allCategories,
+        params,
+        result.serverKnowledge,
+        (category) => category.id,
+      );
+
       return {
         content: [
           {
             type: 'text',
             text: responseFormatter.format({
-              categories: allCategories,
+              ...pagination,
+              categories: projectFields(page, params.fields),
               category_groups: categoryGroups.map((group) => ({
                 id: group.id,
                 name: group.name,
@@ -189,7 +358,7 @@ export async function handleGetCategory(
 
 /**
  * Handles the ynab:update_category tool call
- * Updates the budgeted amount for a category in the current month
+ * Updates the budgeted amount for a category in the given month (defaults to the current month)
  */
 export async function handleUpdateCategory(
   ynabAPI: ynab.API,
@@ -214,8 +383,7 @@ export async function handleUpdateCategory(
   );
   try {
     if (params.dry_run) {
-      const currentDate = new Date();
-      const currentMonth = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-01`;
+      const currentMonth = resolveBudgetMonth(params.month);
       return {
         content: [
           {
@@ -234,9 +402,8 @@ export async function handleUpdateCategory(
         ],
       };
     }
-    // Get current month in YNAB format (YYYY-MM-01)
-    const currentDate = new Date();
-    const currentMonth = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-01`;
+    // Resolve target month in YNAB format (YYYY-MM-01), defaulting to the current month
+    const currentMonth = resolveBudgetMonth(params.month);
 
     const response = await ynabAPI.categories.updateMonthCategory(
       params.budget_id,
@@ -248,34 +415,14 @@ export async function handleUpdateCategory(
     const category = response.data.category;
 
     // Invalidate category-related caches after successful update
-    const categoriesListCacheKey = CacheManager.generateKey('categories', 'list', params.budget_id);
-    const specificCategoryCacheKey = CacheManager.generateKey(
-      'category',
-      'get',
-      params.budget_id,
-      params.category_id,
-    );
-    cacheManager.delete(categoriesListCacheKey);
-    cacheManager.delete(specificCategoryCacheKey);
-
-    // Invalidate month-related caches as category budget changes affect month data
-    const monthsListCacheKey = CacheManager.generateKey('months', 'list', params.budget_id);
-    const currentMonthCacheKey = CacheManager.generateKey(
-      'month',
-      'get',
+    invalidateCategoryCaches(
+      deltaCache,
+      knowledgeStore,
       params.budget_id,
       currentMonth,
+      [params.category_id],
+      response.data.server_knowledge,
     );
-    cacheManager.delete(monthsListCacheKey);
-    cacheManager.delete(currentMonthCacheKey);
-
-    deltaCache.invalidate(params.budget_id, 'categories');
-    deltaCache.invalidate(params.budget_id, 'months');
-    const serverKnowledge = response.data.server_knowledge;
-    if (typeof serverKnowledge === 'number') {
-      knowledgeStore.update(categoriesListCacheKey, serverKnowledge);
-      knowledgeStore.update(monthsListCacheKey, serverKnowledge);
-    }
 
     return {
       content: [
@@ -308,6 +455,560 @@ export async function handleUpdateCategory(
   }
 }
 
+/**
+ * Handles the ynab:move_category_funds tool call
+ * Moves budgeted money from one category to another within a month, rolling back the
+ * source update if the destination update fails
+ */
+export async function handleMoveCategoryFunds(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: MoveCategoryFundsParams,
+): Promise<CallToolResult>;
+export async function handleMoveCategoryFunds(
+  ynabAPI: ynab.API,
+  params: MoveCategoryFundsParams,
+): Promise<CallToolResult>;
+export async function handleMoveCategoryFunds(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | MoveCategoryFundsParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | MoveCategoryFundsParams,
+  maybeParams?: MoveCategoryFundsParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const month = resolveBudgetMonth(params.month);
+
+      // Always read fresh month values; cached balances could hide a concurrent change
+      const [fromResponse, toResponse] = await Promise.all([
+        ynabAPI.categories.getMonthCategoryById(params.budget_id, month, params.from_category_id),
+        ynabAPI.categories.getMonthCategoryById(params.budget_id, month, params.to_category_id),
+      ]);
+      const from = fromResponse.data.category;
+      const to = toResponse.data.category;
+
+      if (from.balance < params.amount) {
+        throw new ValidationError(
+          `Insufficient funds in "${from.name}"`,
+          `Available ${milliunitsToAmount(from.balance)} is less than requested ${milliunitsToAmount(params.amount)} for ${month}`,
+          [
+            'Move a smaller amount',
+            'Check the category balance with get_category or get_month first',
+          ],
+        );
+      }
+
+      const fromBudgetedAfter = from.budgeted - params.amount;
+      const toBudgetedAfter = to.budgeted + params.amount;
+
+      const summarize = (category: ynab.Category, budgetedAfter: number, balanceAfter: number) => ({
+        id: category.id,
+        name: category.name,
+        budgeted_before: milliunitsToAmount(category.budgeted),
+        budgeted_after: milliunitsToAmount(budgetedAfter),
+        balance_before: milliunitsToAmount(category.balance),
+        balance_after: milliunitsToAmount(balanceAfter),
+      });
+
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'move_category_funds',
+                month,
+                amount: milliunitsToAmount(params.amount),
+                from: summarize(from, fromBudgetedAfter, from.balance - params.amount),
+                to: summarize(to, toBudgetedAfter, to.balance + params.amount),
+              }),
+            },
+          ],
+        };
+      }
+
+      const fromUpdate = await ynabAPI.categories.updateMonthCategory(
+        params.budget_id,
+        month,
+        from.id,
+        { category: { budgeted: fromBudgetedAfter } },
+      );
+
+      let toUpdate: ynab.SaveCategoryResponse;
+      try {
+        toUpdate = await ynabAPI.categories.updateMonthCategory(params.budget_id, month, to.id, {
+          category: { budgeted: toBudgetedAfter },
+        });
+      } catch (error) {
+        try {
+          await ynabAPI.categories.updateMonthCategory(params.budget_id, month, from.id, {
+            category: { budgeted: from.budgeted },
+          });
+        } catch (rollbackError) {
+          invalidateCategoryCaches(deltaCache, knowledgeStore, params.budget_id, month, [from.id]);
+          const reason = rollbackError instanceof Error ? rollbackError.message : rollbackError;
+          throw new Error(
+            `Failed to update "${to.name}" and could not restore "${from.name}" to ${milliunitsToAmount(from.budgeted)} budgeted for ${month}: ${reason}`,
+          );
+        }
+        throw error;
+      }
+
+      invalidateCategoryCaches(
+        deltaCache,
+        knowledgeStore,
+        params.budget_id,
+        month,
+        [from.id, to.id],
+        toUpdate.data.server_knowledge ?? fromUpdate.data.server_knowledge,
+      );
+
+      const updatedFrom = fromUpdate.data.category;
+      const updatedTo = toUpdate.data.category;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              month,
+              amount: milliunitsToAmount(params.amount),
+              from: summarize(from, updatedFrom.budgeted, updatedFrom.balance),
+              to: summarize(to, updatedTo.budgeted, updatedTo.balance),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:move_category_funds',
+    'moving category funds',
+  );
+}
+
+/**
+ * Handles the ynab:update_category_goal tool call
+ * Changes the target amount of an existing category goal. The YNAB API does not support
+ * creating goals, clearing them, or changing goal type, date or cadence.
+ */
+export async function handleUpdateCategoryGoal(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: UpdateCategoryGoalParams,
+): Promise<CallToolResult>;
+export async function handleUpdateCategoryGoal(
+  ynabAPI: ynab.API,
+  params: UpdateCategoryGoalParams,
+): Promise<CallToolResult>;
+export async function handleUpdateCategoryGoal(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | UpdateCategoryGoalParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | UpdateCategoryGoalParams,
+  maybeParams?: UpdateCategoryGoalParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const existing = (
+        await ynabAPI.categories.getCategoryById(params.budget_id, params.category_id)
+      ).data.category;
+
+      if (!existing.goal_type) {
+        throw new ValidationError(
+          `Category "${existing.name}" has no goal`,
+          'The YNAB API can only change the target of an existing goal',
+          ['Create the goal in the YNAB app first, then adjust its target with this tool'],
+        );
+      }
+
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'update_category_goal',
+                request: {
+                  budget_id: params.budget_id,
+                  category_id: params.category_id,
+                  goal_type: existing.goal_type,
+                  goal_target_before:
+                    existing.goal_target != null ? milliunitsToAmount(existing.goal_target) : null,
+                  goal_target_after: milliunitsToAmount(params.goal_target),
+                },
+              }),
+            },
+          ],
+        };
+      }
+
+      const response = await ynabAPI.categories.updateCategory(
+        params.budget_id,
+        params.category_id,
+        { category: { goal_target: params.goal_target } },
+      );
+      const category = response.data.category;
+
+      invalidateCategoryCaches(
+        deltaCache,
+        knowledgeStore,
+        params.budget_id,
+        resolveBudgetMonth(),
+        [params.category_id],
+        response.data.server_knowledge,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              category: {
+                id: category.id,
+                name: category.name,
+                goal_type: category.goal_type,
+                goal_target:
+                  category.goal_target != null ? milliunitsToAmount(category.goal_target) : null,
+                goal_target_month: category.goal_target_month,
+                goal_under_funded:
+                  category.goal_under_funded != null
+                    ? milliunitsToAmount(category.goal_under_funded)
+                    : null,
+                goal_percentage_complete: category.goal_percentage_complete,
+              },
+              goal_target_before:
+                existing.goal_target != null ? milliunitsToAmount(existing.goal_target) : null,
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:update_category_goal',
+    'updating category goal',
+  );
+}
+
+/**
+ * Handles the ynab:goal_progress tool call
+ * Lists underfunded category goals with the amount still needed this month, most urgent first
+ */
+export async function handleGoalProgress(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: GoalProgressParams,
+): Promise<CallToolResult>;
+export async function handleGoalProgress(
+  ynabAPI: ynab.API,
+  params: GoalProgressParams,
+): Promise<CallToolResult>;
+export async function handleGoalProgress(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | GoalProgressParams,
+  maybeParams?: GoalProgressParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const result = await deltaFetcher.fetchCategories(params.budget_id);
+      const currentMonth = resolveBudgetMonth();
+
+      const underfunded = result.data
+        .filter((group) => !group.deleted && (params.include_hidden || !group.hidden))
+        .flatMap((group) =>
+          group.categories
+            .filter(
+              (category) =>
+                !category.deleted &&
+                (params.include_hidden || !category.hidden) &&
+                (params.include_snoozed || !category.goal_snoozed_at) &&
+                category.goal_type &&
+                (category.goal_under_funded ?? 0) > 0,
+            )
+            .map((category) => {
+              const dueMonth =
+                category.goal_target_month ??
+                (RECURRING_GOAL_TYPES.has(category.goal_type as string) ? currentMonth : null);
+              return { group, category, dueMonth };
+            }),
+        )
+        .sort((a, b) => {
+          // Goals with a due month come first, earliest due month first
+          if (a.dueMonth !== b.dueMonth) {
+            if (a.dueMonth === null) return 1;
+            if (b.dueMonth === null) return -1;
+            return a.dueMonth < b.dueMonth ? -1 : 1;
+          }
+          const monthsA = a.category.goal_months_to_budget ?? Number.MAX_SAFE_INTEGER;
+          const monthsB = b.category.goal_months_to_budget ?? Number.MAX_SAFE_INTEGER;
+          if (monthsA !== monthsB) return monthsA - monthsB;
+          return (b.category.goal_under_funded ?? 0) - (a.category.goal_under_funded ?? 0);
+        });
+
+      const totalNeeded = underfunded.reduce(
+        (sum, { category }) => sum + (category.goal_under_funded ?? 0),
+        0,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              month: currentMonth,
+              underfunded_count: underfunded.length,
+              total_needed_this_month: milliunitsToAmount(totalNeeded),
+              cached: result.wasCached,
+              cache_info: result.wasCached
+                ? `Data retrieved from cache for improved performance${result.usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+              goals: underfunded.map(({ group, category, dueMonth }) => ({
+                category_id: category.id,
+                category_name: category.name,
+                category_group_name: group.name,
+                goal_type: category.goal_type,
+                goal_type_label: GOAL_TYPE_LABELS[category.goal_type as string] ?? null,
+                goal_target:
+                  category.goal_target != null ? milliunitsToAmount(category.goal_target) : null,
+                goal_target_month: category.goal_target_month ?? null,
+                due_month: dueMonth,
+                needed_this_month: milliunitsToAmount(category.goal_under_funded ?? 0),
+                overall_left:
+                  category.goal_overall_left != null
+                    ? milliunitsToAmount(category.goal_overall_left)
+                    : null,
+                percentage_complete: category.goal_percentage_complete ?? null,
+                months_to_budget: category.goal_months_to_budget ?? null,
+                budgeted: milliunitsToAmount(category.budgeted),
+                balance: milliunitsToAmount(category.balance),
+              })),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:goal_progress',
+    'reporting goal progress',
+  );
+}
+
+interface AssignmentRow {
+  category_id: string;
+  category_name: string;
+  budgeted_before: number;
+  budgeted_after: number;
+  change: number;
+  balance_before: number;
+  balance_after: number;
+  status?: 'updated' | 'unchanged' | 'failed';
+  error?: string;
+}
+
+/**
+ * Handles the ynab:assign_budget tool call
+ * Sets budgeted amounts for several categories in one month and reports the Ready to Assign change
+ */
+export async function handleAssignBudget(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: AssignBudgetParams,
+): Promise<CallToolResult>;
+export async function handleAssignBudget(
+  ynabAPI: ynab.API,
+  params: AssignBudgetParams,
+): Promise<CallToolResult>;
+export async function handleAssignBudget(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | AssignBudgetParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | AssignBudgetParams,
+  maybeParams?: AssignBudgetParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const month = resolveBudgetMonth(params.month);
+      const monthResponse = await ynabAPI.months.getBudgetMonth(params.budget_id, month);
+      const monthBefore = monthResponse.data.month;
+      const categoriesById = new Map(
+        monthBefore.categories
+          .filter((category) => !category.deleted)
+          .map((category) => [category.id, category]),
+      );
+
+      const missing = params.assignments
+        .map((assignment) => assignment.category_id)
+        .filter((categoryId) => !categoriesById.has(categoryId));
+      if (missing.length > 0) {
+        throw new ValidationError(
+          `Unknown category IDs for ${month}: ${missing.join(', ')}`,
+          undefined,
+          ['Use list_categories to look up category IDs'],
+        );
+      }
+
+      const rows: AssignmentRow[] = params.assignments.map((assignment) => {
+        const category = categoriesById.get(assignment.category_id) as ynab.Category;
+        const change = assignment.budgeted - category.budgeted;
+        return {
+          category_id: category.id,
+          category_name: category.name,
+          budgeted_before: category.budgeted,
+          budgeted_after: assignment.budgeted,
+          change,
+          balance_before: category.balance,
+          balance_after: category.balance + change,
+        };
+      });
+
+      const totalChange = rows.reduce((sum, row) => sum + row.change, 0);
+      const readyToAssignBefore = monthBefore.to_be_budgeted;
+
+      const formatRow = (row: AssignmentRow) => ({
+        category_id: row.category_id,
+        category_name: row.category_name,
+        budgeted_before: milliunitsToAmount(row.budgeted_before),
+        budgeted_after: milliunitsToAmount(row.budgeted_after),
+        change: milliunitsToAmount(row.change),
+        balance_before: milliunitsToAmount(row.balance_before),
+        balance_after: milliunitsToAmount(row.balance_after),
+        ...(row.status && { status: row.status }),
+        ...(row.error && { error: row.error }),
+      });
+
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'assign_budget',
+                month,
+                summary: {
+                  categories: rows.length,
+                  changed: rows.filter((row) => row.change !== 0).length,
+                  total_change: milliunitsToAmount(totalChange),
+                },
+                ready_to_assign: {
+                  before: milliunitsToAmount(readyToAssignBefore),
+                  after: milliunitsToAmount(readyToAssignBefore - totalChange),
+                  change: milliunitsToAmount(-totalChange),
+                  projected: true,
+                },
+                assignments: rows.map(formatRow),
+              }),
+            },
+          ],
+        };
+      }
+
+      let lastServerKnowledge: number | undefined;
+      for (const row of rows) {
+        if (row.change === 0) {
+          row.status = 'unchanged';
+          continue;
+        }
+        try {
+          const response = await ynabAPI.categories.updateMonthCategory(
+            params.budget_id,
+            month,
+            row.category_id,
+            { category: { budgeted: row.budgeted_after } },
+          );
+          row.status = 'updated';
+          row.budgeted_after = response.data.category.budgeted;
+          row.balance_after = response.data.category.balance;
+          lastServerKnowledge = response.data.server_knowledge;
+        } catch (error) {
+          row.status = 'failed';
+          row.error = error instanceof Error ? error.message : String(error);
+          row.budgeted_after = row.budgeted_before;
+          row.balance_after = row.balance_before;
+        }
+      }
+
+      const updatedIds = rows
+        .filter((row) => row.status === 'updated')
+        .map((row) => row.category_id);
+      if (updatedIds.length > 0) {
+        invalidateCategoryCaches(
+          deltaCache,
+          knowledgeStore,
+          params.budget_id,
+          month,
+          updatedIds,
+          lastServerKnowledge,
+        );
+      }
+
+      // Ready to Assign depends on carryover rules, so read it back rather than computing it.
+      // The money is already assigned at this point, so a failed read-back must not hide the rows.
+      let readyToAssignAfter: number | null = readyToAssignBefore;
+      let warning: string | undefined;
+      if (updatedIds.length > 0) {
+        try {
+          readyToAssignAfter = (await ynabAPI.months.getBudgetMonth(params.budget_id, month)).data
+            .month.to_be_budgeted;
+        } catch (error) {
+          readyToAssignAfter = null;
+          warning = `Assignments were saved, but Ready to Assign could not be read back: ${
+            error instanceof Error ? error.message : String(error)
+          }`;
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              month,
+              summary: {
+                categories: rows.length,
+                updated: updatedIds.length,
+                unchanged: rows.filter((row) => row.status === 'unchanged').length,
+                failed: rows.filter((row) => row.status === 'failed').length,
+              },
+              ready_to_assign: {
+                before: milliunitsToAmount(readyToAssignBefore),
+                after: readyToAssignAfter !== null ? milliunitsToAmount(readyToAssignAfter) : null,
+                change:
+                  readyToAssignAfter !== null
+                    ? milliunitsToAmount(readyToAssignAfter - readyToAssignBefore)
+                    : null,
+              },
+              ...(warning && { warning }),
+              assignments: rows.map(formatRow),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:assign_budget',
+    'assigning budget',
+  );
+}
+
 /**
  * Handles errors from category-related API calls
  */
@@ -0,0 +1,750 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
+import { cacheManager, CacheManager } from '../server/cacheManager.js';
+import { writeJournal, type JournalChange, type JournalEntry } from '../server/writeJournal.js';
+import type { DeltaCache } from '../server/deltaCache.js';
+import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
+import { resolveDeltaWriteArgs } from './deltaSupport.js';
+import { invalidateTransactionCaches } from './transactionTools.js';
+import { invalidateCategoryCaches } from './categoryTools.js';
+import { invalidatePayeeCaches } from './payeeTools.js';
+import { invalidateScheduledTransactionCaches } from './scheduledTransactionTools.js';
+
+/** Transaction fields update_transaction can set back to their previous values */
+const RESTORABLE_TRANSACTION_FIELDS = [
+  'account_id',
+  'date',
+  'amount',
+  'payee_id',
+  'category_id',
+  'memo',
+  'cleared',
+  'approved',
+  'flag_color',
+] as const;
+
+/** Category fields update_category can set back to their previous values */
+const RESTORABLE_CATEGORY_FIELDS = ['name', 'note', 'category_group_id', 'goal_target'] as const;
+
+/**
+ * Schema for ynab:list_recent_changes tool parameters
+ */
+export const ListRecentChangesSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    limit: z.number().int().min(1).max(100).optional(),
+  })
+  .strict();
+
+export type ListRecentChangesParams = z.infer<typeof ListRecentChangesSchema>;
+
+/**
+ * Schema for ynab:undo_change tool parameters
+ */
+export const UndoChangeSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    change_id: z.string().min(1, 'Change ID is required'),
+    force: z.boolean().optional(),
+    dry_run: z.boolean().optional(),
+  })
+  .strict();
+
+export type UndoChangeParams = z.infer<typeof UndoChangeSchema>;
+
+type UndoStepStatus =
+  | 'reverted'
+  | 'would_revert'
+  | 'conflict'
+  | 'already_reverted'
+  | 'not_undoable'
+  | 'failed';
+
+interface UndoStep {
+  entity: JournalChange['entity'];
+  operation: JournalChange['operation'];
+  entity_id: string;
+  action?: string;
+  status: UndoStepStatus;
+  detail?: string;
+  conflicting_fields?: string[];
+  new_entity_id?: string;
+}
+
+interface UndoPlan {
+  action: string;
+  /** Entity is already in its pre-change state */
+  alreadyReverted?: boolean;
+  /** Fields changed by someone else since the journaled change */
+  conflicts?: string[];
+  /** Present when the entity could not be restored at all */
+  blocked?: string;
+  note?: string;
+  execute: () => Promise<string | undefined>;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => (a ?? null) === (b ?? null);
+
+function changedFields(
+  current: Record<string, unknown>,
+  expected: Record<string, unknown> | undefined,
+  fields: readonly string[],
+): string[] {
+  if (!expected) return [];
+  return fields.filter((field) => !sameValue(current[field], expected[field]));
+}
+
+function pick(source: Record<string, unknown>, fields: readonly string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    picked[field] = source[field] ?? null;
+  }
+  return picked;
+}
+
+function isNotFound(error: unknown): boolean {
+  const apiError = (error as { error?: { id?: string; name?: string } } | undefined)?.error;
+  if (apiError?.id?.startsWith('404') || apiError?.name === 'resource_not_found') {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : '';
+  return message.includes('404') || message.toLowerCase().includes('not found');
+}
+
+/**
+ * Loads the current state of an entity, returning undefined when it no longer exists
+ */
+async function loadCurrent<T>(load: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await load();
+  } catch (error) {
+    if (isNotFound(error)) return undefined;
+    throw error;
+  }
+}
+
+/** Maps the fields sent in a transaction update onto the fields undo can restore */
+function restorableTransactionFields(fields: string[] = []): string[] {
+  const mapped = new Set(fields.map((field) => (field === 'payee_name' ? 'payee_id' : field)));
+  return RESTORABLE_TRANSACTION_FIELDS.filter((field) => mapped.has(field));
+}
+
+function toNewTransaction(before: ynab.TransactionDetail): ynab.NewTransaction {
+  const subtransactions = (before.subtransactions ?? []).filter((sub) => !sub.deleted);
+  return {
+    account_id: before.account_id,
+    date: before.date,
+    amount: before.amount,
+    payee_id: before.payee_id ?? null,
+    category_id: subtransactions.length > 0 ? null : (before.category_id ?? null),
+    memo: before.memo ?? null,
+    cleared: before.cleared,
+    approved: before.approved,
+    flag_color: before.flag_color ?? null,
+    ...(subtransactions.length > 0 && {
+      subtransactions: subtransactions.map((sub) => ({
+        amount: sub.amount,
+        payee_id: sub.payee_id ?? null,
+        category_id: sub.category_id ?? null,
+        memo: sub.memo ?? null,
+      })),
+    }),
+  };
+}
+
+function toSaveScheduledTransaction(
+  before: ynab.ScheduledTransactionDetail,
+): ynab.SaveScheduledTransaction {
+  return {
+    account_id: before.account_id,
+    date: before.date_next,
+    amount: before.amount,
+    frequency: before.frequency,
+    payee_id: before.payee_id ?? null,
+    category_id: before.category_id ?? null,
+    memo: before.memo ?? null,
+    flag_color: before.flag_color ?? null,
+  };
+}
+
+async function planTransactionUndo(
+  ynabAPI: ynab.API,
+  budgetId: string,
+  change: JournalChange,
+): Promise<UndoPlan> {
+  const response = await loadCurrent(() =>
+    ynabAPI.transactions.getTransactionById(budgetId, change.entity_id),
+  );
+  const current = response?.data.transaction;
+  const exists = Boolean(current && !current.deleted);
+
+  if (change.operation === 'create') {
+    return {
+      action: 'delete',
+      alreadyReverted: !exists,
+      conflicts: current
+        ? changedFields(
+            current as unknown as Record<string, unknown>,
+            change.after,
+            RESTORABLE_TRANSACTION_FIELDS,
+          )
+        : [],
+      execute: async () => {
+        await ynabAPI.transactions.deleteTransaction(budgetId, change.entity_id);
+        return undefined;
+      },
+    };
+  }
+
+  const before = change.before as unknown as ynab.TransactionDetail;
+
+  if (change.operation === 'delete') {
+    return {
+      action: 'recreate',
+      alreadyReverted: exists,
+      note: 'Re-created transactions get a new ID and no import ID',
+      execute: async () => {
+        const created = await ynabAPI.transactions.createTransaction(budgetId, {
+          transaction: toNewTransaction(before),
+        });
+        return created.data.transaction?.id;
+      },
+    };
+  }
+
+  const fields = restorableTransactionFields(change.fields);
+  const skipped = (change.fields ?? []).includes('subtransactions')
+    ? 'Split lines cannot be restored through the YNAB API; only the parent fields are reverted'
+    : undefined;
+  if (!current || !exists) {
+    return {
+      action: 'restore_fields',
+      blocked: 'Transaction has been deleted since this change',
+      execute: async () => undefined,
+    };
+  }
+  const currentRecord = current as unknown as Record<string, unknown>;
+  return {
+    action: 'restore_fields',
+    alreadyReverted: changedFields(currentRecord, change.before, fields).length === 0,
+    conflicts: changedFields(currentRecord, change.after, fields),
+    ...(skipped && { note: skipped }),
+    execute: async () => {
+      await ynabAPI.transactions.updateTransaction(budgetId, change.entity_id, {
+        transaction: pick(change.before ?? {}, fields) as ynab.ExistingTransaction,
+      });
+      return undefined;
+    },
+  };
+}
+
+async function planScheduledTransactionUndo(
+  ynabAPI: ynab.API,
+  budgetId: string,
+  change: JournalChange,
+): Promise<UndoPlan> {
+  const response = await loadCurrent(() =>
+    ynabAPI.scheduledTransactions.getScheduledTransactionById(budgetId, change.entity_id),
+  );
+  const current = response?.data.scheduled_transaction;
+  const exists = Boolean(current && !current.deleted);
+  const before = change.before as unknown as ynab.ScheduledTransactionDetail;
+  const comparedFields = [
+    'account_id',
+    'date_next',
+    'amount',
+    'frequency',
+    'payee_id',
+    'category_id',
+    'memo',
+    'flag_color',
+  ];
+
+  if (change.operation === 'create') {
+    return {
+      action: 'delete',
+      alreadyReverted: !exists,
+      execute: async () => {
+        await ynabAPI.scheduledTransactions.deleteScheduledTransaction(budgetId, change.entity_id);
+        return undefined;
+      },
+    };
+  }
+
+  if (change.operation === 'delete') {
+    return {
+      action: 'recreate',
+      alreadyReverted: exists,
+      note: 'Re-created scheduled transactions get a new ID',
+      execute: async () => {
+        const created = await ynabAPI.scheduledTransactions.createScheduledTransaction(budgetId, {
+          scheduled_transaction: toSaveScheduledTransaction(before),
+        });
+        return created.data.scheduled_transaction.id;
+      },
+    };
+  }
+
+  if (!current || !exists) {
+    return {
+      action: 'restore',
+      blocked: 'Scheduled transaction has been deleted since this change',
+      execute: async () => undefined,
+    };
+  }
+  const currentRecord = current as unknown as Record<string, unknown>;
+  return {
+    action: 'restore',
+    alreadyReverted: changedFields(currentRecord, change.before, comparedFields).length === 0,
+    conflicts: changedFields(currentRecord, change.after, comparedFields),
+    execute: async () => {
+      await ynabAPI.scheduledTransactions.updateScheduledTransaction(budgetId, change.entity_id, {
+        scheduled_transaction: toSaveScheduledTransaction(before),
+      });
+      return undefined;
+    },
+  };
+}
+
+async function planMonthCategoryUndo(
+  ynabAPI: ynab.API,
+  budgetId: string,
+  change: JournalChange,
+): Promise<UndoPlan> {
+  const month = change.month ?? '';
+  const response = await loadCurrent(() =>
+    ynabAPI.categories.getMonthCategoryById(budgetId, month, change.entity_id),
+  );
+  const current = response?.data.category as unknown as Record<string, unknown> | undefined;
+  if (!current) {
+    return {
+      action: 'restore_budgeted',
+      blocked: 'Category no longer exists',
+      execute: async () => undefined,
+    };
+  }
+  return {
+    action: 'restore_budgeted',
+    alreadyReverted: changedFields(current, change.before, ['budgeted']).length === 0,
+    conflicts: changedFields(current, change.after, ['budgeted']),
+    execute: async () => {
+      await ynabAPI.categories.updateMonthCategory(budgetId, month, change.entity_id, {
+        category: { budgeted: change.before?.['budgeted'] as number },
+      });
+      return undefined;
+    },
+  };
+}
+
+async function planCategoryUndo(
+  ynabAPI: ynab.API,
+  budgetId: string,
+  change: JournalChange,
+): Promise<UndoPlan> {
+  const fields = RESTORABLE_CATEGORY_FIELDS.filter((field) =>
+    (change.fields ?? []).includes(field),
+  );
+  const unrestorable = (change.fields ?? []).filter(
+    (field) => !(RESTORABLE_CATEGORY_FIELDS as readonly string[]).includes(field),
+  );
+  const skipped =
+    unrestorable.length > 0
+      ? `${unrestorable.join(', ')} cannot be restored through the YNAB API; only the other fields are reverted`
+      : undefined;
+  const response = await loadCurrent(() =>
+    ynabAPI.categories.getCategoryById(budgetId, change.entity_id),
+  );
+  const current = response?.data.category as unknown as Record<string, unknown> | undefined;
+  if (!current) {
+    return {
+      action: 'restore_fields',
+      blocked: 'Category no longer exists',
+      execute: async () => undefined,
+    };
+  }
+  return {
+    action: 'restore_fields',
+    alreadyReverted: changedFields(current, change.before, fields).length === 0,
+    conflicts: changedFields(current, change.after, fields),
+    ...(skipped && { note: skipped }),
+    execute: async () => {
+      await ynabAPI.categories.updateCategory(budgetId, change.entity_id, {
+        category: pick(change.before ?? {}, fields) as ynab.SaveCategory,
+      });
+      return undefined;
+    },
+  };
+}
+
+async function planPayeeUndo(
+  ynabAPI: ynab.API,
+  budgetId: string,
+  change: JournalChange,
+): Promise<UndoPlan> {
+  const response = await loadCurrent(() => ynabAPI.payees.getPayeeById(budgetId, change.entity_id));
+  const current = response?.data.payee as unknown as Record<string, unknown> | undefined;
+  if (!current) {
+    return {
+      action: 'rename',
+      blocked: 'Payee no longer exists',
+      execute: async () => undefined,
+    };
+  }
+  return {
+    action: 'rename',
+    alreadyReverted: changedFields(current, change.before, ['name']).length === 0,
+    conflicts: changedFields(current, change.after, ['name']),
+    execute: async () => {
+      await ynabAPI.payees.updatePayee(budgetId, change.entity_id, {
+        payee: { name: change.before?.['name'] as string },
+      });
+      return undefined;
+    },
+  };
+}
+
+const toMonthKey = (date: string): string => `${date.slice(0, 7)}-01`;
+
+/**
+ * Drops the cached data for every entity an undo wrote to, the same way the write tools do
+ */
+function invalidateUndoneCaches(
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  budgetId: string,
+  reverted: JournalChange[],
+): void {
+  const accountIds = new Set<string>();
+  const categoryIds = new Set<string>();
+  const months = new Set<string>();
+  let transactionsChanged = false;
+
+  for (const change of reverted) {
+    switch (change.entity) {
+      case 'transaction':
+        transactionsChanged = true;
+        cacheManager.delete(
+          CacheManager.generateKey('transaction', 'get', budgetId, change.entity_id),
+        );
+        for (const image of [change.before, change.after]) {
+          const { account_id, transfer_account_id, category_id, date } = image ?? {};
+          if (typeof account_id === 'string') accountIds.add(account_id);
+          if (typeof transfer_account_id === 'string') accountIds.add(transfer_account_id);
+          if (typeof category_id === 'string') categoryIds.add(category_id);
+          if (typeof date === 'string') months.add(toMonthKey(date));
+        }
+        break;
+      case 'month_category':
+        invalidateCategoryCaches(
+          deltaCache,
+          knowledgeStore,
+          budgetId,
+          change.month ?? toMonthKey(new Date().toISOString()),
+          [change.entity_id],
+        );
+        break;
+      case 'category':
+        invalidateCategoryCaches(
+          deltaCache,
+          knowledgeStore,
+          budgetId,
+          toMonthKey(new Date().toISOString()),
+          [change.entity_id],
+        );
+        break;
+      case 'scheduled_transaction':
+        invalidateScheduledTransactionCaches(deltaCache, budgetId, change.entity_id);
+        break;
+      case 'payee':
+        invalidatePayeeCaches(deltaCache, knowledgeStore, budgetId, [change.entity_id]);
+        break;
+      default:
+        break;
+    }
+  }
+
+  if (transactionsChanged) {
+    invalidateTransactionCaches(
+      deltaCache,
+      knowledgeStore,
+      budgetId,
+      undefined,
+      accountIds,
+      months,
+      { affectedCategoryIds: categoryIds },
+    );
+  }
+}
+
+async function planUndo(
+  ynabAPI: ynab.API,
+  budgetId: string,
+  change: JournalChange,
+): Promise<UndoPlan> {
+  switch (change.entity) {
+    case 'transaction':
+      return planTransactionUndo(ynabAPI, budgetId, change);
+    case 'scheduled_transaction':
+      return planScheduledTransactionUndo(ynabAPI, budgetId, change);
+    case 'month_category':
+      return planMonthCategoryUndo(ynabAPI, budgetId, change);
+    case 'category':
+      return planCategoryUndo(ynabAPI, budgetId, change);
+    case 'payee':
+      return planPayeeUndo(ynabAPI, budgetId, change);
+    default:
+      return {
+        action: 'none',
+        blocked: `Undo is not supported for ${change.entity} changes`,
+        execute: async () => undefined,
+      };
+  }
+}
+
+function describeChange(change: JournalChange): Record<string, unknown> {
+  const image = change.after ?? change.before ?? {};
+  const details: Record<string, unknown> = {};
+  if (change.entity === 'transaction' || change.entity === 'scheduled_transaction') {
+    details['date'] = image['date'] ?? image['date_next'];
+    details['payee_name'] = image['payee_name'];
+    if (typeof image['amount'] === 'number') {
+      details['amount'] = milliunitsToAmount(image['amount']);
+    }
+  } else if (change.entity === 'month_category') {
+    details['name'] = image['name'];
+    if (typeof change.before?.['budgeted'] === 'number') {
+      details['budgeted_before'] = milliunitsToAmount(change.before['budgeted']);
+    }
+    if (typeof change.after?.['budgeted'] === 'number') {
+      details['budgeted_after'] = milliunitsToAmount(change.after['budgeted']);
+    }
+  } else {
+    details['name'] = image['name'];
+  }
+  return details;
+}
+
+function formatEntry(entry: JournalEntry) {
+  return {
+    change_id: entry.id,
+    tool: entry.tool,
+    created_at: entry.created_at,
+    ...(entry.undone_at && { undone_at: entry.undone_at }),
+    ...(entry.undone_by && { undone_by: entry.undone_by }),
+    change_count: entry.changes.length,
+    changes: entry.changes.map((change) => ({
+      entity: change.entity,
+      operation: change.operation,
+      entity_id: change.entity_id,
+      ...(change.month && { month: change.month }),
+      ...(change.fields && { fields: change.fields }),
+      ...describeChange(change),
+      undoable: !change.not_undoable_reason,
+      ...(change.not_undoable_reason && { reason: change.not_undoable_reason }),
+      ...(change.undone_at && { undone_at: change.undone_at }),
+      ...(change.undone_entity_id && { undone_entity_id: change.undone_entity_id }),
+    })),
+  };
+}
+
+/**
+ * Handles the ynab:list_recent_changes tool call
+ * Lists journaled write tool calls for a budget, newest first
+ */
+export async function handleListRecentChanges(
+  _ynabAPI: ynab.API,
+  params: ListRecentChangesParams,
+): Promise<CallToolResult> {
+  return await withToolErrorHandling(
+    async () => {
+      const entries = writeJournal.list(params.budget_id, params.limit ?? 20);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              total_count: entries.length,
+              changes: entries.map(formatEntry),
+              note: 'The change journal is kept in memory and is cleared when the server restarts.',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:list_recent_changes',
+    'listing recent changes',
+  );
+}
+
+/**
+ * Handles the ynab:undo_change tool call
+ * Restores every entity touched by a journaled tool call to its previous state, newest change first.
+ * Entities modified again since the change are reported as conflicts and left alone unless force is set.
+ */
+export async function handleUndoChange(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: UndoChangeParams,
+): Promise<CallToolResult>;
+export async function handleUndoChange(
+  ynabAPI: ynab.API,
+  params: UndoChangeParams,
+): Promise<CallToolResult>;
+export async function handleUndoChange(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | UndoChangeParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | UndoChangeParams,
+  maybeParams?: UndoChangeParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+
+  return await withToolErrorHandling(
+    async () => {
+      const entry = writeJournal.get(params.change_id);
+      if (!entry || entry.budget_id !== params.budget_id) {
+        throw new ValidationError(`Change not found: ${params.change_id}`, undefined, [
+          'Use list_recent_changes to look up change IDs',
+          'The change journal is cleared when the server restarts',
+        ]);
+      }
+      if (entry.undone_at) {
+        throw new ValidationError(
+          `Change ${params.change_id} was already undone at ${entry.undone_at}`,
+          undefined,
+          entry.undone_by ? [`Undo ${entry.undone_by} to re-apply it`] : undefined,
+        );
+      }
+
+      const budgetId = entry.budget_id;
+      const steps: UndoStep[] = [];
+      const reverted: JournalChange[] = [];
+
+      for (const change of [...entry.changes].reverse()) {
+        const step: UndoStep = {
+          entity: change.entity,
+          operation: change.operation,
+          entity_id: change.entity_id,
+          status: 'not_undoable',
+        };
+        steps.push(step);
+
+        if (change.not_undoable_reason) {
+          step.detail = change.not_undoable_reason;
+          continue;
+        }
+        // Reverted by an earlier, partial undo; re-created entities have a new ID, so the
+        // current state of entity_id cannot tell whether this already happened
+        if (change.undone_at) {
+          step.status = 'already_reverted';
+          step.detail = `Reverted at ${change.undone_at}`;
+          if (change.undone_entity_id) step.new_entity_id = change.undone_entity_id;
+          continue;
+        }
+
+        const plan = await planUndo(ynabAPI, budgetId, change);
+        step.action = plan.action;
+        if (plan.note) step.detail = plan.note;
+        if (plan.blocked) {
+          step.status = 'conflict';
+          step.detail = plan.blocked;
+          continue;
+        }
+        if (plan.alreadyReverted) {
+          step.status = 'already_reverted';
+          continue;
+        }
+        if (plan.conflicts && plan.conflicts.length > 0 && !params.force) {
+          step.status = 'conflict';
+          step.conflicting_fields = plan.conflicts;
+          step.detail = 'Modified since this change; use force to overwrite';
+          continue;
+        }
+        if (params.dry_run) {
+          step.status = 'would_revert';
+          continue;
+        }
+
+        try {
+          const newId = await plan.execute();
+          writeJournal.markChangeUndone(change, newId);
+          reverted.push(change);
+          step.status = 'reverted';
+          if (newId) step.new_entity_id = newId;
+        } catch (error) {
+          step.status = 'failed';
+          step.detail = error instanceof Error ? error.message : 'Unknown error';
+        }
+      }
+
+      const count = (status: UndoStepStatus) =>
+        steps.filter((step) => step.status === status).length;
+      const summary = {
+        total_changes: steps.length,
+        ...(params.dry_run
+          ? { would_revert: count('would_revert') }
+          : { reverted: count('reverted'), failed: count('failed') }),
+        already_reverted: count('already_reverted'),
+        conflicts: count('conflict'),
+        not_undoable: count('not_undoable'),
+      };
+
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'undo_change',
+                change_id: entry.id,
+                tool: entry.tool,
+                summary,
+                steps,
+              }),
+            },
+          ],
+        };
+      }
+
+      if (reverted.length > 0) {
+        invalidateUndoneCaches(deltaCache, knowledgeStore, budgetId, reverted);
+      }
+      const complete = steps.every((step) =>
+        ['reverted', 'already_reverted', 'not_undoable'].includes(step.status),
+      );
+      if (complete) {
+        writeJournal.markUndone(entry.id, writeJournal.entryFor(ynabAPI)?.id);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              change_id: entry.id,
+              tool: entry.tool,
+              undone: complete,
+              summary,
+              steps,
+              ...(!complete && {
+                note: 'Some changes were not reverted. Retrying skips the changes already reverted; conflicting entities can be overwritten by retrying with force=true.',
+              }),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:undo_change',
+    'undoing change',
+  );
+}
@@ -0,0 +1,321 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
+import type { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaFetcherArgs } from './deltaSupport.js';
+import { payeeSimilarity } from './reconciliation/payeeNormalizer.js';
+import type { BulkUpdateTransactionInput } from './transactionTools.js';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_LOOKBACK_DAYS = 90;
+const DEFAULT_DATE_WINDOW_DAYS = 3;
+// Only pairs with the same or a similar payee are scored, so this cut-off filters on date distance
+const DEFAULT_MIN_SCORE = 60;
+const DEFAULT_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Score components out of 100: every candidate pair already shares account and amount
+const SCORE = {
+  same_account_and_amount: 40,
+  date: 25,
+  payee: 25,
+  import_vs_manual: 10,
+} as const;
+// Payees below this similarity count as different merchants
+const SIMILAR_PAYEE_THRESHOLD = 70;
+
+/**
+ * Schema for ynab:find_duplicate_transactions tool parameters
+ */
+export const FindDuplicateTransactionsSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    account_id: z.string().optional(),
+    since_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    until_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    date_window_days: z.number().int().min(0).max(14).optional(),
+    min_score: z.number().min(0).max(100).optional(),
+    limit: z.number().int().min(1).max(200).optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (data.since_date && data.until_date && data.since_date > data.until_date) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'since_date must be on or before until_date',
+        path: ['until_date'],
+      });
+    }
+  });
+
+export type FindDuplicateTransactionsParams = z.infer<typeof FindDuplicateTransactionsSchema>;
+
+type DuplicateSignal =
+  | 'same_account_and_amount'
+  | 'same_date'
+  | 'near_date'
+  | 'same_payee'
+  | 'similar_payee'
+  | 'import_vs_manual'
+  | 'both_imported';
+
+interface DuplicatePair {
+  score: number;
+  signals: DuplicateSignal[];
+  days_apart: number;
+  keep: ynab.TransactionDetail;
+  remove: ynab.TransactionDetail;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round(Math.abs(Date.parse(b) - Date.parse(a)) / DAY_MS);
+}
+
+/**
+ * Ranks which side of a pair is worth keeping: reconciled and bank-imported entries win over
+ * manual ones, since deleting them would break reconciliation or re-import the transaction
+ */
+function keepPriority(transaction: ynab.TransactionDetail): number {
+  return (
+    (transaction.cleared === 'reconciled' ? 8 : 0) +
+    (transaction.import_id ? 4 : 0) +
+    (transaction.cleared === 'cleared' ? 2 : 0) +
+    (transaction.approved ? 1 : 0) +
+    (transaction.category_id || (transaction.subtransactions ?? []).length > 0 ? 1 : 0)
+  );
+}
+
+/**
+ * Scores a pair that shares account and amount, or returns undefined when the payees differ:
+ * two merchants charging the same amount on the same day is a coincidence, not a duplicate
+ */
+function scorePair(
+  a: ynab.TransactionDetail,
+  b: ynab.TransactionDetail,
+  dateWindowDays: number,
+): DuplicatePair | undefined {
+  const similarity =
+    a.payee_id && a.payee_id === b.payee_id ? 100 : payeeSimilarity(a.payee_name, b.payee_name);
+  if (similarity < SIMILAR_PAYEE_THRESHOLD) return undefined;
+
+  const signals: DuplicateSignal[] = ['same_account_and_amount'];
+  let score = SCORE.same_account_and_amount;
+
+  const daysApart = daysBetween(a.date, b.date);
+  score += SCORE.date * (1 - daysApart / (dateWindowDays + 1));
+  signals.push(daysApart === 0 ? 'same_date' : 'near_date');
+
+  signals.push(similarity === 100 ? 'same_payee' : 'similar_payee');
+  score += (SCORE.payee * similarity) / 100;
+
+  if (Boolean(a.import_id) !== Boolean(b.import_id)) {
+    // The classic duplicate: typed in by hand, then imported from the bank without being matched
+    score += SCORE.import_vs_manual;
+    signals.push('import_vs_manual');
+  } else if (a.import_id && b.import_id) {
+    signals.push('both_imported');
+  }
+
+  const [keep, remove] =
+    keepPriority(b) > keepPriority(a) || (keepPriority(b) === keepPriority(a) && b.date < a.date)
+      ? [b, a]
+      : [a, b];
+
+  return { score: Math.round(score), signals, days_apart: daysApart, keep, remove };
+}
+
+function isCandidate(transaction: ynab.TransactionDetail): boolean {
+  // Transfers are paired by YNAB itself; list_transfers reports broken ones
+  return !transaction.deleted && transaction.amount !== 0 && !transaction.transfer_account_id;
+}
+
+/**
+ * Copies what the removed side has and the kept side lacks, so deleting it loses nothing
+ */
+function mergeUpdate(pair: DuplicatePair): BulkUpdateTransactionInput | undefined {
+  const { keep, remove } = pair;
+  const update: BulkUpdateTransactionInput = { id: keep.id };
+  const keepIsSplit = (keep.subtransactions ?? []).length > 0;
+  if (!keep.category_id && !keepIsSplit && remove.category_id) {
+    update.category_id = remove.category_id;
+  }
+  if (!keep.memo && remove.memo) update.memo = remove.memo;
+  if (!keep.flag_color && remove.flag_color) {
+    update.flag_color = remove.flag_color as BulkUpdateTransactionInput['flag_color'];
+  }
+  if (Object.keys(update).length === 1) return undefined;
+  return { ...update, original_account_id: keep.account_id, original_date: keep.date };
+}
+
+function summarizeTransaction(transaction: ynab.TransactionDetail) {
+  return {
+    id: transaction.id,
+    date: transaction.date,
+    amount: milliunitsToAmount(transaction.amount),
+    payee_name: transaction.payee_name,
+    category_name: transaction.category_name,
+    memo: transaction.memo,
+    cleared: transaction.cleared,
+    approved: transaction.approved,
+    import_id: transaction.import_id ?? null,
+  };
+}
+
+/**
+ * Handles the ynab:find_duplicate_transactions tool call
+ * Scores likely duplicate pairs in the cached transaction snapshot and proposes follow-up calls
+ */
+export async function handleFindDuplicateTransactions(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: FindDuplicateTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleFindDuplicateTransactions(
+  ynabAPI: ynab.API,
+  params: FindDuplicateTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleFindDuplicateTransactions(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | FindDuplicateTransactionsParams,
+  maybeParams?: FindDuplicateTransactionsParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const dateWindowDays = params.date_window_days ?? DEFAULT_DATE_WINDOW_DAYS;
+      const minScore = params.min_score ?? DEFAULT_MIN_SCORE;
+      const limit = params.limit ?? DEFAULT_LIMIT;
+      const sinceDate =
+        params.since_date ??
+        new Date(Date.now() - DEFAULT_LOOKBACK_DAYS * DAY_MS).toISOString().slice(0, 10);
+
+      const result = await deltaFetcher.fetchTransactions(params.budget_id);
+      const scanned = result.data.filter(
+        (transaction) =>
+          isCandidate(transaction) &&
+          transaction.date >= sinceDate &&
+          (!params.until_date || transaction.date <= params.until_date) &&
+          (!params.account_id || transaction.account_id === params.account_id),
+      );
+
+      const groups = new Map<string, ynab.TransactionDetail[]>();
+      for (const transaction of scanned) {
+        const key = `${transaction.account_id}:${transaction.amount}`;
+        const group = groups.get(key);
+        if (group) {
+          group.push(transaction);
+        } else {
+          groups.set(key, [transaction]);
+        }
+      }
+
+      const pairs: DuplicatePair[] = [];
+      for (const group of groups.values()) {
+        if (group.length < 2) continue;
+        group.sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+        for (let i = 0; i < group.length; i++) {
+          for (let j = i + 1; j < group.length; j++) {
+            const a = group[i]!;
+            const b = group[j]!;
+            if (daysBetween(a.date, b.date) > dateWindowDays) break;
+            // YNAB already linked these two as an import match
+            if (a.matched_transaction_id === b.id || b.matched_transaction_id === a.id) continue;
+            const pair = scorePair(a, b, dateWindowDays);
+            if (pair && pair.score >= minScore) pairs.push(pair);
+          }
+        }
+      }
+      pairs.sort(
+        (a, b) =>
+          b.score - a.score ||
+          b.keep.date.localeCompare(a.keep.date) ||
+          a.remove.id.localeCompare(b.remove.id),
+      );
+      const page = pairs.slice(0, limit);
+
+      // Build one follow-up per transaction: a triple yields three pairs, but only the extras go
+      const deleteIds: string[] = [];
+      const keptIds = new Set<string>();
+      const updates: BulkUpdateTransactionInput[] = [];
+      const duplicates = page.map((pair) => {
+        // Two different import IDs mean the bank reported two transactions, e.g. two coffees
+        const distinctImports =
+          Boolean(pair.keep.import_id && pair.remove.import_id) &&
+          pair.keep.import_id !== pair.remove.import_id;
+        const removable =
+          pair.remove.cleared !== 'reconciled' &&
+          !distinctImports &&
+          !keptIds.has(pair.remove.id) &&
+          !deleteIds.includes(pair.keep.id) &&
+          !deleteIds.includes(pair.remove.id);
+        const merge = removable ? mergeUpdate(pair) : undefined;
+        if (removable) {
+          deleteIds.push(pair.remove.id);
+          keptIds.add(pair.keep.id);
+          if (merge) updates.push(merge);
+        }
+        return {
+          score: pair.score,
+          signals: pair.signals,
+          days_apart: pair.days_apart,
+          keep: summarizeTransaction(pair.keep),
+          remove: summarizeTransaction(pair.remove),
+          suggested_action: removable ? 'delete_remove' : 'review',
+          ...(merge && {
+            merge_fields: Object.keys(merge).filter(
+              (key) => key !== 'id' && !key.startsWith('original_'),
+            ),
+          }),
+        };
+      });
+
+      const followUp: Record<string, unknown>[] = [];
+      if (updates.length > 0) {
+        followUp.push({
+          tool: 'update_transactions',
+          description:
+            'Copy category, memo and flag from the duplicates onto the kept transactions',
+          arguments: { budget_id: params.budget_id, transactions: updates, dry_run: true },
+        });
+      }
+      if (deleteIds.length > 0) {
+        followUp.push({
+          tool: 'delete_transactions',
+          description:
+            'Preview deleting the duplicates, then repeat with dry_run=false and the confirmation_token',
+          arguments: { budget_id: params.budget_id, transaction_ids: deleteIds, dry_run: true },
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              scanned_transactions: scanned.length,
+              since_date: sinceDate,
+              date_window_days: dateWindowDays,
+              min_score: minScore,
+              total_pairs: pairs.length,
+              duplicates,
+              follow_up: followUp,
+              cached: result.wasCached,
+              cache_info: result.wasCached
+                ? `Data retrieved from cache for improved performance${result.usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:find_duplicate_transactions',
+    'finding duplicate transactions',
+  );
+}
@@ -7,6 +7,11 @@ import { milliunitsToAmount } from '../utils/amountUtils.js';
 import { cacheManager, CACHE_TTLS, CacheManager } from '../server/cacheManager.js';
 import type { DeltaFetcher } from './deltaFetcher.js';
 import { resolveDeltaFetcherArgs } from './deltaSupport.js';
+import { PaginationParamsShape, paginate, projectFields } from './paginationSupport.js';
+import { READY_TO_ASSIGN_NAMES } from './reportSupport.js';
+
+const MONTH_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_COMPARED_MONTHS = 12;
 
 /**
  * Schema for ynab:get_month tool parameters
@@ -14,7 +19,7 @@ import { resolveDeltaFetcherArgs } from './deltaSupport.js';
 export const GetMonthSchema = z
   .object({
     budget_id: z.string().min(1, 'Budget ID is required'),
-    month: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Month must be in YYYY-MM-DD format'),
+    month: z.string().regex(MONTH_FORMAT, 'Month must be in YYYY-MM-DD format'),
   })
   .strict();
 
@@ -26,11 +31,58 @@ export type GetMonthParams = z.infer<typeof GetMonthSchema>;
 export const ListMonthsSchema = z
   .object({
     budget_id: z.string().min(1, 'Budget ID is required'),
+    ...PaginationParamsShape,
   })
   .strict();
 
 export type ListMonthsParams = z.infer<typeof ListMonthsSchema>;
 
+/**
+ * Schema for ynab:compare_months tool parameters
+ */
+export const CompareMonthsSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    months: z
+      .array(z.string().regex(MONTH_FORMAT, 'Month must be in YYYY-MM-DD format'))
+      .min(2, 'Provide at least two months to compare')
+      .max(MAX_COMPARED_MONTHS),
+    include_unchanged: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const normalized = data.months.map((month) => `${month.slice(0, 7)}-01`);
+    if (new Set(normalized).size !== normalized.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Each month can only be compared once',
+        path: ['months'],
+      });
+    }
+  });
+
+export type CompareMonthsParams = z.infer<typeof CompareMonthsSchema>;
+
+/**
+ * Reads one budget month with its categories through the month cache
+ */
+async function fetchMonthDetail(
+  ynabAPI: ynab.API,
+  budgetId: string,
+  month: string,
+): Promise<{ month: ynab.MonthDetail; wasCached: boolean }> {
+  const cacheKey = CacheManager.generateKey('month', 'get', budgetId, month);
+  const wasCached = cacheManager.has(cacheKey);
+  const detail = await cacheManager.wrap<ynab.MonthDetail>(cacheKey, {
+    ttl: CACHE_TTLS.MONTHS,
+    loader: async () => {
+      const response = await ynabAPI.months.getBudgetMonth(budgetId, month);
+      return response.data.month;
+    },
+  });
+  return { month: detail, wasCached };
+}
+
 /**
  * Handles the ynab:get_month tool call
  * Gets budget data for a specific month
@@ -42,15 +94,7 @@ export async function handleGetMonth(
   return await withToolErrorHandling(
     async () => {
       // Always use cache
-      const cacheKey = CacheManager.generateKey('month', 'get', params.budget_id, params.month);
-      const wasCached = cacheManager.has(cacheKey);
-      const month = await cacheManager.wrap<ynab.MonthDetail>(cacheKey, {
-        ttl: CACHE_TTLS.MONTHS,
-        loader: async () => {
-          const response = await ynabAPI.months.getBudgetMonth(params.budget_id, params.month);
-          return response.data.month;
-        },
-      });
+      const { month, wasCached } = await fetchMonthDetail(ynabAPI, params.budget_id, params.month);
 
       return {
         content: [
@@ -130,10 +174,163 @@ export async function handleListMonths(
     async () => {
       // Always use cache
       const result = await deltaFetcher.fetchMonths(params.budget_id);
-      const months = result.data;
+      const { page, pagination } = paginate(
+        'list_months',
+        result.data,
+        params,
+        result.serverKnowledge,
+        (month) => month.month,
+      );
       const wasCached = result.wasCached;
       const usedDelta = result.usedDelta;
 
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              ...pagination,
+              months: projectFields(
+                page.map((month) => ({
+                  month: month.month,
+                  note: month.note,
+                  income: milliunitsToAmount(month.income),
+                  budgeted: milliunitsToAmount(month.budgeted),
+                  activity: milliunitsToAmount(month.activity),
+                  to_be_budgeted: milliunitsToAmount(month.to_be_budgeted),
+                  age_of_money: month.age_of_money,
+                  deleted: month.deleted,
+                })),
+                params.fields,
+                'month',
+              ),
+              cached: wasCached,
+              cache_info: wasCached
+                ? `Data retrieved from cache for improved performance${usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:list_months',
+    'listing months',
+  );
+}
+
+/**
+ * Change from `from` to `to` in percent of `from`, or null when `from` is zero
+ */
+function percentChange(from: number, to: number): number | null {
+  if (from === 0) return null;
+  return Math.round((1000 * (to - from)) / Math.abs(from)) / 10;
+}
+
+function describeChange(from: number, to: number) {
+  return {
+    from: milliunitsToAmount(from),
+    to: milliunitsToAmount(to),
+    change: milliunitsToAmount(to - from),
+    percent_change: percentChange(from, to),
+  };
+}
+
+/**
+ * Handles the ynab:compare_months tool call
+ * Compares two or more budget months: per-category budgeted/activity/balance changes from the
+ * earliest to the latest month, categories that became overspent, and the month-level totals.
+ */
+export async function handleCompareMonths(
+  ynabAPI: ynab.API,
+  params: CompareMonthsParams,
+): Promise<CallToolResult> {
+  return await withToolErrorHandling(
+    async () => {
+      const monthKeys = [
+        ...new Set(params.months.map((month) => `${month.slice(0, 7)}-01`)),
+      ].sort();
+      const results = await Promise.all(
+        monthKeys.map((month) => fetchMonthDetail(ynabAPI, params.budget_id, month)),
+      );
+      const months = results.map((result) => result.month);
+      const first = months[0]!;
+      const last = months[months.length - 1]!;
+
+      // Categories keep their position across months; ones created later read as zero before
+      const categoryIds: string[] = [];
+      const byMonth = months.map((month) => {
+        const categories = new Map<string, ynab.Category>();
+        for (const category of month.categories ?? []) {
+          if (category.deleted || READY_TO_ASSIGN_NAMES.has(category.name)) continue;
+          if (!categoryIds.includes(category.id)) categoryIds.push(category.id);
+          categories.set(category.id, category);
+        }
+        return categories;
+      });
+
+      const newlyOverspent: {
+        month: string;
+        category_id: string;
+        name: string;
+        balance: number;
+      }[] = [];
+      for (let index = 1; index < months.length; index++) {
+        for (const [id, category] of byMonth[index]!) {
+          const previous = byMonth[index - 1]!.get(id);
+          if (category.balance < 0 && (previous?.balance ?? 0) >= 0) {
+            newlyOverspent.push({
+              month: months[index]!.month,
+              category_id: id,
+              name: category.name,
+              balance: milliunitsToAmount(category.balance),
+            });
+          }
+        }
+      }
+
+      const zero = { budgeted: 0, activity: 0, balance: 0 };
+      const categories = categoryIds
+        .map((id) => {
+          const values = byMonth.map((categoriesInMonth) => categoriesInMonth.get(id));
+          const latest = [...values].reverse().find((category) => category !== undefined)!;
+          const firstValue = values[0] ?? zero;
+          const lastValue = values[values.length - 1] ?? zero;
+          return { id, values, latest, firstValue, lastValue };
+        })
+        .filter(
+          ({ values, firstValue }) =>
+            params.include_unchanged ||
+            values.some(
+              (category) =>
+                (category ?? zero).budgeted !== firstValue.budgeted ||
+                (category ?? zero).activity !== firstValue.activity ||
+                (category ?? zero).balance !== firstValue.balance,
+            ),
+        )
+        // Biggest spending swings first
+        .sort(
+          (a, b) =>
+            Math.abs(b.lastValue.activity - b.firstValue.activity) -
+              Math.abs(a.lastValue.activity - a.firstValue.activity) ||
+            a.latest.name.localeCompare(b.latest.name),
+        )
+        .map(({ id, values, latest, firstValue, lastValue }) => ({
+          id,
+          name: latest.name,
+          category_group_name: latest.category_group_name,
+          months: values.map((category, index) => ({
+            month: months[index]!.month,
+            budgeted: milliunitsToAmount((category ?? zero).budgeted),
+            activity: milliunitsToAmount((category ?? zero).activity),
+            balance: milliunitsToAmount((category ?? zero).balance),
+          })),
+          budgeted: describeChange(firstValue.budgeted, lastValue.budgeted),
+          activity: describeChange(firstValue.activity, lastValue.activity),
+          balance: describeChange(firstValue.balance, lastValue.balance),
+        }));
+
+      const wasCached = results.every((result) => result.wasCached);
+
       return {
         content: [
           {
@@ -141,24 +338,42 @@ export async function handleListMonths(
             text: responseFormatter.format({
               months: months.map((month) => ({
                 month: month.month,
-                note: month.note,
                 income: milliunitsToAmount(month.income),
                 budgeted: milliunitsToAmount(month.budgeted),
                 activity: milliunitsToAmount(month.activity),
                 to_be_budgeted: milliunitsToAmount(month.to_be_budgeted),
-                age_of_money: month.age_of_money,
-                deleted: month.deleted,
+                age_of_money: month.age_of_money ?? null,
               })),
+              summary: {
+                from_month: first.month,
+                to_month: last.month,
+                income: describeChange(first.income, last.income),
+                budgeted: describeChange(first.budgeted, last.budgeted),
+                activity: describeChange(first.activity, last.activity),
+                to_be_budgeted: describeChange(first.to_be_budgeted, last.to_be_budgeted),
+                age_of_money: {
+                  from: first.age_of_money ?? null,
+                  to: last.age_of_money ?? null,
+                  change:
+                    first.age_of_money != null && last.age_of_money != null
+                      ? last.age_of_money - first.age_of_money
+                      : null,
+                },
+                newly_overspent_count: newlyOverspent.length,
+              },
+              newly_overspent: newlyOverspent,
+              category_count: categories.length,
+              categories,
               cached: wasCached,
               cache_info: wasCached
-                ? `Data retrieved from cache for improved performance${usedDelta ? ' (delta merge applied)' : ''}`
+                ? 'Data retrieved from cache for improved performance'
                 : 'Fresh data retrieved from YNAB API',
             }),
           },
         ],
       };
     },
-    'ynab:list_months',
-    'listing months',
+    'ynab:compare_months',
+    'comparing months',
   );
 }
@@ -0,0 +1,169 @@
+import { z } from 'zod/v4';
+import { createHash } from 'crypto';
+import { ValidationError } from '../types/index.js';
+
+/** Page size used by list tools when `limit` is omitted */
+export const DEFAULT_PAGE_LIMIT = 100;
+export const MAX_PAGE_LIMIT = 500;
+
+/**
+ * Shared `limit`/`cursor`/`fields` parameters, spread into every list tool schema
+ */
+export const PaginationParamsShape = {
+  limit: z.number().int().min(1).max(MAX_PAGE_LIMIT).optional(),
+  cursor: z.string().min(1).optional(),
+  fields: z.array(z.string().min(1)).min(1).optional(),
+};
+
+export interface PaginationParams {
+  limit?: number | undefined;
+  cursor?: string | undefined;
+  fields?: string[] | undefined;
+}
+
+export interface PaginationInfo {
+  total_count: number;
+  returned_count: number;
+  has_more: boolean;
+  next_cursor: string | null;
+  server_knowledge: number | null;
+  /** Set when the budget changed since the cursor was issued */
+  snapshot_changed?: true;
+}
+
+interface ListCursor {
+  /** Tool the cursor was issued by */
+  t: string;
+  /** Fingerprint of the filters the cursor was issued for */
+  q: string;
+  /** server_knowledge of the snapshot the previous page was read from */
+  k: number | null;
+  /** Offset and key of the first item on the next page */
+  o: number;
+  id: string;
+}
+
+function fingerprintParams(params: object): string {
+  const canonical = Object.entries(params)
+    .filter(([key]) => key !== 'cursor' && key !== 'limit' && key !== 'fields')
+    .sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex').slice(0, 16);
+}
+
+function decodeCursor(raw: string, tool: string, fingerprint: string): ListCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor', 'The cursor could not be decoded', [
+      `Pass the next_cursor value from a previous ${tool} response unchanged`,
+    ]);
+  }
+
+  const candidate = decoded as Partial<ListCursor> | null;
+  if (
+    !candidate ||
+    typeof candidate.t !== 'string' ||
+    typeof candidate.q !== 'string' ||
+    typeof candidate.o !== 'number' ||
+    typeof candidate.id !== 'string' ||
+    (candidate.k !== null && typeof candidate.k !== 'number')
+  ) {
+    throw new ValidationError('Invalid cursor', 'The cursor is malformed');
+  }
+
+  if (candidate.t !== tool || candidate.q !== fingerprint) {
+    throw new ValidationError(
+      `Cursor does not match the current ${tool} parameters`,
+      'The cursor was issued by another tool or for different filters',
+      ['Repeat the request without a cursor to start from the first page'],
+    );
+  }
+
+  return candidate as ListCursor;
+}
+
+/**
+ * Slices one page out of a list read from the delta-cached snapshot.
+ * The cursor remembers the key of the next item, so a page resumes at that item even if the
+ * snapshot gained or lost entries before it; when server_knowledge moved since the cursor was
+ * issued the page is flagged with snapshot_changed.
+ */
+export function paginate<T>(
+  tool: string,
+  items: T[],
+  params: PaginationParams & object,
+  serverKnowledge: number | undefined,
+  keyOf: (item: T) => string,
+): { page: T[]; pagination: PaginationInfo } {
+  const limit = params.limit ?? DEFAULT_PAGE_LIMIT;
+  const fingerprint = fingerprintParams(params);
+  const knowledge = serverKnowledge ?? null;
+
+  let start = 0;
+  let snapshotChanged = false;
+  if (params.cursor) {
+    const cursor = decodeCursor(params.cursor, tool, fingerprint);
+    const item = items[cursor.o];
+    if (item !== undefined && keyOf(item) === cursor.id) {
+      start = cursor.o;
+    } else {
+      const index = items.findIndex((candidate) => keyOf(candidate) === cursor.id);
+      // The next item was removed: carry on from the same position
+      start = index >= 0 ? index : Math.min(cursor.o, items.length);
+    }
+    snapshotChanged = cursor.k !== knowledge;
+  }
+
+  const page = items.slice(start, start + limit);
+  const next = items[start + page.length];
+  return {
+    page,
+    pagination: {
+      total_count: items.length,
+      returned_count: page.length,
+      has_more: next !== undefined,
+      next_cursor:
+        next !== undefined
+          ? Buffer.from(
+              JSON.stringify({
+                t: tool,
+                q: fingerprint,
+                k: knowledge,
+                o: start + page.length,
+                id: keyOf(next),
+              } satisfies ListCursor),
+              'utf8',
+            ).toString('base64url')
+          : null,
+      server_knowledge: knowledge,
+      ...(snapshotChanged && { snapshot_changed: true as const }),
+    },
+  };
+}
+
+/**
+ * Keeps only the requested top-level fields of each formatted item; the key field always stays
+ */
+export function projectFields<T extends Record<string, unknown>>(
+  items: T[],
+  fields: string[] | undefined,
+  keyField = 'id',
+): Partial<T>[] {
+  if (!fields || items.length === 0) return items;
+
+  const available = Object.keys(items[0]!);
+  const unknown = fields.filter((field) => !available.includes(field));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Unknown fields: ${unknown.join(', ')}`,
+      `Available fields: ${available.join(', ')}`,
+    );
+  }
+
+  const keep = new Set([keyField, ...fields]);
+  return items.map(
+    (item) =>
+      Object.fromEntries(Object.entries(item).filter(([key]) => keep.has(key))) as Partial<T>,
+  );
+}
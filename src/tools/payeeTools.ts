@@ -1,11 +1,36 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import * as ynab from 'ynab';
 import { z } from 'zod/v4';
-import { withToolErrorHandling } from '../types/index.js';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
 import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
 import { cacheManager, CACHE_TTLS, CacheManager } from '../server/cacheManager.js';
 import type { DeltaFetcher } from './deltaFetcher.js';
-import { resolveDeltaFetcherArgs } from './deltaSupport.js';
+import type { DeltaCache } from '../server/deltaCache.js';
+import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
+import { resolveDeltaFetcherArgs, resolveDeltaWriteArgs } from './deltaSupport.js';
+import { PaginationParamsShape, paginate, projectFields } from './paginationSupport.js';
+import type { BulkUpdateTransactionInput } from './transactionTools.js';
+import { applyBulkTransactionUpdates } from './bulkUpdateSupport.js';
+import { parseToolResult } from './toolResultSupport.js';
+import { handleUpdateScheduledTransaction } from './scheduledTransactionTools.js';
+import {
+  canonicalizePayee,
+  fuzzyMatch,
+  isAbbreviationOf,
+  normalizedMatch,
+  normalizePayee,
+} from './reconciliation/payeeNormalizer.js';
+
+const MERGE_PREVIEW_SAMPLE_SIZE = 5;
+const DEFAULT_MIN_CLUSTER_CONFIDENCE = 70;
+const DEFAULT_CLUSTER_LIMIT = 50;
+// Payees YNAB creates itself; they never belong in a merge
+const SYSTEM_PAYEE_NAMES = new Set([
+  'Starting Balance',
+  'Manual Balance Adjustment',
+  'Reconciliation Balance Adjustment',
+]);
 
 /**
  * Schema for ynab:list_payees tool parameters
@@ -13,6 +38,7 @@ import { resolveDeltaFetcherArgs } from './deltaSupport.js';
 export const ListPayeesSchema = z
   .object({
     budget_id: z.string().min(1, 'Budget ID is required'),
+    ...PaginationParamsShape,
   })
   .strict();
 
@@ -30,6 +56,90 @@ export const GetPayeeSchema = z
 
 export type GetPayeeParams = z.infer<typeof GetPayeeSchema>;
 
+/**
+ * Schema for ynab:update_payee tool parameters
+ */
+export const UpdatePayeeSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    payee_id: z.string().min(1, 'Payee ID is required'),
+    name: z.string().trim().min(1, 'Payee name is required').max(500),
+    dry_run: z.boolean().optional(),
+  })
+  .strict();
+
+export type UpdatePayeeParams = z.infer<typeof UpdatePayeeSchema>;
+
+/**
+ * Schema for ynab:merge_payees tool parameters
+ */
+export const MergePayeesSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    target_payee_id: z.string().min(1, 'Target payee ID is required'),
+    source_payee_ids: z
+      .array(z.string().min(1, 'Source payee ID is required'))
+      .min(1, 'At least one source payee is required')
+      .max(50, 'A maximum of 50 source payees can be merged at once'),
+    include_scheduled: z.boolean().optional(),
+    dry_run: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (data.source_payee_ids.includes(data.target_payee_id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'The target payee cannot also be a source payee',
+        path: ['source_payee_ids'],
+      });
+    }
+    if (new Set(data.source_payee_ids).size !== data.source_payee_ids.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'source_payee_ids must be unique',
+        path: ['source_payee_ids'],
+      });
+    }
+  });
+
+export type MergePayeesParams = z.infer<typeof MergePayeesSchema>;
+
+/**
+ * Schema for ynab:suggest_payee_merges tool parameters
+ */
+export const SuggestPayeeMergesSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    min_confidence: z.number().min(50).max(100).optional(),
+    include_unused: z.boolean().optional(),
+    limit: z.number().int().min(1).max(200).optional(),
+  })
+  .strict();
+
+export type SuggestPayeeMergesParams = z.infer<typeof SuggestPayeeMergesSchema>;
+
+/**
+ * Invalidates payee caches, plus transaction caches because they carry denormalized payee names
+ */
+export function invalidatePayeeCaches(
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  budgetId: string,
+  payeeIds: string[],
+  serverKnowledge?: number,
+): void {
+  const payeesListCacheKey = CacheManager.generateKey('payees', 'list', budgetId);
+  cacheManager.delete(payeesListCacheKey);
+  for (const payeeId of payeeIds) {
+    cacheManager.delete(CacheManager.generateKey('payee', 'get', budgetId, payeeId));
+  }
+  deltaCache.invalidate(budgetId, 'payees');
+  deltaCache.invalidate(budgetId, 'transactions');
+  if (typeof serverKnowledge === 'number') {
+    knowledgeStore.update(payeesListCacheKey, serverKnowledge);
+  }
+}
+
 /**
  * Handles the ynab:list_payees tool call
  * Lists all payees for a specific budget
@@ -56,7 +166,13 @@ export async function handleListPayees(
   return await withToolErrorHandling(
     async () => {
       const result = await deltaFetcher.fetchPayees(params.budget_id);
-      const payees = result.data;
+      const { page, pagination } = paginate(
+        'list_payees',
+        result.data,
+        params,
+        result.serverKnowledge,
+        (payee) => payee.id,
+      );
       const wasCached = result.wasCached;
 
       return {
@@ -64,12 +180,16 @@ export async function handleListPayees(
           {
             type: 'text',
             text: responseFormatter.format({
-              payees: payees.map((payee) => ({
-                id: payee.id,
-                name: payee.name,
-                transfer_account_id: payee.transfer_account_id,
-                deleted: payee.deleted,
-              })),
+              ...pagination,
+              payees: projectFields(
+                page.map((payee) => ({
+                  id: payee.id,
+                  name: payee.name,
+                  transfer_account_id: payee.transfer_account_id,
+                  deleted: payee.deleted,
+                })),
+                params.fields,
+              ),
               cached: wasCached,
               cache_info: wasCached
                 ? `Data retrieved from cache for improved performance${result.usedDelta ? ' (delta merge applied)' : ''}`
@@ -129,3 +249,505 @@ export async function handleGetPayee(
     'getting payee details',
   );
 }
+
+/**
+ * Handles the ynab:update_payee tool call
+ * Renames a payee
+ */
+export async function handleUpdatePayee(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: UpdatePayeeParams,
+): Promise<CallToolResult>;
+export async function handleUpdatePayee(
+  ynabAPI: ynab.API,
+  params: UpdatePayeeParams,
+): Promise<CallToolResult>;
+export async function handleUpdatePayee(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | UpdatePayeeParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | UpdatePayeeParams,
+  maybeParams?: UpdatePayeeParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'update_payee',
+                request: params,
+              }),
+            },
+          ],
+        };
+      }
+
+      const response = await ynabAPI.payees.updatePayee(params.budget_id, params.payee_id, {
+        payee: { name: params.name },
+      });
+      const payee = response.data.payee;
+
+      invalidatePayeeCaches(
+        deltaCache,
+        knowledgeStore,
+        params.budget_id,
+        [params.payee_id],
+        response.data.server_knowledge,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              payee: {
+                id: payee.id,
+                name: payee.name,
+                transfer_account_id: payee.transfer_account_id,
+                deleted: payee.deleted,
+              },
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:update_payee',
+    'updating payee',
+  );
+}
+
+interface MergeSourceGroup {
+  payee: ynab.Payee;
+  transactions: ynab.HybridTransaction[];
+  subtransactionCount: number;
+  scheduled: ynab.ScheduledTransactionDetail[];
+}
+
+/**
+ * Handles the ynab:merge_payees tool call
+ * Reassigns every transaction and scheduled transaction from the source payees onto the
+ * target payee. Transactions are updated through update_transactions in batches of 100.
+ */
+export async function handleMergePayees(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: MergePayeesParams,
+): Promise<CallToolResult>;
+export async function handleMergePayees(
+  ynabAPI: ynab.API,
+  params: MergePayeesParams,
+): Promise<CallToolResult>;
+export async function handleMergePayees(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | MergePayeesParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | MergePayeesParams,
+  maybeParams?: MergePayeesParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const includeScheduled = params.include_scheduled ?? true;
+      const payeesResponse = await ynabAPI.payees.getPayees(params.budget_id);
+      const payeesById = new Map(
+        payeesResponse.data.payees
+          .filter((payee) => !payee.deleted)
+          .map((payee) => [payee.id, payee]),
+      );
+
+      const target = payeesById.get(params.target_payee_id);
+      const missing = [params.target_payee_id, ...params.source_payee_ids].filter(
+        (payeeId) => !payeesById.has(payeeId),
+      );
+      if (!target || missing.length > 0) {
+        throw new ValidationError(`Unknown payee IDs: ${missing.join(', ')}`, undefined, [
+          'Use list_payees to look up payee IDs',
+        ]);
+      }
+
+      const transferPayees = [target, ...params.source_payee_ids.map((id) => payeesById.get(id))]
+        .filter((payee): payee is ynab.Payee => Boolean(payee?.transfer_account_id))
+        .map((payee) => payee.name);
+      if (transferPayees.length > 0) {
+        throw new ValidationError(
+          `Transfer payees cannot be merged: ${transferPayees.join(', ')}`,
+          'Transfer payees are tied to accounts and are managed by YNAB',
+        );
+      }
+
+      const scheduledTransactions = includeScheduled
+        ? (
+            await ynabAPI.scheduledTransactions.getScheduledTransactions(params.budget_id)
+          ).data.scheduled_transactions.filter((scheduled) => !scheduled.deleted)
+        : [];
+
+      const groups: MergeSourceGroup[] = [];
+      for (const payeeId of params.source_payee_ids) {
+        const response = await ynabAPI.transactions.getTransactionsByPayee(
+          params.budget_id,
+          payeeId,
+        );
+        const live = response.data.transactions.filter((transaction) => !transaction.deleted);
+        groups.push({
+          payee: payeesById.get(payeeId) as ynab.Payee,
+          transactions: live.filter((transaction) => transaction.type === 'transaction'),
+          // update_transactions cannot edit subtransactions, so split lines are only reported
+          subtransactionCount: live.filter((transaction) => transaction.type === 'subtransaction')
+            .length,
+          scheduled: scheduledTransactions.filter((scheduled) => scheduled.payee_id === payeeId),
+        });
+      }
+
+      const totalTransactions = groups.reduce((sum, group) => sum + group.transactions.length, 0);
+      const totalScheduled = groups.reduce((sum, group) => sum + group.scheduled.length, 0);
+      const totalSubtransactions = groups.reduce(
+        (sum, group) => sum + group.subtransactionCount,
+        0,
+      );
+      const targetSummary = { id: target.id, name: target.name };
+
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'merge_payees',
+                target_payee: targetSummary,
+                summary: {
+                  source_payees: groups.length,
+                  transactions_to_reassign: totalTransactions,
+                  scheduled_transactions_to_reassign: totalScheduled,
+                  split_lines_skipped: totalSubtransactions,
+                },
+                sources: groups.map((group) => ({
+                  payee_id: group.payee.id,
+                  payee_name: group.payee.name,
+                  transaction_count: group.transactions.length,
+                  total_amount: milliunitsToAmount(
+                    group.transactions.reduce((sum, transaction) => sum + transaction.amount, 0),
+                  ),
+                  scheduled_transaction_count: group.scheduled.length,
+                  split_lines_skipped: group.subtransactionCount,
+                  sample_transactions: group.transactions
+                    .slice(0, MERGE_PREVIEW_SAMPLE_SIZE)
+                    .map((transaction) => ({
+                      id: transaction.id,
+                      date: transaction.date,
+                      amount: milliunitsToAmount(transaction.amount),
+                      account_name: transaction.account_name,
+                    })),
+                })),
+              }),
+            },
+          ],
+        };
+      }
+
+      const updates: BulkUpdateTransactionInput[] = groups.flatMap((group) =>
+        group.transactions.map((transaction) => ({
+          id: transaction.id,
+          payee_id: target.id,
+          original_account_id: transaction.account_id,
+          original_date: transaction.date,
+        })),
+      );
+
+      const transactionResults = await applyBulkTransactionUpdates(
+        ynabAPI,
+        deltaCache,
+        knowledgeStore,
+        params.budget_id,
+        updates,
+      );
+
+      const scheduledResults = { updated: 0, failed: 0, failed_ids: [] as string[] };
+      for (const scheduled of groups.flatMap((group) => group.scheduled)) {
+        const parsed = parseToolResult(
+          await handleUpdateScheduledTransaction(ynabAPI, deltaCache, knowledgeStore, {
+            budget_id: params.budget_id,
+            scheduled_transaction_id: scheduled.id,
+            payee_id: target.id,
+          }),
+        );
+        if (parsed?.['scheduled_transaction']) {
+          scheduledResults.updated += 1;
+        } else {
+          scheduledResults.failed += 1;
+          scheduledResults.failed_ids.push(scheduled.id);
+        }
+      }
+
+      invalidatePayeeCaches(deltaCache, knowledgeStore, params.budget_id, [
+        target.id,
+        ...params.source_payee_ids,
+      ]);
+
+      const success = transactionResults.failed_ids.length === 0 && scheduledResults.failed === 0;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              success,
+              target_payee: targetSummary,
+              summary: {
+                source_payees: groups.length,
+                transactions_updated: transactionResults.updated,
+                transactions_failed: transactionResults.failed_ids.length,
+                scheduled_transactions_updated: scheduledResults.updated,
+                scheduled_transactions_failed: scheduledResults.failed,
+                split_lines_skipped: totalSubtransactions,
+              },
+              sources: groups.map((group) => ({
+                payee_id: group.payee.id,
+                payee_name: group.payee.name,
+                transaction_count: group.transactions.length,
+                scheduled_transaction_count: group.scheduled.length,
+              })),
+              ...(transactionResults.failed_ids.length > 0 && {
+                failed_transaction_ids: transactionResults.failed_ids,
+              }),
+              ...(scheduledResults.failed_ids.length > 0 && {
+                failed_scheduled_transaction_ids: scheduledResults.failed_ids,
+              }),
+              note: 'Source payees are left in place because the YNAB API cannot delete payees; YNAB hides unused payees automatically.',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:merge_payees',
+    'merging payees',
+  );
+}
+
+interface PayeeClusterCandidate {
+  payee: ynab.Payee;
+  canonical: string;
+  key: string;
+  transactionCount: number;
+  spentMilliunits: number;
+}
+
+/**
+ * Scores how likely two payees are the same merchant (0-100)
+ */
+function scorePayeePair(a: PayeeClusterCandidate, b: PayeeClusterCandidate): number {
+  if (normalizedMatch(a.payee.name, b.payee.name)) return 100;
+  if (a.key === b.key) return 95;
+
+  const [shorter, longer] = a.key.length <= b.key.length ? [a.key, b.key] : [b.key, a.key];
+  const firstTokens = [a.canonical.split(' ')[0] ?? '', b.canonical.split(' ')[0] ?? ''].sort(
+    (x, y) => x.length - y.length,
+  ) as [string, string];
+
+  return Math.max(
+    // Leave headroom above fuzzy matches for exact canonical matches
+    Math.min(90, fuzzyMatch(a.key, b.key)),
+    shorter.length >= 4 && longer.startsWith(shorter) ? 85 : 0,
+    isAbbreviationOf(firstTokens[0], firstTokens[1]) ? 75 : 0,
+  );
+}
+
+/**
+ * Single-linkage clustering of payees whose pairwise score meets the threshold.
+ * Only payees whose canonical names share a first letter are compared.
+ */
+function clusterPayees(
+  candidates: PayeeClusterCandidate[],
+  minConfidence: number,
+): { members: PayeeClusterCandidate[]; confidence: number }[] {
+  const parent = candidates.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]!]!;
+      index = parent[index]!;
+    }
+    return index;
+  };
+
+  const blocks = new Map<string, number[]>();
+  candidates.forEach((candidate, index) => {
+    const block = blocks.get(candidate.key[0]!) ?? [];
+    block.push(index);
+    blocks.set(candidate.key[0]!, block);
+  });
+
+  const edges: { a: number; b: number; score: number }[] = [];
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const score = scorePayeePair(candidates[block[i]!]!, candidates[block[j]!]!);
+        if (score >= minConfidence) {
+          edges.push({ a: block[i]!, b: block[j]!, score });
+        }
+      }
+    }
+  }
+
+  // Strongest links first, so a cluster's confidence is its weakest spanning link
+  edges.sort((x, y) => y.score - x.score);
+  const confidence = new Map<number, number>();
+  for (const edge of edges) {
+    const rootA = find(edge.a);
+    const rootB = find(edge.b);
+    if (rootA === rootB) continue;
+    parent[rootB] = rootA;
+    confidence.set(
+      rootA,
+      Math.min(confidence.get(rootA) ?? 100, confidence.get(rootB) ?? 100, edge.score),
+    );
+  }
+
+  const clusters = new Map<number, PayeeClusterCandidate[]>();
+  candidates.forEach((candidate, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), candidate]);
+  });
+
+  return [...clusters.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      members,
+      confidence: Math.round(confidence.get(root) ?? 100),
+    }));
+}
+
+/**
+ * Handles the ynab:suggest_payee_merges tool call
+ * Clusters payees that look like the same merchant so they can be merged with merge_payees
+ */
+export async function handleSuggestPayeeMerges(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: SuggestPayeeMergesParams,
+): Promise<CallToolResult>;
+export async function handleSuggestPayeeMerges(
+  ynabAPI: ynab.API,
+  params: SuggestPayeeMergesParams,
+): Promise<CallToolResult>;
+export async function handleSuggestPayeeMerges(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | SuggestPayeeMergesParams,
+  maybeParams?: SuggestPayeeMergesParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const minConfidence = params.min_confidence ?? DEFAULT_MIN_CLUSTER_CONFIDENCE;
+      const includeUnused = params.include_unused ?? true;
+      const limit = params.limit ?? DEFAULT_CLUSTER_LIMIT;
+
+      const [payeesResult, transactionsResult] = await Promise.all([
+        deltaFetcher.fetchPayees(params.budget_id),
+        deltaFetcher.fetchTransactions(params.budget_id),
+      ]);
+
+      const usage = new Map<string, { count: number; spent: number }>();
+      for (const transaction of transactionsResult.data) {
+        if (transaction.deleted || !transaction.payee_id) continue;
+        const entry = usage.get(transaction.payee_id) ?? { count: 0, spent: 0 };
+        entry.count += 1;
+        if (transaction.amount < 0) entry.spent -= transaction.amount;
+        usage.set(transaction.payee_id, entry);
+      }
+
+      const candidates: PayeeClusterCandidate[] = payeesResult.data
+        .filter(
+          (payee) =>
+            !payee.deleted && !payee.transfer_account_id && !SYSTEM_PAYEE_NAMES.has(payee.name),
+        )
+        .map((payee) => {
+          const canonical = canonicalizePayee(payee.name);
+          return {
+            payee,
+            canonical,
+            key: normalizePayee(canonical),
+            transactionCount: usage.get(payee.id)?.count ?? 0,
+            spentMilliunits: usage.get(payee.id)?.spent ?? 0,
+          };
+        })
+        .filter((candidate) => candidate.key && (includeUnused || candidate.transactionCount > 0));
+
+      const clusters = clusterPayees(candidates, minConfidence)
+        .map(({ members, confidence }) => {
+          // Most used payee first; ties go to the shorter (usually cleaner) name
+          const sorted = [...members].sort(
+            (a, b) =>
+              b.transactionCount - a.transactionCount ||
+              a.payee.name.length - b.payee.name.length ||
+              a.payee.name.localeCompare(b.payee.name),
+          );
+          const target = sorted[0]!;
+          return {
+            confidence,
+            suggested_target_payee_id: target.payee.id,
+            suggested_target_name: target.payee.name,
+            source_payee_ids: sorted.slice(1).map((member) => member.payee.id),
+            transaction_count: sorted.reduce((sum, member) => sum + member.transactionCount, 0),
+            total_spent: milliunitsToAmount(
+              sorted.reduce((sum, member) => sum + member.spentMilliunits, 0),
+            ),
+            payees: sorted.map((member) => ({
+              id: member.payee.id,
+              name: member.payee.name,
+              canonical_name: member.canonical,
+              transaction_count: member.transactionCount,
+              total_spent: milliunitsToAmount(member.spentMilliunits),
+            })),
+          };
+        })
+        .sort((a, b) => b.confidence - a.confidence || b.transaction_count - a.transaction_count);
+
+      const page = clusters.slice(0, limit);
+      const wasCached = payeesResult.wasCached && transactionsResult.wasCached;
+      const usedDelta = payeesResult.usedDelta || transactionsResult.usedDelta;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              cluster_count: clusters.length,
+              returned_count: page.length,
+              min_confidence: minConfidence,
+              payees_considered: candidates.length,
+              cached: wasCached,
+              cache_info: wasCached
+                ? `Data retrieved from cache for improved performance${usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+              clusters: page,
+              ...(page.length > 0 && {
+                next_step:
+                  'Review a cluster, then call merge_payees with its suggested_target_payee_id as target_payee_id and source_payee_ids (use dry_run first)',
+              }),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:suggest_payee_merges',
+    'suggesting payee merges',
+  );
+}
@@ -0,0 +1,553 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { amountToMilliunits, milliunitsToAmount } from '../utils/amountUtils.js';
+import type { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaFetcherArgs } from './deltaSupport.js';
+import {
+  canonicalizePayee,
+  normalizePayee,
+  payeeSimilarity,
+} from './reconciliation/payeeNormalizer.js';
+import { CreateReceiptSplitTransactionSchema } from './transactionTools.js';
+
+const DEFAULT_HISTORY_MONTHS = 12;
+const MAX_TEXT_LENGTH = 20000;
+// Receipt arithmetic is checked to the cent
+const TOLERANCE_MILLIUNITS = 10;
+// Item names at least this similar to a past split memo count as the same product
+const SIMILAR_ITEM_THRESHOLD = 85;
+const MERCHANT_CONFIDENCE_FACTOR = 0.5;
+const FULL_EVIDENCE_COUNT = 3;
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+// A price at the end of the line, optionally signed ("-2.00" or "2.00-") and followed by tax flags
+const TRAILING_AMOUNT =
+  /(?:^|\s)(-)?\$?(\d{1,3}(?:,\d{3})+|\d+)\.(\d{2})(-)?(?:\s+([A-Z]{1,3}))?\s*$/;
+// "2 @ 3.99", "3 x 1.50", "1.25 lb @ 2.99/lb"
+const QUANTITY =
+  /(\d+(?:\.\d+)?)\s*(?:lb|lbs|kg|g|ea)?\s*[@x×]\s*\$?\d+(?:\.\d+)?(?:\s*\/\s*[a-z]+)?/i;
+const LEADING_QUANTITY = /^(\d+)\s*[x×]\s+/i;
+
+const SUBTOTAL_LABEL = /\bsub\s*-?\s*total\b/i;
+const TOTAL_LABEL = /\b(total|amount due|balance due)\b/i;
+const TAX_LABEL = /\b(tax|gst|hst|pst|qst|vat)\b/i;
+const TIP_LABEL = /\b(tip|gratuity)\b/i;
+const FEE_LABEL = /\b(deposit|dep|fee|surcharge|delivery|service charge|bag)\b/i;
+const DISCOUNT_LABEL = /\b(discount|coupon|promo|savings|off)\b/i;
+// Tender lines lead with the payment method or end in "tendered"/"paid"; a bare "card" is only
+// a tender when followed by a masked number, so items like "GIFT CARD" stay items
+const PAYMENT_LABEL =
+  /^(cash|change|visa|mastercard|amex|discover|debit|credit|tender|tendered|payment|auth|approval)\b|\b(tender|tendered|payment|paid)$|\bcard\s*(#|[x*]{2,}|ending\b)/i;
+const INFO_LABEL = /\b(you saved|total savings|points|rewards|items sold)\b/i;
+
+/**
+ * Schema for ynab:parse_receipt_text tool parameters
+ */
+export const ParseReceiptTextSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    text: z
+      .string()
+      .min(1, 'Receipt text is required')
+      .max(MAX_TEXT_LENGTH, `Receipt text must be at most ${MAX_TEXT_LENGTH} characters`),
+    account_id: z.string().min(1).optional(),
+    payee_name: z.string().min(1).optional(),
+    date_format: z.enum(['mdy', 'dmy']).optional(),
+    history_months: z.number().int().min(1).max(60).optional(),
+  })
+  .strict();
+
+export type ParseReceiptTextParams = z.infer<typeof ParseReceiptTextSchema>;
+
+interface ParsedItem {
+  line: number;
+  name: string;
+  amount: number;
+  quantity?: number | undefined;
+  discount: number;
+  tax_flag?: string | undefined;
+}
+
+interface ParsedLine {
+  line: number;
+  name: string;
+  amount: number;
+}
+
+interface ParsedReceipt {
+  merchant: string | undefined;
+  date: string | undefined;
+  items: ParsedItem[];
+  subtotal: number | undefined;
+  tax_lines: ParsedLine[];
+  adjustments: ParsedLine[];
+  total: number | undefined;
+  ignored_lines: string[];
+}
+
+interface ItemHistoryEntry {
+  item_key: string;
+  merchant_key: string;
+  category_id: string;
+  date: string;
+}
+
+interface CategorySuggestion {
+  category_id: string;
+  category_name: string | undefined;
+  confidence: number;
+  source: 'item_history' | 'merchant_history';
+}
+
+function toIsoDate(year: number, month: number, day: number): string | undefined {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDate(line: string, dateFormat: 'mdy' | 'dmy'): string | undefined {
+  const iso = /\b(\d{4})-(\d{2})-(\d{2})\b/.exec(line);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/.exec(line);
+  if (numeric) {
+    const [first, second, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    return dateFormat === 'dmy' ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  const monthFirst = /\b([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/i.exec(line);
+  if (monthFirst && MONTHS[monthFirst[1]!.toLowerCase()]) {
+    return toIsoDate(
+      Number(monthFirst[3]),
+      MONTHS[monthFirst[1]!.toLowerCase()]!,
+      Number(monthFirst[2]),
+    );
+  }
+  const dayFirst = /\b(\d{1,2})\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})\b/i.exec(line);
+  if (dayFirst && MONTHS[dayFirst[2]!.toLowerCase()]) {
+    return toIsoDate(Number(dayFirst[3]), MONTHS[dayFirst[2]!.toLowerCase()]!, Number(dayFirst[1]));
+  }
+  return undefined;
+}
+
+function cleanLabel(label: string): string {
+  return label
+    .replace(/^\d{5,}\s+/, '') // leading SKU / UPC
+    .replace(/\s+\d{5,}$/, '')
+    .replace(/[\s.:$*]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Deterministic line-by-line receipt parser. Each line ending in a price is classified by its
+ * label as an item, discount, subtotal, tax, tip/fee or total; payment and footer lines are
+ * ignored, as is everything after the total.
+ */
+function parseReceipt(text: string, dateFormat: 'mdy' | 'dmy'): ParsedReceipt {
+  const receipt: ParsedReceipt = {
+    merchant: undefined,
+    date: undefined,
+    items: [],
+    subtotal: undefined,
+    tax_lines: [],
+    adjustments: [],
+    total: undefined,
+    ignored_lines: [],
+  };
+  let pendingName: string | undefined;
+  let lastItem: ParsedItem | undefined;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line.length === 0) return;
+    const lineNumber = index + 1;
+
+    const date = parseDate(line, dateFormat);
+    if (date && !receipt.date) receipt.date = date;
+
+    // A quantity on its own line describes the item above it, or the name line above it
+    const quantity = QUANTITY.exec(line);
+    if (quantity && !/[a-z]{2}/i.test(line.replace(QUANTITY, ''))) {
+      const lineTotal = TRAILING_AMOUNT.exec(line.replace(QUANTITY, ''));
+      if (lineTotal && pendingName && receipt.total === undefined) {
+        lastItem = {
+          line: lineNumber,
+          name: pendingName,
+          amount: Number(`${lineTotal[2]!.replace(/,/g, '')}.${lineTotal[3]}`),
+          quantity: Number(quantity[1]),
+          discount: 0,
+          tax_flag: lineTotal[5],
+        };
+        receipt.items.push(lastItem);
+        pendingName = undefined;
+      } else if (lastItem) {
+        lastItem.quantity = Number(quantity[1]);
+      }
+      return;
+    }
+
+    const match = TRAILING_AMOUNT.exec(line);
+    if (!match) {
+      if (date) return;
+      if (!receipt.merchant && /[a-z]{2}/i.test(line)) {
+        receipt.merchant = line.replace(/\s*#\s*\d+\s*$/, '').trim();
+        return;
+      }
+      pendingName = /[a-z]{2}/i.test(line) ? cleanLabel(line) : undefined;
+      return;
+    }
+
+    const negative = Boolean(match[1] || match[4]);
+    const magnitude = Number(`${match[2]!.replace(/,/g, '')}.${match[3]}`);
+    const amount = negative ? -magnitude : magnitude;
+    const rawLabel = line.slice(0, match.index).trim();
+    const label = rawLabel.toLowerCase();
+
+    if (receipt.total !== undefined) {
+      receipt.ignored_lines.push(line);
+      return;
+    }
+    if (SUBTOTAL_LABEL.test(label)) {
+      receipt.subtotal = amount;
+    } else if (INFO_LABEL.test(label)) {
+      receipt.ignored_lines.push(line);
+    } else if (TOTAL_LABEL.test(label) && !TAX_LABEL.test(label)) {
+      receipt.total = amount;
+    } else if (PAYMENT_LABEL.test(label)) {
+      receipt.ignored_lines.push(line);
+    } else if (TAX_LABEL.test(label)) {
+      receipt.tax_lines.push({ line: lineNumber, name: cleanLabel(rawLabel), amount });
+    } else if (TIP_LABEL.test(label) || FEE_LABEL.test(label)) {
+      receipt.adjustments.push({ line: lineNumber, name: cleanLabel(rawLabel), amount });
+    } else if (negative || DISCOUNT_LABEL.test(label)) {
+      // A discount right under an item belongs to it; anything else is a receipt-level coupon
+      if (lastItem && magnitude <= lastItem.amount - lastItem.discount) {
+        lastItem.discount = Math.round((lastItem.discount + magnitude) * 100) / 100;
+      } else {
+        receipt.adjustments.push({
+          line: lineNumber,
+          name: cleanLabel(rawLabel) || 'Discount',
+          amount: -magnitude,
+        });
+      }
+      return;
+    } else {
+      const itemQuantity = QUANTITY.exec(rawLabel) ?? LEADING_QUANTITY.exec(rawLabel);
+      const name =
+        cleanLabel(rawLabel.replace(QUANTITY, '').replace(LEADING_QUANTITY, '')) ||
+        pendingName ||
+        `Item ${receipt.items.length + 1}`;
+      lastItem = {
+        line: lineNumber,
+        name,
+        amount,
+        quantity: itemQuantity ? Number(itemQuantity[1]) : undefined,
+        discount: 0,
+        tax_flag: match[5],
+      };
+      receipt.items.push(lastItem);
+      pendingName = undefined;
+      return;
+    }
+    lastItem = undefined;
+    pendingName = undefined;
+  });
+
+  return receipt;
+}
+
+function itemKey(name: string): string {
+  // Split memos written by create_receipt_split_transaction look like "Lamp (x2) - note"
+  return normalizePayee(name.replace(/\s+\(x[\d.]+\).*$/, '').replace(/\s+-\s+.*$/, ''));
+}
+
+/**
+ * Collects categorized history: split lines keyed by their memo (one product each) and whole
+ * transactions keyed by merchant
+ */
+function buildItemHistory(
+  transactions: ynab.TransactionDetail[],
+  since: string,
+): ItemHistoryEntry[] {
+  const history: ItemHistoryEntry[] = [];
+  for (const transaction of transactions) {
+    if (transaction.deleted || transaction.transfer_account_id || transaction.date < since) {
+      continue;
+    }
+    const merchantKey = normalizePayee(canonicalizePayee(transaction.payee_name));
+    const subtransactions = (transaction.subtransactions ?? []).filter((sub) => !sub.deleted);
+    if (subtransactions.length === 0) {
+      if (!transaction.category_id) continue;
+      history.push({
+        item_key: transaction.memo ? itemKey(transaction.memo) : '',
+        merchant_key: merchantKey,
+        category_id: transaction.category_id,
+        date: transaction.date,
+      });
+      continue;
+    }
+    for (const sub of subtransactions) {
+      if (!sub.category_id || sub.transfer_account_id) continue;
+      history.push({
+        item_key: sub.memo ? itemKey(sub.memo) : '',
+        merchant_key: merchantKey,
+        category_id: sub.category_id,
+        date: transaction.date,
+      });
+    }
+  }
+  return history;
+}
+
+function suggestCategory(
+  itemName: string,
+  merchantKey: string,
+  history: ItemHistoryEntry[],
+  categoryNames: Map<string, string>,
+): CategorySuggestion | undefined {
+  const key = itemKey(itemName);
+  const scores = new Map<string, { score: number; count: number }>();
+  const add = (categoryId: string, weight: number) => {
+    const entry = scores.get(categoryId) ?? { score: 0, count: 0 };
+    entry.score += weight;
+    entry.count += 1;
+    scores.set(categoryId, entry);
+  };
+
+  for (const entry of history) {
+    if (!entry.item_key || !key) continue;
+    const sameMerchant = merchantKey !== '' && entry.merchant_key === merchantKey;
+    if (entry.item_key === key) {
+      add(entry.category_id, sameMerchant ? 3 : 2);
+    } else if (payeeSimilarity(entry.item_key, key) >= SIMILAR_ITEM_THRESHOLD) {
+      add(entry.category_id, 1);
+    }
+  }
+  let source: CategorySuggestion['source'] = 'item_history';
+  if (scores.size === 0 && merchantKey !== '') {
+    source = 'merchant_history';
+    for (const entry of history) {
+      if (entry.merchant_key === merchantKey) add(entry.category_id, 1);
+    }
+  }
+  if (scores.size === 0) return undefined;
+
+  const total = [...scores.values()].reduce((sum, entry) => sum + entry.score, 0);
+  const [categoryId, best] = [...scores.entries()].sort(
+    (a, b) => b[1].score - a[1].score || b[1].count - a[1].count || a[0].localeCompare(b[0]),
+  )[0]!;
+  const support = 0.5 + 0.5 * Math.min(1, best.count / FULL_EVIDENCE_COUNT);
+  const factor = source === 'merchant_history' ? MERCHANT_CONFIDENCE_FACTOR : 1;
+  return {
+    category_id: categoryId,
+    category_name: categoryNames.get(categoryId),
+    confidence: Math.round(100 * (best.score / total) * support * factor),
+    source,
+  };
+}
+
+/**
+ * Handles the ynab:parse_receipt_text tool call
+ * Parses pasted or OCR'd receipt text without any network call, checks the arithmetic, and builds
+ * a create_receipt_split_transaction draft with categories suggested from the budget's history
+ */
+export async function handleParseReceiptText(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: ParseReceiptTextParams,
+): Promise<CallToolResult>;
+export async function handleParseReceiptText(
+  ynabAPI: ynab.API,
+  params: ParseReceiptTextParams,
+): Promise<CallToolResult>;
+export async function handleParseReceiptText(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | ParseReceiptTextParams,
+  maybeParams?: ParseReceiptTextParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const receipt = parseReceipt(params.text, params.date_format ?? 'mdy');
+      if (receipt.items.length === 0) {
+        throw new ValidationError('No line items found in the receipt text', undefined, [
+          'Each item needs its price at the end of the line, e.g. "MILK 2L   4.99"',
+        ]);
+      }
+
+      const historyMonths = params.history_months ?? DEFAULT_HISTORY_MONTHS;
+      const [transactionsResult, categoriesResult] = await Promise.all([
+        deltaFetcher.fetchTransactions(params.budget_id),
+        deltaFetcher.fetchCategories(params.budget_id),
+      ]);
+      const categoryNames = new Map<string, string>();
+      for (const group of categoriesResult.data) {
+        if (group.deleted) continue;
+        for (const category of group.categories) {
+          if (category.deleted || category.hidden) continue;
+          categoryNames.set(category.id, category.name);
+        }
+      }
+      const since = new Date();
+      since.setUTCMonth(since.getUTCMonth() - historyMonths);
+      const history = buildItemHistory(
+        transactionsResult.data,
+        since.toISOString().slice(0, 10),
+      ).filter((entry) => categoryNames.has(entry.category_id));
+
+      const payeeName = params.payee_name ?? receipt.merchant;
+      const merchantKey = normalizePayee(canonicalizePayee(payeeName));
+      const items = receipt.items.map((item) => ({
+        item,
+        suggestion: suggestCategory(item.name, merchantKey, history, categoryNames),
+      }));
+
+      // Arithmetic is done in milliunits so rounding never hides a misread line
+      const sum = (values: number[]) =>
+        values.reduce((total, value) => total + amountToMilliunits(value), 0);
+      const itemsTotal = sum(receipt.items.map((item) => item.amount - item.discount));
+      const tax = sum(receipt.tax_lines.map((line) => line.amount));
+      const adjustments = sum(receipt.adjustments.map((line) => line.amount));
+      const computedTotal = itemsTotal + tax + adjustments;
+      const warnings: string[] = [];
+
+      const subtotalMatches =
+        receipt.subtotal === undefined ||
+        Math.abs(amountToMilliunits(receipt.subtotal) - itemsTotal) <= TOLERANCE_MILLIUNITS;
+      if (!subtotalMatches) {
+        warnings.push(
+          `Items add up to ${milliunitsToAmount(itemsTotal)} but the receipt subtotal is ${receipt.subtotal}; a line may have been missed or misread`,
+        );
+      }
+      const totalMatches =
+        receipt.total !== undefined &&
+        Math.abs(amountToMilliunits(receipt.total) - computedTotal) <= TOLERANCE_MILLIUNITS;
+      if (receipt.total === undefined) {
+        warnings.push('No total found; the computed total was used');
+      } else if (!totalMatches) {
+        warnings.push(
+          `Items, tax and adjustments add up to ${milliunitsToAmount(computedTotal)} but the receipt total is ${receipt.total}`,
+        );
+      }
+      if (receipt.tax_lines.length > 1) {
+        warnings.push(
+          'Several tax lines found; the draft spreads their sum over all items. Give items a tax_class and pass tax_lines to allocate each rate separately',
+        );
+      }
+
+      const missingFields: string[] = [];
+      if (!params.account_id) missingFields.push('account_id');
+      if (!payeeName) missingFields.push('payee_name');
+      const unassigned = items.filter(({ suggestion }) => !suggestion).length;
+      if (unassigned > 0) missingFields.push(`category_id for ${unassigned} item(s)`);
+
+      const groups = new Map<string | null, typeof items>();
+      for (const entry of items) {
+        const key = entry.suggestion?.category_id ?? null;
+        groups.set(key, [...(groups.get(key) ?? []), entry]);
+      }
+      const draft = {
+        budget_id: params.budget_id,
+        ...(params.account_id && { account_id: params.account_id }),
+        ...(payeeName && { payee_name: payeeName }),
+        ...(receipt.date && { date: receipt.date }),
+        receipt_subtotal: milliunitsToAmount(itemsTotal),
+        receipt_tax: milliunitsToAmount(tax),
+        ...(receipt.adjustments.length > 0 && {
+          adjustments: receipt.adjustments.map((line) => ({
+            name: line.name,
+            amount: line.amount,
+          })),
+        }),
+        receipt_total: milliunitsToAmount(
+          receipt.total !== undefined ? amountToMilliunits(receipt.total) : computedTotal,
+        ),
+        categories: [...groups.entries()].map(([categoryId, entries]) => ({
+          category_id: categoryId,
+          category_name: categoryId
+            ? (entries[0]!.suggestion?.category_name ?? null)
+            : 'Unassigned',
+          items: entries.map(({ item }) => ({
+            name: item.name,
+            amount: item.amount,
+            ...(item.quantity !== undefined && { quantity: item.quantity }),
+            ...(item.discount > 0 && { discount: item.discount }),
+          })),
+        })),
+      };
+
+      const schemaCheck =
+        missingFields.length === 0 && subtotalMatches && totalMatches
+          ? CreateReceiptSplitTransactionSchema.safeParse(draft)
+          : undefined;
+      if (schemaCheck && !schemaCheck.success) {
+        warnings.push(...schemaCheck.error.issues.map((issue) => issue.message));
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              merchant: receipt.merchant ?? null,
+              date: receipt.date ?? null,
+              items: items.map(({ item, suggestion }) => ({
+                line: item.line,
+                name: item.name,
+                amount: item.amount,
+                quantity: item.quantity ?? null,
+                discount: item.discount,
+                tax_flag: item.tax_flag ?? null,
+                suggested_category: suggestion ?? null,
+              })),
+              subtotal: receipt.subtotal ?? null,
+              tax_lines: receipt.tax_lines,
+              adjustments: receipt.adjustments,
+              total: receipt.total ?? null,
+              validation: {
+                items_total: milliunitsToAmount(itemsTotal),
+                computed_total: milliunitsToAmount(computedTotal),
+                subtotal_matches: subtotalMatches,
+                total_matches: totalMatches,
+                warnings,
+              },
+              ignored_lines: receipt.ignored_lines,
+              ready_to_submit: schemaCheck?.success === true,
+              missing_fields: missingFields,
+              draft,
+              cached: transactionsResult.wasCached,
+              cache_info: transactionsResult.wasCached
+                ? `Data retrieved from cache for improved performance${transactionsResult.usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:parse_receipt_text',
+    'parsing receipt text',
+  );
+}
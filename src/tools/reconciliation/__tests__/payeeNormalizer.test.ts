@@ -6,6 +6,8 @@ import {
   tokenBasedSimilarity,
   payeeSimilarity,
   payeeContains,
+  canonicalizePayee,
+  isAbbreviationOf,
 } from '../payeeNormalizer.js';
 
 describe('payeeNormalizer', () => {
@@ -254,6 +256,41 @@ describe('payeeNormalizer', () => {
     });
   });
 
+  describe('canonicalizePayee', () => {
+    it('should strip store numbers and the location that follows', () => {
+      expect(canonicalizePayee('SHELL #1234 OAKVILLE ON')).toBe('shell');
+      expect(canonicalizePayee('Shell Store 88 - Mississauga')).toBe('shell');
+    });
+
+    it('should strip card and reference suffixes', () => {
+      expect(canonicalizePayee('AMZN MKTP CA*123456789')).toBe('amzn mktp');
+      expect(canonicalizePayee('UBER *TRIP')).toBe('uber');
+      expect(canonicalizePayee('COSTCO WHOLESALE xxxx4821')).toBe('costco wholesale');
+    });
+
+    it('should strip processor prefixes, province tails and domain suffixes', () => {
+      expect(canonicalizePayee('SQ *BLUE BOTTLE COFFEE')).toBe('blue bottle coffee');
+      expect(canonicalizePayee('Tim Hortons ON')).toBe('tim hortons');
+      expect(canonicalizePayee('Amazon.ca')).toBe('amazon');
+      expect(canonicalizePayee('NETFLIX.COM')).toBe('netflix');
+    });
+
+    it('should keep single-word payees that look like region codes', () => {
+      expect(canonicalizePayee('ON')).toBe('on');
+      expect(canonicalizePayee('')).toBe('');
+      expect(canonicalizePayee('#1234')).toBe('');
+    });
+  });
+
+  describe('isAbbreviationOf', () => {
+    it('should detect in-order abbreviations sharing the first letter', () => {
+      expect(isAbbreviationOf('amzn', 'amazon')).toBe(true);
+      expect(isAbbreviationOf('mzn', 'amazon')).toBe(false);
+      expect(isAbbreviationOf('amaz', 'amaz')).toBe(false);
+      expect(isAbbreviationOf('azmn', 'amazon')).toBe(false);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle very long payee names', () => {
       const longPayee = 'A'.repeat(500);
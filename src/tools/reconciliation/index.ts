@@ -24,7 +24,13 @@ import { resolveDeltaFetcherArgs } from '../deltaSupport.js';
 export type * from './types.js';
 export { analyzeReconciliation } from './analyzer.js';
 export { findMatches, findBestMatch } from './matcher.js';
-export { normalizePayee, normalizedMatch, fuzzyMatch, payeeSimilarity } from './payeeNormalizer.js';
+export {
+  normalizePayee,
+  normalizedMatch,
+  fuzzyMatch,
+  payeeSimilarity,
+  canonicalizePayee,
+} from './payeeNormalizer.js';
 
 /**
  * Helper function to determine audit data source based on fetch result
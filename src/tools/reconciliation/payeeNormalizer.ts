@@ -19,6 +19,65 @@ export function normalizePayee(payee: string | null | undefined): string {
   return payee.toLowerCase().replace(/[^a-z0-9]/g, ''); // Remove all non-alphanumeric
 }
 
+// Canadian provinces/territories, US states and country codes seen at the end of card descriptors
+const REGION_CODES = new Set(
+  (
+    'ab bc mb nb nl ns nt nu on pe qc sk yt ' +
+    'al ak az ar ca co ct de dc fl ga hi id il in ia ks ky la me md ma mi mn ms mo mt ne nv nh ' +
+    'nj nm ny nc nd oh ok or pa ri sc sd tn tx ut vt va wa wv wi wy can usa us'
+  ).split(' '),
+);
+const TRAILING_NOISE = new Set(['com', 'net', 'org', 'inc', 'ltd', 'llc', 'corp']);
+const PROCESSOR_PREFIX = /^(?:sq|tst|sp|pp|ppl|paypal|pos|dd)\s*\*\s*/;
+// Store numbers ("#1234", "store 12"), reference/card suffixes ("*123456") and masked card numbers
+const LOCATION_MARKER = /#\s*\d+|\b(?:store|str|unit|loc)\.?\s*\d+\b|\*\s*[a-z0-9]+|\bx*\d{3,}\b/g;
+
+/**
+ * Reduces a payee to its merchant name for clustering
+ * - Drops payment processor prefixes ("SQ *", "TST*", "PAYPAL *")
+ * - Drops store numbers, reference/card suffixes and everything after them (usually the city)
+ * - Drops a trailing province/state code and domain/company suffixes
+ *
+ * @example
+ * canonicalizePayee("SHELL #1234 OAKVILLE ON") => "shell"
+ * canonicalizePayee("AMZN MKTP CA*123456789") => "amzn mktp"
+ * canonicalizePayee("Amazon.ca") => "amazon"
+ */
+export function canonicalizePayee(payee: string | null | undefined): string {
+  if (!payee) return '';
+
+  const text = payee.toLowerCase().replace(PROCESSOR_PREFIX, '');
+  const merchant = text
+    .replace(LOCATION_MARKER, '|')
+    .split('|')
+    .find((segment) => /[a-z]/.test(segment));
+  if (!merchant) return '';
+
+  const tokens = merchant.split(/[^a-z0-9]+/).filter(Boolean);
+  while (
+    tokens.length > 1 &&
+    (TRAILING_NOISE.has(tokens[tokens.length - 1]!) || REGION_CODES.has(tokens[tokens.length - 1]!))
+  ) {
+    tokens.pop();
+  }
+  return tokens.join(' ');
+}
+
+/**
+ * Returns true if `short` reads as an abbreviation of `long`: same first letter and all of its
+ * characters appear in order (e.g. "amzn" for "amazon")
+ */
+export function isAbbreviationOf(short: string, long: string): boolean {
+  if (short.length < 4 || short.length >= long.length || short[0] !== long[0]) return false;
+
+  let index = 0;
+  for (const char of long) {
+    if (char === short[index]) index++;
+    if (index === short.length) return true;
+  }
+  return false;
+}
+
 /**
  * Tier 1: Fast normalized string comparison
  * Returns true if normalized strings are identical
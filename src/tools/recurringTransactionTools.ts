@@ -0,0 +1,485 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { createHash } from 'crypto';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
+import type { DeltaCache } from '../server/deltaCache.js';
+import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
+import { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaWriteArgs } from './deltaSupport.js';
+import { canonicalizePayee, normalizePayee } from './reconciliation/payeeNormalizer.js';
+import { handleCreateScheduledTransaction } from './scheduledTransactionTools.js';
+import { parseToolResult, toolResultErrorMessage } from './toolResultSupport.js';
+
+const DEFAULT_HISTORY_MONTHS = 24;
+const DEFAULT_MIN_OCCURRENCES = 3;
+const DEFAULT_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Amounts within this share of each other belong to the same series, which tolerates price rises
+const AMOUNT_BAND_RATIO = 0.25;
+// ...or within this many milliunits, so small charges can still vary by a currency unit
+const AMOUNT_BAND_FLOOR = 2000;
+// Share of intervals that must match the cadence for a series to count as periodic
+const MIN_REGULARITY = 0.75;
+
+/**
+ * Detectable cadences with their nominal length, accepted interval drift and YNAB frequency
+ */
+const CADENCES = {
+  weekly: { days: 7, tolerance: 2, frequency: 'weekly' },
+  biweekly: { days: 14, tolerance: 3, frequency: 'everyOtherWeek' },
+  monthly: { days: 30, tolerance: 4, frequency: 'monthly' },
+  annual: { days: 365, tolerance: 10, frequency: 'yearly' },
+} as const;
+// A yearly charge only shows up twice in two years of history
+const ANNUAL_MIN_OCCURRENCES = 2;
+
+type Cadence = keyof typeof CADENCES;
+
+/**
+ * Schema for ynab:detect_recurring_transactions tool parameters
+ */
+export const DetectRecurringTransactionsSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    account_id: z.string().optional(),
+    history_months: z.number().int().min(2).max(60).optional(),
+    min_occurrences: z.number().int().min(2).max(24).optional(),
+    include_scheduled: z.boolean().optional(),
+    include_inactive: z.boolean().optional(),
+    limit: z.number().int().min(1).max(200).optional(),
+    create_scheduled: z.boolean().optional(),
+    series_ids: z.array(z.string().min(1)).min(1).max(50).optional(),
+    dry_run: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (data.series_ids && !data.create_scheduled) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'series_ids only applies when create_scheduled is true',
+        path: ['series_ids'],
+      });
+    }
+  });
+
+export type DetectRecurringTransactionsParams = z.infer<typeof DetectRecurringTransactionsSchema>;
+
+interface Occurrence {
+  id: string;
+  date: string;
+  amount: number;
+  account_id: string;
+  payee_id: string | null | undefined;
+  payee_name: string;
+  category_id: string | null | undefined;
+}
+
+interface RecurringSeries {
+  series_id: string;
+  payee_key: string;
+  cadence: Cadence;
+  regularity: number;
+  occurrences: Occurrence[];
+  next_expected_date: string;
+  active: boolean;
+  scheduled_transaction_id: string | null;
+}
+
+function toDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((toDate(b).getTime() - toDate(a).getTime()) / DAY_MS);
+}
+
+/**
+ * Steps one cadence forward; months keep the day of month, clamped to shorter months
+ */
+function advance(date: string, cadence: Cadence): string {
+  const next = toDate(date);
+  if (cadence === 'monthly' || cadence === 'annual') {
+    const day = next.getUTCDate();
+    next.setUTCDate(1);
+    next.setUTCMonth(next.getUTCMonth() + (cadence === 'monthly' ? 1 : 12));
+    const lastDay = new Date(
+      Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0),
+    ).getUTCDate();
+    next.setUTCDate(Math.min(day, lastDay));
+  } else {
+    next.setUTCDate(next.getUTCDate() + CADENCES[cadence].days);
+  }
+  return isoDate(next);
+}
+
+function isSameBand(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(b) * AMOUNT_BAND_RATIO, AMOUNT_BAND_FLOOR);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+}
+
+/**
+ * Matches the median gap between charges to a cadence, if enough of the gaps agree with it
+ */
+function classifyCadence(
+  dates: string[],
+  minOccurrences: number,
+): { cadence: Cadence; regularity: number } | undefined {
+  const intervals = dates.slice(1).map((date, index) => daysBetween(dates[index]!, date));
+  if (intervals.length === 0) return undefined;
+  const typical = median(intervals);
+
+  for (const [cadence, spec] of Object.entries(CADENCES) as [
+    Cadence,
+    (typeof CADENCES)[Cadence],
+  ][]) {
+    const required = cadence === 'annual' ? ANNUAL_MIN_OCCURRENCES : minOccurrences;
+    if (dates.length < required) continue;
+    if (Math.abs(typical - spec.days) > spec.tolerance) continue;
+    const regular = intervals.filter(
+      (interval) => Math.abs(interval - spec.days) <= spec.tolerance,
+    ).length;
+    const regularity = regular / intervals.length;
+    if (regularity >= MIN_REGULARITY) {
+      return { cadence, regularity: Math.round(regularity * 100) / 100 };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Splits one payee's history into amount bands so two subscriptions from the same merchant
+ * stay separate, while gradual price changes stay in one series
+ */
+function splitIntoBands(occurrences: Occurrence[]): Occurrence[][] {
+  const bands: Occurrence[][] = [];
+  for (const occurrence of occurrences) {
+    const band = bands.find((candidate) =>
+      isSameBand(occurrence.amount, candidate[candidate.length - 1]!.amount),
+    );
+    if (band) {
+      band.push(occurrence);
+    } else {
+      bands.push([occurrence]);
+    }
+  }
+  return bands;
+}
+
+function payeeKeyFor(payeeName: string | null | undefined): string {
+  return normalizePayee(canonicalizePayee(payeeName));
+}
+
+/**
+ * Derives a series ID from what identifies the series rather than its position in the history,
+ * so the ID stays the same between calls as new charges arrive
+ */
+function seriesIdFor(payeeKey: string, sign: number, cadence: Cadence, amounts: number[]): string {
+  // Whole currency units, so small price changes do not change the ID
+  const typicalAmount = Math.round(Math.abs(median(amounts)) / 1000);
+  return createHash('sha256')
+    .update(`${payeeKey}|${sign}|${cadence}|${typicalAmount}`)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+function findScheduledMatch(
+  series: { payee_key: string; occurrences: Occurrence[] },
+  scheduled: ynab.ScheduledTransactionDetail[],
+): ynab.ScheduledTransactionDetail | undefined {
+  const latest = series.occurrences[series.occurrences.length - 1]!;
+  return scheduled.find(
+    (candidate) =>
+      !candidate.deleted &&
+      Math.sign(candidate.amount) === Math.sign(latest.amount) &&
+      isSameBand(candidate.amount, latest.amount) &&
+      ((latest.payee_id && candidate.payee_id === latest.payee_id) ||
+        payeeKeyFor(candidate.payee_name) === series.payee_key),
+  );
+}
+
+function detectSeries(
+  transactions: ynab.TransactionDetail[],
+  scheduled: ynab.ScheduledTransactionDetail[],
+  options: { since: string; today: string; minOccurrences: number; accountId?: string },
+): RecurringSeries[] {
+  const byPayee = new Map<string, Occurrence[]>();
+  const sorted = transactions
+    .filter(
+      (transaction) =>
+        !transaction.deleted &&
+        !transaction.transfer_account_id &&
+        transaction.amount !== 0 &&
+        transaction.date >= options.since &&
+        transaction.date <= options.today &&
+        (!options.accountId || transaction.account_id === options.accountId),
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+
+  for (const transaction of sorted) {
+    const payeeKey = payeeKeyFor(transaction.payee_name);
+    if (!payeeKey) continue;
+    const key = `${payeeKey}|${Math.sign(transaction.amount)}`;
+    const occurrences = byPayee.get(key) ?? [];
+    occurrences.push({
+      id: transaction.id,
+      date: transaction.date,
+      amount: transaction.amount,
+      account_id: transaction.account_id,
+      payee_id: transaction.payee_id,
+      payee_name: transaction.payee_name ?? payeeKey,
+      category_id: transaction.category_id,
+    });
+    byPayee.set(key, occurrences);
+  }
+
+  const series: RecurringSeries[] = [];
+  for (const [key, occurrences] of byPayee) {
+    const [payeeKey, sign] = key.split('|') as [string, string];
+    const bands = splitIntoBands(occurrences);
+    for (const band of bands) {
+      // Several charges on one day (e.g. a refund and re-charge) count as one occurrence
+      const dates = [...new Set(band.map((occurrence) => occurrence.date))];
+      const classified = classifyCadence(dates, options.minOccurrences);
+      if (!classified) continue;
+
+      const last = band[band.length - 1]!;
+      const next = advance(last.date, classified.cadence);
+      const { tolerance } = CADENCES[classified.cadence];
+      const entry = { payee_key: payeeKey, occurrences: band };
+      series.push({
+        series_id: seriesIdFor(
+          payeeKey,
+          Number(sign),
+          classified.cadence,
+          band.map((occurrence) => occurrence.amount),
+        ),
+        payee_key: payeeKey,
+        cadence: classified.cadence,
+        regularity: classified.regularity,
+        occurrences: band,
+        next_expected_date: next,
+        // A missed charge (next date already past, beyond the drift allowance) suggests a cancellation
+        active: daysBetween(next, options.today) <= tolerance,
+        scheduled_transaction_id: findScheduledMatch(entry, scheduled)?.id ?? null,
+      });
+    }
+  }
+  return series;
+}
+
+function priceChanges(occurrences: Occurrence[]) {
+  const changes: { date: string; from: number; to: number }[] = [];
+  for (let index = 1; index < occurrences.length; index++) {
+    const previous = occurrences[index - 1]!;
+    const current = occurrences[index]!;
+    if (current.amount !== previous.amount) {
+      changes.push({
+        date: current.date,
+        from: milliunitsToAmount(previous.amount),
+        to: milliunitsToAmount(current.amount),
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Rolls a lapsed next date forward so new scheduled transactions never start in the past
+ */
+function firstUpcomingDate(series: RecurringSeries, today: string): string {
+  let date = series.next_expected_date;
+  while (date < today) {
+    date = advance(date, series.cadence);
+  }
+  return date;
+}
+
+function toScheduledRequest(series: RecurringSeries, budgetId: string, today: string) {
+  const latest = series.occurrences[series.occurrences.length - 1]!;
+  return {
+    budget_id: budgetId,
+    account_id: latest.account_id,
+    amount: latest.amount,
+    date: firstUpcomingDate(series, today),
+    frequency: CADENCES[series.cadence].frequency,
+    ...(latest.payee_id ? { payee_id: latest.payee_id } : { payee_name: latest.payee_name }),
+    ...(latest.category_id && { category_id: latest.category_id }),
+  };
+}
+
+/**
+ * Handles the ynab:detect_recurring_transactions tool call
+ * Mines the cached transaction history for periodic charges and income, and can schedule them
+ */
+export async function handleDetectRecurringTransactions(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: DetectRecurringTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleDetectRecurringTransactions(
+  ynabAPI: ynab.API,
+  params: DetectRecurringTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleDetectRecurringTransactions(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | DetectRecurringTransactionsParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | DetectRecurringTransactionsParams,
+  maybeParams?: DetectRecurringTransactionsParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const historyMonths = params.history_months ?? DEFAULT_HISTORY_MONTHS;
+      const limit = params.limit ?? DEFAULT_LIMIT;
+      const includeScheduled = params.include_scheduled ?? true;
+      const deltaFetcher = new DeltaFetcher(ynabAPI, deltaCache);
+
+      const today = isoDate(new Date());
+      const since = new Date();
+      since.setUTCMonth(since.getUTCMonth() - historyMonths);
+
+      const [transactionsResult, scheduledResult] = await Promise.all([
+        deltaFetcher.fetchTransactions(params.budget_id),
+        deltaFetcher.fetchScheduledTransactions(params.budget_id),
+      ]);
+
+      const detected = detectSeries(transactionsResult.data, scheduledResult.data, {
+        since: isoDate(since),
+        today,
+        minOccurrences: params.min_occurrences ?? DEFAULT_MIN_OCCURRENCES,
+        ...(params.account_id && { accountId: params.account_id }),
+      });
+      const visible = detected
+        .filter((series) => params.include_inactive || series.active)
+        .filter((series) => includeScheduled || !series.scheduled_transaction_id)
+        .sort(
+          (a, b) =>
+            Math.abs(b.occurrences[b.occurrences.length - 1]!.amount) -
+              Math.abs(a.occurrences[a.occurrences.length - 1]!.amount) ||
+            a.series_id.localeCompare(b.series_id),
+        );
+      const page = visible.slice(0, limit);
+
+      // Requested series are looked up among everything detected, not just the returned page
+      let candidates = page;
+      if (params.series_ids) {
+        const requested = new Set(params.series_ids);
+        const unknown = [...requested].filter(
+          (id) => !detected.some((series) => series.series_id === id),
+        );
+        if (unknown.length > 0) {
+          throw new ValidationError(
+            `Unknown series_ids: ${unknown.join(', ')}`,
+            'No recurring series with these IDs was detected for the given filters',
+            [
+              'Run detect_recurring_transactions without create_scheduled to get current series IDs',
+            ],
+          );
+        }
+        candidates = detected.filter((series) => requested.has(series.series_id));
+      }
+      const toSchedule = params.create_scheduled
+        ? candidates.filter((series) => series.active && !series.scheduled_transaction_id)
+        : [];
+
+      const created = new Map<string, string>();
+      const failed: { series_id: string; error: string }[] = [];
+      if (toSchedule.length > 0 && !params.dry_run) {
+        for (const series of toSchedule) {
+          const parsed = parseToolResult(
+            await handleCreateScheduledTransaction(
+              ynabAPI,
+              deltaCache,
+              knowledgeStore,
+              toScheduledRequest(series, params.budget_id, today),
+            ),
+          );
+          const scheduled = parsed?.['scheduled_transaction'] as { id?: string } | undefined;
+          if (scheduled?.id) {
+            created.set(series.series_id, scheduled.id);
+          } else {
+            failed.push({ series_id: series.series_id, error: toolResultErrorMessage(parsed) });
+          }
+        }
+      }
+
+      const plannedIds = new Set(toSchedule.map((series) => series.series_id));
+      const series = page.map((entry) => {
+        const amounts = entry.occurrences.map((occurrence) => occurrence.amount);
+        const latest = entry.occurrences[entry.occurrences.length - 1]!;
+        const scheduledId = entry.scheduled_transaction_id ?? created.get(entry.series_id) ?? null;
+        return {
+          series_id: entry.series_id,
+          payee_name: latest.payee_name,
+          payee_id: latest.payee_id ?? null,
+          account_id: latest.account_id,
+          category_id: latest.category_id ?? null,
+          cadence: entry.cadence,
+          frequency: CADENCES[entry.cadence].frequency,
+          regularity: entry.regularity,
+          occurrences: entry.occurrences.length,
+          average_amount: milliunitsToAmount(
+            Math.round(amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length),
+          ),
+          latest_amount: milliunitsToAmount(latest.amount),
+          first_date: entry.occurrences[0]!.date,
+          last_date: latest.date,
+          next_expected_date: entry.next_expected_date,
+          status: entry.active ? 'active' : 'lapsed',
+          price_changes: priceChanges(entry.occurrences),
+          scheduled_transaction_id: scheduledId,
+          ...(plannedIds.has(entry.series_id) && {
+            schedule: params.dry_run
+              ? 'would_create'
+              : created.has(entry.series_id)
+                ? 'created'
+                : 'failed',
+          }),
+        };
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              ...(params.create_scheduled && params.dry_run && { dry_run: true }),
+              history_since: isoDate(since),
+              total_series: visible.length,
+              unscheduled_count: visible.filter((entry) => !entry.scheduled_transaction_id).length,
+              series,
+              ...(params.create_scheduled && {
+                scheduling: params.dry_run
+                  ? {
+                      would_create: toSchedule.map((entry) =>
+                        toScheduledRequest(entry, params.budget_id, today),
+                      ),
+                    }
+                  : { created: created.size, failed: failed.length, failed_series_ids: failed },
+              }),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:detect_recurring_transactions',
+    'detecting recurring transactions',
+  );
+}
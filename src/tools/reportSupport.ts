@@ -0,0 +1,91 @@
+import { z } from 'zod/v4';
+import {
+  toMoneyValue,
+  getCurrencyCode,
+  getDecimalDigits,
+  type MoneyValue,
+} from '../utils/money.js';
+import type { DeltaFetcher } from './deltaFetcher.js';
+
+export const ReportPeriodSchema = z.enum(['week', 'month', 'quarter']);
+
+export type ReportPeriod = z.infer<typeof ReportPeriodSchema>;
+
+/** Names YNAB has used for the income category */
+export const READY_TO_ASSIGN_NAMES = new Set(['Inflow: Ready to Assign', 'Inflow: To be Budgeted']);
+
+/**
+ * Currency of a budget, used to build MoneyValue totals in report tools
+ */
+export interface BudgetCurrency {
+  currency: string;
+  decimalDigits: number;
+  toMoney(milliunits: number): MoneyValue;
+}
+
+/**
+ * Looks up the budget's currency format from the cached budget list (USD if the budget is missing)
+ */
+export async function resolveBudgetCurrency(
+  deltaFetcher: DeltaFetcher,
+  budgetId: string,
+): Promise<BudgetCurrency> {
+  const budgets = await deltaFetcher.fetchBudgets();
+  const format = budgets.data.find((budget) => budget.id === budgetId)?.currency_format;
+  const currency = getCurrencyCode(format);
+  const decimalDigits = getDecimalDigits(format);
+  return {
+    currency,
+    decimalDigits,
+    toMoney: (milliunits) => toMoneyValue(milliunits, currency, decimalDigits),
+  };
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * First day of the period containing an ISO date. Weeks start on Monday.
+ */
+export function periodStart(date: string, period: ReportPeriod): string {
+  const [year, month] = [Number(date.slice(0, 4)), Number(date.slice(5, 7))];
+  if (period === 'month') {
+    return `${date.slice(0, 7)}-01`;
+  }
+  if (period === 'quarter') {
+    const quarterMonth = month - ((month - 1) % 3);
+    return `${year}-${String(quarterMonth).padStart(2, '0')}-01`;
+  }
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return toISODate(day);
+}
+
+/**
+ * First day of the period after the one starting at `start`
+ */
+function nextPeriodStart(start: string, period: ReportPeriod): string {
+  const date = new Date(`${start}T00:00:00Z`);
+  if (period === 'week') {
+    date.setUTCDate(date.getUTCDate() + 7);
+  } else {
+    date.setUTCMonth(date.getUTCMonth() + (period === 'month' ? 1 : 3));
+  }
+  return toISODate(date);
+}
+
+/**
+ * Start dates of every period overlapping [sinceDate, untilDate], oldest first
+ */
+export function listPeriods(sinceDate: string, untilDate: string, period: ReportPeriod): string[] {
+  const periods: string[] = [];
+  for (
+    let start = periodStart(sinceDate, period);
+    start <= untilDate;
+    start = nextPeriodStart(start, period)
+  ) {
+    periods.push(start);
+  }
+  return periods;
+}
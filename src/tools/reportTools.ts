@@ -0,0 +1,595 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { addMilli } from '../utils/money.js';
+import type { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaFetcherArgs } from './deltaSupport.js';
+import {
+  READY_TO_ASSIGN_NAMES,
+  ReportPeriodSchema,
+  listPeriods,
+  periodStart,
+  resolveBudgetCurrency,
+} from './reportSupport.js';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_REPORT_MONTHS = 3;
+const DEFAULT_GROUP_LIMIT = 50;
+const UNCATEGORIZED = { id: 'uncategorized', name: 'Uncategorized' };
+
+/**
+ * Schema for ynab:spending_report tool parameters
+ */
+export const SpendingReportSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    since_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    until_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    group_by: z.enum(['category_group', 'category', 'payee', 'account']).optional(),
+    period: ReportPeriodSchema.optional(),
+    account_id: z.string().min(1).optional(),
+    category_ids: z.array(z.string().min(1)).min(1).optional(),
+    limit: z.number().int().min(1).max(500).optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (data.since_date && data.until_date && data.since_date > data.until_date) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'since_date must be on or before until_date',
+        path: ['since_date'],
+      });
+    }
+  });
+
+export type SpendingReportParams = z.infer<typeof SpendingReportSchema>;
+
+type SpendingGroupBy = NonNullable<SpendingReportParams['group_by']>;
+
+/**
+ * One categorized line of spending: a whole transaction or one split line
+ */
+interface SpendingLine {
+  date: string;
+  amount: number;
+  account_id: string;
+  account_name: string;
+  payee_id: string | null | undefined;
+  payee_name: string | null | undefined;
+  category_id: string | null | undefined;
+}
+
+interface SpendingGroup {
+  id: string;
+  name: string;
+  category_group_name?: string;
+  net: number;
+  outflows: number;
+  refunds: number;
+  transactions: Set<string>;
+  by_period: Map<string, number>;
+}
+
+/**
+ * Expands a transaction into its categorized lines. Transfers between budget accounts (including
+ * credit card payments) carry no category and are skipped; transfers to tracking accounts are
+ * categorized and kept.
+ */
+function categorizedLines(transaction: ynab.TransactionDetail): SpendingLine[] {
+  const base = {
+    date: transaction.date,
+    account_id: transaction.account_id,
+    account_name: transaction.account_name,
+  };
+  const subtransactions = (transaction.subtransactions ?? []).filter((sub) => !sub.deleted);
+  const lines: (SpendingLine & { transfer_account_id: string | null | undefined })[] =
+    subtransactions.length > 0
+      ? subtransactions.map((sub) => ({
+          ...base,
+          amount: sub.amount,
+          payee_id: sub.payee_id ?? transaction.payee_id,
+          payee_name: sub.payee_name ?? transaction.payee_name,
+          category_id: sub.category_id,
+          transfer_account_id: sub.transfer_account_id,
+        }))
+      : [
+          {
+            ...base,
+            amount: transaction.amount,
+            payee_id: transaction.payee_id,
+            payee_name: transaction.payee_name,
+            category_id: transaction.category_id,
+            transfer_account_id: transaction.transfer_account_id,
+          },
+        ];
+
+  return lines.filter((line) => !(line.transfer_account_id && !line.category_id));
+}
+
+/**
+ * Categorized lines that count as spending. Income (Ready to Assign) is not spending.
+ */
+function spendingLines(
+  transaction: ynab.TransactionDetail,
+  readyToAssignIds: Set<string>,
+): SpendingLine[] {
+  return categorizedLines(transaction).filter(
+    (line) => !(line.category_id && readyToAssignIds.has(line.category_id)),
+  );
+}
+
+/**
+ * Handles the ynab:spending_report tool call
+ * Totals spending from the delta-cached transaction snapshot by category group, category, payee
+ * or account, bucketed by week, month or quarter. Refunds net against outflows in the same group.
+ */
+export async function handleSpendingReport(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: SpendingReportParams,
+): Promise<CallToolResult>;
+export async function handleSpendingReport(
+  ynabAPI: ynab.API,
+  params: SpendingReportParams,
+): Promise<CallToolResult>;
+export async function handleSpendingReport(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | SpendingReportParams,
+  maybeParams?: SpendingReportParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const groupBy: SpendingGroupBy = params.group_by ?? 'category';
+      const period = params.period ?? 'month';
+      const limit = params.limit ?? DEFAULT_GROUP_LIMIT;
+      const untilDate = params.until_date ?? new Date().toISOString().slice(0, 10);
+      let sinceDate = params.since_date;
+      if (!sinceDate) {
+        const since = new Date(`${untilDate.slice(0, 7)}-01T00:00:00Z`);
+        since.setUTCMonth(since.getUTCMonth() - (DEFAULT_REPORT_MONTHS - 1));
+        sinceDate = since.toISOString().slice(0, 10);
+      }
+
+      const [transactionsResult, categoriesResult, accountsResult, currency] = await Promise.all([
+        deltaFetcher.fetchTransactions(params.budget_id),
+        deltaFetcher.fetchCategories(params.budget_id),
+        deltaFetcher.fetchAccounts(params.budget_id),
+        resolveBudgetCurrency(deltaFetcher, params.budget_id),
+      ]);
+
+      // Deleted and hidden categories still name past spending
+      const categories = new Map<string, { name: string; group_id: string; group_name: string }>();
+      const readyToAssignIds = new Set<string>();
+      for (const group of categoriesResult.data) {
+        for (const category of group.categories) {
+          categories.set(category.id, {
+            name: category.name,
+            group_id: group.id,
+            group_name: group.name,
+          });
+          if (READY_TO_ASSIGN_NAMES.has(category.name)) readyToAssignIds.add(category.id);
+        }
+      }
+      const onBudgetAccounts = new Set(
+        accountsResult.data.filter((account) => account.on_budget).map((account) => account.id),
+      );
+      const categoryFilter = params.category_ids ? new Set(params.category_ids) : undefined;
+
+      const keyOf = (
+        line: SpendingLine,
+      ): Pick<SpendingGroup, 'id' | 'name' | 'category_group_name'> => {
+        const category = line.category_id ? categories.get(line.category_id) : undefined;
+        switch (groupBy) {
+          case 'category_group':
+            return category ? { id: category.group_id, name: category.group_name } : UNCATEGORIZED;
+          case 'category':
+            return category && line.category_id
+              ? {
+                  id: line.category_id,
+                  name: category.name,
+                  category_group_name: category.group_name,
+                }
+              : UNCATEGORIZED;
+          case 'payee':
+            return {
+              id: line.payee_id ?? `name:${line.payee_name ?? ''}`,
+              name: line.payee_name ?? '(no payee)',
+            };
+          case 'account':
+            return { id: line.account_id, name: line.account_name };
+        }
+      };
+
+      const periods = listPeriods(sinceDate, untilDate, period);
+      const groups = new Map<string, SpendingGroup>();
+      const periodTotals = new Map<string, number>(periods.map((start) => [start, 0]));
+      let outflows = 0;
+      let refunds = 0;
+      const counted = new Set<string>();
+
+      for (const transaction of transactionsResult.data) {
+        if (transaction.deleted || transaction.date < sinceDate || transaction.date > untilDate) {
+          continue;
+        }
+        if (!onBudgetAccounts.has(transaction.account_id)) continue;
+        if (params.account_id && transaction.account_id !== params.account_id) continue;
+
+        for (const line of spendingLines(transaction, readyToAssignIds)) {
+          if (categoryFilter && !(line.category_id && categoryFilter.has(line.category_id))) {
+            continue;
+          }
+          const key = keyOf(line);
+          const group = groups.get(key.id) ?? {
+            ...key,
+            net: 0,
+            outflows: 0,
+            refunds: 0,
+            transactions: new Set<string>(),
+            by_period: new Map<string, number>(),
+          };
+          const bucket = periodStart(line.date, period);
+          group.net = addMilli(group.net, line.amount);
+          if (line.amount < 0) {
+            group.outflows = addMilli(group.outflows, line.amount);
+            outflows = addMilli(outflows, line.amount);
+          } else {
+            group.refunds = addMilli(group.refunds, line.amount);
+            refunds = addMilli(refunds, line.amount);
+          }
+          group.transactions.add(transaction.id);
+          group.by_period.set(bucket, addMilli(group.by_period.get(bucket) ?? 0, line.amount));
+          periodTotals.set(bucket, addMilli(periodTotals.get(bucket) ?? 0, line.amount));
+          counted.add(transaction.id);
+          groups.set(key.id, group);
+        }
+      }
+
+      // Biggest spending first
+      const sorted = [...groups.values()].sort(
+        (a, b) => a.net - b.net || a.name.localeCompare(b.name),
+      );
+      const shown = sorted.slice(0, limit);
+      const rest = sorted.slice(limit);
+      const total = addMilli(outflows, refunds);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              since_date: sinceDate,
+              until_date: untilDate,
+              group_by: groupBy,
+              period,
+              currency: currency.currency,
+              total: currency.toMoney(total),
+              outflows: currency.toMoney(outflows),
+              refunds: currency.toMoney(refunds),
+              transaction_count: counted.size,
+              periods: periods.map((start) => ({
+                period_start: start,
+                total: currency.toMoney(periodTotals.get(start) ?? 0),
+              })),
+              group_count: sorted.length,
+              groups: shown.map((group) => ({
+                id: group.id,
+                name: group.name,
+                ...(group.category_group_name && {
+                  category_group_name: group.category_group_name,
+                }),
+                total: currency.toMoney(group.net),
+                outflows: currency.toMoney(group.outflows),
+                refunds: currency.toMoney(group.refunds),
+                share_of_total: total !== 0 ? Math.round((1000 * group.net) / total) / 10 : 0,
+                transaction_count: group.transactions.size,
+                by_period: periods
+                  .filter((start) => group.by_period.has(start))
+                  .map((start) => ({
+                    period_start: start,
+                    total: currency.toMoney(group.by_period.get(start)!),
+                  })),
+              })),
+              ...(rest.length > 0 && {
+                other: {
+                  group_count: rest.length,
+                  total: currency.toMoney(rest.reduce((sum, group) => addMilli(sum, group.net), 0)),
+                },
+              }),
+              cached: transactionsResult.wasCached,
+              cache_info: transactionsResult.wasCached
+                ? `Data retrieved from cache for improved performance${transactionsResult.usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:spending_report',
+    'building spending report',
+  );
+}
+
+const DEFAULT_SUMMARY_MONTHS = 6;
+const DEFAULT_CONTRIBUTOR_LIMIT = 5;
+const ROLLING_WINDOWS = { three_month: 3, six_month: 6, twelve_month: 12 } as const;
+
+/**
+ * Schema for ynab:income_expense_summary tool parameters
+ */
+export const IncomeExpenseSummarySchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    months: z.number().int().min(1).max(36).optional(),
+    until_month: z.string().regex(ISO_DATE, 'Month must be in YYYY-MM-DD format').optional(),
+    income_payee_ids: z.array(z.string().min(1)).min(1).optional(),
+    contributor_limit: z.number().int().min(1).max(50).optional(),
+  })
+  .strict();
+
+export type IncomeExpenseSummaryParams = z.infer<typeof IncomeExpenseSummarySchema>;
+
+interface MonthFlows {
+  income: number;
+  expenses: number;
+  income_by_payee: Map<string, { name: string; amount: number }>;
+  expenses_by_category: Map<string, { name: string; amount: number }>;
+}
+
+function addToSource(
+  sources: Map<string, { name: string; amount: number }>,
+  id: string,
+  name: string,
+  amount: number,
+): void {
+  const source = sources.get(id) ?? { name, amount: 0 };
+  source.amount = addMilli(source.amount, amount);
+  sources.set(id, source);
+}
+
+function savingsRate(income: number, net: number): number | null {
+  return income > 0 ? Math.round((1000 * net) / income) / 10 : null;
+}
+
+function shiftMonth(month: string, offset: number): string {
+  const date = new Date(`${month}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + offset);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Handles the ynab:income_expense_summary tool call
+ * Splits each month into income and expenses, with savings rate, rolling averages and the
+ * categories and payees that moved the most since the month before. Income comes from the cached
+ * month summaries plus inflows from income-flagged payees; expenses come from the delta-cached
+ * transaction snapshot.
+ */
+export async function handleIncomeExpenseSummary(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: IncomeExpenseSummaryParams,
+): Promise<CallToolResult>;
+export async function handleIncomeExpenseSummary(
+  ynabAPI: ynab.API,
+  params: IncomeExpenseSummaryParams,
+): Promise<CallToolResult>;
+export async function handleIncomeExpenseSummary(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | IncomeExpenseSummaryParams,
+  maybeParams?: IncomeExpenseSummaryParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const monthCount = params.months ?? DEFAULT_SUMMARY_MONTHS;
+      const contributorLimit = params.contributor_limit ?? DEFAULT_CONTRIBUTOR_LIMIT;
+      // The current month is still in progress, so the default range ends with the month before
+      const untilMonth = params.until_month
+        ? periodStart(params.until_month, 'month')
+        : shiftMonth(periodStart(new Date().toISOString().slice(0, 10), 'month'), -1);
+      const fromMonth = shiftMonth(untilMonth, -(monthCount - 1));
+      const historyStart = shiftMonth(fromMonth, -(ROLLING_WINDOWS.twelve_month - 1));
+      const historyEnd = shiftMonth(untilMonth, 1);
+      const incomePayees = new Set(params.income_payee_ids ?? []);
+
+      const [monthsResult, transactionsResult, categoriesResult, accountsResult, currency] =
+        await Promise.all([
+          deltaFetcher.fetchMonths(params.budget_id),
+          deltaFetcher.fetchTransactions(params.budget_id),
+          deltaFetcher.fetchCategories(params.budget_id),
+          deltaFetcher.fetchAccounts(params.budget_id),
+          resolveBudgetCurrency(deltaFetcher, params.budget_id),
+        ]);
+
+      const categoryNames = new Map<string, string>();
+      const readyToAssignIds = new Set<string>();
+      for (const group of categoriesResult.data) {
+        for (const category of group.categories) {
+          categoryNames.set(category.id, category.name);
+          if (READY_TO_ASSIGN_NAMES.has(category.name)) readyToAssignIds.add(category.id);
+        }
+      }
+      const onBudgetAccounts = new Set(
+        accountsResult.data.filter((account) => account.on_budget).map((account) => account.id),
+      );
+
+      const summaries = monthsResult.data.filter((month) => !month.deleted);
+      const budgetStart = summaries.reduce(
+        (first, month) => (month.month < first ? month.month : first),
+        untilMonth,
+      );
+      const allMonths = listPeriods(historyStart, untilMonth, 'month');
+      const flows = new Map<string, MonthFlows>(
+        allMonths.map((month) => [
+          month,
+          {
+            income: summaries.find((summary) => summary.month === month)?.income ?? 0,
+            expenses: 0,
+            income_by_payee: new Map(),
+            expenses_by_category: new Map(),
+          },
+        ]),
+      );
+
+      for (const transaction of transactionsResult.data) {
+        if (
+          transaction.deleted ||
+          transaction.date < historyStart ||
+          transaction.date >= historyEnd
+        ) {
+          continue;
+        }
+        if (!onBudgetAccounts.has(transaction.account_id)) continue;
+        const month = flows.get(periodStart(transaction.date, 'month'));
+        if (!month) continue;
+
+        for (const line of categorizedLines(transaction)) {
+          const payeeId = line.payee_id ?? `name:${line.payee_name ?? ''}`;
+          const payeeName = line.payee_name ?? '(no payee)';
+          if (line.category_id && readyToAssignIds.has(line.category_id)) {
+            // Already counted in the month summary's income
+            addToSource(month.income_by_payee, payeeId, payeeName, line.amount);
+          } else if (line.amount > 0 && line.payee_id && incomePayees.has(line.payee_id)) {
+            month.income = addMilli(month.income, line.amount);
+            addToSource(month.income_by_payee, payeeId, payeeName, line.amount);
+          } else {
+            month.expenses = addMilli(month.expenses, line.amount);
+            const categoryId = line.category_id ?? UNCATEGORIZED.id;
+            addToSource(
+              month.expenses_by_category,
+              categoryId,
+              categoryNames.get(categoryId) ?? UNCATEGORIZED.name,
+              line.amount,
+            );
+          }
+        }
+      }
+
+      const describe = (income: number, expenses: number) => {
+        const net = addMilli(income, expenses);
+        return {
+          income: currency.toMoney(income),
+          expenses: currency.toMoney(expenses),
+          net: currency.toMoney(net),
+          savings_rate: savingsRate(income, net),
+        };
+      };
+
+      // Averages over the window ending at `month`; null until the budget has that many months
+      const rollingWindow = (month: string, size: number) => {
+        const start = shiftMonth(month, -(size - 1));
+        if (start < historyStart || start < budgetStart) return null;
+        let income = 0;
+        let expenses = 0;
+        for (const windowMonth of listPeriods(start, month, 'month')) {
+          income = addMilli(income, flows.get(windowMonth)!.income);
+          expenses = addMilli(expenses, flows.get(windowMonth)!.expenses);
+        }
+        return {
+          months: size,
+          ...describe(Math.round(income / size), Math.round(expenses / size)),
+          savings_rate: savingsRate(income, addMilli(income, expenses)),
+        };
+      };
+
+      const reported = listPeriods(fromMonth, untilMonth, 'month');
+      let totalIncome = 0;
+      let totalExpenses = 0;
+      for (const month of reported) {
+        totalIncome = addMilli(totalIncome, flows.get(month)!.income);
+        totalExpenses = addMilli(totalExpenses, flows.get(month)!.expenses);
+      }
+
+      const previous = flows.get(shiftMonth(untilMonth, -1))!;
+      const latest = flows.get(untilMonth)!;
+      const changes = (
+        type: 'income' | 'expense',
+        before: MonthFlows['income_by_payee'],
+        after: MonthFlows['income_by_payee'],
+      ) =>
+        [...new Set([...before.keys(), ...after.keys()])].map((id) => {
+          const from = before.get(id)?.amount ?? 0;
+          const to = after.get(id)?.amount ?? 0;
+          return {
+            type,
+            id,
+            name: (after.get(id) ?? before.get(id))!.name,
+            from,
+            to,
+            change: to - from,
+          };
+        });
+      const contributors = [
+        ...changes('income', previous.income_by_payee, latest.income_by_payee),
+        ...changes('expense', previous.expenses_by_category, latest.expenses_by_category),
+      ]
+        .filter((contributor) => contributor.change !== 0)
+        .sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || a.name.localeCompare(b.name))
+        .slice(0, contributorLimit);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              from_month: fromMonth,
+              until_month: untilMonth,
+              currency: currency.currency,
+              totals: describe(totalIncome, totalExpenses),
+              months: reported.map((month) => {
+                const flow = flows.get(month)!;
+                return {
+                  month,
+                  ...describe(flow.income, flow.expenses),
+                  rolling_savings_rate: Object.fromEntries(
+                    Object.entries(ROLLING_WINDOWS).map(([key, size]) => [
+                      key,
+                      rollingWindow(month, size)?.savings_rate ?? null,
+                    ]),
+                  ),
+                };
+              }),
+              rolling_averages: Object.fromEntries(
+                Object.entries(ROLLING_WINDOWS).map(([key, size]) => [
+                  key,
+                  rollingWindow(untilMonth, size),
+                ]),
+              ),
+              largest_changes: {
+                from_month: shiftMonth(untilMonth, -1),
+                to_month: untilMonth,
+                income_change: currency.toMoney(addMilli(latest.income, -previous.income)),
+                expenses_change: currency.toMoney(addMilli(latest.expenses, -previous.expenses)),
+                contributors: contributors.map((contributor) => ({
+                  type: contributor.type,
+                  id: contributor.id,
+                  name: contributor.name,
+                  from: currency.toMoney(contributor.from),
+                  to: currency.toMoney(contributor.to),
+                  change: currency.toMoney(contributor.change),
+                })),
+              },
+              cached: monthsResult.wasCached && transactionsResult.wasCached,
+              cache_info:
+                monthsResult.wasCached && transactionsResult.wasCached
+                  ? `Data retrieved from cache for improved performance${monthsResult.usedDelta || transactionsResult.usedDelta ? ' (delta merge applied)' : ''}`
+                  : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:income_expense_summary',
+    'building income and expense summary',
+  );
+}
@@ -0,0 +1,529 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
+import { cacheManager, CACHE_TTLS, CacheManager } from '../server/cacheManager.js';
+import type { DeltaFetcher } from './deltaFetcher.js';
+import type { DeltaCache } from '../server/deltaCache.js';
+import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
+import { resolveDeltaFetcherArgs, resolveDeltaWriteArgs } from './deltaSupport.js';
+import { PaginationParamsShape, paginate, projectFields } from './paginationSupport.js';
+
+const ScheduledFrequencySchema = z.enum([
+  'never',
+  'daily',
+  'weekly',
+  'everyOtherWeek',
+  'twiceAMonth',
+  'every4Weeks',
+  'monthly',
+  'everyOtherMonth',
+  'every3Months',
+  'every4Months',
+  'twiceAYear',
+  'yearly',
+  'everyOtherYear',
+]);
+
+const FlagColorSchema = z.enum(['red', 'orange', 'yellow', 'green', 'blue', 'purple']);
+
+/**
+ * Schema for ynab:list_scheduled_transactions tool parameters
+ */
+export const ListScheduledTransactionsSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    account_id: z.string().optional(),
+    due_before: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in ISO format (YYYY-MM-DD)')
+      .optional(),
+    ...PaginationParamsShape,
+  })
+  .strict();
+
+export type ListScheduledTransactionsParams = z.infer<typeof ListScheduledTransactionsSchema>;
+
+/**
+ * Schema for ynab:get_scheduled_transaction tool parameters
+ */
+export const GetScheduledTransactionSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    scheduled_transaction_id: z.string().min(1, 'Scheduled transaction ID is required'),
+  })
+  .strict();
+
+export type GetScheduledTransactionParams = z.infer<typeof GetScheduledTransactionSchema>;
+
+/**
+ * Schema for ynab:create_scheduled_transaction tool parameters
+ */
+export const CreateScheduledTransactionSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    account_id: z.string().min(1, 'Account ID is required'),
+    amount: z.number().int('Amount must be an integer in milliunits'),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in ISO format (YYYY-MM-DD)'),
+    frequency: ScheduledFrequencySchema,
+    payee_name: z.string().optional(),
+    payee_id: z.string().optional(),
+    category_id: z.string().optional(),
+    memo: z.string().optional(),
+    flag_color: FlagColorSchema.optional(),
+    dry_run: z.boolean().optional(),
+  })
+  .strict();
+
+export type CreateScheduledTransactionParams = z.infer<typeof CreateScheduledTransactionSchema>;
+
+/**
+ * Schema for ynab:update_scheduled_transaction tool parameters
+ */
+export const UpdateScheduledTransactionSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    scheduled_transaction_id: z.string().min(1, 'Scheduled transaction ID is required'),
+    account_id: z.string().optional(),
+    amount: z.number().int('Amount must be an integer in milliunits').optional(),
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in ISO format (YYYY-MM-DD)')
+      .optional(),
+    frequency: ScheduledFrequencySchema.optional(),
+    payee_name: z.string().optional(),
+    payee_id: z.string().optional(),
+    category_id: z.string().nullable().optional(),
+    memo: z.string().nullable().optional(),
+    flag_color: FlagColorSchema.nullable().optional(),
+    dry_run: z.boolean().optional(),
+  })
+  .strict();
+
+export type UpdateScheduledTransactionParams = z.infer<typeof UpdateScheduledTransactionSchema>;
+
+/**
+ * Schema for ynab:delete_scheduled_transaction tool parameters
+ */
+export const DeleteScheduledTransactionSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    scheduled_transaction_id: z.string().min(1, 'Scheduled transaction ID is required'),
+    dry_run: z.boolean().optional(),
+  })
+  .strict();
+
+export type DeleteScheduledTransactionParams = z.infer<typeof DeleteScheduledTransactionSchema>;
+
+function formatScheduledTransaction(scheduled: ynab.ScheduledTransactionDetail) {
+  return {
+    id: scheduled.id,
+    date_first: scheduled.date_first,
+    date_next: scheduled.date_next,
+    frequency: scheduled.frequency,
+    amount: milliunitsToAmount(scheduled.amount),
+    memo: scheduled.memo,
+    flag_color: scheduled.flag_color,
+    account_id: scheduled.account_id,
+    account_name: scheduled.account_name,
+    payee_id: scheduled.payee_id,
+    payee_name: scheduled.payee_name,
+    category_id: scheduled.category_id,
+    category_name: scheduled.category_name,
+    transfer_account_id: scheduled.transfer_account_id,
+    deleted: scheduled.deleted,
+    subtransactions: scheduled.subtransactions?.map((subtransaction) => ({
+      id: subtransaction.id,
+      amount: milliunitsToAmount(subtransaction.amount),
+      memo: subtransaction.memo,
+      payee_id: subtransaction.payee_id,
+      payee_name: subtransaction.payee_name,
+      category_id: subtransaction.category_id,
+      category_name: subtransaction.category_name,
+      transfer_account_id: subtransaction.transfer_account_id,
+      deleted: subtransaction.deleted,
+    })),
+  };
+}
+
+/**
+ * Scheduled transactions do not report server_knowledge on write responses,
+ * so the delta snapshot is dropped and rebuilt on the next read.
+ */
+export function invalidateScheduledTransactionCaches(
+  deltaCache: DeltaCache,
+  budgetId: string,
+  scheduledTransactionId?: string,
+): void {
+  deltaCache.invalidate(budgetId, 'scheduled_transactions');
+  cacheManager.delete(CacheManager.generateKey('scheduled_transactions', 'list', budgetId));
+  if (scheduledTransactionId) {
+    cacheManager.delete(
+      CacheManager.generateKey('scheduled_transaction', 'get', budgetId, scheduledTransactionId),
+    );
+  }
+}
+
+/**
+ * Handles the ynab:list_scheduled_transactions tool call
+ * Lists scheduled transactions for a budget with optional account and due-date filtering
+ */
+export async function handleListScheduledTransactions(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: ListScheduledTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleListScheduledTransactions(
+  ynabAPI: ynab.API,
+  params: ListScheduledTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleListScheduledTransactions(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | ListScheduledTransactionsParams,
+  maybeParams?: ListScheduledTransactionsParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const result = await deltaFetcher.fetchScheduledTransactions(params.budget_id);
+      const scheduledTransactions = result.data
+        .filter((scheduled) => !scheduled.deleted)
+        .filter((scheduled) => !params.account_id || scheduled.account_id === params.account_id)
+        .filter((scheduled) => !params.due_before || scheduled.date_next <= params.due_before)
+        .sort((a, b) => a.date_next.localeCompare(b.date_next) || a.id.localeCompare(b.id));
+      const { page, pagination } = paginate(
+        'list_scheduled_transactions',
+        scheduledTransactions,
+        params,
+        result.serverKnowledge,
+        (scheduled) => scheduled.id,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              ...pagination,
+              scheduled_transactions: projectFields(
+                page.map(formatScheduledTransaction),
+                params.fields,
+              ),
+              cached: result.wasCached,
+              cache_info: result.wasCached
+                ? `Data retrieved from cache for improved performance${result.usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:list_scheduled_transactions',
+    'listing scheduled transactions',
+  );
+}
+
+/**
+ * Handles the ynab:get_scheduled_transaction tool call
+ * Gets detailed information for a specific scheduled transaction
+ */
+export async function handleGetScheduledTransaction(
+  ynabAPI: ynab.API,
+  params: GetScheduledTransactionParams,
+): Promise<CallToolResult> {
+  return await withToolErrorHandling(
+    async () => {
+      const cacheKey = CacheManager.generateKey(
+        'scheduled_transaction',
+        'get',
+        params.budget_id,
+        params.scheduled_transaction_id,
+      );
+      const wasCached = cacheManager.has(cacheKey);
+      const scheduled = await cacheManager.wrap<ynab.ScheduledTransactionDetail>(cacheKey, {
+        ttl: CACHE_TTLS.SCHEDULED_TRANSACTIONS,
+        loader: async () => {
+          const response = await ynabAPI.scheduledTransactions.getScheduledTransactionById(
+            params.budget_id,
+            params.scheduled_transaction_id,
+          );
+          return response.data.scheduled_transaction;
+        },
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              scheduled_transaction: formatScheduledTransaction(scheduled),
+              cached: wasCached,
+              cache_info: wasCached
+                ? 'Data retrieved from cache for improved performance'
+                : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:get_scheduled_transaction',
+    'getting scheduled transaction',
+  );
+}
+
+/**
+ * Handles the ynab:create_scheduled_transaction tool call
+ * Creates a new scheduled transaction in the specified budget and account
+ */
+export async function handleCreateScheduledTransaction(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: CreateScheduledTransactionParams,
+): Promise<CallToolResult>;
+export async function handleCreateScheduledTransaction(
+  ynabAPI: ynab.API,
+  params: CreateScheduledTransactionParams,
+): Promise<CallToolResult>;
+export async function handleCreateScheduledTransaction(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | CreateScheduledTransactionParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | CreateScheduledTransactionParams,
+  maybeParams?: CreateScheduledTransactionParams,
+): Promise<CallToolResult> {
+  const { deltaCache, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'create_scheduled_transaction',
+                request: params,
+              }),
+            },
+          ],
+        };
+      }
+
+      const scheduledData: ynab.SaveScheduledTransaction = {
+        account_id: params.account_id,
+        date: params.date,
+        amount: params.amount,
+        frequency: params.frequency,
+      };
+      if (params.payee_name !== undefined) scheduledData.payee_name = params.payee_name;
+      if (params.payee_id !== undefined) scheduledData.payee_id = params.payee_id;
+      if (params.category_id !== undefined) scheduledData.category_id = params.category_id;
+      if (params.memo !== undefined) scheduledData.memo = params.memo;
+      if (params.flag_color !== undefined) scheduledData.flag_color = params.flag_color;
+
+      const response = await ynabAPI.scheduledTransactions.createScheduledTransaction(
+        params.budget_id,
+        { scheduled_transaction: scheduledData },
+      );
+      const scheduled = response.data.scheduled_transaction;
+
+      invalidateScheduledTransactionCaches(deltaCache, params.budget_id);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              scheduled_transaction: formatScheduledTransaction(scheduled),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:create_scheduled_transaction',
+    'creating scheduled transaction',
+  );
+}
+
+/**
+ * Handles the ynab:update_scheduled_transaction tool call
+ * The YNAB API replaces the whole scheduled transaction on update, so omitted
+ * fields are carried over from the current record before saving.
+ */
+export async function handleUpdateScheduledTransaction(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: UpdateScheduledTransactionParams,
+): Promise<CallToolResult>;
+export async function handleUpdateScheduledTransaction(
+  ynabAPI: ynab.API,
+  params: UpdateScheduledTransactionParams,
+): Promise<CallToolResult>;
+export async function handleUpdateScheduledTransaction(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | UpdateScheduledTransactionParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | UpdateScheduledTransactionParams,
+  maybeParams?: UpdateScheduledTransactionParams,
+): Promise<CallToolResult> {
+  const { deltaCache, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'update_scheduled_transaction',
+                request: params,
+              }),
+            },
+          ],
+        };
+      }
+
+      const existingResponse = await ynabAPI.scheduledTransactions.getScheduledTransactionById(
+        params.budget_id,
+        params.scheduled_transaction_id,
+      );
+      const existing = existingResponse.data.scheduled_transaction;
+
+      const scheduledData: ynab.SaveScheduledTransaction = {
+        account_id: params.account_id ?? existing.account_id,
+        date: params.date ?? existing.date_next,
+        amount: params.amount ?? existing.amount,
+        frequency: params.frequency ?? existing.frequency,
+        // null clears these fields, so only undefined falls back to the existing value
+        category_id:
+          params.category_id !== undefined ? params.category_id : (existing.category_id ?? null),
+        memo: params.memo !== undefined ? params.memo : (existing.memo ?? null),
+        flag_color:
+          params.flag_color !== undefined ? params.flag_color : (existing.flag_color ?? null),
+      };
+      if (params.payee_id !== undefined) {
+        scheduledData.payee_id = params.payee_id;
+      } else if (params.payee_name !== undefined) {
+        scheduledData.payee_id = null;
+        scheduledData.payee_name = params.payee_name;
+      } else {
+        scheduledData.payee_id = existing.payee_id ?? null;
+      }
+
+      const response = await ynabAPI.scheduledTransactions.updateScheduledTransaction(
+        params.budget_id,
+        params.scheduled_transaction_id,
+        { scheduled_transaction: scheduledData },
+      );
+      const scheduled = response.data.scheduled_transaction;
+
+      invalidateScheduledTransactionCaches(
+        deltaCache,
+        params.budget_id,
+        params.scheduled_transaction_id,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              scheduled_transaction: formatScheduledTransaction(scheduled),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:update_scheduled_transaction',
+    'updating scheduled transaction',
+  );
+}
+
+/**
+ * Handles the ynab:delete_scheduled_transaction tool call
+ * Deletes a scheduled transaction from the specified budget
+ */
+export async function handleDeleteScheduledTransaction(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: DeleteScheduledTransactionParams,
+): Promise<CallToolResult>;
+export async function handleDeleteScheduledTransaction(
+  ynabAPI: ynab.API,
+  params: DeleteScheduledTransactionParams,
+): Promise<CallToolResult>;
+export async function handleDeleteScheduledTransaction(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | DeleteScheduledTransactionParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | DeleteScheduledTransactionParams,
+  maybeParams?: DeleteScheduledTransactionParams,
+): Promise<CallToolResult> {
+  const { deltaCache, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'delete_scheduled_transaction',
+                request: params,
+              }),
+            },
+          ],
+        };
+      }
+
+      const response = await ynabAPI.scheduledTransactions.deleteScheduledTransaction(
+        params.budget_id,
+        params.scheduled_transaction_id,
+      );
+      const scheduled = response.data.scheduled_transaction;
+
+      invalidateScheduledTransactionCaches(
+        deltaCache,
+        params.budget_id,
+        params.scheduled_transaction_id,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              message: 'Scheduled transaction deleted successfully',
+              scheduled_transaction: {
+                id: scheduled.id,
+                deleted: scheduled.deleted,
+              },
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:delete_scheduled_transaction',
+    'deleting scheduled transaction',
+  );
+}
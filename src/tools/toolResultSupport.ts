@@ -0,0 +1,27 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Parses the JSON payload of a delegated tool result
+ */
+export function parseToolResult(result: CallToolResult): Record<string, unknown> | undefined {
+  const firstContent = result.content?.[0];
+  if (!firstContent || firstContent.type !== 'text') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(firstContent.text) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Error message of a delegated tool result that did not succeed
+ */
+export function toolResultErrorMessage(parsed: Record<string, unknown> | undefined): string {
+  const error = parsed?.['error'] as { message?: unknown; details?: unknown } | undefined;
+  if (typeof error?.message !== 'string') {
+    return 'The tool response could not be read';
+  }
+  return typeof error.details === 'string' ? `${error.message}: ${error.details}` : error.message;
+}
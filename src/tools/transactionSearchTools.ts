@@ -0,0 +1,247 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
+import { compileSafeRegex } from '../utils/safeRegex.js';
+import type { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaFetcherArgs } from './deltaSupport.js';
+import { PaginationParamsShape, paginate, projectFields } from './paginationSupport.js';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_PAYEE_REGEX_LENGTH = 200;
+
+const SearchSortSchema = z.enum(['date_desc', 'date_asc', 'amount_desc', 'amount_asc']);
+
+type SearchSort = z.infer<typeof SearchSortSchema>;
+
+/**
+ * Schema for ynab:search_transactions tool parameters
+ */
+export const SearchTransactionsSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    account_id: z.string().optional(),
+    category_id: z.string().optional(),
+    since_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    until_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    min_amount: z.number().int('Amount must be an integer in milliunits').optional(),
+    max_amount: z.number().int('Amount must be an integer in milliunits').optional(),
+    payee_contains: z.string().min(1).optional(),
+    payee_regex: z.string().min(1).max(MAX_PAYEE_REGEX_LENGTH).optional(),
+    memo_contains: z.string().min(1).optional(),
+    flag_color: z.enum(['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'none']).optional(),
+    cleared: z.enum(['cleared', 'uncleared', 'reconciled']).optional(),
+    approved: z.boolean().optional(),
+    has_subtransactions: z.boolean().optional(),
+    is_transfer: z.boolean().optional(),
+    sort: SearchSortSchema.optional(),
+    ...PaginationParamsShape,
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (data.since_date && data.until_date && data.since_date > data.until_date) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'since_date must be on or before until_date',
+        path: ['until_date'],
+      });
+    }
+    if (
+      data.min_amount !== undefined &&
+      data.max_amount !== undefined &&
+      data.min_amount > data.max_amount
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'min_amount must be less than or equal to max_amount',
+        path: ['max_amount'],
+      });
+    }
+  });
+
+export type SearchTransactionsParams = z.infer<typeof SearchTransactionsSchema>;
+
+interface SortKey {
+  value: string | number;
+  id: string;
+}
+
+function sortKeyFor(transaction: ynab.TransactionDetail, sort: SearchSort): SortKey {
+  const value = sort.startsWith('date') ? transaction.date : transaction.amount;
+  return { value, id: transaction.id };
+}
+
+function compareSortKeys(a: SortKey, b: SortKey, sort: SearchSort): number {
+  if (a.value !== b.value) {
+    const ascending = a.value < b.value ? -1 : 1;
+    return sort.endsWith('_desc') ? -ascending : ascending;
+  }
+  // Ties always break on id so page boundaries are deterministic
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function compilePayeeRegex(pattern: string): RegExp {
+  try {
+    return compileSafeRegex(pattern);
+  } catch (error) {
+    throw new ValidationError(
+      'Invalid payee_regex',
+      error instanceof Error ? error.message : String(error),
+      [
+        'Use a JavaScript regular expression, e.g. "^(amazon|amzn)"',
+        'Backreferences and repeated groups containing quantifiers or alternations are not supported',
+      ],
+    );
+  }
+}
+
+function buildPredicate(
+  params: SearchTransactionsParams,
+): (transaction: ynab.TransactionDetail) => boolean {
+  const payeeNeedle = params.payee_contains?.toLowerCase();
+  const memoNeedle = params.memo_contains?.toLowerCase();
+  const payeeRegex = params.payee_regex ? compilePayeeRegex(params.payee_regex) : undefined;
+
+  return (transaction) => {
+    if (transaction.deleted) return false;
+    const subtransactions = (transaction.subtransactions ?? []).filter((sub) => !sub.deleted);
+
+    if (params.account_id && transaction.account_id !== params.account_id) return false;
+    if (
+      params.category_id &&
+      transaction.category_id !== params.category_id &&
+      !subtransactions.some((sub) => sub.category_id === params.category_id)
+    ) {
+      return false;
+    }
+    if (params.since_date && transaction.date < params.since_date) return false;
+    if (params.until_date && transaction.date > params.until_date) return false;
+    if (params.min_amount !== undefined && transaction.amount < params.min_amount) return false;
+    if (params.max_amount !== undefined && transaction.amount > params.max_amount) return false;
+
+    const payeeName = transaction.payee_name ?? '';
+    if (payeeNeedle && !payeeName.toLowerCase().includes(payeeNeedle)) return false;
+    if (payeeRegex && !payeeRegex.test(payeeName)) return false;
+
+    if (memoNeedle) {
+      const memos = [transaction.memo, ...subtransactions.map((sub) => sub.memo)];
+      if (!memos.some((memo) => memo?.toLowerCase().includes(memoNeedle))) return false;
+    }
+
+    if (params.flag_color) {
+      const flag = transaction.flag_color ?? 'none';
+      if (flag !== params.flag_color) return false;
+    }
+    if (params.cleared && transaction.cleared !== params.cleared) return false;
+    if (params.approved !== undefined && transaction.approved !== params.approved) return false;
+    if (
+      params.has_subtransactions !== undefined &&
+      subtransactions.length > 0 !== params.has_subtransactions
+    ) {
+      return false;
+    }
+    if (
+      params.is_transfer !== undefined &&
+      Boolean(transaction.transfer_account_id) !== params.is_transfer
+    ) {
+      return false;
+    }
+
+    return true;
+  };
+}
+
+/**
+ * Handles the ynab:search_transactions tool call
+ * Filters, sorts and paginates the delta-cached transaction snapshot for a budget
+ */
+export async function handleSearchTransactions(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: SearchTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleSearchTransactions(
+  ynabAPI: ynab.API,
+  params: SearchTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleSearchTransactions(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | SearchTransactionsParams,
+  maybeParams?: SearchTransactionsParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      const sort: SearchSort = params.sort ?? 'date_desc';
+      const predicate = buildPredicate(params);
+
+      // Always search the full budget snapshot so every search shares one delta-cached entry
+      const result = await deltaFetcher.fetchTransactions(params.budget_id);
+
+      const matches = result.data
+        .filter(predicate)
+        .sort((a, b) => compareSortKeys(sortKeyFor(a, sort), sortKeyFor(b, sort), sort));
+      const { page, pagination } = paginate(
+        'search_transactions',
+        matches,
+        params,
+        result.serverKnowledge,
+        (transaction) => transaction.id,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              ...pagination,
+              sort,
+              cached: result.wasCached,
+              cache_info: result.wasCached
+                ? `Data retrieved from cache for improved performance${result.usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+              transactions: projectFields(
+                page.map((transaction) => ({
+                  id: transaction.id,
+                  date: transaction.date,
+                  amount: milliunitsToAmount(transaction.amount),
+                  memo: transaction.memo,
+                  cleared: transaction.cleared,
+                  approved: transaction.approved,
+                  flag_color: transaction.flag_color,
+                  account_id: transaction.account_id,
+                  account_name: transaction.account_name,
+                  payee_id: transaction.payee_id,
+                  payee_name: transaction.payee_name,
+                  category_id: transaction.category_id,
+                  category_name: transaction.category_name,
+                  transfer_account_id: transaction.transfer_account_id,
+                  import_id: transaction.import_id,
+                  subtransactions: (transaction.subtransactions ?? [])
+                    .filter((sub) => !sub.deleted)
+                    .map((sub) => ({
+                      id: sub.id,
+                      amount: milliunitsToAmount(sub.amount),
+                      memo: sub.memo,
+                      payee_name: sub.payee_name,
+                      category_id: sub.category_id,
+                      category_name: sub.category_name,
+                    })),
+                })),
+                params.fields,
+              ),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:search_transactions',
+    'searching transactions',
+  );
+}
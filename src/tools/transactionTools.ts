@@ -10,10 +10,11 @@ import { responseFormatter } from '../server/responseFormatter.js';
 import { amountToMilliunits, milliunitsToAmount } from '../utils/amountUtils.js';
 import { cacheManager, CACHE_TTLS, CacheManager } from '../server/cacheManager.js';
 import { globalRequestLogger } from '../server/requestLogger.js';
-import type { DeltaFetcher } from './deltaFetcher.js';
+import { DeltaFetcher } from './deltaFetcher.js';
 import type { DeltaCache } from '../server/deltaCache.js';
 import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
 import { resolveDeltaFetcherArgs, resolveDeltaWriteArgs } from './deltaSupport.js';
+import { PaginationParamsShape, paginate, projectFields } from './paginationSupport.js';
 
 /**
  * Utility function to ensure transaction is not null/undefined
@@ -77,7 +78,10 @@ interface TransactionCacheInvalidationOptions {
   invalidateMonths?: boolean;
 }
 
-function invalidateTransactionCaches(
+/**
+ * Invalidates transaction caches plus the account, category and month caches a write affects
+ */
+export function invalidateTransactionCaches(
   deltaCache: DeltaCache,
   knowledgeStore: ServerKnowledgeStore,
   budgetId: string,
@@ -148,6 +152,7 @@ export const ListTransactionsSchema = z
       .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in ISO format (YYYY-MM-DD)')
       .optional(),
     type: z.enum(['uncategorized', 'unapproved']).optional(),
+    ...PaginationParamsShape,
   })
   .strict();
 
@@ -165,6 +170,51 @@ export const GetTransactionSchema = z
 
 export type GetTransactionParams = z.infer<typeof GetTransactionSchema>;
 
+const SubtransactionInputSchema = z
+  .object({
+    amount: z.number().int('Subtransaction amount must be an integer in milliunits'),
+    payee_name: z.string().optional(),
+    payee_id: z.string().optional(),
+    category_id: z.string().optional(),
+    memo: z.string().optional(),
+  })
+  .strict();
+
+type SubtransactionInputParams = z.infer<typeof SubtransactionInputSchema>;
+
+function refineSubtransactionTotal(
+  data: { amount: number; subtransactions?: SubtransactionInputParams[] | undefined },
+  ctx: z.RefinementCtx,
+): void {
+  if (data.subtransactions && data.subtransactions.length > 0) {
+    const total = data.subtransactions.reduce((sum, sub) => sum + sub.amount, 0);
+    if (total !== data.amount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Amount must equal the sum of subtransaction amounts',
+        path: ['amount'],
+      });
+    }
+  }
+}
+
+function toSaveSubTransactions(subtransactions: SubtransactionInputParams[]): SaveSubTransaction[] {
+  return subtransactions.map((subtransaction) => {
+    const mapped: SaveSubTransaction = {
+      amount: subtransaction.amount,
+    };
+
+    if (subtransaction.payee_name !== undefined) mapped.payee_name = subtransaction.payee_name;
+    if (subtransaction.payee_id !== undefined) mapped.payee_id = subtransaction.payee_id;
+    if (subtransaction.category_id !== undefined) {
+      mapped.category_id = subtransaction.category_id;
+    }
+    if (subtransaction.memo !== undefined) mapped.memo = subtransaction.memo;
+
+    return mapped;
+  });
+}
+
 /**
  * Schema for ynab:create_transaction tool parameters
  */
@@ -184,33 +234,12 @@ export const CreateTransactionSchema = z
     import_id: z.string().min(1, 'Import ID cannot be empty').optional(),
     dry_run: z.boolean().optional(),
     subtransactions: z
-      .array(
-        z
-          .object({
-            amount: z.number().int('Subtransaction amount must be an integer in milliunits'),
-            payee_name: z.string().optional(),
-            payee_id: z.string().optional(),
-            category_id: z.string().optional(),
-            memo: z.string().optional(),
-          })
-          .strict(),
-      )
+      .array(SubtransactionInputSchema)
       .min(1, 'At least one subtransaction is required when provided')
       .optional(),
   })
   .strict()
-  .superRefine((data, ctx) => {
-    if (data.subtransactions && data.subtransactions.length > 0) {
-      const total = data.subtransactions.reduce((sum, sub) => sum + sub.amount, 0);
-      if (total !== data.amount) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: 'Amount must equal the sum of subtransaction amounts',
-          path: ['amount'],
-        });
-      }
-    }
-  });
+  .superRefine(refineSubtransactionTotal);
 
 export type CreateTransactionParams = z.infer<typeof CreateTransactionSchema>;
 
@@ -228,26 +257,16 @@ const BulkTransactionInputSchemaBase = CreateTransactionSchema.pick({
   import_id: true,
 });
 
-type BulkTransactionInput = Omit<CreateTransactionParams, 'budget_id' | 'dry_run' | 'subtransactions'>;
+type BulkTransactionInput = Omit<CreateTransactionParams, 'budget_id' | 'dry_run'>;
 
 const BulkTransactionInputSchema = BulkTransactionInputSchemaBase.extend({
-  subtransactions: z.any().optional(),
+  subtransactions: z
+    .array(SubtransactionInputSchema)
+    .min(1, 'At least one subtransaction is required when provided')
+    .optional(),
 })
   .strict()
-  .superRefine((data, ctx) => {
-    if (data.subtransactions !== undefined) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: 'Subtransactions are not supported in bulk transaction creation',
-        path: ['subtransactions'],
-      });
-    }
-  })
-  .transform((data): BulkTransactionInput => {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { subtransactions, ...rest } = data;
-    return rest;
-  });
+  .superRefine(refineSubtransactionTotal);
 
 export const CreateTransactionsSchema = z
   .object({
@@ -542,6 +561,11 @@ function finalizeResponse(response: BulkCreateResponse): BulkCreateResponse {
   );
 }
 
+/** Tax class for items not covered by a `tax_lines` entry, and the class `receipt_tax` applies to */
+const RECEIPT_DEFAULT_TAX_CLASS = 'default';
+/** Tax class for items that are never taxed, such as exempt groceries */
+const RECEIPT_EXEMPT_TAX_CLASS = 'exempt';
+
 const ReceiptSplitItemSchema = z
   .object({
     name: z.string().min(1, 'Item name is required'),
@@ -555,8 +579,18 @@ const ReceiptSplitItemSchema = z
       .positive('Quantity must be greater than zero')
       .optional(),
     memo: z.string().optional(),
+    discount: z
+      .number()
+      .finite('Item discount must be a finite number')
+      .refine((value) => value >= 0, 'Item discount must be zero or greater')
+      .optional(),
+    tax_class: z.string().min(1, 'Tax class cannot be empty').optional(),
   })
-  .strict();
+  .strict()
+  .refine((item) => item.discount === undefined || item.discount <= item.amount, {
+    message: 'Item discount cannot exceed the item amount',
+    path: ['discount'],
+  });
 
 const ReceiptSplitCategorySchema = z
   .object({
@@ -566,6 +600,32 @@ const ReceiptSplitCategorySchema = z
   })
   .strict();
 
+const ReceiptTaxLineSchema = z
+  .object({
+    tax_class: z.string().min(1, 'Tax class is required'),
+    name: z.string().optional(),
+    amount: z
+      .number()
+      .finite('Tax amount must be a finite number')
+      .refine((value) => value >= 0, 'Tax amount must be zero or greater'),
+  })
+  .strict();
+
+const ReceiptAdjustmentSchema = z
+  .object({
+    name: z.string().min(1, 'Adjustment name is required'),
+    amount: z
+      .number()
+      .finite('Adjustment amount must be a finite number')
+      .refine((value) => value !== 0, 'Adjustment amount cannot be zero'),
+    category_id: z.string().min(1).optional(),
+  })
+  .strict();
+
+type ReceiptSplitItem = z.infer<typeof ReceiptSplitItemSchema>;
+
+const receiptItemNet = (item: ReceiptSplitItem): number => item.amount - (item.discount ?? 0);
+
 export const CreateReceiptSplitTransactionSchema = z
   .object({
     budget_id: z.string().min(1, 'Budget ID is required'),
@@ -584,7 +644,10 @@ export const CreateReceiptSplitTransactionSchema = z
     receipt_tax: z
       .number()
       .finite('Receipt tax must be a finite number')
-      .refine((value) => value >= 0, 'Receipt tax must be zero or greater'),
+      .refine((value) => value >= 0, 'Receipt tax must be zero or greater')
+      .optional(),
+    tax_lines: z.array(ReceiptTaxLineSchema).min(1).optional(),
+    adjustments: z.array(ReceiptAdjustmentSchema).optional(),
     receipt_total: z
       .number()
       .finite('Receipt total must be a finite number')
@@ -599,9 +662,8 @@ export const CreateReceiptSplitTransactionSchema = z
   })
   .strict()
   .superRefine((data, ctx) => {
-    const itemsSubtotal = data.categories
-      .flatMap((category) => category.items)
-      .reduce((sum, item) => sum + item.amount, 0);
+    const items = data.categories.flatMap((category) => category.items);
+    const itemsSubtotal = items.reduce((sum, item) => sum + receiptItemNet(item), 0);
 
     if (data.receipt_subtotal !== undefined) {
       const delta = Math.abs(data.receipt_subtotal - itemsSubtotal);
@@ -614,12 +676,89 @@ export const CreateReceiptSplitTransactionSchema = z
       }
     }
 
-    const expectedTotal = itemsSubtotal + data.receipt_tax;
+    if (data.receipt_tax === undefined && data.tax_lines === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Either receipt_tax or tax_lines is required',
+        path: ['receipt_tax'],
+      });
+      return;
+    }
+
+    const taxLines = data.tax_lines ?? [
+      { tax_class: RECEIPT_DEFAULT_TAX_CLASS, amount: data.receipt_tax ?? 0 },
+    ];
+    const totalTax = taxLines.reduce((sum, line) => sum + line.amount, 0);
+    if (data.tax_lines && data.receipt_tax !== undefined) {
+      if (Math.abs(totalTax - data.receipt_tax) > 0.01) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Receipt tax (${data.receipt_tax.toFixed(2)}) does not match the sum of tax_lines (${totalTax.toFixed(2)})`,
+          path: ['receipt_tax'],
+        });
+      }
+    }
+
+    const taxClasses = new Set<string>();
+    taxLines.forEach((line, index) => {
+      if (line.tax_class === RECEIPT_EXEMPT_TAX_CLASS || taxClasses.has(line.tax_class)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            line.tax_class === RECEIPT_EXEMPT_TAX_CLASS
+              ? `Tax class "${RECEIPT_EXEMPT_TAX_CLASS}" cannot carry tax`
+              : `Duplicate tax class "${line.tax_class}"`,
+          path: ['tax_lines', index, 'tax_class'],
+        });
+      }
+      taxClasses.add(line.tax_class);
+      const taxableBase = items
+        .filter((item) => (item.tax_class ?? RECEIPT_DEFAULT_TAX_CLASS) === line.tax_class)
+        .reduce((sum, item) => sum + receiptItemNet(item), 0);
+      if (line.amount > 0 && taxableBase <= 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `No items with a positive amount use tax class "${line.tax_class}"`,
+          path: data.tax_lines ? ['tax_lines', index, 'amount'] : ['receipt_tax'],
+        });
+      }
+    });
+
+    data.categories.forEach((category, categoryIndex) => {
+      category.items.forEach((item, itemIndex) => {
+        const taxClass = item.tax_class;
+        if (
+          taxClass !== undefined &&
+          taxClass !== RECEIPT_DEFAULT_TAX_CLASS &&
+          taxClass !== RECEIPT_EXEMPT_TAX_CLASS &&
+          !taxClasses.has(taxClass)
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Tax class "${taxClass}" has no tax_lines entry`,
+            path: ['categories', categoryIndex, 'items', itemIndex, 'tax_class'],
+          });
+        }
+      });
+    });
+
+    const adjustments = data.adjustments ?? [];
+    const adjustmentsTotal = adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+    if (adjustments.some((adjustment) => !adjustment.category_id) && itemsSubtotal <= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          'Adjustments without a category_id need items with a positive amount to spread over',
+        path: ['adjustments'],
+      });
+    }
+
+    const expectedTotal = itemsSubtotal + totalTax + adjustmentsTotal;
     const deltaTotal = Math.abs(expectedTotal - data.receipt_total);
     if (deltaTotal > 0.01) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        message: `Receipt total (${data.receipt_total.toFixed(2)}) does not match subtotal plus tax (${expectedTotal.toFixed(2)})`,
+        message: `Receipt total (${data.receipt_total.toFixed(2)}) does not match subtotal plus tax${adjustments.length > 0 ? ' and adjustments' : ''} (${expectedTotal.toFixed(2)})`,
         path: ['receipt_total'],
       });
     }
@@ -655,6 +794,41 @@ export const UpdateTransactionSchema = z
 
 export type UpdateTransactionParams = z.infer<typeof UpdateTransactionSchema>;
 
+/**
+ * Schema for ynab:update_split_transaction tool parameters
+ */
+export const UpdateSplitTransactionSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    transaction_id: z.string().min(1, 'Transaction ID is required'),
+    subtransactions: z
+      .array(SubtransactionInputSchema)
+      .min(2, 'A split needs at least two subtransactions')
+      .optional(),
+    category_id: z.string().min(1).optional(),
+    amount: z.number().int('Amount must be an integer in milliunits').optional(),
+    dry_run: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if ((data.subtransactions === undefined) === (data.category_id === undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          'Provide subtransactions to split or edit a split, or category_id to collapse a split, but not both',
+        path: ['subtransactions'],
+      });
+    }
+    if (data.amount !== undefined && data.subtransactions) {
+      refineSubtransactionTotal(
+        { amount: data.amount, subtransactions: data.subtransactions },
+        ctx,
+      );
+    }
+  });
+
+export type UpdateSplitTransactionParams = z.infer<typeof UpdateSplitTransactionSchema>;
+
 /**
  * Schema for bulk transaction updates - each item in the array
  * Note: account_id is intentionally excluded as account moves are not supported in bulk updates
@@ -737,6 +911,106 @@ export const DeleteTransactionSchema = z
 
 export type DeleteTransactionParams = z.infer<typeof DeleteTransactionSchema>;
 
+const MAX_BULK_DELETE = 100;
+
+const DeleteTransactionsFilterSchema = z
+  .object({
+    account_id: z.string().min(1).optional(),
+    since_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in ISO format (YYYY-MM-DD)')
+      .optional(),
+    until_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in ISO format (YYYY-MM-DD)')
+      .optional(),
+    payee_contains: z.string().min(1).optional(),
+    import_id_prefix: z.string().min(1).optional(),
+    cleared: z.enum(['cleared', 'uncleared', 'reconciled']).optional(),
+  })
+  .strict();
+
+/**
+ * Schema for ynab:delete_transactions tool parameters
+ */
+export const DeleteTransactionsSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    transaction_ids: z.array(z.string().min(1)).min(1).max(MAX_BULK_DELETE).optional(),
+    filter: DeleteTransactionsFilterSchema.optional(),
+    dry_run: z.boolean().optional(),
+    confirmation_token: z.string().min(1).optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if ((data.transaction_ids === undefined) === (data.filter === undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Provide either transaction_ids or filter, but not both',
+        path: ['transaction_ids'],
+      });
+    }
+    if (data.filter && Object.values(data.filter).every((value) => value === undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'filter must include at least one criterion',
+        path: ['filter'],
+      });
+    }
+    if (
+      data.filter?.since_date &&
+      data.filter.until_date &&
+      data.filter.since_date > data.filter.until_date
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'since_date must be on or before until_date',
+        path: ['filter', 'until_date'],
+      });
+    }
+    if (
+      data.transaction_ids &&
+      new Set(data.transaction_ids).size !== data.transaction_ids.length
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'transaction_ids must not contain duplicates',
+        path: ['transaction_ids'],
+      });
+    }
+    if (!data.dry_run && !data.confirmation_token) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          'Run with dry_run: true first, then pass the returned confirmation_token to delete',
+        path: ['confirmation_token'],
+      });
+    }
+  });
+
+export type DeleteTransactionsParams = z.infer<typeof DeleteTransactionsSchema>;
+
+export interface BulkDeleteResult {
+  request_index: number;
+  status: 'deleted' | 'failed';
+  transaction_id: string;
+  correlation_key: string;
+  error_code?: string;
+  error?: string;
+}
+
+export interface BulkDeleteResponse {
+  success: boolean;
+  server_knowledge?: number;
+  summary: {
+    total_requested: number;
+    deleted: number;
+    failed: number;
+  };
+  results: BulkDeleteResult[];
+  message?: string;
+}
+
 /**
  * Handles the ynab:list_transactions tool call
  * Lists transactions for a budget with optional filtering
@@ -767,6 +1041,7 @@ export async function handleListTransactions(
       let transactions: (ynab.TransactionDetail | ynab.HybridTransaction)[];
       let cacheHit = false;
       let usedDelta = false;
+      let serverKnowledge: number | undefined;
 
       if (params.account_id) {
         const result = await deltaFetcher.fetchTransactionsByAccount(
@@ -777,6 +1052,7 @@ export async function handleListTransactions(
         transactions = result.data;
         cacheHit = result.wasCached;
         usedDelta = result.usedDelta;
+        serverKnowledge = result.serverKnowledge;
       } else if (params.category_id) {
         const response = await ynabAPI.transactions.getTransactionsByCategory(
           params.budget_id,
@@ -784,6 +1060,7 @@ export async function handleListTransactions(
           params.since_date,
         );
         transactions = response.data.transactions;
+        serverKnowledge = response.data.server_knowledge;
       } else {
         const result = await deltaFetcher.fetchTransactions(
           params.budget_id,
@@ -793,24 +1070,63 @@ export async function handleListTransactions(
         transactions = result.data;
         cacheHit = result.wasCached;
         usedDelta = result.usedDelta;
+        serverKnowledge = result.serverKnowledge;
       }
 
+      const keyOf = (transaction: { id: string }) => transaction.id;
+      const { page, pagination } = paginate(
+        'list_transactions',
+        transactions,
+        params,
+        serverKnowledge,
+        keyOf,
+      );
+      const formatted = projectFields(
+        page.map((transaction) => ({
+          id: transaction.id,
+          date: transaction.date,
+          amount: milliunitsToAmount(transaction.amount),
+          memo: transaction.memo,
+          cleared: transaction.cleared,
+          approved: transaction.approved,
+          flag_color: transaction.flag_color,
+          account_id: transaction.account_id,
+          payee_id: transaction.payee_id,
+          category_id: transaction.category_id,
+          transfer_account_id: transaction.transfer_account_id,
+          transfer_transaction_id: transaction.transfer_transaction_id,
+          matched_transaction_id: transaction.matched_transaction_id,
+          import_id: transaction.import_id,
+          deleted: transaction.deleted,
+        })),
+        params.fields,
+      );
+
       // Check if response might be too large for MCP
-      const estimatedSize = JSON.stringify(transactions).length;
+      const estimatedSize = JSON.stringify(formatted).length;
       const sizeLimit = 90000; // Conservative limit under 100KB
 
       if (estimatedSize > sizeLimit) {
-        // Return summary and suggest export
-        const preview = transactions.slice(0, 50);
+        // Return summary and suggest a smaller page or export
+        const preview = page.slice(0, 50);
+        // Paginate as if the preview were the page, so next_cursor resumes right after it
+        const { pagination: previewPagination } = paginate(
+          'list_transactions',
+          transactions,
+          { ...params, limit: preview.length },
+          serverKnowledge,
+          keyOf,
+        );
         return {
           content: [
             {
               type: 'text',
               text: responseFormatter.format({
-                message: `Found ${transactions.length} transactions (${Math.round(estimatedSize / 1024)}KB). Too large to display all.`,
-                suggestion: "Use 'export_transactions' tool to save all transactions to a file.",
+                ...previewPagination,
+                message: `Found ${page.length} transactions (${Math.round(estimatedSize / 1024)}KB). Too large to display all.`,
+                suggestion:
+                  "Use a smaller 'limit', select 'fields', or use 'export_transactions' tool to save all transactions to a file.",
                 showing: `First ${preview.length} transactions:`,
-                total_count: transactions.length,
                 estimated_size_kb: Math.round(estimatedSize / 1024),
                 preview_transactions: preview.map((transaction) => ({
                   id: transaction.id,
@@ -831,28 +1147,12 @@ export async function handleListTransactions(
           {
             type: 'text',
             text: responseFormatter.format({
-              total_count: transactions.length,
+              ...pagination,
               cached: cacheHit,
               cache_info: cacheHit
                 ? `Data retrieved from cache for improved performance${usedDelta ? ' (delta merge applied)' : ''}`
                 : 'Fresh data retrieved from YNAB API',
-              transactions: transactions.map((transaction) => ({
-                id: transaction.id,
-                date: transaction.date,
-                amount: milliunitsToAmount(transaction.amount),
-                memo: transaction.memo,
-                cleared: transaction.cleared,
-                approved: transaction.approved,
-                flag_color: transaction.flag_color,
-                account_id: transaction.account_id,
-                payee_id: transaction.payee_id,
-                category_id: transaction.category_id,
-                transfer_account_id: transaction.transfer_account_id,
-                transfer_transaction_id: transaction.transfer_transaction_id,
-                matched_transaction_id: transaction.matched_transaction_id,
-                import_id: transaction.import_id,
-                deleted: transaction.deleted,
-              })),
+              transactions: formatted,
             }),
           },
         ],
@@ -998,22 +1298,7 @@ export async function handleCreateTransaction(
     if (params.approved !== undefined) transactionData.approved = params.approved;
     if (params.import_id !== undefined) transactionData.import_id = params.import_id;
     if (params.subtransactions && params.subtransactions.length > 0) {
-      const subtransactions: SaveSubTransaction[] = params.subtransactions.map((subtransaction) => {
-        const mapped: SaveSubTransaction = {
-          amount: subtransaction.amount,
-        };
-
-        if (subtransaction.payee_name !== undefined) mapped.payee_name = subtransaction.payee_name;
-        if (subtransaction.payee_id !== undefined) mapped.payee_id = subtransaction.payee_id;
-        if (subtransaction.category_id !== undefined) {
-          mapped.category_id = subtransaction.category_id;
-        }
-        if (subtransaction.memo !== undefined) mapped.memo = subtransaction.memo;
-
-        return mapped;
-      });
-
-      transactionData.subtransactions = subtransactions;
+      transactionData.subtransactions = toSaveSubTransactions(params.subtransactions);
     }
 
     const response = await ynabAPI.transactions.createTransaction(params.budget_id, {
@@ -1097,12 +1382,17 @@ interface ReceiptCategoryCalculation {
   category_id: string;
   category_name: string | undefined;
   subtotal_milliunits: number;
+  discount_milliunits: number;
   tax_milliunits: number;
+  tax_by_class: Record<string, number>;
+  adjustments: { name: string; amount_milliunits: number }[];
   items: {
     name: string;
     amount_milliunits: number;
+    discount_milliunits: number;
     quantity: number | undefined;
     memo: string | undefined;
+    tax_class: string;
   }[];
 }
 
@@ -1118,43 +1408,45 @@ function buildItemMemo(item: {
   name: string;
   quantity: number | undefined;
   memo: string | undefined;
+  discount_milliunits?: number;
 }): string | undefined {
   const quantitySuffix = item.quantity ? ` (x${item.quantity})` : '';
+  const discountSuffix = item.discount_milliunits
+    ? ` (discount ${milliunitsToAmount(item.discount_milliunits).toFixed(2)})`
+    : '';
   if (item.memo && item.memo.trim().length > 0) {
-    return `${item.name}${quantitySuffix} - ${item.memo}`;
+    return `${item.name}${quantitySuffix} - ${item.memo}${discountSuffix}`;
   }
-  if (quantitySuffix) {
-    return `${item.name}${quantitySuffix}`;
+  if (quantitySuffix || discountSuffix) {
+    return `${item.name}${quantitySuffix}${discountSuffix}`;
   }
   return item.name;
 }
 
-function distributeTaxProportionally(
-  subtotalMilliunits: number,
-  totalTaxMilliunits: number,
-  categories: ReceiptCategoryCalculation[],
-): void {
-  if (totalTaxMilliunits === 0) {
-    for (const category of categories) category.tax_milliunits = 0;
-    return;
-  }
+/**
+ * Splits a milliunit amount across weights, rounding each share and giving the leftover pennies
+ * to the last weighted entry so the shares always add up to the total
+ */
+function allocateProportionally(totalMilliunits: number, weights: number[]): number[] {
+  const shares = weights.map(() => 0);
+  if (totalMilliunits === 0) return shares;
 
-  if (subtotalMilliunits <= 0) {
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightTotal <= 0) {
     throw new Error('Receipt subtotal must be greater than zero to distribute tax');
   }
 
+  const lastIndex = weights.reduce((last, weight, index) => (weight > 0 ? index : last), -1);
   let allocated = 0;
-  categories.forEach((category, index) => {
-    if (index === categories.length - 1) {
-      category.tax_milliunits = totalTaxMilliunits - allocated;
-    } else {
-      const proportionalTax = Math.round(
-        (totalTaxMilliunits * category.subtotal_milliunits) / subtotalMilliunits,
-      );
-      category.tax_milliunits = proportionalTax;
-      allocated += proportionalTax;
+  weights.forEach((weight, index) => {
+    if (index === lastIndex) {
+      shares[index] = totalMilliunits - allocated;
+    } else if (weight > 0) {
+      shares[index] = Math.round((totalMilliunits * weight) / weightTotal);
+      allocated += shares[index]!;
     }
   });
+  return shares;
 }
 
 export async function handleCreateReceiptSplitTransaction(
@@ -1181,18 +1473,25 @@ export async function handleCreateReceiptSplitTransaction(
   const date = params.date ?? new Date().toISOString().slice(0, 10);
 
   const categoryCalculations: ReceiptCategoryCalculation[] = params.categories.map((category) => {
-    const items = category.items.map((item) => ({
-      name: item.name,
-      amount_milliunits: amountToMilliunits(item.amount),
-      quantity: item.quantity,
-      memo: item.memo,
-    }));
-    const subtotalMilliunits = items.reduce((sum, item) => sum + item.amount_milliunits, 0);
+    const items = category.items.map((item) => {
+      const discountMilliunits = amountToMilliunits(item.discount ?? 0);
+      return {
+        name: item.name,
+        amount_milliunits: amountToMilliunits(item.amount) - discountMilliunits,
+        discount_milliunits: discountMilliunits,
+        quantity: item.quantity,
+        memo: item.memo,
+        tax_class: item.tax_class ?? RECEIPT_DEFAULT_TAX_CLASS,
+      };
+    });
     return {
       category_id: category.category_id,
       category_name: category.category_name,
-      subtotal_milliunits: subtotalMilliunits,
+      subtotal_milliunits: items.reduce((sum, item) => sum + item.amount_milliunits, 0),
+      discount_milliunits: items.reduce((sum, item) => sum + item.discount_milliunits, 0),
       tax_milliunits: 0,
+      tax_by_class: {},
+      adjustments: [],
       items,
     };
   });
@@ -1201,6 +1500,10 @@ export async function handleCreateReceiptSplitTransaction(
     (sum, category) => sum + category.subtotal_milliunits,
     0,
   );
+  const discountMilliunits = categoryCalculations.reduce(
+    (sum, category) => sum + category.discount_milliunits,
+    0,
+  );
 
   const declaredSubtotalMilliunits =
     params.receipt_subtotal !== undefined ? amountToMilliunits(params.receipt_subtotal) : undefined;
@@ -1213,20 +1516,78 @@ export async function handleCreateReceiptSplitTransaction(
     );
   }
 
-  const taxMilliunits = amountToMilliunits(params.receipt_tax);
+  const taxLines = (
+    params.tax_lines ?? [{ tax_class: RECEIPT_DEFAULT_TAX_CLASS, amount: params.receipt_tax ?? 0 }]
+  ).map((line) => ({
+    tax_class: line.tax_class,
+    name: 'name' in line ? line.name : undefined,
+    amount_milliunits: amountToMilliunits(line.amount),
+  }));
+  const taxMilliunits = taxLines.reduce((sum, line) => sum + line.amount_milliunits, 0);
+  const adjustmentMilliunits = (params.adjustments ?? []).reduce(
+    (sum, adjustment) => sum + amountToMilliunits(adjustment.amount),
+    0,
+  );
   const totalMilliunits = amountToMilliunits(params.receipt_total);
-  const computedTotal = subtotalMilliunits + taxMilliunits;
+  const computedTotal = subtotalMilliunits + taxMilliunits + adjustmentMilliunits;
   if (Math.abs(computedTotal - totalMilliunits) > 1) {
     throw new Error(
-      `Receipt total (${milliunitsToAmount(totalMilliunits)}) does not equal subtotal plus tax (${milliunitsToAmount(computedTotal)})`,
+      `Receipt total (${milliunitsToAmount(totalMilliunits)}) does not equal subtotal plus tax${params.adjustments?.length ? ' and adjustments' : ''} (${milliunitsToAmount(computedTotal)})`,
     );
   }
 
-  distributeTaxProportionally(subtotalMilliunits, taxMilliunits, categoryCalculations);
+  // Each tax class is spread only over the categories holding items of that class
+  for (const line of taxLines) {
+    const shares = allocateProportionally(
+      line.amount_milliunits,
+      categoryCalculations.map((category) =>
+        category.items
+          .filter((item) => item.tax_class === line.tax_class)
+          .reduce((sum, item) => sum + item.amount_milliunits, 0),
+      ),
+    );
+    categoryCalculations.forEach((category, index) => {
+      const share = shares[index]!;
+      if (share !== 0) {
+        category.tax_by_class[line.tax_class] = share;
+        category.tax_milliunits += share;
+      }
+    });
+  }
+
+  // Tips and fees with their own category become separate lines; the rest follow the items
+  const categorizedAdjustments: SubtransactionInput[] = [];
+  for (const adjustment of params.adjustments ?? []) {
+    const amountMilliunits = amountToMilliunits(adjustment.amount);
+    if (adjustment.category_id) {
+      categorizedAdjustments.push({
+        amount: -amountMilliunits,
+        category_id: adjustment.category_id,
+        memo: adjustment.name,
+      });
+      continue;
+    }
+    const shares = allocateProportionally(
+      amountMilliunits,
+      categoryCalculations.map((category) => category.subtotal_milliunits),
+    );
+    categoryCalculations.forEach((category, index) => {
+      const share = shares[index]!;
+      if (share !== 0) {
+        category.adjustments.push({ name: adjustment.name, amount_milliunits: share });
+      }
+    });
+  }
 
   const subtransactions: SubtransactionInput[] = categoryCalculations.flatMap((category) => {
+    const categoryLabel = category.category_name ?? 'Uncategorized';
     const itemSubtransactions: SubtransactionInput[] = category.items.map((item) => {
-      const memo = buildItemMemo({ name: item.name, quantity: item.quantity, memo: item.memo });
+      const memo = buildItemMemo({
+        name: item.name,
+        quantity: item.quantity,
+        memo: item.memo,
+        discount_milliunits: item.discount_milliunits,
+      });
       const payload: SubtransactionInput = {
         amount: -item.amount_milliunits,
         category_id: category.category_id,
@@ -1235,37 +1596,86 @@ export async function handleCreateReceiptSplitTransaction(
       return payload;
     });
 
-    const taxSubtransaction: SubtransactionInput[] =
-      category.tax_milliunits > 0
-        ? [
-            {
-              amount: -category.tax_milliunits,
-              category_id: category.category_id,
-              memo: `Tax - ${category.category_name ?? 'Uncategorized'}`,
-            },
-          ]
-        : [];
+    const taxSubtransactions: SubtransactionInput[] = taxLines
+      .filter((line) => (category.tax_by_class[line.tax_class] ?? 0) > 0)
+      .map((line) => ({
+        amount: -category.tax_by_class[line.tax_class]!,
+        category_id: category.category_id,
+        memo: `${line.name ?? (line.tax_class === RECEIPT_DEFAULT_TAX_CLASS ? 'Tax' : line.tax_class)} - ${categoryLabel}`,
+      }));
 
-    return [...itemSubtransactions, ...taxSubtransaction];
+    const adjustmentSubtransactions: SubtransactionInput[] = category.adjustments.map(
+      (adjustment) => ({
+        amount: -adjustment.amount_milliunits,
+        category_id: category.category_id,
+        memo: `${adjustment.name} - ${categoryLabel}`,
+      }),
+    );
+
+    return [...itemSubtransactions, ...taxSubtransactions, ...adjustmentSubtransactions];
   });
+  subtransactions.push(...categorizedAdjustments);
 
+  const hasTaxClasses = params.tax_lines !== undefined;
   const receiptSummary = {
     subtotal: milliunitsToAmount(subtotalMilliunits),
+    ...(discountMilliunits > 0 && { discounts: milliunitsToAmount(discountMilliunits) }),
     tax: milliunitsToAmount(taxMilliunits),
-    total: milliunitsToAmount(totalMilliunits),
-    categories: categoryCalculations.map((category) => ({
-      category_id: category.category_id,
-      category_name: category.category_name,
-      items: category.items.map((item) => ({
-        name: item.name,
-        quantity: item.quantity,
-        amount: milliunitsToAmount(item.amount_milliunits),
-        memo: item.memo,
+    ...(hasTaxClasses && {
+      tax_breakdown: taxLines.map((line) => ({
+        tax_class: line.tax_class,
+        name: line.name,
+        amount: milliunitsToAmount(line.amount_milliunits),
       })),
-      subtotal: milliunitsToAmount(category.subtotal_milliunits),
-      tax: milliunitsToAmount(category.tax_milliunits),
-      total: milliunitsToAmount(category.subtotal_milliunits + category.tax_milliunits),
-    })),
+    }),
+    ...(params.adjustments?.length && {
+      adjustments: params.adjustments.map((adjustment) => ({
+        name: adjustment.name,
+        amount: adjustment.amount,
+        category_id: adjustment.category_id ?? null,
+        allocation: adjustment.category_id ? 'category' : 'proportional',
+      })),
+    }),
+    total: milliunitsToAmount(totalMilliunits),
+    categories: categoryCalculations.map((category) => {
+      const categoryAdjustments = category.adjustments.reduce(
+        (sum, adjustment) => sum + adjustment.amount_milliunits,
+        0,
+      );
+      return {
+        category_id: category.category_id,
+        category_name: category.category_name,
+        items: category.items.map((item) => ({
+          name: item.name,
+          quantity: item.quantity,
+          amount: milliunitsToAmount(item.amount_milliunits),
+          ...(item.discount_milliunits > 0 && {
+            discount: milliunitsToAmount(item.discount_milliunits),
+          }),
+          ...(hasTaxClasses && { tax_class: item.tax_class }),
+          memo: item.memo,
+        })),
+        subtotal: milliunitsToAmount(category.subtotal_milliunits),
+        tax: milliunitsToAmount(category.tax_milliunits),
+        ...(hasTaxClasses && {
+          tax_by_class: Object.fromEntries(
+            Object.entries(category.tax_by_class).map(([taxClass, amount]) => [
+              taxClass,
+              milliunitsToAmount(amount),
+            ]),
+          ),
+        }),
+        ...(category.adjustments.length > 0 && {
+          adjustments: category.adjustments.map((adjustment) => ({
+            name: adjustment.name,
+            amount: milliunitsToAmount(adjustment.amount_milliunits),
+          })),
+        }),
+        total: milliunitsToAmount(
+          category.subtotal_milliunits + category.tax_milliunits + categoryAdjustments,
+        ),
+      };
+    }),
   };
 
   if (params.dry_run) {
@@ -1529,6 +1939,229 @@ export async function handleUpdateTransaction(
   }
 }
 
+function formatSplitTransaction(transaction: ynab.TransactionDetail) {
+  return {
+    id: transaction.id,
+    date: transaction.date,
+    amount: milliunitsToAmount(transaction.amount),
+    account_id: transaction.account_id,
+    payee_id: transaction.payee_id,
+    category_id: transaction.category_id,
+    memo: transaction.memo,
+    cleared: transaction.cleared,
+    approved: transaction.approved,
+    import_id: transaction.import_id,
+    subtransactions: (transaction.subtransactions ?? [])
+      .filter((subtransaction) => !subtransaction.deleted)
+      .map((subtransaction) => ({
+        amount: milliunitsToAmount(subtransaction.amount),
+        category_id: subtransaction.category_id,
+        category_name: subtransaction.category_name,
+        payee_id: subtransaction.payee_id,
+        memo: subtransaction.memo,
+      })),
+  };
+}
+
+/**
+ * Handles the ynab:update_split_transaction tool call
+ * Converts a transaction into a split, rewrites the lines of an existing split, or collapses a
+ * split back to one category. The YNAB API only accepts subtransactions when a transaction first
+ * becomes a split, so edits to an existing split replace the transaction: a new transaction is
+ * created with the same parent fields and the original is deleted.
+ */
+export async function handleUpdateSplitTransaction(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: UpdateSplitTransactionParams,
+): Promise<CallToolResult>;
+export async function handleUpdateSplitTransaction(
+  ynabAPI: ynab.API,
+  params: UpdateSplitTransactionParams,
+): Promise<CallToolResult>;
+export async function handleUpdateSplitTransaction(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | UpdateSplitTransactionParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | UpdateSplitTransactionParams,
+  maybeParams?: UpdateSplitTransactionParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+
+  return (await withToolErrorHandling(
+    async () => {
+      const { budget_id, transaction_id } = params;
+      const originalResponse = await ynabAPI.transactions.getTransactionById(
+        budget_id,
+        transaction_id,
+      );
+      const original = ensureTransaction(
+        originalResponse.data.transaction,
+        'Original transaction not found',
+      );
+      const isSplit = (original.subtransactions ?? []).some(
+        (subtransaction) => !subtransaction.deleted,
+      );
+      const amount = params.amount ?? original.amount;
+
+      if (!isSplit && params.category_id !== undefined) {
+        throw new ValidationError(
+          'Transaction is not a split, so there is nothing to collapse',
+          undefined,
+          ['Use update_transaction to change the category of a regular transaction'],
+        );
+      }
+      if (params.subtransactions) {
+        const total = params.subtransactions.reduce((sum, sub) => sum + sub.amount, 0);
+        if (total !== amount) {
+          throw new ValidationError(
+            'Subtransaction amounts must sum to the transaction amount',
+            `Subtransactions total ${milliunitsToAmount(total)} but the transaction amount is ${milliunitsToAmount(amount)}`,
+            ['Adjust the subtransaction amounts, or pass amount to change the parent total'],
+          );
+        }
+      }
+
+      const mode = isSplit ? (params.subtransactions ? 'edit' : 'collapse') : 'convert';
+      const replaces = mode !== 'convert';
+      if (replaces && original.import_id) {
+        // A replacement cannot reuse the import_id while the original exists, and without it the
+        // next bank import would bring the original back as a new transaction
+        throw new ValidationError(
+          'Imported split transactions cannot be edited or collapsed',
+          `Transaction ${transaction_id} has import_id ${original.import_id}, which the replacement transaction could not keep`,
+          ['Edit the split lines in the YNAB app instead'],
+        );
+      }
+      const replacementNote =
+        'Existing splits cannot be edited through the YNAB API, so the transaction is replaced: a new transaction with the same date, account, payee, memo, cleared and approved state is created and the original is deleted. The replacement has a new ID.';
+
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'update_split_transaction',
+                mode,
+                before: formatSplitTransaction(original),
+                after: {
+                  amount: milliunitsToAmount(amount),
+                  category_id: params.category_id ?? null,
+                  subtransactions: (params.subtransactions ?? []).map((subtransaction) => ({
+                    ...subtransaction,
+                    amount: milliunitsToAmount(subtransaction.amount),
+                  })),
+                },
+                ...(replaces && { note: replacementNote }),
+              }),
+            },
+          ],
+        };
+      }
+
+      let updated: ynab.TransactionDetail;
+      let serverKnowledge: number;
+      if (mode === 'convert') {
+        const response = await ynabAPI.transactions.updateTransaction(budget_id, transaction_id, {
+          transaction: {
+            amount,
+            category_id: null,
+            subtransactions: toSaveSubTransactions(params.subtransactions ?? []),
+          },
+        });
+        updated = ensureTransaction(response.data.transaction, 'Transaction update failed');
+        serverKnowledge = response.data.server_knowledge;
+      } else {
+        const replacement: SaveTransaction = {
+          account_id: original.account_id,
+          date: original.date,
+          amount,
+          payee_id: original.payee_id ?? null,
+          memo: original.memo ?? null,
+          cleared: original.cleared,
+          approved: original.approved,
+          flag_color: original.flag_color ?? null,
+        };
+        if (params.subtransactions) {
+          replacement.category_id = null;
+          replacement.subtransactions = toSaveSubTransactions(params.subtransactions);
+        } else {
+          replacement.category_id = params.category_id ?? null;
+        }
+        const created = await ynabAPI.transactions.createTransaction(budget_id, {
+          transaction: replacement,
+        });
+        updated = ensureTransaction(
+          created.data.transaction,
+          'Replacement transaction creation failed',
+        );
+        try {
+          const deleted = await ynabAPI.transactions.deleteTransaction(budget_id, transaction_id);
+          serverKnowledge = deleted.data.server_knowledge;
+        } catch (error) {
+          throw new ValidationError(
+            'Replacement transaction was created but the original could not be deleted',
+            `Replacement ${updated.id} and original ${transaction_id} both exist now: ${
+              error instanceof Error ? error.message : 'unknown error'
+            }`,
+            [`Delete the original with delete_transaction (transaction_id: ${transaction_id})`],
+          );
+        }
+      }
+
+      cacheManager.delete(
+        CacheManager.generateKey('transaction', 'get', budget_id, transaction_id),
+      );
+      // Transfer split lines also change the balance of the account they transfer to
+      const affectedAccountIds = new Set<string>([
+        original.account_id,
+        ...[...(original.subtransactions ?? []), ...(updated.subtransactions ?? [])]
+          .map((subtransaction) => subtransaction.transfer_account_id)
+          .filter((accountId): accountId is string => Boolean(accountId)),
+      ]);
+      const affectedMonths = new Set<string>([toMonthKey(original.date)]);
+      const affectedCategoryIds = new Set<string>([
+        ...collectCategoryIdsFromSources(original),
+        ...collectCategoryIdsFromSources(updated),
+      ]);
+      invalidateTransactionCaches(
+        deltaCache,
+        knowledgeStore,
+        budget_id,
+        serverKnowledge,
+        affectedAccountIds,
+        affectedMonths,
+        {
+          affectedCategoryIds,
+          accountTotalsChanged: replaces || amount !== original.amount,
+          invalidateMonths: true,
+        },
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              mode,
+              transaction: formatSplitTransaction(updated),
+              ...(replaces && { replaced_transaction_id: transaction_id, note: replacementNote }),
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:update_split_transaction',
+    'updating split transaction',
+  )) as CallToolResult;
+}
+
 /**
  * Handles the ynab:delete_transaction tool call
  * Deletes a transaction from the specified budget
@@ -1633,6 +2266,257 @@ export async function handleDeleteTransaction(
   }
 }
 
+/**
+ * Fingerprint of a delete selection, so a live delete_transactions run can only delete exactly
+ * what its dry run previewed
+ */
+function deleteSelectionToken(budgetId: string, transactionIds: string[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify([budgetId, [...transactionIds].sort()]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function matchesDeleteFilter(
+  transaction: ynab.TransactionDetail,
+  filter: NonNullable<DeleteTransactionsParams['filter']>,
+): boolean {
+  if (filter.account_id && transaction.account_id !== filter.account_id) return false;
+  if (filter.since_date && transaction.date < filter.since_date) return false;
+  if (filter.until_date && transaction.date > filter.until_date) return false;
+  if (filter.cleared && transaction.cleared !== filter.cleared) return false;
+  if (
+    filter.payee_contains &&
+    !(transaction.payee_name ?? '').toLowerCase().includes(filter.payee_contains.toLowerCase())
+  ) {
+    return false;
+  }
+  if (filter.import_id_prefix && !transaction.import_id?.startsWith(filter.import_id_prefix)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Handles the ynab:delete_transactions tool call
+ * Deletes up to 100 transactions selected by id or by filter. Selections are resolved against the
+ * delta-cached transaction snapshot; a dry run must come first and its confirmation_token is
+ * required for the live run.
+ */
+export async function handleDeleteTransactions(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: DeleteTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleDeleteTransactions(
+  ynabAPI: ynab.API,
+  params: DeleteTransactionsParams,
+): Promise<CallToolResult>;
+export async function handleDeleteTransactions(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | DeleteTransactionsParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | DeleteTransactionsParams,
+  maybeParams?: DeleteTransactionsParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+
+  return (await withToolErrorHandling(
+    async () => {
+      const { budget_id } = params;
+      const deltaFetcher = new DeltaFetcher(ynabAPI, deltaCache);
+      const snapshot = await deltaFetcher.fetchTransactions(budget_id);
+      const byId = new Map(
+        snapshot.data
+          .filter((transaction) => !transaction.deleted)
+          .map((transaction) => [transaction.id, transaction]),
+      );
+
+      let selected: ynab.TransactionDetail[];
+      const notFoundIds: string[] = [];
+      if (params.transaction_ids) {
+        selected = [];
+        for (const id of params.transaction_ids) {
+          const transaction = byId.get(id);
+          if (transaction) {
+            selected.push(transaction);
+          } else {
+            notFoundIds.push(id);
+          }
+        }
+      } else {
+        const filter = params.filter ?? {};
+        selected = Array.from(byId.values())
+          .filter((transaction) => matchesDeleteFilter(transaction, filter))
+          .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+        if (selected.length > MAX_BULK_DELETE) {
+          throw new ValidationError(
+            `Filter matches ${selected.length} transactions; at most ${MAX_BULK_DELETE} can be deleted per call`,
+            undefined,
+            ['Narrow the filter with a date range or account_id and run it in several passes'],
+          );
+        }
+      }
+
+      const selectedIds = selected.map((transaction) => transaction.id);
+      const token = deleteSelectionToken(budget_id, selectedIds);
+
+      if (params.dry_run) {
+        const accountsAffected = Array.from(
+          new Set(selected.map((transaction) => transaction.account_id)),
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'delete_transactions',
+                summary: {
+                  total_matched: selected.length,
+                  total_amount: milliunitsToAmount(
+                    selected.reduce((sum, transaction) => sum + transaction.amount, 0),
+                  ),
+                  accounts_affected: accountsAffected,
+                  ...(notFoundIds.length > 0 && { not_found_ids: notFoundIds }),
+                },
+                transactions_preview: selected.map((transaction) => ({
+                  transaction_id: transaction.id,
+                  date: transaction.date,
+                  amount: milliunitsToAmount(transaction.amount),
+                  payee_name: transaction.payee_name,
+                  account_name: transaction.account_name,
+                  memo: transaction.memo,
+                  cleared: transaction.cleared,
+                  import_id: transaction.import_id,
+                  ...(transaction.transfer_account_id && {
+                    transfer_account_id: transaction.transfer_account_id,
+                  }),
+                })),
+                ...(selected.length > 0 && { confirmation_token: token }),
+                note:
+                  selected.length > 0
+                    ? 'Dry run complete. No transactions deleted. Re-run with dry_run: false and this confirmation_token to delete exactly these transactions.'
+                    : 'No transactions matched. Nothing to delete.',
+              }),
+            },
+          ],
+        };
+      }
+
+      if (params.confirmation_token !== token) {
+        throw new ValidationError(
+          'Confirmation token does not match the current selection',
+          'The transactions matching this request changed since the dry run, or the token belongs to a different request',
+          ['Run delete_transactions with dry_run: true again and use the new confirmation_token'],
+        );
+      }
+
+      const requestIndex = new Map(
+        (params.transaction_ids ?? selectedIds).map((id, index) => [id, index]),
+      );
+      const results: BulkDeleteResult[] = [];
+      const affectedAccountIds = new Set<string>();
+      const affectedMonths = new Set<string>();
+      const affectedCategoryIds = new Set<string>();
+      let serverKnowledge: number | undefined;
+
+      for (const transaction of selected) {
+        const index = requestIndex.get(transaction.id) ?? results.length;
+        try {
+          const response = await ynabAPI.transactions.deleteTransaction(budget_id, transaction.id);
+          const deleted = ensureTransaction(
+            response.data.transaction,
+            'Transaction deletion failed',
+          );
+          serverKnowledge = response.data.server_knowledge;
+          cacheManager.delete(
+            CacheManager.generateKey('transaction', 'get', budget_id, transaction.id),
+          );
+          affectedAccountIds.add(deleted.account_id);
+          if (deleted.transfer_account_id) {
+            affectedAccountIds.add(deleted.transfer_account_id);
+          }
+          affectedMonths.add(toMonthKey(deleted.date));
+          for (const categoryId of collectCategoryIdsFromSources(deleted)) {
+            affectedCategoryIds.add(categoryId);
+          }
+          results.push({
+            request_index: index,
+            status: 'deleted',
+            transaction_id: transaction.id,
+            correlation_key: transaction.id,
+          });
+        } catch (error) {
+          results.push({
+            request_index: index,
+            status: 'failed',
+            transaction_id: transaction.id,
+            correlation_key: transaction.id,
+            error_code: 'delete_failed',
+            error: error instanceof Error ? error.message : 'Transaction was not deleted',
+          });
+        }
+      }
+      for (const id of notFoundIds) {
+        results.push({
+          request_index: requestIndex.get(id) ?? results.length,
+          status: 'failed',
+          transaction_id: id,
+          correlation_key: id,
+          error_code: 'not_found',
+          error: 'Transaction not found or already deleted',
+        });
+      }
+      results.sort((a, b) => a.request_index - b.request_index);
+
+      if (affectedAccountIds.size > 0) {
+        invalidateTransactionCaches(
+          deltaCache,
+          knowledgeStore,
+          budget_id,
+          serverKnowledge,
+          affectedAccountIds,
+          affectedMonths,
+          {
+            affectedCategoryIds,
+            accountTotalsChanged: true,
+            invalidateMonths: true,
+          },
+        );
+      }
+
+      const summary = {
+        total_requested: results.length,
+        deleted: results.filter((result) => result.status === 'deleted').length,
+        failed: results.filter((result) => result.status === 'failed').length,
+      };
+      const response: BulkDeleteResponse = {
+        success: summary.failed === 0,
+        ...(serverKnowledge !== undefined && { server_knowledge: serverKnowledge }),
+        summary,
+        results,
+        message: `Processed ${summary.total_requested} transactions: ${summary.deleted} deleted, ${summary.failed} failed.`,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format(response),
+          },
+        ],
+      };
+    },
+    'ynab:delete_transactions',
+    'bulk transaction delete',
+  )) as CallToolResult;
+}
+
 export async function handleCreateTransactions(
   ynabAPI: ynab.API,
   deltaCache: DeltaCache,
@@ -1749,6 +2633,9 @@ export async function handleCreateTransactions(
           payee_name: transaction.payee_name,
           category_id: transaction.category_id,
           import_id: transaction.import_id,
+          ...(transaction.subtransactions && {
+            subtransaction_count: transaction.subtransactions.length,
+          }),
         }));
 
         return {
@@ -1789,6 +2676,9 @@ export async function handleCreateTransactions(
         if (transaction.approved !== undefined) payload.approved = transaction.approved;
         if (transaction.flag_color !== undefined) payload.flag_color = transaction.flag_color;
         if (transaction.import_id !== undefined) payload.import_id = transaction.import_id;
+        if (transaction.subtransactions && transaction.subtransactions.length > 0) {
+          payload.subtransactions = toSaveSubTransactions(transaction.subtransactions);
+        }
 
         return payload;
       });
@@ -0,0 +1,475 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as ynab from 'ynab';
+import { z } from 'zod/v4';
+import { ValidationError, withToolErrorHandling } from '../types/index.js';
+import { responseFormatter } from '../server/responseFormatter.js';
+import { milliunitsToAmount } from '../utils/amountUtils.js';
+import type { DeltaCache } from '../server/deltaCache.js';
+import type { ServerKnowledgeStore } from '../server/serverKnowledgeStore.js';
+import { DeltaFetcher } from './deltaFetcher.js';
+import { resolveDeltaFetcherArgs, resolveDeltaWriteArgs } from './deltaSupport.js';
+import { PaginationParamsShape, paginate } from './paginationSupport.js';
+import { READY_TO_ASSIGN_NAMES } from './reportSupport.js';
+import { invalidateTransactionCaches } from './transactionTools.js';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Schema for ynab:create_transfer tool parameters
+ */
+export const CreateTransferSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    from_account_id: z.string().min(1, 'From account ID is required'),
+    to_account_id: z.string().min(1, 'To account ID is required'),
+    amount: z
+      .number()
+      .int('Amount must be an integer in milliunits')
+      .positive('Amount must be positive; the direction comes from from/to accounts'),
+    date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)'),
+    memo: z.string().optional(),
+    category_id: z.string().optional(),
+    cleared: z.enum(['cleared', 'uncleared', 'reconciled']).optional(),
+    approved: z.boolean().optional(),
+    flag_color: z.enum(['red', 'orange', 'yellow', 'green', 'blue', 'purple']).optional(),
+    dry_run: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (data.from_account_id === data.to_account_id) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'from_account_id and to_account_id must be different accounts',
+        path: ['to_account_id'],
+      });
+    }
+  });
+
+export type CreateTransferParams = z.infer<typeof CreateTransferSchema>;
+
+/**
+ * Schema for ynab:list_transfers tool parameters
+ */
+export const ListTransfersSchema = z
+  .object({
+    budget_id: z.string().min(1, 'Budget ID is required'),
+    account_id: z.string().optional(),
+    since_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    until_date: z.string().regex(ISO_DATE, 'Date must be in ISO format (YYYY-MM-DD)').optional(),
+    orphans_only: z.boolean().optional(),
+    // Pairs and orphans have no common id to project on, so `fields` is not offered
+    limit: PaginationParamsShape.limit,
+    cursor: PaginationParamsShape.cursor,
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (data.since_date && data.until_date && data.since_date > data.until_date) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'since_date must be on or before until_date',
+        path: ['until_date'],
+      });
+    }
+  });
+
+export type ListTransfersParams = z.infer<typeof ListTransfersSchema>;
+
+/**
+ * Which side of the budget a transfer crosses, which decides whether it needs a category
+ */
+type TransferKind =
+  | 'budget_to_budget'
+  | 'budget_to_tracking'
+  | 'tracking_to_budget'
+  | 'tracking_to_tracking';
+
+type OrphanReason =
+  | 'missing_counterpart'
+  | 'counterpart_not_found'
+  | 'amount_mismatch'
+  | 'account_mismatch';
+
+/** One side of a transfer, either a whole transaction or a split line */
+interface TransferLeg {
+  id: string;
+  parent_id?: string;
+  account_id: string;
+  date: string;
+  amount: number;
+  memo?: string | null | undefined;
+  cleared: ynab.TransactionClearedStatus;
+  approved: boolean;
+  transfer_account_id: string;
+  transfer_transaction_id?: string | null | undefined;
+}
+
+function ensureOpenAccount(accounts: Map<string, ynab.Account>, accountId: string): ynab.Account {
+  const account = accounts.get(accountId);
+  if (!account) {
+    throw new ValidationError(`Account not found: ${accountId}`, undefined, [
+      'Use list_accounts to find valid account IDs',
+    ]);
+  }
+  if (account.closed) {
+    throw new ValidationError(`Account "${account.name}" is closed`, undefined, [
+      'Reopen the account in YNAB before transferring money into or out of it',
+    ]);
+  }
+  return account;
+}
+
+function transferKind(from: ynab.Account, to: ynab.Account): TransferKind {
+  if (from.on_budget) {
+    return to.on_budget ? 'budget_to_budget' : 'budget_to_tracking';
+  }
+  return to.on_budget ? 'tracking_to_budget' : 'tracking_to_tracking';
+}
+
+function findReadyToAssignCategoryId(
+  groups: ynab.CategoryGroupWithCategories[],
+): string | undefined {
+  for (const group of groups) {
+    for (const category of group.categories) {
+      if (!category.deleted && READY_TO_ASSIGN_NAMES.has(category.name)) {
+        return category.id;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Handles the ynab:create_transfer tool call
+ * Creates a transfer between two accounts using the destination account's transfer payee
+ */
+export async function handleCreateTransfer(
+  ynabAPI: ynab.API,
+  deltaCache: DeltaCache,
+  knowledgeStore: ServerKnowledgeStore,
+  params: CreateTransferParams,
+): Promise<CallToolResult>;
+export async function handleCreateTransfer(
+  ynabAPI: ynab.API,
+  params: CreateTransferParams,
+): Promise<CallToolResult>;
+export async function handleCreateTransfer(
+  ynabAPI: ynab.API,
+  deltaCacheOrParams: DeltaCache | CreateTransferParams,
+  knowledgeStoreOrParams?: ServerKnowledgeStore | CreateTransferParams,
+  maybeParams?: CreateTransferParams,
+): Promise<CallToolResult> {
+  const { deltaCache, knowledgeStore, params } = resolveDeltaWriteArgs(
+    deltaCacheOrParams,
+    knowledgeStoreOrParams,
+    maybeParams,
+  );
+
+  return await withToolErrorHandling(
+    async () => {
+      const deltaFetcher = new DeltaFetcher(ynabAPI, deltaCache);
+      const accountsResult = await deltaFetcher.fetchAccounts(params.budget_id);
+      const accounts = new Map(accountsResult.data.map((account) => [account.id, account]));
+      const from = ensureOpenAccount(accounts, params.from_account_id);
+      const to = ensureOpenAccount(accounts, params.to_account_id);
+      const kind = transferKind(from, to);
+
+      // YNAB only keeps the category on the side the transaction is created on, so when exactly
+      // one account is on budget the transfer is entered from that side
+      const enterFromDestination = kind === 'tracking_to_budget';
+      const entryAccount = enterFromDestination ? to : from;
+      const counterpart = enterFromDestination ? from : to;
+      if (!counterpart.transfer_payee_id) {
+        throw new ValidationError(
+          `Account "${counterpart.name}" has no transfer payee`,
+          'YNAB did not return a transfer payee for this account',
+        );
+      }
+
+      let categoryId: string | undefined;
+      if (kind === 'budget_to_budget' || kind === 'tracking_to_tracking') {
+        if (params.category_id) {
+          throw new ValidationError(
+            'Transfers between two on-budget or two tracking accounts cannot have a category',
+            'Money stays on the same side of the budget, so YNAB leaves these transfers uncategorized',
+            ['Remove category_id'],
+          );
+        }
+      } else if (kind === 'budget_to_tracking') {
+        if (!params.category_id) {
+          throw new ValidationError(
+            `category_id is required when moving money from "${from.name}" (on budget) to "${to.name}" (tracking)`,
+            'The money leaves the budget, so the outflow has to be assigned to a category',
+            [
+              'Pass the category that should fund this transfer, e.g. an investment or savings goal',
+            ],
+          );
+        }
+        categoryId = params.category_id;
+      } else {
+        categoryId =
+          params.category_id ??
+          findReadyToAssignCategoryId((await deltaFetcher.fetchCategories(params.budget_id)).data);
+      }
+
+      const transaction: ynab.NewTransaction = {
+        account_id: entryAccount.id,
+        payee_id: counterpart.transfer_payee_id,
+        amount: enterFromDestination ? params.amount : -params.amount,
+        date: params.date,
+      };
+      if (categoryId !== undefined) transaction.category_id = categoryId;
+      if (params.memo !== undefined) transaction.memo = params.memo;
+      if (params.cleared !== undefined) {
+        transaction.cleared = params.cleared as ynab.TransactionClearedStatus;
+      }
+      if (params.approved !== undefined) transaction.approved = params.approved;
+      if (params.flag_color !== undefined) {
+        transaction.flag_color = params.flag_color as ynab.TransactionFlagColor;
+      }
+
+      const summary = {
+        kind,
+        from_account: { id: from.id, name: from.name, on_budget: from.on_budget },
+        to_account: { id: to.id, name: to.name, on_budget: to.on_budget },
+        amount: milliunitsToAmount(params.amount),
+        date: params.date,
+        category_id: categoryId ?? null,
+        entered_on_account_id: entryAccount.id,
+      };
+
+      if (params.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: responseFormatter.format({
+                dry_run: true,
+                action: 'create_transfer',
+                transfer: summary,
+                request: transaction,
+              }),
+            },
+          ],
+        };
+      }
+
+      const response = await ynabAPI.transactions.createTransaction(params.budget_id, {
+        transaction,
+      });
+      const created = response.data.transaction;
+      if (!created) {
+        throw new Error('Transfer creation failed');
+      }
+
+      invalidateTransactionCaches(
+        deltaCache,
+        knowledgeStore,
+        params.budget_id,
+        response.data.server_knowledge,
+        new Set([from.id, to.id]),
+        new Set([`${params.date.slice(0, 7)}-01`]),
+        { affectedCategoryIds: new Set(categoryId ? [categoryId] : []) },
+      );
+
+      const outflowId = enterFromDestination ? created.transfer_transaction_id : created.id;
+      const inflowId = enterFromDestination ? created.id : created.transfer_transaction_id;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              transfer: {
+                ...summary,
+                outflow_transaction_id: outflowId ?? null,
+                inflow_transaction_id: inflowId ?? null,
+                memo: created.memo,
+                cleared: created.cleared,
+                approved: created.approved,
+              },
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:create_transfer',
+    'creating transfer',
+  );
+}
+
+function collectTransferLegs(transactions: ynab.TransactionDetail[]): TransferLeg[] {
+  const legs: TransferLeg[] = [];
+  for (const transaction of transactions) {
+    if (transaction.transfer_account_id) {
+      legs.push({
+        id: transaction.id,
+        account_id: transaction.account_id,
+        date: transaction.date,
+        amount: transaction.amount,
+        memo: transaction.memo,
+        cleared: transaction.cleared,
+        approved: transaction.approved,
+        transfer_account_id: transaction.transfer_account_id,
+        transfer_transaction_id: transaction.transfer_transaction_id,
+      });
+    }
+    for (const subtransaction of transaction.subtransactions ?? []) {
+      if (subtransaction.deleted || !subtransaction.transfer_account_id) continue;
+      legs.push({
+        id: subtransaction.id,
+        parent_id: transaction.id,
+        account_id: transaction.account_id,
+        date: transaction.date,
+        amount: subtransaction.amount,
+        memo: subtransaction.memo,
+        cleared: transaction.cleared,
+        approved: transaction.approved,
+        transfer_account_id: subtransaction.transfer_account_id,
+        transfer_transaction_id: subtransaction.transfer_transaction_id,
+      });
+    }
+  }
+  return legs;
+}
+
+function orphanReason(leg: TransferLeg, counterpart: TransferLeg | undefined): OrphanReason | null {
+  if (!leg.transfer_transaction_id) return 'missing_counterpart';
+  if (!counterpart) return 'counterpart_not_found';
+  if (counterpart.account_id !== leg.transfer_account_id) return 'account_mismatch';
+  if (counterpart.amount !== -leg.amount) return 'amount_mismatch';
+  return null;
+}
+
+/**
+ * Handles the ynab:list_transfers tool call
+ * Pairs both sides of every transfer in the cached transaction snapshot and flags orphaned halves
+ */
+export async function handleListTransfers(
+  ynabAPI: ynab.API,
+  deltaFetcher: DeltaFetcher,
+  params: ListTransfersParams,
+): Promise<CallToolResult>;
+export async function handleListTransfers(
+  ynabAPI: ynab.API,
+  params: ListTransfersParams,
+): Promise<CallToolResult>;
+export async function handleListTransfers(
+  ynabAPI: ynab.API,
+  deltaFetcherOrParams: DeltaFetcher | ListTransfersParams,
+  maybeParams?: ListTransfersParams,
+): Promise<CallToolResult> {
+  const { deltaFetcher, params } = resolveDeltaFetcherArgs(
+    ynabAPI,
+    deltaFetcherOrParams,
+    maybeParams,
+  );
+  return await withToolErrorHandling(
+    async () => {
+      // The full snapshot is needed so a counterpart just outside the date window is still found
+      const [transactionsResult, accountsResult] = await Promise.all([
+        deltaFetcher.fetchTransactions(params.budget_id),
+        deltaFetcher.fetchAccounts(params.budget_id),
+      ]);
+      const accountNames = new Map(
+        accountsResult.data.map((account) => [account.id, account.name]),
+      );
+
+      const legs = collectTransferLegs(transactionsResult.data);
+      const legsById = new Map(legs.map((leg) => [leg.id, leg]));
+      const inWindow = (leg: TransferLeg) =>
+        (!params.since_date || leg.date >= params.since_date) &&
+        (!params.until_date || leg.date <= params.until_date) &&
+        (!params.account_id ||
+          leg.account_id === params.account_id ||
+          leg.transfer_account_id === params.account_id);
+
+      const describeLeg = (leg: TransferLeg) => ({
+        transaction_id: leg.id,
+        ...(leg.parent_id && { parent_transaction_id: leg.parent_id }),
+        account_id: leg.account_id,
+        account_name: accountNames.get(leg.account_id) ?? null,
+        date: leg.date,
+        amount: milliunitsToAmount(leg.amount),
+        memo: leg.memo ?? null,
+        cleared: leg.cleared,
+        approved: leg.approved,
+      });
+
+      const seen = new Set<string>();
+      let totalPairs = 0;
+      const entries: { id: string; date: string; pair?: object; orphan?: object }[] = [];
+      for (const leg of legs) {
+        if (seen.has(leg.id) || !inWindow(leg)) continue;
+        seen.add(leg.id);
+
+        const counterpart = leg.transfer_transaction_id
+          ? legsById.get(leg.transfer_transaction_id)
+          : undefined;
+        const reason = orphanReason(leg, counterpart);
+        if (reason) {
+          entries.push({
+            id: leg.id,
+            date: leg.date,
+            orphan: {
+              ...describeLeg(leg),
+              transfer_account_id: leg.transfer_account_id,
+              transfer_account_name: accountNames.get(leg.transfer_account_id) ?? null,
+              transfer_transaction_id: leg.transfer_transaction_id ?? null,
+              reason,
+            },
+          });
+          continue;
+        }
+
+        // orphanReason guarantees the counterpart exists and mirrors this leg
+        const other = counterpart as TransferLeg;
+        seen.add(other.id);
+        totalPairs += 1;
+        if (params.orphans_only) continue;
+        const [outflow, inflow] = leg.amount <= 0 ? [leg, other] : [other, leg];
+        entries.push({
+          id: outflow.id,
+          date: outflow.date,
+          pair: {
+            date: outflow.date,
+            amount: milliunitsToAmount(Math.abs(outflow.amount)),
+            from: describeLeg(outflow),
+            to: describeLeg(inflow),
+            ...(outflow.date !== inflow.date && { dates_differ: true }),
+          },
+        });
+      }
+
+      // Pairs and orphans are paged as one newest-first list, keyed by the outflow or orphan id
+      entries.sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id));
+      const { page, pagination } = paginate(
+        'list_transfers',
+        entries,
+        params,
+        transactionsResult.serverKnowledge,
+        (entry) => entry.id,
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseFormatter.format({
+              ...pagination,
+              total_pairs: totalPairs,
+              total_orphans: entries.filter((entry) => entry.orphan).length,
+              pairs: page.flatMap((entry) => entry.pair ?? []),
+              orphans: page.flatMap((entry) => entry.orphan ?? []),
+              cached: transactionsResult.wasCached,
+              cache_info: transactionsResult.wasCached
+                ? `Data retrieved from cache for improved performance${transactionsResult.usedDelta ? ' (delta merge applied)' : ''}`
+                : 'Fresh data retrieved from YNAB API',
+            }),
+          },
+        ],
+      };
+    },
+    'ynab:list_transfers',
+    'listing transfers',
+  );
+}
@@ -12,6 +12,19 @@ export interface ServerConfig {
   defaultBudgetId?: string;
 }
 
+export type TransportType = 'stdio' | 'http';
+
+export interface HttpTransportConfig {
+  host: string;
+  port: number;
+  authToken: string;
+}
+
+export interface TransportConfig {
+  type: TransportType;
+  http?: HttpTransportConfig;
+}
+
 export class AuthenticationError extends Error {
   constructor(message: string) {
     super(message);
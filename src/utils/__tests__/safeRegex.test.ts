@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { compileSafeRegex, findUnsafeRegexReason } from '../safeRegex.js';
+
+describe('safeRegex', () => {
+  describe('findUnsafeRegexReason', () => {
+    it('accepts ordinary payee and memo patterns', () => {
+      for (const pattern of [
+        'netflix',
+        '^(amzn|amazon)',
+        'order \\d+ (.*)',
+        '(?:uber|lyft)\\s+trip',
+        '[(+*]+ literal',
+        '(ab)+',
+        '(a+)?',
+        'x{2,5}(?<store>\\w+)',
+      ]) {
+        expect(findUnsafeRegexReason(pattern), pattern).toBeUndefined();
+      }
+    });
+
+    it('rejects nested quantifiers', () => {
+      for (const pattern of ['(a+)+$', '(a*)*', '((ab)+c)*', '(\\d{2,})+', '([a-z]+\\s?)+x']) {
+        expect(findUnsafeRegexReason(pattern), pattern).toContain('nested quantifiers');
+      }
+    });
+
+    it('rejects repeated alternations and backreferences', () => {
+      expect(findUnsafeRegexReason('(a|a)*b')).toContain('repeated alternations');
+      expect(findUnsafeRegexReason('(?:x|y){2,}')).toContain('repeated alternations');
+      expect(findUnsafeRegexReason('(\\w)\\1')).toContain('backreferences');
+      expect(findUnsafeRegexReason('(?<a>x)\\k<a>')).toContain('backreferences');
+    });
+  });
+
+  describe('compileSafeRegex', () => {
+    it('compiles safe patterns case-insensitively', () => {
+      expect(compileSafeRegex('^costco').test('COSTCO #123')).toBe(true);
+    });
+
+    it('throws for unsafe or invalid patterns', () => {
+      expect(() => compileSafeRegex('(a+)+')).toThrow('Unsupported pattern');
+      expect(() => compileSafeRegex('(unclosed')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Guards for client-supplied regular expressions
+ *
+ * Patterns from tool calls run over every transaction in a budget, and the HTTP transport shares
+ * one process between sessions, so a pattern that backtracks catastrophically would stall every
+ * client. Backreferences and repeated groups that themselves contain a quantifier or an
+ * alternation (the shapes behind exponential backtracking, e.g. `(a+)+` or `(a|a)*`) are rejected.
+ */
+
+interface GroupState {
+  hasQuantifier: boolean;
+  hasAlternation: boolean;
+}
+
+interface Quantifier {
+  /** Whether the quantifier can match its atom more than once */
+  repeats: boolean;
+  end: number;
+}
+
+function readQuantifier(pattern: string, index: number): Quantifier | undefined {
+  let end: number;
+  let repeats: boolean;
+  const char = pattern[index];
+  if (char === '*' || char === '+') {
+    repeats = true;
+    end = index + 1;
+  } else if (char === '?') {
+    repeats = false;
+    end = index + 1;
+  } else if (char === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    if (!match) return undefined;
+    const [text, min, comma, max] = match;
+    repeats = comma ? max === '' || Number(max) > 1 : Number(min) > 1;
+    end = index + text.length;
+  } else {
+    return undefined;
+  }
+  // Lazy modifier
+  if (pattern[end] === '?') end += 1;
+  return { repeats, end };
+}
+
+/**
+ * Explains why a pattern is unsafe to run, or returns undefined when it is acceptable
+ * @param pattern The regular expression source
+ */
+export function findUnsafeRegexReason(pattern: string): string | undefined {
+  const stack: GroupState[] = [{ hasQuantifier: false, hasAlternation: false }];
+  let index = 0;
+
+  const afterAtom = () => {
+    const quantifier = readQuantifier(pattern, index);
+    if (!quantifier) return;
+    if (quantifier.repeats) stack[stack.length - 1]!.hasQuantifier = true;
+    index = quantifier.end;
+  };
+
+  while (index < pattern.length) {
+    const char = pattern[index];
+    if (char === '\\') {
+      const next = pattern[index + 1] ?? '';
+      if (/[1-9]/.test(next) || next === 'k') {
+        return 'backreferences are not supported';
+      }
+      index += 2;
+      afterAtom();
+    } else if (char === '[') {
+      index += 1;
+      if (pattern[index] === '^') index += 1;
+      // A leading ] is a literal inside a character class
+      if (pattern[index] === ']') index += 1;
+      while (index < pattern.length && pattern[index] !== ']') {
+        index += pattern[index] === '\\' ? 2 : 1;
+      }
+      index += 1;
+      afterAtom();
+    } else if (char === '(') {
+      stack.push({ hasQuantifier: false, hasAlternation: false });
+      index += 1;
+      if (pattern[index] === '?') {
+        const prefix = /^\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/.exec(pattern.slice(index));
+        index += prefix ? prefix[0].length : 1;
+      }
+    } else if (char === ')') {
+      const group = stack.length > 1 ? stack.pop()! : stack[0]!;
+      const quantifier = readQuantifier(pattern, index + 1);
+      if (quantifier?.repeats && group.hasQuantifier) {
+        return 'nested quantifiers such as (a+)+ are not supported';
+      }
+      if (quantifier?.repeats && group.hasAlternation) {
+        return 'repeated alternations such as (a|b)+ are not supported';
+      }
+      const parent = stack[stack.length - 1]!;
+      parent.hasQuantifier ||= group.hasQuantifier || Boolean(quantifier?.repeats);
+      parent.hasAlternation ||= group.hasAlternation;
+      index = quantifier ? quantifier.end : index + 1;
+    } else if (char === '|') {
+      stack[stack.length - 1]!.hasAlternation = true;
+      index += 1;
+    } else {
+      index += 1;
+      afterAtom();
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Compiles a client-supplied pattern as a case-insensitive RegExp
+ * @param pattern The regular expression source
+ * @throws Error when the pattern is invalid or could backtrack catastrophically
+ */
+export function compileSafeRegex(pattern: string): RegExp {
+  const reason = findUnsafeRegexReason(pattern);
+  if (reason) {
+    throw new Error(`Unsupported pattern: ${reason}`);
+  }
+  return new RegExp(pattern, 'i');
+}